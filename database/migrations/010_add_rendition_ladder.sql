@@ -0,0 +1,12 @@
+-- Migration: Add adaptive bitrate ladder to channels
+-- Stores the rendition ladder (name, resolution, video/audio bitrate per rendition) as JSON.
+-- NULL or an empty array keeps the single-rendition output from video_bitrate/resolution.
+
+BEGIN;
+
+ALTER TABLE channels
+  ADD COLUMN IF NOT EXISTS renditions JSONB;
+
+COMMENT ON COLUMN channels.renditions IS 'Adaptive bitrate ladder: [{name, resolution?, videoBitrate?, audioBitrate}] (NULL = single rendition)';
+
+COMMIT;
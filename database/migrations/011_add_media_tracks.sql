@@ -0,0 +1,18 @@
+-- Migration: Add audio/subtitle track info and preferred language
+-- Media files record every audio and subtitle stream (language, codec, default flag)
+-- so channels can publish alternate audio and WebVTT subtitle renditions.
+
+BEGIN;
+
+ALTER TABLE media_files
+  ADD COLUMN IF NOT EXISTS audio_streams JSONB,
+  ADD COLUMN IF NOT EXISTS subtitle_streams JSONB;
+
+ALTER TABLE channels
+  ADD COLUMN IF NOT EXISTS preferred_language VARCHAR(8);
+
+COMMENT ON COLUMN media_files.audio_streams IS 'Audio streams: [{index, codec, language, title, default}] (index is relative to audio streams)';
+COMMENT ON COLUMN media_files.subtitle_streams IS 'Subtitle streams: [{index, codec, language, title, default}] (index is relative to subtitle streams)';
+COMMENT ON COLUMN channels.preferred_language IS 'ISO 639-2 language code used as the default audio/subtitle rendition (e.g. eng, jpn)';
+
+COMMIT;
@@ -0,0 +1,11 @@
+-- Migration: Add Low-Latency HLS opt-in to channels
+-- LL-HLS channels publish partial segments with blocking playlist reload
+
+BEGIN;
+
+ALTER TABLE channels
+  ADD COLUMN IF NOT EXISTS low_latency BOOLEAN DEFAULT false;
+
+COMMENT ON COLUMN channels.low_latency IS 'Publish Low-Latency HLS (EXT-X-PART, preload hints, blocking reload)';
+
+COMMIT;
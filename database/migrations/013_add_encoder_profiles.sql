@@ -0,0 +1,46 @@
+-- Migration: Add encoder profiles
+-- Named encoder settings (codec, preset, rate control, GOP, audio) selectable per channel.
+-- Channels without a profile keep the global FFmpeg preset with libx264/AAC.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS encoder_profiles (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(100) NOT NULL UNIQUE,
+    description TEXT,
+
+    -- Video
+    video_codec VARCHAR(20) NOT NULL DEFAULT 'libx264',
+    preset VARCHAR(20) NOT NULL DEFAULT 'fast',
+    rate_control VARCHAR(10) NOT NULL DEFAULT 'cbr',
+    crf INTEGER,
+    tune VARCHAR(20),
+    profile VARCHAR(20),
+    level VARCHAR(5),
+    gop_seconds REAL,
+
+    -- Audio
+    audio_codec VARCHAR(10) NOT NULL DEFAULT 'aac',
+    audio_sample_rate INTEGER NOT NULL DEFAULT 44100,
+
+    -- Metadata
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT valid_video_codec CHECK (video_codec IN ('libx264', 'libx265', 'libsvtav1')),
+    CONSTRAINT valid_rate_control CHECK (rate_control IN ('crf', 'cbr')),
+    CONSTRAINT valid_audio_codec CHECK (audio_codec IN ('aac', 'ac3', 'eac3'))
+);
+
+DROP TRIGGER IF EXISTS encoder_profiles_updated_at ON encoder_profiles;
+CREATE TRIGGER encoder_profiles_updated_at
+    BEFORE UPDATE ON encoder_profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE channels
+  ADD COLUMN IF NOT EXISTS profile_id UUID REFERENCES encoder_profiles(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN channels.profile_id IS 'Encoder profile (NULL = global FFmpeg preset with libx264/AAC)';
+
+COMMIT;
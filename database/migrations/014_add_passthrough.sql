@@ -0,0 +1,11 @@
+-- Migration: Add stream-copy passthrough mode to channels
+-- Files already matching the channel (codec, resolution, fps) are remuxed instead of re-encoded
+
+BEGIN;
+
+ALTER TABLE channels
+  ADD COLUMN IF NOT EXISTS passthrough BOOLEAN DEFAULT false;
+
+COMMENT ON COLUMN channels.passthrough IS 'Stream-copy (-c copy) files that already match the channel encode, transcode the rest';
+
+COMMIT;
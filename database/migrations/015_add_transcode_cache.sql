@@ -0,0 +1,44 @@
+-- Migration: Add pre-transcode cache
+-- Background jobs encode media to a channel's output settings ahead of playout.
+-- Finished renditions are content-addressed by media file + encoding parameters,
+-- so channels with identical settings share them.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS transcode_cache (
+    cache_key VARCHAR(64) PRIMARY KEY,
+    media_file_id UUID NOT NULL REFERENCES media_files(id) ON DELETE CASCADE,
+    path TEXT NOT NULL,
+    size_bytes BIGINT NOT NULL DEFAULT 0,
+    params JSONB NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    last_accessed_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_transcode_cache_media ON transcode_cache(media_file_id);
+CREATE INDEX IF NOT EXISTS idx_transcode_cache_lru ON transcode_cache(last_accessed_at);
+
+CREATE TABLE IF NOT EXISTS transcode_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    media_file_id UUID NOT NULL REFERENCES media_files(id) ON DELETE CASCADE,
+    channel_id UUID REFERENCES channels(id) ON DELETE SET NULL,
+    cache_key VARCHAR(64) NOT NULL,
+    params JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'queued',
+    progress REAL NOT NULL DEFAULT 0,
+    error TEXT,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    started_at TIMESTAMP,
+    completed_at TIMESTAMP,
+
+    CONSTRAINT valid_transcode_status CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled')),
+    CONSTRAINT valid_transcode_progress CHECK (progress >= 0 AND progress <= 100)
+);
+
+CREATE INDEX IF NOT EXISTS idx_transcode_jobs_status ON transcode_jobs(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_transcode_jobs_cache_key ON transcode_jobs(cache_key);
+
+COMMENT ON COLUMN transcode_cache.last_accessed_at IS 'Last playout use (LRU eviction order)';
+COMMENT ON COLUMN transcode_jobs.progress IS 'Encode progress in percent';
+
+COMMIT;
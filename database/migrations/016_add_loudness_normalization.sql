@@ -0,0 +1,19 @@
+-- Migration: Add loudness normalization
+-- Channels can normalize audio to an integrated loudness target (EBU R128) with a true-peak ceiling.
+-- Library scans can measure each file's loudness so playout applies exact per-file gain
+-- instead of realtime loudnorm.
+
+BEGIN;
+
+ALTER TABLE channels
+  ADD COLUMN IF NOT EXISTS loudness_target REAL,
+  ADD COLUMN IF NOT EXISTS true_peak_ceiling REAL;
+
+ALTER TABLE media_files
+  ADD COLUMN IF NOT EXISTS loudness JSONB;
+
+COMMENT ON COLUMN channels.loudness_target IS 'Integrated loudness target in LUFS (NULL = no normalization)';
+COMMENT ON COLUMN channels.true_peak_ceiling IS 'True-peak ceiling in dBTP for normalized audio (NULL = -1)';
+COMMENT ON COLUMN media_files.loudness IS 'EBU R128 measurement: {streamIndex, integrated, truePeak, lra, threshold} (NULL = not measured)';
+
+COMMIT;
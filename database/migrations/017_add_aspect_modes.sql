@@ -0,0 +1,18 @@
+-- Migration: Add aspect-ratio modes and black-bar cropping
+-- Channels pick how sources with a different aspect ratio fill the frame (letterbox, blurred
+-- background, center crop, stretch) and can crop black bars found by the library scan.
+
+BEGIN;
+
+ALTER TABLE channels
+  ADD COLUMN IF NOT EXISTS aspect_mode VARCHAR(20),
+  ADD COLUMN IF NOT EXISTS auto_crop BOOLEAN DEFAULT false;
+
+ALTER TABLE media_files
+  ADD COLUMN IF NOT EXISTS crop JSONB;
+
+COMMENT ON COLUMN channels.aspect_mode IS 'letterbox, blur, crop or stretch (NULL = letterbox)';
+COMMENT ON COLUMN channels.auto_crop IS 'Crop black bars detected at scan time before scaling';
+COMMENT ON COLUMN media_files.crop IS 'Picture area inside black bars: {width, height, x, y} (full frame = no bars, NULL = not scanned)';
+
+COMMIT;
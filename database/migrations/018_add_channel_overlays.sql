@@ -0,0 +1,51 @@
+-- Migration: Add channel overlay layers
+-- Channels composite a stack of graphics layers over the video: images (logos), a clock,
+-- a scrolling ticker with API-updatable text and an EPG-driven now/next lower-third.
+-- Each layer can be limited to a daily time window and/or a periodic show/hide cycle.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS channel_overlays (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    channel_id UUID NOT NULL REFERENCES channels(id) ON DELETE CASCADE,
+    type VARCHAR(20) NOT NULL,
+    name VARCHAR(100),
+    enabled BOOLEAN NOT NULL DEFAULT true,
+    z_index INTEGER NOT NULL DEFAULT 0,
+
+    -- Placement
+    position VARCHAR(20) NOT NULL DEFAULT 'top-left',
+    offset_x INTEGER NOT NULL DEFAULT 10,
+    offset_y INTEGER NOT NULL DEFAULT 10,
+    opacity REAL NOT NULL DEFAULT 1,
+
+    -- Content
+    image_base64 TEXT,
+    settings JSONB NOT NULL DEFAULT '{}'::jsonb,
+    schedule JSONB,
+
+    -- Metadata
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT valid_overlay_type CHECK (type IN ('image', 'clock', 'ticker', 'now_next')),
+    CONSTRAINT valid_overlay_position CHECK (
+        position IN ('top-left', 'top-right', 'bottom-left', 'bottom-right', 'center', 'top', 'bottom')
+    ),
+    CONSTRAINT valid_overlay_opacity CHECK (opacity >= 0 AND opacity <= 1)
+);
+
+CREATE INDEX IF NOT EXISTS idx_channel_overlays_channel ON channel_overlays(channel_id, z_index);
+
+DROP TRIGGER IF EXISTS channel_overlays_updated_at ON channel_overlays;
+CREATE TRIGGER channel_overlays_updated_at
+    BEFORE UPDATE ON channel_overlays
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at();
+
+COMMENT ON TABLE channel_overlays IS 'Graphics layers composited over a channel (applied on next stream start)';
+COMMENT ON COLUMN channel_overlays.z_index IS 'Stacking order, higher layers are drawn on top';
+COMMENT ON COLUMN channel_overlays.settings IS 'Type-specific settings: text, clockFormat, fontSize, fontColor, backgroundColor, scrollSpeed, imageWidth';
+COMMENT ON COLUMN channel_overlays.schedule IS 'Visibility: {startTime, endTime} daily window (HH:MM) and/or {intervalSeconds, visibleSeconds} cycle (NULL = always)';
+
+COMMIT;
@@ -0,0 +1,31 @@
+-- Migration: Add viewer sessions
+-- Each player gets a signed session ID from the master playlist, carried in variant and
+-- segment URLs. Viewer sessions are stored in playback_sessions (session_type 'viewer')
+-- so they survive restarts, and what each viewer watched is recorded in viewing_history.
+
+BEGIN;
+
+ALTER TABLE playback_sessions
+  ADD COLUMN IF NOT EXISTS viewer_id VARCHAR(64),
+  ADD COLUMN IF NOT EXISTS client_ip VARCHAR(45),
+  ADD COLUMN IF NOT EXISTS user_agent TEXT,
+  ADD COLUMN IF NOT EXISTS bytes_served BIGINT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS segments_served INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS last_segment VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMP;
+
+ALTER TABLE playback_sessions DROP CONSTRAINT IF EXISTS valid_session_type;
+ALTER TABLE playback_sessions ADD CONSTRAINT valid_session_type
+  CHECK (session_type IN ('started', 'resumed', 'viewer_reconnect', 'manual', 'viewer'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_playback_sessions_viewer_id
+  ON playback_sessions(viewer_id) WHERE viewer_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_playback_sessions_active_viewers
+  ON playback_sessions(channel_id) WHERE session_type = 'viewer' AND session_end IS NULL;
+
+COMMENT ON COLUMN playback_sessions.viewer_id IS 'Viewer session ID issued with the master playlist (viewer sessions only)';
+COMMENT ON COLUMN playback_sessions.bytes_served IS 'Segment bytes served to the viewer';
+COMMENT ON COLUMN playback_sessions.last_segment IS 'Last segment requested by the viewer (variant/segment)';
+COMMENT ON COLUMN playback_sessions.last_seen_at IS 'Time of the viewer''s last playlist or segment request';
+
+COMMIT;
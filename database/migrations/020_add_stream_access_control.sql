@@ -0,0 +1,36 @@
+-- Migration: Add stream access control
+-- Channels can require signed, expiring stream URLs. Admins mint viewer tokens for IPTV apps
+-- (no cookies): /playlist.m3u and the master playlist accept a token and hand out signed URLs.
+-- Tokens can be limited to channels, expire, and be revoked.
+
+BEGIN;
+
+ALTER TABLE channels
+  ADD COLUMN IF NOT EXISTS signed_urls BOOLEAN DEFAULT false;
+
+COMMENT ON COLUMN channels.signed_urls IS 'Require signed, expiring stream URLs';
+
+CREATE TABLE IF NOT EXISTS viewer_tokens (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(100) NOT NULL,
+    token_hash VARCHAR(64) NOT NULL UNIQUE,
+    channel_ids UUID[],
+    expires_at TIMESTAMP,
+    revoked_at TIMESTAMP,
+    last_used_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS viewer_tokens_updated_at ON viewer_tokens;
+CREATE TRIGGER viewer_tokens_updated_at
+    BEFORE UPDATE ON viewer_tokens
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at();
+
+COMMENT ON TABLE viewer_tokens IS 'Long-lived playback tokens for IPTV apps (only the SHA-256 of each token is stored)';
+COMMENT ON COLUMN viewer_tokens.channel_ids IS 'Channels the token may watch (NULL = all channels)';
+COMMENT ON COLUMN viewer_tokens.expires_at IS 'Token expiry (NULL = never)';
+COMMENT ON COLUMN viewer_tokens.revoked_at IS 'Set when an admin revokes the token';
+
+COMMIT;
@@ -0,0 +1,27 @@
+-- Migration: Add viewer watch time
+-- Segment requests are collected into per-minute watch time for each viewer and media file.
+-- A periodic rollup turns them into hourly and daily rows in viewer_analytics: one row per
+-- media file and one channel total (media_file_id NULL) that also carries peak concurrency.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS viewer_watch_time (
+    minute TIMESTAMP NOT NULL,
+    channel_id UUID NOT NULL REFERENCES channels(id) ON DELETE CASCADE,
+    media_file_id UUID NOT NULL REFERENCES media_files(id) ON DELETE CASCADE,
+    viewer_id VARCHAR(64) NOT NULL,
+    watch_seconds DOUBLE PRECISION NOT NULL DEFAULT 0,
+
+    PRIMARY KEY (minute, channel_id, media_file_id, viewer_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_viewer_watch_time_channel ON viewer_watch_time(channel_id, minute);
+
+ALTER TABLE viewer_analytics
+  ADD COLUMN IF NOT EXISTS peak_concurrent INTEGER DEFAULT 0;
+
+COMMENT ON TABLE viewer_watch_time IS 'Seconds of segments served per viewer session, media file and minute (kept for ANALYTICS_RETENTION_DAYS)';
+COMMENT ON COLUMN viewer_watch_time.viewer_id IS 'Viewer session ID (playback_sessions.viewer_id)';
+COMMENT ON COLUMN viewer_analytics.peak_concurrent IS 'Most viewers watching in one minute of the period (channel totals only)';
+
+COMMIT;
@@ -0,0 +1,52 @@
+-- Migration: Add webhooks
+-- Outbound webhook subscriptions to event bus topics (channel errors, program starts, library
+-- scans). Deliveries are HMAC-signed with the webhook's secret, retried with exponential backoff
+-- and logged with the last response code.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS webhooks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(100) NOT NULL,
+    url TEXT NOT NULL,
+    secret VARCHAR(255) NOT NULL,
+    events TEXT[] NOT NULL,
+    enabled BOOLEAN NOT NULL DEFAULT true,
+    last_delivery_at TIMESTAMP,
+    last_status_code INTEGER,
+    last_error TEXT,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS webhooks_updated_at ON webhooks;
+CREATE TRIGGER webhooks_updated_at
+    BEFORE UPDATE ON webhooks
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at();
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    webhook_id UUID NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+    event VARCHAR(50) NOT NULL,
+    payload JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    response_code INTEGER,
+    error TEXT,
+    next_attempt_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    delivered_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_pending ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+
+COMMENT ON TABLE webhooks IS 'Outbound webhook subscriptions';
+COMMENT ON COLUMN webhooks.secret IS 'HMAC-SHA256 key signing each delivery (X-Webhook-Signature)';
+COMMENT ON COLUMN webhooks.events IS 'Event topics, prefixes (channel.*) or *';
+COMMENT ON COLUMN webhooks.last_status_code IS 'HTTP status of the last delivery attempt (NULL when it got no response)';
+COMMENT ON TABLE webhook_deliveries IS 'Delivery log (kept for 14 days)';
+COMMENT ON COLUMN webhook_deliveries.next_attempt_at IS 'When a pending delivery is retried';
+
+COMMIT;
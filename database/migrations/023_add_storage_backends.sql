@@ -0,0 +1,16 @@
+-- Migration: Add segment storage backends
+-- Channels write their HLS output to local disk (default), a tmpfs directory, or publish it
+-- to an S3-compatible bucket served through a CDN (playlists point segments at CDN_BASE_URL).
+
+BEGIN;
+
+ALTER TABLE channels
+  ADD COLUMN IF NOT EXISTS storage_backend VARCHAR(10) NOT NULL DEFAULT 'local';
+
+ALTER TABLE channels DROP CONSTRAINT IF EXISTS valid_storage_backend;
+ALTER TABLE channels ADD CONSTRAINT valid_storage_backend
+  CHECK (storage_backend IN ('local', 'tmpfs', 's3'));
+
+COMMENT ON COLUMN channels.storage_backend IS 'local, tmpfs (output_dir under TMPFS_OUTPUT_DIR) or s3 (published to S3_BUCKET)';
+
+COMMIT;
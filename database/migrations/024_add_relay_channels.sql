@@ -0,0 +1,12 @@
+-- Migration: Add relay channels
+-- A relay channel mirrors another HLS server's playlist and segments (e.g. a channel on another
+-- instance) instead of encoding its own buckets; the buckets play while the source is unreachable.
+
+BEGIN;
+
+ALTER TABLE channels
+  ADD COLUMN IF NOT EXISTS relay_url TEXT;
+
+COMMENT ON COLUMN channels.relay_url IS 'HLS playlist mirrored by the channel (NULL = regular channel encoding its buckets)';
+
+COMMIT;
@@ -0,0 +1,16 @@
+-- Migration: Add live inputs
+-- Channels and schedule blocks can take an external live source (HLS/RTMP/SRT/UDP URL) that
+-- FFmpeg re-encodes to the channel's profile; the channel's buckets play while the source is down.
+
+BEGIN;
+
+ALTER TABLE channels
+  ADD COLUMN IF NOT EXISTS live_input_url TEXT;
+
+ALTER TABLE schedule_blocks
+  ADD COLUMN IF NOT EXISTS live_input_url TEXT;
+
+COMMENT ON COLUMN channels.live_input_url IS 'Live source re-encoded by the channel (NULL = play the buckets)';
+COMMENT ON COLUMN schedule_blocks.live_input_url IS 'Live source played during the block instead of its bucket (NULL = play the bucket)';
+
+COMMIT;
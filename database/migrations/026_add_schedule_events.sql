@@ -0,0 +1,25 @@
+-- Migration: Add one-off schedule events
+-- The schedules table (absolute start/end times) becomes the channel's special events: a
+-- holiday marathon from a bucket, a movie premiere or a live broadcast on a specific date.
+-- While an event runs it overrides the recurring schedule blocks.
+
+BEGIN;
+
+ALTER TABLE schedules
+  ADD COLUMN IF NOT EXISTS bucket_id UUID REFERENCES media_buckets(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS playback_mode VARCHAR(20) NOT NULL DEFAULT 'sequential',
+  ADD COLUMN IF NOT EXISTS live_input_url TEXT,
+  ADD COLUMN IF NOT EXISTS enabled BOOLEAN NOT NULL DEFAULT TRUE;
+
+ALTER TABLE schedules DROP CONSTRAINT IF EXISTS valid_event_playback_mode;
+ALTER TABLE schedules ADD CONSTRAINT valid_event_playback_mode
+  CHECK (playback_mode IN ('sequential', 'random', 'shuffle'));
+
+CREATE INDEX IF NOT EXISTS idx_schedules_enabled ON schedules(channel_id, enabled);
+
+COMMENT ON TABLE schedules IS 'One-off schedule events (date ranges that override the recurring schedule blocks)';
+COMMENT ON COLUMN schedules.media_file_id IS 'File the event opens with (e.g. a premiere); the bucket fills the rest of the event';
+COMMENT ON COLUMN schedules.bucket_id IS 'Bucket played during the event';
+COMMENT ON COLUMN schedules.live_input_url IS 'Live source played during the event (media file and bucket are the fallback)';
+
+COMMIT;
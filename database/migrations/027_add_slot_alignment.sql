@@ -0,0 +1,24 @@
+-- Migration: Add fixed-time program slots to schedule blocks
+-- A slot-aligned block pins program starts to the block start ('block') or to every :00/:30
+-- ('half_hour') and fills the gaps from a filler bucket, with generated bumpers or with a slate.
+
+BEGIN;
+
+ALTER TABLE schedule_blocks
+  ADD COLUMN IF NOT EXISTS slot_alignment VARCHAR(20) NOT NULL DEFAULT 'none',
+  ADD COLUMN IF NOT EXISTS filler_mode VARCHAR(20) NOT NULL DEFAULT 'slate',
+  ADD COLUMN IF NOT EXISTS filler_bucket_id UUID REFERENCES media_buckets(id) ON DELETE SET NULL;
+
+ALTER TABLE schedule_blocks DROP CONSTRAINT IF EXISTS valid_slot_alignment;
+ALTER TABLE schedule_blocks ADD CONSTRAINT valid_slot_alignment
+  CHECK (slot_alignment IN ('none', 'block', 'half_hour'));
+
+ALTER TABLE schedule_blocks DROP CONSTRAINT IF EXISTS valid_filler_mode;
+ALTER TABLE schedule_blocks ADD CONSTRAINT valid_filler_mode
+  CHECK (filler_mode IN ('slate', 'bucket', 'bumper'));
+
+COMMENT ON COLUMN schedule_blocks.slot_alignment IS 'Program start pinning: none (back to back), block (first program at the block start), half_hour (every :00/:30)';
+COMMENT ON COLUMN schedule_blocks.filler_mode IS 'What fills the gaps before slots: slate, bucket (filler_bucket_id) or bumper (generated "Up Next")';
+COMMENT ON COLUMN schedule_blocks.filler_bucket_id IS 'Bucket with filler content (promos, shorts) for filler_mode bucket';
+
+COMMIT;
@@ -0,0 +1,25 @@
+-- Migration: Put content rules to use
+-- content_rules (created in 001 but unused until now) are applied to every resolved playlist:
+-- rating windows, repeat and back-to-back limits, runtime limits. Rules can be scoped to a
+-- channel. Media files get a content rating for rating windows.
+
+BEGIN;
+
+ALTER TABLE content_rules
+  ADD COLUMN IF NOT EXISTS channel_id UUID REFERENCES channels(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_content_rules_channel ON content_rules(channel_id);
+
+ALTER TABLE content_rules DROP CONSTRAINT IF EXISTS valid_rule_type;
+ALTER TABLE content_rules ADD CONSTRAINT valid_rule_type
+  CHECK (rule_type IN ('rating_window', 'no_repeat', 'max_consecutive', 'duration'));
+
+ALTER TABLE media_files
+  ADD COLUMN IF NOT EXISTS content_rating VARCHAR(20);
+
+COMMENT ON COLUMN content_rules.channel_id IS 'Channel the rule applies to (NULL = all channels)';
+COMMENT ON COLUMN content_rules.conditions IS 'Rule parameters: rating_window {ratings, startTime, endTime}, no_repeat {hours, scope}, max_consecutive {count}, duration {minSeconds, maxSeconds}';
+COMMENT ON COLUMN content_rules.actions IS 'What happens to media breaking the rule: {action: exclude | defer}';
+COMMENT ON COLUMN media_files.content_rating IS 'Content rating such as TV-14 or R (container tag or set through the API, NULL = unrated)';
+
+COMMIT;
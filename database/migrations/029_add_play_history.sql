@@ -0,0 +1,42 @@
+-- Migration: Add play history and weighted playback
+-- Channels record every file they start playing. Shuffle, random and weighted blocks consult
+-- the history so media played within a no-repeat window (hours and/or last N plays) goes to the
+-- back of the playlist. Weighted blocks order media by bucket weights, optionally boosting
+-- media recently added to the bucket.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS channel_play_history (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    channel_id UUID NOT NULL REFERENCES channels(id) ON DELETE CASCADE,
+    media_file_id UUID NOT NULL REFERENCES media_files(id) ON DELETE CASCADE,
+    played_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_channel_play_history_channel ON channel_play_history(channel_id, played_at DESC);
+CREATE INDEX IF NOT EXISTS idx_channel_play_history_played_at ON channel_play_history(played_at);
+
+ALTER TABLE schedule_blocks
+  ADD COLUMN IF NOT EXISTS no_repeat_hours REAL,
+  ADD COLUMN IF NOT EXISTS no_repeat_items INTEGER,
+  ADD COLUMN IF NOT EXISTS recency_boost_days INTEGER,
+  ADD COLUMN IF NOT EXISTS recency_boost REAL;
+
+ALTER TABLE schedule_blocks DROP CONSTRAINT IF EXISTS valid_playback_mode;
+ALTER TABLE schedule_blocks ADD CONSTRAINT valid_playback_mode
+  CHECK (playback_mode IN ('sequential', 'random', 'shuffle', 'weighted'));
+
+ALTER TABLE bucket_media
+  ADD COLUMN IF NOT EXISTS weight REAL NOT NULL DEFAULT 1;
+
+ALTER TABLE bucket_media DROP CONSTRAINT IF EXISTS valid_media_weight;
+ALTER TABLE bucket_media ADD CONSTRAINT valid_media_weight CHECK (weight > 0);
+
+COMMENT ON TABLE channel_play_history IS 'Files channels started playing (consulted by shuffle, random and weighted blocks)';
+COMMENT ON COLUMN schedule_blocks.no_repeat_hours IS 'Media played this many hours before the block starts plays after the rest (NULL = off)';
+COMMENT ON COLUMN schedule_blocks.no_repeat_items IS 'Media among the last N plays before the block starts plays after the rest (NULL = off)';
+COMMENT ON COLUMN schedule_blocks.recency_boost_days IS 'Weighted mode: media added to the bucket within this many days gets recency_boost';
+COMMENT ON COLUMN schedule_blocks.recency_boost IS 'Weighted mode: weight multiplier for recently added media';
+COMMENT ON COLUMN bucket_media.weight IS 'Relative weight in weighted playback (default 1)';
+
+COMMIT;
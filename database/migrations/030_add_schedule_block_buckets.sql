@@ -0,0 +1,34 @@
+-- Migration: Add multi-bucket schedule blocks
+-- A block can draw from several buckets mixed by a strategy: round_robin (one file from each
+-- bucket in turn), weighted (slots in proportion to the bucket weights) or sequence (every file
+-- of the first bucket followed by the next file of each other bucket). schedule_blocks.bucket_id
+-- stays set to the first bucket, so single-bucket readers keep working.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS schedule_block_buckets (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    block_id UUID NOT NULL REFERENCES schedule_blocks(id) ON DELETE CASCADE,
+    bucket_id UUID NOT NULL REFERENCES media_buckets(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL DEFAULT 0,
+    weight REAL NOT NULL DEFAULT 1,
+
+    UNIQUE(block_id, bucket_id),
+    CONSTRAINT valid_block_bucket_weight CHECK (weight > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedule_block_buckets_block ON schedule_block_buckets(block_id, position);
+CREATE INDEX IF NOT EXISTS idx_schedule_block_buckets_bucket ON schedule_block_buckets(bucket_id);
+
+ALTER TABLE schedule_blocks
+  ADD COLUMN IF NOT EXISTS bucket_strategy VARCHAR(20) NOT NULL DEFAULT 'round_robin';
+
+ALTER TABLE schedule_blocks DROP CONSTRAINT IF EXISTS valid_bucket_strategy;
+ALTER TABLE schedule_blocks ADD CONSTRAINT valid_bucket_strategy
+  CHECK (bucket_strategy IN ('round_robin', 'weighted', 'sequence'));
+
+COMMENT ON TABLE schedule_block_buckets IS 'Buckets of multi-bucket schedule blocks (in position order)';
+COMMENT ON COLUMN schedule_block_buckets.weight IS 'Share of the slots for bucket_strategy weighted (relative, default 1)';
+COMMENT ON COLUMN schedule_blocks.bucket_strategy IS 'How the buckets of a multi-bucket block are mixed: round_robin, weighted or sequence';
+
+COMMIT;
@@ -0,0 +1,10 @@
+-- Migration: Allow weighted playback in schedule events
+-- Events take the same playback modes as schedule blocks (weighted was added to blocks in 029).
+
+BEGIN;
+
+ALTER TABLE schedules DROP CONSTRAINT IF EXISTS valid_event_playback_mode;
+ALTER TABLE schedules ADD CONSTRAINT valid_event_playback_mode
+  CHECK (playback_mode IN ('sequential', 'random', 'shuffle', 'weighted'));
+
+COMMIT;
@@ -376,16 +376,44 @@ const tools: Tool[] = [
         },
         startTime: { type: 'string', description: 'Start time in HH:MM:SS format (24hr)' },
         endTime: { type: 'string', description: 'End time in HH:MM:SS format (24hr)' },
-        bucketId: { type: 'string', description: 'UUID of bucket to use for this block' },
+        bucketId: { type: 'string', description: 'UUID of bucket to use for this block (or use buckets)' },
+        buckets: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              bucketId: { type: 'string', description: 'UUID of the bucket' },
+              weight: { type: 'number', description: 'Share of the slots for bucketStrategy weighted (default 1)' },
+            },
+            required: ['bucketId'],
+          },
+          description: 'Several buckets to mix instead of bucketId, in order (e.g. shows, then music videos)',
+        },
+        bucketStrategy: {
+          type: 'string',
+          enum: ['round_robin', 'weighted', 'sequence'],
+          description:
+            'How buckets are mixed: round_robin (one from each in turn), weighted (slots by weight), sequence (each file of the first bucket followed by one of each other bucket)',
+        },
         playbackMode: {
           type: 'string',
-          enum: ['sequential', 'random', 'shuffle'],
-          description: 'How to play media from bucket',
+          enum: ['sequential', 'random', 'shuffle', 'weighted'],
+          description: 'How to play media from bucket (weighted orders by bucket media weights)',
         },
+        noRepeatHours: {
+          type: 'number',
+          description: 'Shuffle/random/weighted: media played within this many hours before the block plays after the rest',
+        },
+        noRepeatItems: {
+          type: 'number',
+          description: 'Shuffle/random/weighted: media among the last N plays before the block plays after the rest',
+        },
+        recencyBoostDays: { type: 'number', description: 'Weighted: boost media added to the bucket within this many days' },
+        recencyBoost: { type: 'number', description: 'Weighted: weight multiplier for recently added media (e.g. 3)' },
         priority: { type: 'number', description: 'Priority for overlapping blocks (higher = more important)' },
         enabled: { type: 'boolean', description: 'Enable this block (default: true)' },
       },
-      required: ['channelId', 'name', 'startTime', 'endTime', 'bucketId', 'playbackMode', 'priority'],
+      required: ['channelId', 'name', 'startTime', 'endTime', 'playbackMode', 'priority'],
     },
   },
   {
@@ -401,7 +429,20 @@ const tools: Tool[] = [
         startTime: { type: 'string' },
         endTime: { type: 'string' },
         bucketId: { type: 'string' },
-        playbackMode: { type: 'string', enum: ['sequential', 'random', 'shuffle'] },
+        buckets: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { bucketId: { type: 'string' }, weight: { type: 'number' } },
+            required: ['bucketId'],
+          },
+        },
+        bucketStrategy: { type: 'string', enum: ['round_robin', 'weighted', 'sequence'] },
+        playbackMode: { type: 'string', enum: ['sequential', 'random', 'shuffle', 'weighted'] },
+        noRepeatHours: { type: 'number' },
+        noRepeatItems: { type: 'number' },
+        recencyBoostDays: { type: 'number' },
+        recencyBoost: { type: 'number' },
         priority: { type: 'number' },
         enabled: { type: 'boolean' },
       },
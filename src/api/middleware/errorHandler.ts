@@ -41,6 +41,7 @@ export const errorHandler = (
       // Security: Sanitize error message to remove filesystem paths
       const sanitizedMessage = sanitizeErrorMessage(err.message, [
         config.paths.hlsOutput,
+        config.storage.tmpfsDir,
         config.paths.temp,
         ...config.paths.media,
       ]);
@@ -74,6 +75,7 @@ export const errorHandler = (
     const sanitizedMessage = isDevelopment
       ? sanitizeErrorMessage(err.message, [
           config.paths.hlsOutput,
+          config.storage.tmpfsDir,
           config.paths.temp,
           ...config.paths.media,
         ])
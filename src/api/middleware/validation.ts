@@ -0,0 +1,20 @@
+import { Response } from 'express';
+import { z } from 'zod';
+
+/**
+ * Respond 400 with zod issue details (same shape as the channel routes)
+ */
+export function sendValidationError(res: Response, error: z.ZodError): void {
+  res.status(400).json({
+    success: false,
+    error: {
+      code: 'VALIDATION_ERROR',
+      message: 'Validation failed',
+      details: error.errors.map((e) => ({
+        path: e.path,
+        message: e.message,
+        code: e.code,
+      })),
+    },
+  });
+}
@@ -0,0 +1,67 @@
+import request from 'supertest';
+import express from 'express';
+import { createMetricsRoutes } from '../metrics';
+import { ChannelService } from '../../../services/channel/ChannelService';
+import { EPGService } from '../../../services/epg/EPGService';
+import { ViewerSessionService } from '../../../services/viewer/ViewerSessionService';
+import { SegmentCache } from '../../../infrastructure/storage/SegmentCache';
+import { errorHandler } from '../../middleware/errorHandler';
+
+jest.mock('../../../utils/logger', () => ({
+  createLogger: jest.fn().mockReturnValue({
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }),
+  logError: jest.fn(),
+}));
+jest.mock('../../../config/env', () => ({
+  config: {
+    security: {
+      requireAuth: true,
+      apiKey: 'test-api-key',
+    },
+    paths: {
+      hlsOutput: '/tmp/hls',
+      temp: '/tmp',
+      media: [],
+    },
+    storage: {
+      tmpfsDir: '/dev/shm',
+    },
+  },
+}));
+
+describe('Metrics routes', () => {
+  const epgStats = { entries: 1, hits: 0, misses: 0 };
+  const segmentStats = { bytes: 0, hits: 0, misses: 0 };
+
+  // The metrics router and registry are module-level, so build the app once
+  const app = express();
+  app.use(
+    createMetricsRoutes(
+      { getAllChannels: () => [] } as unknown as ChannelService,
+      {} as ViewerSessionService,
+      { getCacheStats: () => epgStats } as unknown as EPGService,
+      { getStats: () => segmentStats } as unknown as SegmentCache
+    )
+  );
+  app.use(errorHandler);
+
+  const scrape = () => request(app).get('/metrics').set('X-API-Key', 'test-api-key');
+
+  it('should grow the cache counters by the requests since the last scrape', async () => {
+    epgStats.hits = 5;
+    epgStats.misses = 2;
+    await scrape();
+
+    epgStats.hits = 8;
+    const response = await scrape();
+
+    expect(response.status).toBe(200);
+    expect(response.text).toContain('# TYPE hls_epg_cache_requests_total counter');
+    expect(response.text).toContain('hls_epg_cache_requests_total{result="hit"} 8');
+    expect(response.text).toContain('hls_epg_cache_requests_total{result="miss"} 2');
+  });
+});
@@ -0,0 +1,102 @@
+import request from 'supertest';
+import express from 'express';
+import { createScheduleRoutes } from '../schedules';
+import { Database } from '../../../infrastructure/database/Database';
+import { MediaFileRepository, MediaFileRow } from '../../../infrastructure/database/repositories/MediaFileRepository';
+import { MediaBucketRepository } from '../../../infrastructure/database/repositories/MediaBucketRepository';
+import { ChannelService } from '../../../services/channel/ChannelService';
+import { errorHandler } from '../../middleware/errorHandler';
+
+jest.mock('../../../infrastructure/database/Database');
+jest.mock('../../../utils/logger', () => ({
+  createLogger: jest.fn().mockReturnValue({
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }),
+  logError: jest.fn(),
+}));
+jest.mock('../../../config/env', () => ({
+  config: {
+    security: {
+      requireAuth: false,
+    },
+    paths: {
+      hlsOutput: '/tmp/hls',
+      temp: '/tmp',
+      media: [],
+    },
+    storage: {
+      tmpfsDir: '/dev/shm',
+    },
+  },
+}));
+
+describe('Schedule event routes', () => {
+  const mediaFileId = '11111111-1111-4111-8111-111111111111';
+  const query = Database.query as jest.Mock;
+  const findMediaFile = jest.spyOn(MediaFileRepository.prototype, 'findById');
+  jest.spyOn(MediaBucketRepository.prototype, 'findById').mockResolvedValue(null);
+
+  const channelService = {
+    invalidateChannelMediaCache: jest.fn(),
+    invalidateEPGCache: jest.fn().mockResolvedValue(undefined),
+  };
+
+  // The schedule router is module-level, so build the app once
+  const app = express();
+  app.use(express.json());
+  app.use('/api/schedules', createScheduleRoutes(undefined, channelService as unknown as ChannelService));
+  app.use(errorHandler);
+
+  const post = (body: Record<string, unknown>) =>
+    request(app).post('/api/schedules/channels/channel-1/events').send({ title: 'Premiere', ...body });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    findMediaFile.mockResolvedValue({ id: mediaFileId } as MediaFileRow);
+  });
+
+  it('should create an event and refresh the channel', async () => {
+    query.mockResolvedValueOnce({
+      rows: [{ id: 'event-1', channel_id: 'channel-1', title: 'Premiere', media_file_id: mediaFileId, bucket_id: null }],
+    });
+
+    const response = await post({
+      startTime: '2026-01-05T20:00:00Z',
+      endTime: '2026-01-05T22:00:00Z',
+      mediaFileId,
+      playbackMode: 'weighted',
+    });
+
+    expect(response.status).toBe(201);
+    expect(response.body.data).toMatchObject({ id: 'event-1', mediaFileId });
+    expect(query.mock.calls[0][1]).toContain('weighted');
+    expect(channelService.invalidateChannelMediaCache).toHaveBeenCalledWith('channel-1');
+  });
+
+  it('should reject an event that ends before it starts', async () => {
+    const response = await post({ startTime: '2026-01-05T22:00:00Z', endTime: '2026-01-05T20:00:00Z', mediaFileId });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it('should reject an event with nothing to play', async () => {
+    const response = await post({ startTime: '2026-01-05T20:00:00Z', endTime: '2026-01-05T22:00:00Z' });
+
+    expect(response.status).toBe(400);
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it('should reject an event opening with an unknown media file', async () => {
+    findMediaFile.mockResolvedValue(null);
+
+    const response = await post({ startTime: '2026-01-05T20:00:00Z', endTime: '2026-01-05T22:00:00Z', mediaFileId });
+
+    expect(response.status).toBe(404);
+    expect(query).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,171 @@
+import request from 'supertest';
+import express from 'express';
+import { createStreamingRoutes } from '../streaming';
+import { ChannelService } from '../../../services/channel/ChannelService';
+import { ViewerSessionService } from '../../../services/viewer/ViewerSessionService';
+import { StreamAccessService } from '../../../services/access/StreamAccessService';
+import { AnalyticsCollector } from '../../../services/analytics/AnalyticsCollector';
+import { SegmentCache } from '../../../infrastructure/storage/SegmentCache';
+import { ValidationError } from '../../../utils/errors';
+import { errorHandler } from '../../middleware/errorHandler';
+
+jest.mock('../../../utils/logger', () => ({
+  createLogger: jest.fn().mockReturnValue({
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }),
+  logError: jest.fn(),
+}));
+jest.mock('../../../config/env', () => ({
+  config: {
+    hls: {
+      partDuration: 1,
+    },
+    paths: {
+      hlsOutput: '/tmp/hls',
+      temp: '/tmp',
+      media: [],
+    },
+    storage: {
+      tmpfsDir: '/dev/shm',
+    },
+  },
+}));
+
+describe('Streaming routes', () => {
+  const channel = {
+    id: 'channel-1',
+    config: {
+      slug: 'news',
+      outputDir: '/tmp/hls/news',
+      segmentDuration: 6,
+      lowLatency: true,
+      renditions: [{ name: '720p' }],
+    },
+  };
+
+  const playlistService = {
+    getPlaylist: jest.fn(),
+    getBlockingPlaylist: jest.fn(),
+  };
+  const viewerSessionService = {
+    startSession: jest.fn(),
+    touchSession: jest.fn(),
+    getSessionToken: jest.fn(),
+  };
+  const channelService = {
+    playlistService,
+    findChannelBySlug: jest.fn(),
+    getScheduleStartTime: jest.fn(),
+  };
+  const streamAccessService = {
+    authorizeEntry: jest.fn(),
+    requiresSignedUrls: jest.fn(),
+    authorizeStream: jest.fn(),
+    getSignedQuery: jest.fn(),
+  };
+
+  // The streaming router is module-level, so build the app once
+  const app = express();
+  app.use(
+    createStreamingRoutes(
+      channelService as unknown as ChannelService,
+      viewerSessionService as unknown as ViewerSessionService,
+      streamAccessService as unknown as StreamAccessService,
+      {} as AnalyticsCollector,
+      {} as SegmentCache
+    )
+  );
+  app.use(errorHandler);
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    playlistService.getPlaylist.mockResolvedValue('#EXTM3U\n');
+    playlistService.getBlockingPlaylist.mockResolvedValue('#EXTM3U\n');
+    viewerSessionService.touchSession.mockResolvedValue({ channelId: channel.id });
+    viewerSessionService.getSessionToken.mockReturnValue('session-token');
+    channelService.findChannelBySlug.mockResolvedValue(channel);
+    streamAccessService.getSignedQuery.mockReturnValue('');
+  });
+
+  describe('GET /:slug/master.m3u8', () => {
+    it('should pass viewer session failures to the error handler', async () => {
+      viewerSessionService.startSession.mockRejectedValue(new Error('database unavailable'));
+
+      const response = await request(app).get('/news/master.m3u8');
+
+      expect(response.status).toBe(500);
+    });
+  });
+
+  describe('GET /:slug/manifest.mpd', () => {
+    it('should pass schedule lookup failures to the error handler', async () => {
+      channelService.getScheduleStartTime.mockRejectedValue(new Error('database unavailable'));
+
+      const response = await request(app).get('/news/manifest.mpd');
+
+      expect(response.status).toBe(500);
+    });
+  });
+
+  describe('GET /:slug/stream.m3u8', () => {
+    it('should hold blocking reloads until the requested segment', async () => {
+      const response = await request(app).get('/news/stream.m3u8?_HLS_msn=12&_HLS_part=2');
+
+      expect(response.status).toBe(200);
+      expect(playlistService.getBlockingPlaylist).toHaveBeenCalledWith(
+        '/tmp/hls/news/stream.m3u8',
+        channel.id,
+        expect.objectContaining({ partsPerSegment: 6 }),
+        12,
+        2
+      );
+    });
+
+    it('should reject a malformed _HLS_msn', async () => {
+      const response = await request(app).get('/news/stream.m3u8?_HLS_msn=abc');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+      expect(playlistService.getBlockingPlaylist).not.toHaveBeenCalled();
+    });
+
+    it('should reject an _HLS_msn too far ahead of the live edge', async () => {
+      playlistService.getBlockingPlaylist.mockRejectedValue(
+        new ValidationError('_HLS_msn is too far ahead of the live edge')
+      );
+
+      const response = await request(app).get('/news/stream.m3u8?_HLS_msn=9999');
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should pass viewer session failures to the error handler', async () => {
+      viewerSessionService.touchSession.mockRejectedValue(new Error('database unavailable'));
+
+      const response = await request(app).get('/news/stream.m3u8');
+
+      expect(response.status).toBe(500);
+    });
+  });
+
+  describe('GET /:slug/:variant/stream.m3u8', () => {
+    it('should reject a malformed _HLS_part', async () => {
+      const response = await request(app).get('/news/720p/stream.m3u8?_HLS_msn=3&_HLS_part=x');
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('GET /:slug/:segment', () => {
+    it('should pass viewer session failures to the error handler', async () => {
+      viewerSessionService.touchSession.mockRejectedValue(new Error('database unavailable'));
+
+      const response = await request(app).get('/news/stream_001.m4s');
+
+      expect(response.status).toBe(500);
+    });
+  });
+});
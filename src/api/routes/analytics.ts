@@ -0,0 +1,118 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { AnalyticsService } from '../../services/analytics/AnalyticsService';
+import { authenticate } from '../middleware/auth';
+import { sendValidationError } from '../middleware/validation';
+import { AuthService } from '../../services/auth/AuthService';
+import { z } from 'zod';
+
+const router = Router();
+
+const dateSchema = z
+  .string()
+  .datetime({ offset: true })
+  .transform((value) => new Date(value));
+
+const rangeQuerySchema = z.object({
+  channelId: z.string().uuid().optional(),
+  from: dateSchema.optional(),
+  to: dateSchema.optional(),
+});
+
+const concurrentQuerySchema = rangeQuerySchema.extend({
+  interval: z.enum(['minute', 'hour', 'day']).default('hour'),
+});
+
+const topProgramsQuerySchema = rangeQuerySchema.extend({
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+});
+
+const completionQuerySchema = rangeQuerySchema.extend({
+  minViews: z.coerce.number().int().min(1).default(3),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+});
+
+export const createAnalyticsRoutes = (analyticsService: AnalyticsService, authService?: AuthService) => {
+  const requireAuth = authenticate(authService);
+
+  /**
+   * GET /api/analytics/concurrent
+   * Concurrent viewers per interval (default: last 24 hours, hourly)
+   */
+  router.get('/concurrent', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { interval, ...query } = concurrentQuerySchema.parse(req.query);
+      const series = await analyticsService.getConcurrentViewers(query, interval);
+      res.json({
+        success: true,
+        data: series,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendValidationError(res, error);
+      }
+      return next(error);
+    }
+  });
+
+  /**
+   * GET /api/analytics/top-programs
+   * Most watched media files by watch time (default: last 7 days)
+   */
+  router.get('/top-programs', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { limit, ...query } = topProgramsQuerySchema.parse(req.query);
+      const programs = await analyticsService.getTopPrograms(query, limit);
+      res.json({
+        success: true,
+        data: programs,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendValidationError(res, error);
+      }
+      return next(error);
+    }
+  });
+
+  /**
+   * GET /api/analytics/completion-rates
+   * Media files by completion rate (default: last 7 days, at least 3 views)
+   */
+  router.get('/completion-rates', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { minViews, limit, ...query } = completionQuerySchema.parse(req.query);
+      const programs = await analyticsService.getCompletionRates(query, minViews, limit);
+      res.json({
+        success: true,
+        data: programs,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendValidationError(res, error);
+      }
+      return next(error);
+    }
+  });
+
+  /**
+   * GET /api/analytics/peak-hours
+   * Viewers by hour of day (default: last 30 days)
+   */
+  router.get('/peak-hours', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const query = rangeQuerySchema.parse(req.query);
+      const hours = await analyticsService.getPeakHours(query);
+      res.json({
+        success: true,
+        data: hours,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendValidationError(res, error);
+      }
+      return next(error);
+    }
+  });
+
+  return router;
+};
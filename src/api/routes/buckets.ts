@@ -290,6 +290,51 @@ export const createBucketRoutes = (
     }
   });
 
+  /**
+   * PUT /api/buckets/:bucketId/media/:mediaFileId/weight
+   * Set the weight of a media file (weighted playback mode)
+   */
+  router.put('/api/buckets/:bucketId/media/:mediaFileId/weight', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { weight } = req.body;
+
+      if (typeof weight !== 'number' || !(weight > 0)) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'weight must be a number greater than 0',
+          },
+        });
+      }
+
+      await bucketService.setMediaWeight(req.params.bucketId, req.params.mediaFileId, weight);
+
+      // Invalidate cache for all channels using this bucket
+      if (channelService && epgService) {
+        try {
+          const channelIds = await bucketService.getChannelsForBucket(req.params.bucketId);
+          for (const channelId of channelIds) {
+            channelService.invalidateChannelMediaCache(channelId);
+            await epgService.invalidateCache(channelId);
+          }
+        } catch (error) {
+          logger.warn({ error, bucketId: req.params.bucketId }, 'Failed to invalidate cache after changing media weight');
+        }
+      }
+
+      return res.json({
+        success: true,
+        data: {
+          mediaFileId: req.params.mediaFileId,
+          weight,
+        },
+      });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
   /**
    * GET /api/buckets/:bucketId/channels
    * Get all channels using a bucket
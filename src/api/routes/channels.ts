@@ -7,11 +7,36 @@ import { VirtualTimeService } from '../../services/virtual-time/VirtualTimeServi
 import { ScheduleTimeService } from '../../services/schedule-time/ScheduleTimeService';
 import { SettingsService } from '../../services/settings/SettingsService';
 import { authenticate } from '../middleware/auth';
+import { ASPECT_MODES, STORAGE_BACKENDS } from '../../domain/channel/Channel';
+import { getChannelOutputDir } from '../../infrastructure/storage/SegmentStorage';
+import { isLiveInputUrl } from '../../infrastructure/ffmpeg/LiveInput';
 import { z } from 'zod';
 
 const router = Router();
 
 // Validation schemas
+// Rendition names become output subdirectories - keep them path-safe
+const renditionSchema = z.object({
+  name: z.string().min(1).max(20).regex(/^[a-z0-9_-]+$/),
+  resolution: z.string().regex(/^\d+x\d+$/).optional(),
+  videoBitrate: z.number().int().positive().optional(),
+  audioBitrate: z.number().int().positive(),
+}).refine((r) => !!r.resolution === !!r.videoBitrate, {
+  message: 'Video renditions need both resolution and videoBitrate (omit both for audio-only)',
+});
+
+const renditionLadderSchema = z.array(renditionSchema).max(8)
+  .refine((ladder) => ladder.length === 0 || ladder.some((r) => r.resolution), {
+    message: 'Rendition ladder needs at least one video rendition',
+  })
+  .refine((ladder) => new Set(ladder.map((r) => r.name)).size === ladder.length, {
+    message: 'Rendition names must be unique',
+  });
+
+const liveInputUrlSchema = z.string().refine(isLiveInputUrl, {
+  message: 'Live input must be an http(s), rtmp(s), srt or udp URL',
+});
+
 const createChannelSchema = z.object({
   name: z.string().min(1).max(100),
   slug: z.string().min(1).max(50).regex(/^[a-z0-9-]+$/),
@@ -23,6 +48,19 @@ const createChannelSchema = z.object({
   autoStart: z.boolean().optional(),
   useDynamicPlaylist: z.boolean().optional(),
   includeBumpers: z.boolean().optional(),
+  renditions: renditionLadderSchema.optional(),
+  preferredLanguage: z.string().regex(/^[a-z]{3}$/).optional(),
+  lowLatency: z.boolean().optional(),
+  profileId: z.string().uuid().optional(),
+  passthrough: z.boolean().optional(),
+  loudnessTarget: z.number().min(-70).max(-5).optional(),
+  truePeakCeiling: z.number().min(-9).max(0).optional(),
+  aspectMode: z.enum(ASPECT_MODES).optional(),
+  autoCrop: z.boolean().optional(),
+  signedUrls: z.boolean().optional(),
+  storageBackend: z.enum(STORAGE_BACKENDS).optional(),
+  relayUrl: z.string().url().optional(),
+  liveInputUrl: liveInputUrlSchema.optional(),
 });
 
 const setIndexSchema = z.object({
@@ -35,6 +73,23 @@ const updateChannelSchema = z.object({
   autoStart: z.boolean().optional(),
   watermarkImageBase64: z.string().nullable().optional(),
   watermarkPosition: z.enum(['top-left', 'top-right', 'bottom-left', 'bottom-right', 'center']).nullable().optional(),
+  renditions: renditionLadderSchema.nullable().optional(),
+  // ISO 639-2 code as tagged in media containers (e.g. 'eng', 'jpn')
+  preferredLanguage: z.string().regex(/^[a-z]{3}$/).nullable().optional(),
+  lowLatency: z.boolean().optional(),
+  profileId: z.string().uuid().nullable().optional(),
+  passthrough: z.boolean().optional(),
+  // EBU R128 integrated loudness (LUFS) and true-peak ceiling (dBTP), null disables/resets
+  loudnessTarget: z.number().min(-70).max(-5).nullable().optional(),
+  truePeakCeiling: z.number().min(-9).max(0).nullable().optional(),
+  aspectMode: z.enum(ASPECT_MODES).nullable().optional(),
+  autoCrop: z.boolean().optional(),
+  signedUrls: z.boolean().optional(),
+  storageBackend: z.enum(STORAGE_BACKENDS).optional(),
+  // HLS playlist to mirror instead of encoding the channel's buckets, null makes it a regular channel again
+  relayUrl: z.string().url().nullable().optional(),
+  // Live source re-encoded instead of the buckets, null plays the buckets again
+  liveInputUrl: liveInputUrlSchema.nullable().optional(),
 });
 
 const updateScheduleTimeSchema = z.object({
@@ -157,7 +212,7 @@ export const createChannelRoutes = (channelService: ChannelService, authService?
 
       const channel = await channelService.createChannel({
         ...validated,
-        outputDir: `./hls_output/${validated.slug}`,
+        outputDir: getChannelOutputDir(validated.slug, validated.storageBackend),
         videoBitrate: validated.videoBitrate || videoBitrate,
         audioBitrate: validated.audioBitrate || audioBitrate,
         resolution: validated.resolution || resolution,
@@ -274,6 +329,19 @@ export const createChannelRoutes = (channelService: ChannelService, authService?
         autoStart: validated.autoStart,
         watermarkImageBase64: validated.watermarkImageBase64,
         watermarkPosition: validated.watermarkPosition,
+        renditions: validated.renditions,
+        preferredLanguage: validated.preferredLanguage,
+        lowLatency: validated.lowLatency,
+        profileId: validated.profileId,
+        passthrough: validated.passthrough,
+        loudnessTarget: validated.loudnessTarget,
+        truePeakCeiling: validated.truePeakCeiling,
+        aspectMode: validated.aspectMode,
+        autoCrop: validated.autoCrop,
+        signedUrls: validated.signedUrls,
+        storageBackend: validated.storageBackend,
+        relayUrl: validated.relayUrl,
+        liveInputUrl: validated.liveInputUrl,
       });
 
       const channel = await channelService.getChannel(channelId);
@@ -380,6 +448,38 @@ export const createChannelRoutes = (channelService: ChannelService, authService?
     }
   });
 
+  /**
+   * GET /api/channels/:channelId/relay
+   * Get the relay state of a relay channel (source health, fallback)
+   */
+  router.get('/:channelId/relay', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const status = await channelService.getRelayStatus(req.params.channelId);
+      return res.json({
+        success: true,
+        data: status,
+      });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  /**
+   * GET /api/channels/:channelId/live-input
+   * Get the live input state of a channel (source URL, slate or fallback)
+   */
+  router.get('/:channelId/live-input', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const status = await channelService.getLiveInputStatus(req.params.channelId);
+      return res.json({
+        success: true,
+        data: status,
+      });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
   /**
    * GET /api/channels/:channelId/media/count
    * Get channel media count from buckets
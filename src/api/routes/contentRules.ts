@@ -0,0 +1,184 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { ContentRuleService } from '../../services/rule/ContentRuleService';
+import { CONTENT_RULE_ACTIONS, CONTENT_RULE_TYPES } from '../../domain/rule/ContentRule';
+import { authenticate } from '../middleware/auth';
+import { sendValidationError } from '../middleware/validation';
+import { AuthService } from '../../services/auth/AuthService';
+import { z } from 'zod';
+
+const router = Router();
+
+const timeSchema = z.string().regex(/^\d{2}:\d{2}:\d{2}$/);
+
+// Parameters of all rule types; ContentRuleService checks the ones a type needs
+const conditionsSchema = z
+  .object({
+    ratings: z.array(z.string().min(1).max(20)).min(1).optional(),
+    startTime: timeSchema.optional(),
+    endTime: timeSchema.optional(),
+    hours: z.number().positive().optional(),
+    scope: z.enum(['show', 'file']).optional(),
+    count: z.number().int().min(1).optional(),
+    minSeconds: z.number().min(0).optional(),
+    maxSeconds: z.number().min(0).optional(),
+  })
+  .strict();
+
+const ruleSchema = z.object({
+  name: z.string().min(1).max(255),
+  description: z.string().max(1000).optional(),
+  ruleType: z.enum(CONTENT_RULE_TYPES),
+  conditions: conditionsSchema,
+  actions: z.object({ action: z.enum(CONTENT_RULE_ACTIONS) }).optional(),
+  priority: z.number().int().optional(),
+  enabled: z.boolean().optional(),
+});
+
+const createContentRuleSchema = ruleSchema.extend({
+  channelId: z.string().uuid().optional(),
+});
+
+const updateContentRuleSchema = ruleSchema.partial().extend({
+  channelId: z.string().uuid().nullable().optional(),
+  description: z.string().max(1000).nullable().optional(),
+});
+
+const listQuerySchema = z.object({
+  channelId: z.string().uuid().optional(),
+});
+
+const dryRunSchema = z.object({
+  channelId: z.string().uuid(),
+  time: z.string().datetime({ offset: true }).transform((value) => new Date(value)).optional(),
+  rules: z.array(ruleSchema).optional(),
+});
+
+const idSchema = z.string().uuid();
+
+export const createContentRuleRoutes = (contentRuleService: ContentRuleService, authService?: AuthService) => {
+  const requireAuth = authenticate(authService);
+
+  /**
+   * GET /api/content-rules
+   * List rules, highest priority first (?channelId= for the rules applying to a channel)
+   */
+  router.get('/', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { channelId } = listQuerySchema.parse(req.query);
+      const rules = await contentRuleService.listRules(channelId);
+      res.json({
+        success: true,
+        data: rules,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendValidationError(res, error);
+      }
+      return next(error);
+    }
+  });
+
+  /**
+   * POST /api/content-rules
+   * Create a rule (without channelId it applies to all channels)
+   */
+  router.post('/', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const data = createContentRuleSchema.parse(req.body);
+      const rule = await contentRuleService.createRule(data);
+      res.status(201).json({
+        success: true,
+        data: rule,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendValidationError(res, error);
+      }
+      return next(error);
+    }
+  });
+
+  /**
+   * POST /api/content-rules/dry-run
+   * Resolve a channel's playlist at a time and list the media each rule kept out
+   * Pass rules to try them instead of the stored ones (nothing is saved)
+   */
+  router.post('/dry-run', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { channelId, time, rules } = dryRunSchema.parse(req.body);
+      const result = await contentRuleService.dryRun(channelId, time, rules);
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendValidationError(res, error);
+      }
+      return next(error);
+    }
+  });
+
+  /**
+   * GET /api/content-rules/:id
+   * Get a rule
+   */
+  router.get('/:id', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = idSchema.parse(req.params.id);
+      const rule = await contentRuleService.getRule(id);
+      res.json({
+        success: true,
+        data: rule,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendValidationError(res, error);
+      }
+      return next(error);
+    }
+  });
+
+  /**
+   * PUT /api/content-rules/:id
+   * Update a rule (omitted fields are kept, conditions are replaced as a whole)
+   */
+  router.put('/:id', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = idSchema.parse(req.params.id);
+      const data = updateContentRuleSchema.parse(req.body);
+      const rule = await contentRuleService.updateRule(id, data);
+      res.json({
+        success: true,
+        data: rule,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendValidationError(res, error);
+      }
+      return next(error);
+    }
+  });
+
+  /**
+   * DELETE /api/content-rules/:id
+   * Delete a rule
+   */
+  router.delete('/:id', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = idSchema.parse(req.params.id);
+      await contentRuleService.deleteRule(id);
+      res.json({
+        success: true,
+        message: 'Content rule deleted',
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendValidationError(res, error);
+      }
+      return next(error);
+    }
+  });
+
+  return router;
+};
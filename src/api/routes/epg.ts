@@ -2,6 +2,8 @@ import { Router, Request, Response, NextFunction } from 'express';
 import { ChannelService } from '../../services/channel/ChannelService';
 import { EPGService } from '../../services/epg/EPGService';
 import { AuthService } from '../../services/auth/AuthService';
+import { StreamAccessService } from '../../services/access/StreamAccessService';
+import { ViewerToken } from '../../domain/access/ViewerToken';
 import { authenticate } from '../middleware/auth';
 import { createLogger } from '../../utils/logger';
 
@@ -9,14 +11,22 @@ const logger = createLogger('EPGRoutes');
 
 const router = Router();
 
-export const createEPGRoutes = (channelService: ChannelService, epgService: EPGService, authService?: AuthService) => {
+export const createEPGRoutes = (
+  channelService: ChannelService,
+  epgService: EPGService,
+  streamAccessService: StreamAccessService,
+  authService?: AuthService
+) => {
   const requireAuth = authenticate(authService);
   /**
    * GET /playlist.m3u
    * Get IPTV M3U playlist with all channels
+   * Channels requiring signed URLs are only listed for a viewer token allowing them (?token=...)
    */
-  router.get('/playlist.m3u', (_req: Request, res: Response, next: NextFunction) => {
+  router.get('/playlist.m3u', async (_req: Request, res: Response, next: NextFunction) => {
     try {
+      const token = typeof _req.query.token === 'string' ? _req.query.token : undefined;
+      const viewerToken: ViewerToken | undefined = token ? await streamAccessService.validateToken(token) : undefined;
       const channels = channelService.getAllChannels();
       const baseUrl = `${_req.protocol}://${_req.get('host')}`;
 
@@ -29,9 +39,19 @@ export const createEPGRoutes = (channelService: ChannelService, epgService: EPGS
           continue;
         }
 
+        if (
+          streamAccessService.requiresSignedUrls(channel) &&
+          !(viewerToken && streamAccessService.canWatch(viewerToken, channel.id))
+        ) {
+          continue;
+        }
+
         const slug = channel.config.slug;
         const name = channel.config.name;
-        const streamUrl = `${baseUrl}/${slug}/master.m3u8`;
+        // Protected channels link with the token itself, so IPTV apps can keep the playlist
+        const streamUrl = streamAccessService.requiresSignedUrls(channel)
+          ? `${baseUrl}/${slug}/master.m3u8?token=${encodeURIComponent(token as string)}`
+          : `${baseUrl}/${slug}/master.m3u8`;
 
         // M3U format: #EXTINF:-1 tvg-id="id" tvg-name="name" group-title="category",Display Name
         lines.push(
@@ -44,7 +64,8 @@ export const createEPGRoutes = (channelService: ChannelService, epgService: EPGS
 
       res.setHeader('Content-Type', 'audio/x-mpegurl');
       res.setHeader('Content-Disposition', 'attachment; filename="channels.m3u"');
-      res.setHeader('Cache-Control', 'public, max-age=300'); // Cache for 5 minutes
+      // Cache for 5 minutes (token playlists contain the token, so keep them out of shared caches)
+      res.setHeader('Cache-Control', viewerToken ? 'private, max-age=300' : 'public, max-age=300');
       res.send(m3u);
     } catch (error) {
       return next(error);
@@ -0,0 +1,65 @@
+import { Router, Request, Response } from 'express';
+import { authenticate } from '../middleware/auth';
+import { sendValidationError } from '../middleware/validation';
+import { AuthService } from '../../services/auth/AuthService';
+import { eventBus, isValidTopicPattern } from '../../infrastructure/events/EventBus';
+import { createLogger } from '../../utils/logger';
+import { z } from 'zod';
+
+const logger = createLogger('EventRoutes');
+const router = Router();
+
+// Comment line sent this often so proxies keep idle streams open
+const KEEPALIVE_INTERVAL_MS = 30000;
+
+const eventsQuerySchema = z.object({
+  topics: z
+    .string()
+    .default('*')
+    .transform((value) => value.split(',').map((topic) => topic.trim()).filter(Boolean))
+    .refine((topics) => topics.length > 0 && topics.every(isValidTopicPattern), {
+      message: "Topics must be event topics, prefixes ('channel.*') or '*'",
+    }),
+});
+
+export const createEventRoutes = (authService?: AuthService) => {
+  const requireAuth = authenticate(authService);
+
+  /**
+   * GET /api/events
+   * Server-sent events stream of the event bus (fallback for the WebSocket server)
+   */
+  router.get('/', requireAuth, (req: Request, res: Response) => {
+    const parsed = eventsQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+    const { topics } = parsed.data;
+
+    // no-transform keeps the compression middleware from buffering the stream
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.write(`retry: 5000\n\n`);
+
+    const unsubscribe = eventBus.subscribe(topics, (event) => {
+      res.write(`event: ${event.topic}\ndata: ${JSON.stringify({ timestamp: event.timestamp, data: event.data })}\n\n`);
+    });
+    const keepalive = setInterval(() => {
+      res.write(': keepalive\n\n');
+    }, KEEPALIVE_INTERVAL_MS);
+
+    logger.debug({ topics }, 'Event stream opened');
+
+    req.on('close', () => {
+      clearInterval(keepalive);
+      unsubscribe();
+      logger.debug({ topics }, 'Event stream closed');
+    });
+  });
+
+  return router;
+};
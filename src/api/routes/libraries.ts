@@ -3,6 +3,7 @@ import { LibraryService } from '../../services/library/LibraryService';
 import { AuthService } from '../../services/auth/AuthService';
 import { authenticate } from '../middleware/auth';
 import { createLogger } from '../../utils/logger';
+import { ValidationError } from '../../utils/errors';
 
 const logger = createLogger('LibraryRoutes');
 
@@ -215,6 +216,7 @@ export const createLibraryRoutes = (libraryService: LibraryService, authService?
             season: m.info.season,
             episode: m.info.episode,
             title: m.info.title,
+            contentRating: m.metadata.contentRating,
           })),
           count: mediaFiles.length,
         },
@@ -274,6 +276,7 @@ export const createLibraryRoutes = (libraryService: LibraryService, authService?
             season: m.info.season,
             episode: m.info.episode,
             title: m.info.title,
+            contentRating: m.metadata.contentRating,
           })),
           count: mediaFiles.length,
         },
@@ -283,6 +286,32 @@ export const createLibraryRoutes = (libraryService: LibraryService, authService?
     }
   });
 
+  /**
+   * PUT /api/media/:mediaId/rating
+   * Set a media file's content rating (null clears it)
+   */
+  router.put('/api/media/:mediaId/rating', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { contentRating } = req.body;
+      if (contentRating !== null && (typeof contentRating !== 'string' || !contentRating.trim() || contentRating.length > 20)) {
+        throw new ValidationError('contentRating must be a string of up to 20 characters or null');
+      }
+
+      const rating = contentRating === null ? null : contentRating.trim();
+      await libraryService.setContentRating(req.params.mediaId, rating);
+
+      return res.json({
+        success: true,
+        data: {
+          id: req.params.mediaId,
+          contentRating: rating,
+        },
+      });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
   /**
    * GET /api/media/count
    * Get total count of all media files
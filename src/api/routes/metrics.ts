@@ -0,0 +1,92 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { ChannelService } from '../../services/channel/ChannelService';
+import { EPGService } from '../../services/epg/EPGService';
+import { ViewerSessionService } from '../../services/viewer/ViewerSessionService';
+import { AuthService } from '../../services/auth/AuthService';
+import { ChannelState } from '../../domain/channel/Channel';
+import { Database } from '../../infrastructure/database/Database';
+import { SegmentCache } from '../../infrastructure/storage/SegmentCache';
+import { Counter, Labels } from '../../infrastructure/metrics/MetricsRegistry';
+import {
+  activeViewers,
+  channelInfo,
+  channelState,
+  dbPoolConnections,
+  epgCacheEntries,
+  epgCacheRequests,
+  metricsRegistry,
+  segmentCacheBytes,
+  segmentCacheRequests,
+} from '../../infrastructure/metrics/StreamingMetrics';
+import { authenticate } from '../middleware/auth';
+
+const router = Router();
+
+export const createMetricsRoutes = (
+  channelService: ChannelService,
+  viewerSessionService: ViewerSessionService,
+  epgService: EPGService,
+  segmentCache: SegmentCache,
+  authService?: AuthService
+) => {
+  const requireAuth = authenticate(authService);
+
+  // The caches count since startup; grow the counters by what was added since the last scrape
+  const scrapedTotals = new Map<string, number>();
+  const incByGrowth = (counter: Counter, labels: Labels, total: number) => {
+    const key = `${counter.name}:${labels.result}`;
+    counter.inc(labels, Math.max(0, total - (scrapedTotals.get(key) ?? 0)));
+    scrapedTotals.set(key, total);
+  };
+
+  // Copy state kept by the services into the gauges on each scrape
+  // (reset first, so deleted channels drop out)
+  metricsRegistry.addCollector(() => {
+    channelInfo.reset();
+    channelState.reset();
+    activeViewers.reset();
+    for (const channel of channelService.getAllChannels()) {
+      const labels = { channel: channel.id };
+      channelInfo.set({ ...labels, slug: channel.config.slug, name: channel.config.name }, 1);
+      const state = channel.getState();
+      for (const value of Object.values(ChannelState)) {
+        channelState.set({ ...labels, state: value }, value === state ? 1 : 0);
+      }
+      activeViewers.set(labels, viewerSessionService.getActiveViewers(channel.id).length);
+    }
+
+    const epgStats = epgService.getCacheStats();
+    incByGrowth(epgCacheRequests, { result: 'hit' }, epgStats.hits);
+    incByGrowth(epgCacheRequests, { result: 'miss' }, epgStats.misses);
+    epgCacheEntries.set({}, epgStats.entries);
+
+    const segmentStats = segmentCache.getStats();
+    incByGrowth(segmentCacheRequests, { result: 'hit' }, segmentStats.hits);
+    incByGrowth(segmentCacheRequests, { result: 'miss' }, segmentStats.misses);
+    segmentCacheBytes.set({}, segmentStats.bytes);
+
+    const pool = Database.getStats();
+    dbPoolConnections.set({ state: 'total' }, pool.totalCount);
+    dbPoolConnections.set({ state: 'idle' }, pool.idleCount);
+    dbPoolConnections.set({ state: 'waiting' }, pool.waitingCount);
+  });
+
+  /**
+   * GET /metrics
+   * Prometheus metrics (text exposition format)
+   * Requires the API key (X-API-Key header or apiKey query parameter) or a session, since
+   * series carry channel names and slugs
+   */
+  router.get('/metrics', requireAuth, async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const body = await metricsRegistry.render();
+      res.setHeader('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.send(body);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,219 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { OverlayService } from '../../services/overlay/OverlayService';
+import { OVERLAY_POSITIONS, OVERLAY_TYPES } from '../../domain/overlay/Overlay';
+import { authenticate } from '../middleware/auth';
+import { sendValidationError } from '../middleware/validation';
+import { AuthService } from '../../services/auth/AuthService';
+import { z } from 'zod';
+
+const router = Router();
+
+// FFmpeg color: name or hex, optionally with @alpha (e.g. 'white', '#FFCC00', 'black@0.5')
+const colorSchema = z.string().regex(/^(#|0x)?[0-9a-zA-Z]{1,32}(@(0(\.\d+)?|1(\.0+)?))?$/);
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/);
+
+const scheduleSchema = z
+  .object({
+    startTime: timeOfDaySchema.optional(),
+    endTime: timeOfDaySchema.optional(),
+    intervalSeconds: z.number().int().min(2).max(86400).optional(),
+    visibleSeconds: z.number().int().min(1).max(86400).optional(),
+  })
+  .strict();
+
+const settingsSchema = z
+  .object({
+    text: z.string().max(2000).optional(),
+    clockFormat: z.string().min(1).max(50).optional(),
+    fontSize: z.number().int().min(8).max(200).optional(),
+    fontColor: colorSchema.optional(),
+    backgroundColor: colorSchema.optional(),
+    scrollSpeed: z.number().int().min(10).max(2000).optional(),
+    imageWidth: z.number().int().min(8).max(3840).optional(),
+  })
+  .strict();
+
+// Cross-field rules (image required for image layers, schedule pairs) are checked by OverlayService
+const overlayFields = {
+  type: z.enum(OVERLAY_TYPES),
+  name: z.string().min(1).max(100),
+  enabled: z.boolean(),
+  zIndex: z.number().int().min(-1000).max(1000),
+  position: z.enum(OVERLAY_POSITIONS),
+  offsetX: z.number().int().min(0).max(3840),
+  offsetY: z.number().int().min(0).max(2160),
+  opacity: z.number().min(0).max(1),
+  imageBase64: z.string().min(1),
+};
+
+const createOverlaySchema = z.object({
+  type: overlayFields.type,
+  name: overlayFields.name.optional(),
+  enabled: overlayFields.enabled.default(true),
+  zIndex: overlayFields.zIndex.default(0),
+  position: overlayFields.position.default('top-left'),
+  offsetX: overlayFields.offsetX.default(10),
+  offsetY: overlayFields.offsetY.default(10),
+  opacity: overlayFields.opacity.default(1),
+  imageBase64: overlayFields.imageBase64.optional(),
+  settings: settingsSchema.default({}),
+  schedule: scheduleSchema.optional(),
+});
+
+const updateOverlaySchema = z.object({
+  type: overlayFields.type.optional(),
+  name: overlayFields.name.nullable().optional(),
+  enabled: overlayFields.enabled.optional(),
+  zIndex: overlayFields.zIndex.optional(),
+  position: overlayFields.position.optional(),
+  offsetX: overlayFields.offsetX.optional(),
+  offsetY: overlayFields.offsetY.optional(),
+  opacity: overlayFields.opacity.optional(),
+  imageBase64: overlayFields.imageBase64.nullable().optional(),
+  // Merged onto the stored settings (null clears them)
+  settings: settingsSchema.nullable().optional(),
+  schedule: scheduleSchema.nullable().optional(),
+});
+
+const tickerTextSchema = z.object({
+  text: z.string().max(2000),
+});
+
+const idSchema = z.string().uuid();
+
+export const createOverlayRoutes = (overlayService: OverlayService, authService?: AuthService) => {
+  const requireAuth = authenticate(authService);
+
+  /**
+   * GET /api/channels/:channelId/overlays
+   * List a channel's overlay layers, bottom first
+   */
+  router.get('/:channelId/overlays', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const channelId = idSchema.parse(req.params.channelId);
+      const overlays = await overlayService.listOverlays(channelId);
+      res.json({
+        success: true,
+        data: overlays,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendValidationError(res, error);
+      }
+      return next(error);
+    }
+  });
+
+  /**
+   * POST /api/channels/:channelId/overlays
+   * Add an overlay layer (applied on next stream start)
+   */
+  router.post('/:channelId/overlays', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const channelId = idSchema.parse(req.params.channelId);
+      const validated = createOverlaySchema.parse(req.body);
+      const overlay = await overlayService.createOverlay(channelId, validated);
+      res.status(201).json({
+        success: true,
+        data: overlay,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendValidationError(res, error);
+      }
+      return next(error);
+    }
+  });
+
+  /**
+   * GET /api/channels/:channelId/overlays/:overlayId
+   * Get an overlay layer
+   */
+  router.get('/:channelId/overlays/:overlayId', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const channelId = idSchema.parse(req.params.channelId);
+      const overlayId = idSchema.parse(req.params.overlayId);
+      const overlay = await overlayService.getOverlay(channelId, overlayId);
+      res.json({
+        success: true,
+        data: overlay,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendValidationError(res, error);
+      }
+      return next(error);
+    }
+  });
+
+  /**
+   * PUT /api/channels/:channelId/overlays/:overlayId
+   * Update an overlay layer (applied on next stream start)
+   */
+  router.put('/:channelId/overlays/:overlayId', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const channelId = idSchema.parse(req.params.channelId);
+      const overlayId = idSchema.parse(req.params.overlayId);
+      const validated = updateOverlaySchema.parse(req.body);
+      const overlay = await overlayService.updateOverlay(channelId, overlayId, validated);
+      res.json({
+        success: true,
+        data: overlay,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendValidationError(res, error);
+      }
+      return next(error);
+    }
+  });
+
+  /**
+   * PUT /api/channels/:channelId/overlays/:overlayId/text
+   * Replace a ticker's text (shown immediately on a streaming channel)
+   */
+  router.put(
+    '/:channelId/overlays/:overlayId/text',
+    requireAuth,
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const channelId = idSchema.parse(req.params.channelId);
+        const overlayId = idSchema.parse(req.params.overlayId);
+        const { text } = tickerTextSchema.parse(req.body);
+        const overlay = await overlayService.updateTickerText(channelId, overlayId, text);
+        res.json({
+          success: true,
+          data: overlay,
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return sendValidationError(res, error);
+        }
+        return next(error);
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/channels/:channelId/overlays/:overlayId
+   * Delete an overlay layer (applied on next stream start)
+   */
+  router.delete('/:channelId/overlays/:overlayId', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const channelId = idSchema.parse(req.params.channelId);
+      const overlayId = idSchema.parse(req.params.overlayId);
+      await overlayService.deleteOverlay(channelId, overlayId);
+      res.json({
+        success: true,
+        message: 'Overlay deleted',
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendValidationError(res, error);
+      }
+      return next(error);
+    }
+  });
+
+  return router;
+};
@@ -1,16 +1,38 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import { ScheduleRepository } from '../../infrastructure/database/repositories/ScheduleRepository';
+import { ScheduleRepository, ScheduleEventRow } from '../../infrastructure/database/repositories/ScheduleRepository';
 import { MediaBucketRepository } from '../../infrastructure/database/repositories/MediaBucketRepository';
+import { MediaFileRepository } from '../../infrastructure/database/repositories/MediaFileRepository';
 import { Database } from '../../infrastructure/database/Database';
 import { AuthService } from '../../services/auth/AuthService';
 import { ChannelService } from '../../services/channel/ChannelService';
 import { authenticate } from '../middleware/auth';
+import { isLiveInputUrl } from '../../infrastructure/ffmpeg/LiveInput';
+import { FILLER_MODES, SLOT_ALIGNMENTS } from '../../services/playlist/SlotPlanner';
+import { PLAYBACK_MODES } from '../../services/playlist/PlaybackOrder';
+import { BUCKET_STRATEGIES } from '../../services/playlist/BucketMix';
 import { NotFoundError, ValidationError } from '../../utils/errors';
 import { z } from 'zod';
 
 const router = Router();
 
 // Validation schemas
+// Live source played during the block (HLS/RTMP/SRT/UDP); the block's bucket is the fallback
+const liveInputUrlSchema = z.string().refine(isLiveInputUrl, {
+  message: 'Live input must be an http(s), rtmp(s), srt or udp URL',
+});
+
+// Buckets of a multi-bucket block, mixed by bucketStrategy (the first one is also the block's bucketId)
+const blockBucketsSchema = z
+  .array(
+    z.object({
+      bucketId: z.string().uuid(),
+      weight: z.number().positive().optional(),
+    })
+  )
+  .refine((buckets) => new Set(buckets.map((b) => b.bucketId)).size === buckets.length, {
+    message: 'A bucket can only be listed once',
+  });
+
 const createScheduleBlockSchema = z.object({
   channelId: z.string().uuid(),
   name: z.string().min(1).max(255),
@@ -18,7 +40,17 @@ const createScheduleBlockSchema = z.object({
   startTime: z.string().regex(/^\d{2}:\d{2}:\d{2}$/),
   endTime: z.string().regex(/^\d{2}:\d{2}:\d{2}$/),
   bucketId: z.string().uuid().nullable().optional(),
-  playbackMode: z.enum(['sequential', 'random', 'shuffle']).optional(),
+  buckets: blockBucketsSchema.optional(),
+  bucketStrategy: z.enum(BUCKET_STRATEGIES).optional(),
+  playbackMode: z.enum(PLAYBACK_MODES).optional(),
+  liveInputUrl: liveInputUrlSchema.nullable().optional(),
+  slotAlignment: z.enum(SLOT_ALIGNMENTS).optional(),
+  fillerMode: z.enum(FILLER_MODES).optional(),
+  fillerBucketId: z.string().uuid().nullable().optional(),
+  noRepeatHours: z.number().positive().nullable().optional(),
+  noRepeatItems: z.number().int().min(1).nullable().optional(),
+  recencyBoostDays: z.number().int().min(1).nullable().optional(),
+  recencyBoost: z.number().positive().nullable().optional(),
   priority: z.number().int().min(1).optional(),
   enabled: z.boolean().optional(),
 });
@@ -29,7 +61,17 @@ const updateScheduleBlockSchema = z.object({
   startTime: z.string().regex(/^\d{2}:\d{2}:\d{2}$/).optional(),
   endTime: z.string().regex(/^\d{2}:\d{2}:\d{2}$/).optional(),
   bucketId: z.string().uuid().nullable().optional(),
-  playbackMode: z.enum(['sequential', 'random', 'shuffle']).optional(),
+  buckets: blockBucketsSchema.optional(),
+  bucketStrategy: z.enum(BUCKET_STRATEGIES).optional(),
+  playbackMode: z.enum(PLAYBACK_MODES).optional(),
+  liveInputUrl: liveInputUrlSchema.nullable().optional(),
+  slotAlignment: z.enum(SLOT_ALIGNMENTS).optional(),
+  fillerMode: z.enum(FILLER_MODES).optional(),
+  fillerBucketId: z.string().uuid().nullable().optional(),
+  noRepeatHours: z.number().positive().nullable().optional(),
+  noRepeatItems: z.number().int().min(1).nullable().optional(),
+  recencyBoostDays: z.number().int().min(1).nullable().optional(),
+  recencyBoost: z.number().positive().nullable().optional(),
   priority: z.number().int().min(1).optional(),
   enabled: z.boolean().optional(),
 });
@@ -38,10 +80,130 @@ const reorderBlocksSchema = z.object({
   blockIds: z.array(z.string().uuid()),
 });
 
+// Schedule events use absolute ISO 8601 timestamps (e.g. 2025-12-24T20:00:00+01:00)
+const eventTimeSchema = z.string().datetime({ offset: true }).transform(v => new Date(v));
+
+const createScheduleEventSchema = z.object({
+  title: z.string().min(1).max(255),
+  description: z.string().nullable().optional(),
+  startTime: eventTimeSchema,
+  endTime: eventTimeSchema,
+  mediaFileId: z.string().uuid().nullable().optional(),
+  bucketId: z.string().uuid().nullable().optional(),
+  playbackMode: z.enum(PLAYBACK_MODES).optional(),
+  liveInputUrl: liveInputUrlSchema.nullable().optional(),
+  enabled: z.boolean().optional(),
+});
+
+const updateScheduleEventSchema = createScheduleEventSchema.partial();
+
+const listScheduleEventsSchema = z.object({
+  from: eventTimeSchema.optional(),
+  to: eventTimeSchema.optional(),
+});
+
+/**
+ * Check that an event's (merged) fields describe something playable in a valid time range
+ */
+function validateScheduleEvent(event: {
+  startTime: Date;
+  endTime: Date;
+  mediaFileId?: string | null;
+  bucketId?: string | null;
+  liveInputUrl?: string | null;
+}): void {
+  if (event.endTime <= event.startTime) {
+    throw new ValidationError('endTime must be after startTime');
+  }
+  if (!event.mediaFileId && !event.bucketId && !event.liveInputUrl) {
+    throw new ValidationError('A schedule event needs a mediaFileId, bucketId or liveInputUrl');
+  }
+}
+
 export const createScheduleRoutes = (authService?: AuthService, channelService?: ChannelService) => {
   const requireAuth = authenticate(authService);
   const scheduleRepository = new ScheduleRepository();
   const bucketRepository = new MediaBucketRepository();
+  const mediaFileRepository = new MediaFileRepository();
+
+  const toEventResponse = async (event: ScheduleEventRow) => {
+    const bucket = event.bucket_id ? await bucketRepository.findById(event.bucket_id) : null;
+    return {
+      id: event.id,
+      channelId: event.channel_id,
+      title: event.title,
+      description: event.description,
+      startTime: event.start_time,
+      endTime: event.end_time,
+      mediaFileId: event.media_file_id,
+      bucketId: event.bucket_id,
+      bucket: bucket ? {
+        id: bucket.getId(),
+        name: bucket.getName(),
+        bucketType: bucket.getBucketType(),
+      } : null,
+      playbackMode: event.playback_mode,
+      liveInputUrl: event.live_input_url,
+      enabled: event.enabled,
+      createdAt: event.created_at,
+      updatedAt: event.updated_at,
+    };
+  };
+
+  const assertEventSourcesExist = async (mediaFileId?: string | null, bucketId?: string | null) => {
+    if (mediaFileId && !(await mediaFileRepository.findById(mediaFileId))) {
+      throw new NotFoundError(`Media file '${mediaFileId}'`);
+    }
+    if (bucketId && !(await bucketRepository.findById(bucketId))) {
+      throw new NotFoundError(`Bucket '${bucketId}'`);
+    }
+  };
+
+  // 'bucket' filler plays whole files from a bucket, so the block needs one
+  const assertFillerBucket = async (fillerMode: string, fillerBucketId: string | null) => {
+    if (fillerMode === 'bucket' && !fillerBucketId) {
+      throw new ValidationError("fillerBucketId is required when fillerMode is 'bucket'");
+    }
+    if (fillerBucketId && !(await bucketRepository.findById(fillerBucketId))) {
+      throw new NotFoundError(`Bucket '${fillerBucketId}'`);
+    }
+  };
+
+  // bucketId and buckets both set the block's bucket; buckets must exist
+  const assertBlockBuckets = async (bucketId?: string | null, buckets?: Array<{ bucketId: string }>) => {
+    if (buckets === undefined) {
+      return;
+    }
+    if (bucketId !== undefined) {
+      throw new ValidationError('Set either bucketId or buckets, not both');
+    }
+    for (const { bucketId: id } of buckets) {
+      if (!(await bucketRepository.findById(id))) {
+        throw new NotFoundError(`Bucket '${id}'`);
+      }
+    }
+  };
+
+  const toBlockBuckets = async (blockId: string) => {
+    const blockBuckets = await scheduleRepository.getBlockBuckets(blockId);
+    return Promise.all(
+      blockBuckets.map(async (entry) => {
+        const bucket = await bucketRepository.findById(entry.bucketId);
+        return {
+          bucketId: entry.bucketId,
+          name: bucket ? bucket.getName() : null,
+          weight: entry.weight,
+        };
+      })
+    );
+  };
+
+  // The recency boost needs both its age limit and its multiplier
+  const assertRecencyBoost = (recencyBoostDays: number | null, recencyBoost: number | null) => {
+    if (!recencyBoostDays !== !recencyBoost) {
+      throw new ValidationError('recencyBoostDays and recencyBoost must be set together');
+    }
+  };
 
   /**
    * GET /api/schedules/channels/:channelId/blocks
@@ -72,7 +234,17 @@ export const createScheduleRoutes = (authService?: AuthService, channelService?:
               name: bucket.getName(),
               bucketType: bucket.getBucketType(),
             } : null,
+            bucketStrategy: block.bucket_strategy,
+            buckets: await toBlockBuckets(block.id),
             playbackMode: block.playback_mode,
+            liveInputUrl: block.live_input_url,
+            slotAlignment: block.slot_alignment,
+            fillerMode: block.filler_mode,
+            fillerBucketId: block.filler_bucket_id,
+            noRepeatHours: block.no_repeat_hours,
+            noRepeatItems: block.no_repeat_items,
+            recencyBoostDays: block.recency_boost_days,
+            recencyBoost: block.recency_boost,
             priority: block.priority,
             enabled: block.enabled,
             createdAt: block.created_at,
@@ -124,7 +296,17 @@ export const createScheduleRoutes = (authService?: AuthService, channelService?:
             name: bucket.getName(),
             bucketType: bucket.getBucketType(),
           } : null,
+          bucketStrategy: block.bucket_strategy,
+          buckets: await toBlockBuckets(block.id),
           playbackMode: block.playback_mode,
+          liveInputUrl: block.live_input_url,
+          slotAlignment: block.slot_alignment,
+          fillerMode: block.filler_mode,
+          fillerBucketId: block.filler_bucket_id,
+          noRepeatHours: block.no_repeat_hours,
+          noRepeatItems: block.no_repeat_items,
+          recencyBoostDays: block.recency_boost_days,
+          recencyBoost: block.recency_boost,
           priority: block.priority,
           enabled: block.enabled,
           createdAt: block.created_at,
@@ -163,14 +345,19 @@ export const createScheduleRoutes = (authService?: AuthService, channelService?:
           throw new NotFoundError(`Bucket '${validated.bucketId}' not found`);
         }
       }
+      await assertBlockBuckets(validated.bucketId, validated.buckets);
+      await assertFillerBucket(validated.fillerMode || 'slate', validated.fillerBucketId || null);
+      assertRecencyBoost(validated.recencyBoostDays || null, validated.recencyBoost || null);
 
       // Insert new block
       const result = await Database.query(
         `INSERT INTO schedule_blocks (
           channel_id, name, day_of_week, start_time, end_time,
-          bucket_id, playback_mode, priority, enabled
+          bucket_id, playback_mode, priority, enabled, live_input_url,
+          slot_alignment, filler_mode, filler_bucket_id,
+          no_repeat_hours, no_repeat_items, recency_boost_days, recency_boost, bucket_strategy
         ) VALUES (
-          $1, $2, $3, $4, $5, $6, $7, $8, $9
+          $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18
         ) RETURNING *`,
         [
           channelId,
@@ -178,14 +365,26 @@ export const createScheduleRoutes = (authService?: AuthService, channelService?:
           validated.dayOfWeek || null,
           validated.startTime,
           validated.endTime,
-          validated.bucketId || null,
+          validated.buckets?.[0]?.bucketId || validated.bucketId || null,
           validated.playbackMode || 'sequential',
           validated.priority || 1,
           validated.enabled !== false,
+          validated.liveInputUrl || null,
+          validated.slotAlignment || 'none',
+          validated.fillerMode || 'slate',
+          validated.fillerBucketId || null,
+          validated.noRepeatHours || null,
+          validated.noRepeatItems || null,
+          validated.recencyBoostDays || null,
+          validated.recencyBoost || null,
+          validated.bucketStrategy || 'round_robin',
         ]
       );
 
       const block = result.rows[0];
+      if (validated.buckets && validated.buckets.length > 1) {
+        await scheduleRepository.setBlockBuckets(block.id, validated.buckets);
+      }
 
       // Log what was actually stored
       const { createLogger } = await import('../../utils/logger');
@@ -198,7 +397,16 @@ export const createScheduleRoutes = (authService?: AuthService, channelService?:
         startTime: block.start_time,
         endTime: block.end_time,
         bucketId: block.bucket_id,
+        bucketStrategy: block.bucket_strategy,
         playbackMode: block.playback_mode,
+        liveInputUrl: block.live_input_url,
+        slotAlignment: block.slot_alignment,
+        fillerMode: block.filler_mode,
+        fillerBucketId: block.filler_bucket_id,
+        noRepeatHours: block.no_repeat_hours,
+        noRepeatItems: block.no_repeat_items,
+        recencyBoostDays: block.recency_boost_days,
+        recencyBoost: block.recency_boost,
         priority: block.priority,
         enabled: block.enabled,
       }, 'Schedule block created and stored in database');
@@ -230,7 +438,17 @@ export const createScheduleRoutes = (authService?: AuthService, channelService?:
             name: bucket.getName(),
             bucketType: bucket.getBucketType(),
           } : null,
+          bucketStrategy: block.bucket_strategy,
+          buckets: await toBlockBuckets(block.id),
           playbackMode: block.playback_mode,
+          liveInputUrl: block.live_input_url,
+          slotAlignment: block.slot_alignment,
+          fillerMode: block.filler_mode,
+          fillerBucketId: block.filler_bucket_id,
+          noRepeatHours: block.no_repeat_hours,
+          noRepeatItems: block.no_repeat_items,
+          recencyBoostDays: block.recency_boost_days,
+          recencyBoost: block.recency_boost,
           priority: block.priority,
           enabled: block.enabled,
           createdAt: block.created_at,
@@ -284,6 +502,19 @@ export const createScheduleRoutes = (authService?: AuthService, channelService?:
           throw new NotFoundError(`Bucket '${validated.bucketId}' not found`);
         }
       }
+      await assertBlockBuckets(validated.bucketId, validated.buckets);
+      if (validated.fillerMode !== undefined || validated.fillerBucketId !== undefined) {
+        await assertFillerBucket(
+          validated.fillerMode ?? existingBlock.filler_mode,
+          validated.fillerBucketId !== undefined ? validated.fillerBucketId : existingBlock.filler_bucket_id
+        );
+      }
+      if (validated.recencyBoostDays !== undefined || validated.recencyBoost !== undefined) {
+        assertRecencyBoost(
+          validated.recencyBoostDays !== undefined ? validated.recencyBoostDays : existingBlock.recency_boost_days,
+          validated.recencyBoost !== undefined ? validated.recencyBoost : existingBlock.recency_boost
+        );
+      }
 
       // Build update query
       const updates: string[] = [];
@@ -306,14 +537,52 @@ export const createScheduleRoutes = (authService?: AuthService, channelService?:
         updates.push(`end_time = $${paramIndex++}`);
         values.push(validated.endTime);
       }
-      if (validated.bucketId !== undefined) {
+      // A bucket list replaces the bucket (its first entry); a bucketId makes the block single-bucket
+      const bucketId = validated.buckets?.length ? validated.buckets[0].bucketId : validated.bucketId;
+      if (bucketId !== undefined) {
         updates.push(`bucket_id = $${paramIndex++}`);
-        values.push(validated.bucketId);
+        values.push(bucketId);
+      }
+      if (validated.bucketStrategy !== undefined) {
+        updates.push(`bucket_strategy = $${paramIndex++}`);
+        values.push(validated.bucketStrategy);
       }
       if (validated.playbackMode !== undefined) {
         updates.push(`playback_mode = $${paramIndex++}`);
         values.push(validated.playbackMode);
       }
+      if (validated.liveInputUrl !== undefined) {
+        updates.push(`live_input_url = $${paramIndex++}`);
+        values.push(validated.liveInputUrl);
+      }
+      if (validated.slotAlignment !== undefined) {
+        updates.push(`slot_alignment = $${paramIndex++}`);
+        values.push(validated.slotAlignment);
+      }
+      if (validated.fillerMode !== undefined) {
+        updates.push(`filler_mode = $${paramIndex++}`);
+        values.push(validated.fillerMode);
+      }
+      if (validated.fillerBucketId !== undefined) {
+        updates.push(`filler_bucket_id = $${paramIndex++}`);
+        values.push(validated.fillerBucketId);
+      }
+      if (validated.noRepeatHours !== undefined) {
+        updates.push(`no_repeat_hours = $${paramIndex++}`);
+        values.push(validated.noRepeatHours);
+      }
+      if (validated.noRepeatItems !== undefined) {
+        updates.push(`no_repeat_items = $${paramIndex++}`);
+        values.push(validated.noRepeatItems);
+      }
+      if (validated.recencyBoostDays !== undefined) {
+        updates.push(`recency_boost_days = $${paramIndex++}`);
+        values.push(validated.recencyBoostDays);
+      }
+      if (validated.recencyBoost !== undefined) {
+        updates.push(`recency_boost = $${paramIndex++}`);
+        values.push(validated.recencyBoost);
+      }
       if (validated.priority !== undefined) {
         updates.push(`priority = $${paramIndex++}`);
         values.push(validated.priority);
@@ -323,6 +592,11 @@ export const createScheduleRoutes = (authService?: AuthService, channelService?:
         values.push(validated.enabled);
       }
 
+      if (validated.buckets !== undefined || validated.bucketId !== undefined) {
+        const buckets = validated.buckets && validated.buckets.length > 1 ? validated.buckets : [];
+        await scheduleRepository.setBlockBuckets(blockId, buckets);
+      }
+
       if (updates.length === 0) {
         return res.json({
           success: true,
@@ -370,7 +644,17 @@ export const createScheduleRoutes = (authService?: AuthService, channelService?:
             name: bucket.getName(),
             bucketType: bucket.getBucketType(),
           } : null,
+          bucketStrategy: block.bucket_strategy,
+          buckets: await toBlockBuckets(block.id),
           playbackMode: block.playback_mode,
+          liveInputUrl: block.live_input_url,
+          slotAlignment: block.slot_alignment,
+          fillerMode: block.filler_mode,
+          fillerBucketId: block.filler_bucket_id,
+          noRepeatHours: block.no_repeat_hours,
+          noRepeatItems: block.no_repeat_items,
+          recencyBoostDays: block.recency_boost_days,
+          recencyBoost: block.recency_boost,
           priority: block.priority,
           enabled: block.enabled,
           createdAt: block.created_at,
@@ -478,6 +762,231 @@ export const createScheduleRoutes = (authService?: AuthService, channelService?:
     }
   });
 
+  /**
+   * GET /api/schedules/channels/:channelId/events
+   * Get the one-off schedule events of a channel (optionally those overlapping from/to)
+   */
+  router.get('/channels/:channelId/events', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { channelId } = req.params;
+      const { from, to } = listScheduleEventsSchema.parse(req.query);
+      const events = await scheduleRepository.getEventsForChannel(channelId, from, to);
+
+      res.json({
+        success: true,
+        data: await Promise.all(events.map(toEventResponse)),
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: error.errors,
+          },
+        });
+      }
+      return next(error);
+    }
+  });
+
+  /**
+   * GET /api/schedules/channels/:channelId/events/:eventId
+   * Get a specific schedule event
+   */
+  router.get('/channels/:channelId/events/:eventId', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { channelId, eventId } = req.params;
+      const event = await scheduleRepository.getEvent(channelId, eventId);
+
+      if (!event) {
+        return next(new NotFoundError(`Schedule event '${eventId}'`));
+      }
+
+      res.json({
+        success: true,
+        data: await toEventResponse(event),
+      });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  /**
+   * POST /api/schedules/channels/:channelId/events
+   * Create a schedule event (overrides the recurring blocks while it runs)
+   */
+  router.post('/channels/:channelId/events', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { channelId } = req.params;
+      const validated = createScheduleEventSchema.parse(req.body);
+
+      validateScheduleEvent(validated);
+      await assertEventSourcesExist(validated.mediaFileId, validated.bucketId);
+
+      const result = await Database.query<ScheduleEventRow>(
+        `INSERT INTO schedules (
+          channel_id, title, description, start_time, end_time,
+          media_file_id, bucket_id, playback_mode, live_input_url, enabled
+        ) VALUES (
+          $1, $2, $3, $4, $5, $6, $7, $8, $9, $10
+        ) RETURNING *`,
+        [
+          channelId,
+          validated.title,
+          validated.description || null,
+          validated.startTime,
+          validated.endTime,
+          validated.mediaFileId || null,
+          validated.bucketId || null,
+          validated.playbackMode || 'sequential',
+          validated.liveInputUrl || null,
+          validated.enabled !== false,
+        ]
+      );
+
+      // Invalidate channel media cache so it re-resolves with the new event
+      if (channelService) {
+        channelService.invalidateChannelMediaCache(channelId);
+        await channelService.invalidateEPGCache(channelId);
+      }
+
+      res.status(201).json({
+        success: true,
+        data: await toEventResponse(result.rows[0]),
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: error.errors,
+          },
+        });
+      }
+      return next(error);
+    }
+  });
+
+  /**
+   * PUT /api/schedules/channels/:channelId/events/:eventId
+   * Update a schedule event
+   */
+  router.put('/channels/:channelId/events/:eventId', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { channelId, eventId } = req.params;
+      const validated = updateScheduleEventSchema.parse(req.body);
+
+      const existingEvent = await scheduleRepository.getEvent(channelId, eventId);
+      if (!existingEvent) {
+        return next(new NotFoundError(`Schedule event '${eventId}'`));
+      }
+
+      validateScheduleEvent({
+        startTime: validated.startTime ?? existingEvent.start_time,
+        endTime: validated.endTime ?? existingEvent.end_time,
+        mediaFileId: validated.mediaFileId !== undefined ? validated.mediaFileId : existingEvent.media_file_id,
+        bucketId: validated.bucketId !== undefined ? validated.bucketId : existingEvent.bucket_id,
+        liveInputUrl: validated.liveInputUrl !== undefined ? validated.liveInputUrl : existingEvent.live_input_url,
+      });
+      await assertEventSourcesExist(validated.mediaFileId, validated.bucketId);
+
+      // Build update query
+      const columns: Array<[string, unknown]> = [
+        ['title', validated.title],
+        ['description', validated.description],
+        ['start_time', validated.startTime],
+        ['end_time', validated.endTime],
+        ['media_file_id', validated.mediaFileId],
+        ['bucket_id', validated.bucketId],
+        ['playback_mode', validated.playbackMode],
+        ['live_input_url', validated.liveInputUrl],
+        ['enabled', validated.enabled],
+      ];
+      const updates: string[] = [];
+      const values: unknown[] = [];
+      for (const [column, value] of columns) {
+        if (value !== undefined) {
+          values.push(value);
+          updates.push(`${column} = $${values.length}`);
+        }
+      }
+
+      if (updates.length === 0) {
+        return res.json({
+          success: true,
+          data: await toEventResponse(existingEvent),
+        });
+      }
+
+      updates.push('updated_at = NOW()');
+      values.push(eventId);
+
+      const result = await Database.query<ScheduleEventRow>(
+        `UPDATE schedules
+         SET ${updates.join(', ')}
+         WHERE id = $${values.length}
+         RETURNING *`,
+        values
+      );
+
+      // Invalidate channel media cache so it re-resolves with the updated event
+      if (channelService) {
+        channelService.invalidateChannelMediaCache(channelId);
+        await channelService.invalidateEPGCache(channelId);
+      }
+
+      res.json({
+        success: true,
+        data: await toEventResponse(result.rows[0]),
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: error.errors,
+          },
+        });
+      }
+      return next(error);
+    }
+  });
+
+  /**
+   * DELETE /api/schedules/channels/:channelId/events/:eventId
+   * Delete a schedule event
+   */
+  router.delete('/channels/:channelId/events/:eventId', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { channelId, eventId } = req.params;
+
+      const event = await scheduleRepository.getEvent(channelId, eventId);
+      if (!event) {
+        return next(new NotFoundError(`Schedule event '${eventId}'`));
+      }
+
+      await Database.query('DELETE FROM schedules WHERE id = $1', [eventId]);
+
+      // Invalidate channel media cache so it re-resolves without the deleted event
+      if (channelService) {
+        channelService.invalidateChannelMediaCache(channelId);
+        await channelService.invalidateEPGCache(channelId);
+      }
+
+      res.json({
+        success: true,
+        message: 'Schedule event deleted',
+      });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
   return router;
 };
-
@@ -1,6 +1,14 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { SettingsService, VALID_FFMPEG_PRESETS } from '../../services/settings/SettingsService';
+import { EncoderProfileService } from '../../services/settings/EncoderProfileService';
+import {
+  AUDIO_CODECS,
+  AUDIO_SAMPLE_RATES,
+  RATE_CONTROL_MODES,
+  VIDEO_CODECS,
+} from '../../domain/encoder/EncoderProfile';
 import { authenticate } from '../middleware/auth';
+import { sendValidationError } from '../middleware/validation';
 import { AuthService } from '../../services/auth/AuthService';
 import { z } from 'zod';
 
@@ -23,9 +31,60 @@ const updateSettingsSchema = z.object({
   segmentDuration: z.number().int().min(1).max(30).optional(),
 });
 
+// Codec-specific rules (preset names, tunes, CRF range) are checked by EncoderProfileService
+const encoderProfileFields = {
+  name: z.string().min(1).max(100),
+  description: z.string().max(500),
+  videoCodec: z.enum(VIDEO_CODECS),
+  preset: z.string().min(1).max(20),
+  rateControl: z.enum(RATE_CONTROL_MODES),
+  crf: z.number().int().min(0).max(63),
+  tune: z.string().min(1).max(20),
+  profile: z.string().min(1).max(20),
+  level: z.string().regex(/^\d(\.\d)?$/),
+  gopSeconds: z.number().min(0.5).max(30),
+  audioCodec: z.enum(AUDIO_CODECS),
+  audioSampleRate: z.number().int().refine((rate) => (AUDIO_SAMPLE_RATES as readonly number[]).includes(rate), {
+    message: `Must be one of ${AUDIO_SAMPLE_RATES.join(', ')}`,
+  }),
+};
+
+const createProfileSchema = z.object({
+  name: encoderProfileFields.name,
+  description: encoderProfileFields.description.optional(),
+  videoCodec: encoderProfileFields.videoCodec.default('libx264'),
+  preset: encoderProfileFields.preset.default('fast'),
+  rateControl: encoderProfileFields.rateControl.default('cbr'),
+  crf: encoderProfileFields.crf.optional(),
+  tune: encoderProfileFields.tune.optional(),
+  profile: encoderProfileFields.profile.optional(),
+  level: encoderProfileFields.level.optional(),
+  gopSeconds: encoderProfileFields.gopSeconds.optional(),
+  audioCodec: encoderProfileFields.audioCodec.default('aac'),
+  audioSampleRate: encoderProfileFields.audioSampleRate.default(44100),
+});
+
+const updateProfileSchema = z.object({
+  name: encoderProfileFields.name.optional(),
+  description: encoderProfileFields.description.nullable().optional(),
+  videoCodec: encoderProfileFields.videoCodec.optional(),
+  preset: encoderProfileFields.preset.optional(),
+  rateControl: encoderProfileFields.rateControl.optional(),
+  crf: encoderProfileFields.crf.nullable().optional(),
+  tune: encoderProfileFields.tune.nullable().optional(),
+  profile: encoderProfileFields.profile.nullable().optional(),
+  level: encoderProfileFields.level.nullable().optional(),
+  gopSeconds: encoderProfileFields.gopSeconds.nullable().optional(),
+  audioCodec: encoderProfileFields.audioCodec.optional(),
+  audioSampleRate: encoderProfileFields.audioSampleRate.optional(),
+});
+
+const profileIdSchema = z.string().uuid();
+
 export const createSettingsRoutes = (authService?: AuthService) => {
   const requireAuth = authenticate(authService);
   const settingsService = new SettingsService();
+  const profileService = new EncoderProfileService();
 
   /**
    * GET /api/settings
@@ -99,6 +158,103 @@ export const createSettingsRoutes = (authService?: AuthService) => {
     }
   });
 
+  /**
+   * GET /api/settings/profiles
+   * List encoder profiles
+   */
+  router.get('/profiles', requireAuth, async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const profiles = await profileService.listProfiles();
+      res.json({
+        success: true,
+        data: profiles,
+      });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  /**
+   * POST /api/settings/profiles
+   * Create encoder profile
+   */
+  router.post('/profiles', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const validated = createProfileSchema.parse(req.body);
+      const profile = await profileService.createProfile(validated);
+      res.status(201).json({
+        success: true,
+        data: profile,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendValidationError(res, error);
+      }
+      return next(error);
+    }
+  });
+
+  /**
+   * GET /api/settings/profiles/:id
+   * Get encoder profile
+   */
+  router.get('/profiles/:id', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const profileId = profileIdSchema.parse(req.params.id);
+      const profile = await profileService.getProfile(profileId);
+      res.json({
+        success: true,
+        data: profile,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendValidationError(res, error);
+      }
+      return next(error);
+    }
+  });
+
+  /**
+   * PUT /api/settings/profiles/:id
+   * Update encoder profile (applies to channels on their next stream start)
+   */
+  router.put('/profiles/:id', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const profileId = profileIdSchema.parse(req.params.id);
+      const validated = updateProfileSchema.parse(req.body);
+      const profile = await profileService.updateProfile(profileId, validated);
+      res.json({
+        success: true,
+        data: profile,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendValidationError(res, error);
+      }
+      return next(error);
+    }
+  });
+
+  /**
+   * DELETE /api/settings/profiles/:id
+   * Delete encoder profile (channels using it fall back to the global preset)
+   */
+  router.delete('/profiles/:id', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const profileId = profileIdSchema.parse(req.params.id);
+      await profileService.deleteProfile(profileId);
+      res.json({
+        success: true,
+        message: 'Encoder profile deleted successfully',
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendValidationError(res, error);
+      }
+      return next(error);
+    }
+  });
+
   return router;
 };
 
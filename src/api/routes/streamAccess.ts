@@ -0,0 +1,129 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { ChannelService } from '../../services/channel/ChannelService';
+import { StreamAccessService } from '../../services/access/StreamAccessService';
+import { authenticate } from '../middleware/auth';
+import { sendValidationError } from '../middleware/validation';
+import { AuthService } from '../../services/auth/AuthService';
+import { z } from 'zod';
+
+const router = Router();
+
+const createTokenSchema = z.object({
+  name: z.string().min(1).max(100),
+  channelIds: z.array(z.string().uuid()).min(1).optional(),
+  expiresAt: z
+    .string()
+    .datetime()
+    .transform((value) => new Date(value))
+    .optional(),
+});
+
+const idSchema = z.string().uuid();
+
+export const createStreamAccessRoutes = (
+  streamAccessService: StreamAccessService,
+  channelService: ChannelService,
+  authService?: AuthService
+) => {
+  const requireAuth = authenticate(authService);
+
+  /**
+   * GET /api/viewer-tokens
+   * List viewer tokens, newest first
+   */
+  router.get('/api/viewer-tokens', requireAuth, async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const tokens = await streamAccessService.listTokens();
+      res.json({
+        success: true,
+        data: tokens,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/viewer-tokens
+   * Mint a viewer token (the token value is only returned in this response)
+   */
+  router.post('/api/viewer-tokens', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const data = createTokenSchema.parse(req.body);
+      const { token, viewerToken } = await streamAccessService.createToken(data);
+      res.status(201).json({
+        success: true,
+        data: {
+          ...viewerToken,
+          token,
+        },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendValidationError(res, error);
+      }
+      return next(error);
+    }
+  });
+
+  /**
+   * GET /api/viewer-tokens/:id
+   * Get a viewer token
+   */
+  router.get('/api/viewer-tokens/:id', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = idSchema.parse(req.params.id);
+      const viewerToken = await streamAccessService.getToken(id);
+      res.json({
+        success: true,
+        data: viewerToken,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendValidationError(res, error);
+      }
+      return next(error);
+    }
+  });
+
+  /**
+   * DELETE /api/viewer-tokens/:id
+   * Revoke a viewer token (kept for auditing)
+   */
+  router.delete('/api/viewer-tokens/:id', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = idSchema.parse(req.params.id);
+      const viewerToken = await streamAccessService.revokeToken(id);
+      res.json({
+        success: true,
+        data: viewerToken,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendValidationError(res, error);
+      }
+      return next(error);
+    }
+  });
+
+  /**
+   * GET /api/channels/:channelId/stream-url
+   * Get a channel's master playlist URL (signed and expiring when the channel requires signed URLs)
+   */
+  router.get('/api/channels/:channelId/stream-url', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const channel = await channelService.getChannel(req.params.channelId);
+      res.json({
+        success: true,
+        data: {
+          url: `${req.protocol}://${req.get('host')}${streamAccessService.getEntryPath(channel)}`,
+          signed: streamAccessService.requiresSignedUrls(channel),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+};
@@ -1,62 +1,324 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { ChannelService } from '../../services/channel/ChannelService';
+import { Channel } from '../../domain/channel/Channel';
 import path from 'path';
 import fs from 'fs/promises';
-import { createReadStream } from 'fs';
-import { NotFoundError, ValidationError } from '../../utils/errors';
+import { ConflictError, NotFoundError, ValidationError } from '../../utils/errors';
 import { validateSlug, validatePathWithinBase } from '../../utils/pathSecurity';
+import { buildMasterPlaylist, isValidRenditionName } from '../../infrastructure/ffmpeg/RenditionLadder';
+import { buildDashManifest } from '../../infrastructure/ffmpeg/DashManifest';
+import { isPassthroughEnabled } from '../../infrastructure/ffmpeg/Passthrough';
+import {
+  PlaylistService,
+  LowLatencyOptions,
+  appendPlaylistQuery,
+  getLowLatencyOptions,
+  getParentSegmentParts,
+  getPartFilename,
+  rewriteSegmentUris,
+} from '../../services/playlist/PlaylistService';
+import { ViewerSessionService } from '../../services/viewer/ViewerSessionService';
+import { StreamAccessService, StreamUrlParams } from '../../services/access/StreamAccessService';
+import { AnalyticsCollector } from '../../services/analytics/AnalyticsCollector';
+import { bytesServed } from '../../infrastructure/metrics/StreamingMetrics';
+import { CachedSegment, SegmentCache } from '../../infrastructure/storage/SegmentCache';
+import { getChannelCdnUrl } from '../../infrastructure/storage/SegmentStorage';
+import { ViewerClient, ViewerSession } from '../../domain/viewer/ViewerSession';
 
 const router = Router();
 
-// Track active viewer sessions per channel
-// Key: channelId, Value: Map of sessionId -> timeout handle
-const viewerSessions = new Map<string, Map<string, NodeJS.Timeout>>();
+// Client details for viewer session tracking
+function getViewerClient(req: Request): ViewerClient {
+  return {
+    ip: req.ip || req.socket.remoteAddress || 'unknown',
+    userAgent: req.get('user-agent'),
+  };
+}
+
+// Get a single-valued query parameter
+function getQueryValue(req: Request, name: string): string | undefined {
+  const value = req.query[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+// Viewer session token carried in stream URLs (?sid=...)
+function getSessionToken(req: Request): string | undefined {
+  return getQueryValue(req, 'sid');
+}
+
+// Stream URL signature (?exp=...&sig=...)
+function getStreamUrlParams(req: Request): StreamUrlParams {
+  return { expires: getQueryValue(req, 'exp'), signature: getQueryValue(req, 'sig') };
+}
 
-// Get session ID from request
-function getSessionId(req: Request): string {
-  const ip = req.ip || req.socket.remoteAddress || 'unknown';
-  const ua = req.get('user-agent') || 'unknown';
-  // Simple hash of IP + UA for session tracking
-  return `${ip}-${ua.substring(0, 50)}`;
+// Embed a viewer's session token (and URL signature on channels requiring one) in every URI of a playlist
+// Signed on every render, so each playlist reload hands out URLs with a fresh expiry
+function addSessionToPlaylist(
+  viewerSessionService: ViewerSessionService,
+  streamAccessService: StreamAccessService,
+  channel: Channel,
+  session: ViewerSession,
+  playlist: string
+): string {
+  const sessionToken = viewerSessionService.getSessionToken(session);
+  const query = [`sid=${encodeURIComponent(sessionToken)}`, streamAccessService.getSignedQuery(channel, sessionToken)]
+    .filter(Boolean)
+    .join('&');
+  return appendPlaylistQuery(playlist, query);
 }
 
-// Update or create viewer session with timeout
-function updateViewerSession(
-  channelId: string,
-  sessionId: string,
-  channelService: ChannelService
+// Count a segment against its viewer session (and its content as watch time) once it has been sent
+function trackSegment(
+  viewerSessionService: ViewerSessionService,
+  analyticsCollector: AnalyticsCollector,
+  session: ViewerSession,
+  segment: string,
+  watchSeconds: number,
+  res: Response
 ): void {
-  let sessions = viewerSessions.get(channelId);
-  if (!sessions) {
-    sessions = new Map();
-    viewerSessions.set(channelId, sessions);
-  }
-
-  // Clear existing timeout for this session
-  const existingTimeout = sessions.get(sessionId);
-  if (existingTimeout) {
-    clearTimeout(existingTimeout);
-  }
-
-  // Set new timeout - session expires after 60 seconds of inactivity
-  const timeout = setTimeout(() => {
-    const currentSessions = viewerSessions.get(channelId);
-    if (currentSessions) {
-      currentSessions.delete(sessionId);
-      // If no more active sessions, disconnect viewer
-      if (currentSessions.size === 0) {
-        viewerSessions.delete(channelId);
-        channelService.onViewerDisconnect(channelId).catch(() => {
-          // Silently handle errors
-        });
-      }
+  res.on('finish', () => {
+    if (res.statusCode < 400) {
+      const bytes = Number(res.getHeader('Content-Length')) || 0;
+      viewerSessionService.recordSegment(session, segment, bytes);
+      bytesServed.inc({ channel: session.channelId }, bytes);
+      analyticsCollector.recordWatchTime(session, watchSeconds);
+    }
+  });
+}
+
+// Seconds of content in a segment, counted as watch time
+// Init segments, placeholders and alternate audio/subtitle tracks (fetched alongside video) count 0
+function getSegmentWatchSeconds(channel: Channel, segment: string, variant?: string): number {
+  if (variant && !channel.config.renditions?.some((r) => r.name === variant)) {
+    return 0;
+  }
+  if (/^llseg_\d+\.m4s$/.test(segment)) {
+    return channel.config.segmentDuration;
+  }
+  if (!/^stream_\d+\.(m4s|ts)$/.test(segment)) {
+    return 0;
+  }
+  // LL-HLS players fetch parts rather than whole segments
+  const lowLatency = getChannelLowLatency(channel, variant);
+  return lowLatency ? lowLatency.partTarget : channel.config.segmentDuration;
+}
+
+// Check if a variant directory belongs to the channel (ladder rendition or audio/subtitle track)
+function isKnownVariant(channelService: ChannelService, channel: Channel, variant: string): boolean {
+  if (!isValidRenditionName(variant)) {
+    return false;
+  }
+  if (channel.config.renditions?.some((r) => r.name === variant)) {
+    return true;
+  }
+  const tracks = channelService.getStreamTracks(channel.id);
+  return !!tracks && [...tracks.audioTracks, ...tracks.subtitleTracks].some((t) => t.name === variant);
+}
+
+// Get the LL-HLS layout of a channel's video output (undefined for regular HLS channels)
+// Alternate audio/subtitle tracks always use regular segments, so pass their variant to opt out
+function getChannelLowLatency(channel: Channel, variant?: string): LowLatencyOptions | undefined {
+  if (!channel.config.lowLatency) {
+    return undefined;
+  }
+  if (variant && !channel.config.renditions?.some((r) => r.name === variant)) {
+    return undefined;
+  }
+  return getLowLatencyOptions(channel.config.segmentDuration);
+}
+
+// Point a media playlist's segments at the CDN for channels publishing to S3
+// LL-HLS parts and parent segments are assembled and awaited here, so low-latency playlists keep local URIs
+function addCdnToPlaylist(channel: Channel, playlist: string, variant?: string): string {
+  const cdnUrl = getChannelLowLatency(channel, variant) ? undefined : getChannelCdnUrl(channel.config, variant);
+  return cdnUrl ? rewriteSegmentUris(playlist, cdnUrl) : playlist;
+}
+
+// Parse an optional non-negative integer query parameter (_HLS_msn / _HLS_part)
+function parseDirective(value: unknown, name: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+    throw new ValidationError(`Invalid ${name}`);
+  }
+  return parseInt(value, 10);
+}
+
+// Serve a media playlist, honouring LL-HLS blocking reload directives when enabled
+async function renderPlaylist(
+  playlistService: PlaylistService,
+  playlistPath: string,
+  channel: Channel,
+  lowLatency: LowLatencyOptions | undefined,
+  req: Request
+): Promise<string> {
+  if (!lowLatency) {
+    return playlistService.getPlaylist(playlistPath, channel.id, true);
+  }
+
+  const msn = parseDirective(req.query._HLS_msn, '_HLS_msn');
+  const part = parseDirective(req.query._HLS_part, '_HLS_part');
+  if (part !== undefined && msn === undefined) {
+    throw new ValidationError('_HLS_part requires _HLS_msn');
+  }
+  if (msn === undefined) {
+    return playlistService.getPlaylist(playlistPath, channel.id, true, lowLatency);
+  }
+  return playlistService.getBlockingPlaylist(playlistPath, channel.id, lowLatency, msn, part);
+}
+
+// Wait for FFmpeg to finish writing a file (LL-HLS clients request the preload hint part early)
+async function waitForFile(filePath: string, timeoutMs: number): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    try {
+      await fs.access(filePath);
+      return;
+    } catch {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+  }
+}
+
+// Serve an LL-HLS parent segment (llseg_N.m4s) by concatenating its parts
+// The playlist lists segments a discontinuity cut short; any other segment has every part
+async function sendParentSegment(
+  segmentCache: SegmentCache,
+  dir: string,
+  segmentNumber: number,
+  lowLatency: LowLatencyOptions,
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const playlist = await fs.readFile(path.join(dir, 'stream.m3u8'), 'utf-8').catch(() => '');
+    const firstPart = segmentNumber * lowLatency.partsPerSegment;
+    const partNames =
+      getParentSegmentParts(playlist, lowLatency, segmentNumber) ??
+      Array.from({ length: lowLatency.partsPerSegment }, (_, i) => getPartFilename(firstPart + i));
+    const parts = await Promise.all(
+      partNames.map((part) => {
+        validatePathWithinBase(dir, part);
+        return segmentCache.read(dir, part);
+      })
+    );
+    // A missing part means the segment is incomplete or already pruned
+    if (parts.some((part) => !part)) {
+      res.status(404).end();
+      return;
+    }
+
+    const cachedParts = parts as CachedSegment[];
+    const last = cachedParts[cachedParts.length - 1];
+    sendCachedBody(
+      {
+        body: Buffer.concat(cachedParts.map((part) => part.body)),
+        etag: `"${cachedParts.map((part) => part.etag.slice(1, -1)).join('.')}"`,
+        lastModified: last.lastModified,
+      },
+      'video/mp4',
+      req,
+      res
+    );
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Serve a segment from a channel or variant directory, handling LL-HLS parent segments and parts
+async function sendChannelSegment(
+  segmentCache: SegmentCache,
+  dir: string,
+  segment: string,
+  lowLatency: LowLatencyOptions | undefined,
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  const parent = segment.match(/^llseg_(\d+)\.m4s$/);
+  if (parent) {
+    if (!lowLatency) {
+      return next(new NotFoundError('Segment'));
     }
-  }, 60000); // 60 second timeout
+    return sendParentSegment(segmentCache, dir, parseInt(parent[1], 10), lowLatency, req, res, next);
+  }
 
-  sessions.set(sessionId, timeout);
+  const segmentPath = validatePathWithinBase(dir, segment);
+  if (lowLatency && /^stream_\d+\.m4s$/.test(segment)) {
+    // Preload hint: hold the request until the part exists (about one part duration)
+    await waitForFile(segmentPath, lowLatency.partTarget * 3 * 1000);
+  }
+  return sendSegment(segmentCache, dir, segment, req, res, next);
 }
 
-export const createStreamingRoutes = (channelService: ChannelService) => {
+// Send a segment from memory, answering conditional (ETag / Last-Modified) and single-range requests
+function sendCachedBody(segment: CachedSegment, contentType: string, req: Request, res: Response): void {
+  res.setHeader('Content-Type', contentType);
+  // Shorter cache time for segments (30 seconds) to prevent serving stale segments after restart
+  // Playlists are no-cache, but segments need some cache for performance
+  // 30 seconds balances performance with freshness for live streaming
+  res.setHeader('Cache-Control', 'max-age=30, must-revalidate');
+  res.setHeader('ETag', segment.etag);
+  res.setHeader('Last-Modified', segment.lastModified.toUTCString());
+  res.setHeader('Accept-Ranges', 'bytes');
+
+  if (req.fresh) {
+    res.status(304).end();
+    return;
+  }
+
+  let body = segment.body;
+  // If-Range: only honour the range while the client's copy is still current
+  const ifRange = req.get('If-Range');
+  const rangeValid = !ifRange || ifRange === segment.etag || ifRange === segment.lastModified.toUTCString();
+  const ranges = req.headers.range && rangeValid ? req.range(body.length, { combine: true }) : undefined;
+  if (ranges === -1) {
+    res.setHeader('Content-Range', `bytes */${body.length}`);
+    res.status(416).end();
+    return;
+  }
+  // Malformed and multi-range requests get the whole segment
+  if (Array.isArray(ranges) && ranges.type === 'bytes' && ranges.length === 1) {
+    const { start, end } = ranges[0];
+    res.status(206);
+    res.setHeader('Content-Range', `bytes ${start}-${end}/${body.length}`);
+    body = body.subarray(start, end + 1);
+  }
+
+  res.setHeader('Content-Length', body.length);
+  res.end(body);
+}
+
+// Serve a segment file (404 when FFmpeg hasn't written it yet or already pruned it)
+async function sendSegment(
+  segmentCache: SegmentCache,
+  dir: string,
+  segment: string,
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const cached = await segmentCache.read(dir, segment);
+    if (!cached) {
+      res.status(404).end(); // Empty response for HLS compatibility
+      return;
+    }
+    sendCachedBody(cached, segment.endsWith('.vtt') ? 'text/vtt' : 'video/mp2t', req, res);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export const createStreamingRoutes = (
+  channelService: ChannelService,
+  viewerSessionService: ViewerSessionService,
+  streamAccessService: StreamAccessService,
+  analyticsCollector: AnalyticsCollector,
+  segmentCache: SegmentCache
+) => {
   // Use the same PlaylistService instance as ChannelService to share transition tracking
   // This ensures transition points recorded in ChannelService are visible when serving playlists
   const playlistService = channelService.playlistService;
@@ -65,36 +327,45 @@ export const createStreamingRoutes = (channelService: ChannelService) => {
    * Master playlist
    */
   router.get('/:slug/master.m3u8', async (req: Request, res: Response, next: NextFunction) => {
-    // Security: Validate slug format (alphanumeric only)
-    validateSlug(req.params.slug);
-
-    const channel = await channelService.findChannelBySlug(req.params.slug);
-    if (!channel) {
-      return next(new NotFoundError(`Channel '${req.params.slug}'`));
-    }
-
-    // Track viewer session (don't disconnect immediately - HLS uses short-lived requests)
-    const sessionId = getSessionId(req);
-    const sessions = viewerSessions.get(channel.id);
-    const wasFirstViewer = !sessions || sessions.size === 0;
+    try {
+      // Security: Validate slug format (alphanumeric only)
+      validateSlug(req.params.slug);
 
-    // Update session with timeout (resets timeout on each request)
-    updateViewerSession(channel.id, sessionId, channelService);
+      const channel = await channelService.findChannelBySlug(req.params.slug);
+      if (!channel) {
+        return next(new NotFoundError(`Channel '${req.params.slug}'`));
+      }
 
-    // Only call onViewerConnect if this is the first viewer (triggers stream resume)
-    if (wasFirstViewer) {
-      await channelService.onViewerConnect(channel.id);
+      // Channels requiring signed URLs: viewer token (?token=) or signed link from /playlist.m3u
+      const viewerToken = await streamAccessService.authorizeEntry(
+        channel,
+        getQueryValue(req, 'token'),
+        getStreamUrlParams(req)
+      );
+
+      // Issue or continue the player's viewer session (first viewer resumes the stream)
+      const session = await viewerSessionService.startSession(
+        channel.id,
+        getSessionToken(req),
+        getViewerClient(req),
+        viewerToken?.id
+      );
+
+      // Lists every rendition of the channel's ladder (or the single stream.m3u8 rendition)
+      // plus alternate audio/subtitle renditions of the running stream
+      const masterPlaylist = buildMasterPlaylist(
+        channel.config,
+        channelService.getStreamTracks(channel.id),
+        channelService.getStreamEncoderProfile(channel.id),
+        channelService.streamHasAudio(channel.id)
+      );
+
+      res.setHeader('Content-Type', 'application/vnd.apple.mpegurl');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.send(addSessionToPlaylist(viewerSessionService, streamAccessService, channel, session, masterPlaylist));
+    } catch (error) {
+      next(error);
     }
-
-    const masterPlaylist = `#EXTM3U
-#EXT-X-VERSION:3
-#EXT-X-STREAM-INF:BANDWIDTH=${channel.config.videoBitrate + channel.config.audioBitrate},RESOLUTION=${channel.config.resolution}
-stream.m3u8
-`;
-
-    res.setHeader('Content-Type', 'application/vnd.apple.mpegurl');
-    res.setHeader('Cache-Control', 'no-cache');
-    res.send(masterPlaylist);
   });
 
   /**
@@ -107,37 +378,90 @@ stream.m3u8
    * - PlaylistService handles missing/empty playlist gracefully
    */
   router.get('/:slug/stream.m3u8', async (req: Request, res: Response, next: NextFunction) => {
-    // Security: Validate slug format (alphanumeric only)
-    validateSlug(req.params.slug);
+    try {
+      // Security: Validate slug format (alphanumeric only)
+      validateSlug(req.params.slug);
+
+      const channel = await channelService.findChannelBySlug(req.params.slug);
+      if (!channel) {
+        return next(new NotFoundError(`Channel '${req.params.slug}'`));
+      }
 
-    const channel = await channelService.findChannelBySlug(req.params.slug);
-    if (!channel) {
-      return next(new NotFoundError(`Channel '${req.params.slug}'`));
+      // Channels requiring signed URLs: URL must be signed for the viewer session
+      streamAccessService.authorizeStream(channel, getSessionToken(req), getStreamUrlParams(req));
+
+      // Track viewer session (playlist requests indicate active viewing)
+      const session = await viewerSessionService.touchSession(channel.id, getSessionToken(req), getViewerClient(req));
+
+      const playlistPath = path.join(channel.config.outputDir, 'stream.m3u8');
+
+      // Simply serve FFmpeg's playlist (or minimal fallback if not ready)
+      // Pass channelId for transition tracking
+      // TEMPORARY DEBUG: Always return original playlist
+      // LL-HLS channels support blocking reload (?_HLS_msn=N&_HLS_part=M)
+      const playlist = await renderPlaylist(
+        playlistService,
+        playlistPath,
+        channel,
+        getChannelLowLatency(channel),
+        req
+      );
+
+      res.setHeader('Content-Type', 'application/vnd.apple.mpegurl');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.send(
+        addSessionToPlaylist(viewerSessionService, streamAccessService, channel, session, addCdnToPlaylist(channel, playlist))
+      );
+    } catch (error) {
+      next(error);
     }
+  });
+
+  /**
+   * GET /:slug/manifest.mpd
+   * Live MPEG-DASH manifest addressing the same fMP4 segments as the HLS playlists
+   */
+  router.get('/:slug/manifest.mpd', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      // Security: Validate slug format (alphanumeric only)
+      validateSlug(req.params.slug);
 
-    // Track viewer session (playlist requests indicate active viewing)
-    const sessionId = getSessionId(req);
-    const sessions = viewerSessions.get(channel.id);
-    const wasFirstViewer = !sessions || sessions.size === 0;
+      const channel = await channelService.findChannelBySlug(req.params.slug);
+      if (!channel) {
+        return next(new NotFoundError(`Channel '${req.params.slug}'`));
+      }
 
-    // Update session with timeout (resets timeout on each request)
-    updateViewerSession(channel.id, sessionId, channelService);
+      // Passthrough runs change codec parameters and init segments between files,
+      // which a single-period manifest can't describe
+      if (isPassthroughEnabled(channel.config)) {
+        return next(new ConflictError('MPEG-DASH is not available for passthrough channels'));
+      }
+      // DASH players don't carry the manifest's query over to segment URLs
+      if (streamAccessService.requiresSignedUrls(channel)) {
+        return next(new ConflictError('MPEG-DASH is not available for channels with signed URLs'));
+      }
 
-    // Only call onViewerConnect if this is the first viewer (triggers stream resume)
-    if (wasFirstViewer) {
-      await channelService.onViewerConnect(channel.id);
-    }
+      // Track viewer session (manifest refreshes indicate active viewing)
+      await viewerSessionService.touchSession(channel.id, getSessionToken(req), getViewerClient(req));
 
-    const playlistPath = path.join(channel.config.outputDir, 'stream.m3u8');
+      // availabilityStartTime is the schedule start - only known once the channel has streamed
+      const scheduleStartTime = await channelService.getScheduleStartTime(channel.id);
+      if (!scheduleStartTime) {
+        return next(new NotFoundError(`Manifest for channel '${req.params.slug}'`));
+      }
 
-    // Simply serve FFmpeg's playlist (or minimal fallback if not ready)
-    // Pass channelId for transition tracking
-    // TEMPORARY DEBUG: Always return original playlist
-    const playlist = await playlistService.getPlaylist(playlistPath, channel.id, true);
+      const manifest = buildDashManifest(channel.config, {
+        availabilityStartTime: scheduleStartTime,
+        lowLatency: channel.config.lowLatency,
+        encoderProfile: channelService.getStreamEncoderProfile(channel.id),
+      });
 
-    res.setHeader('Content-Type', 'application/vnd.apple.mpegurl');
-    res.setHeader('Cache-Control', 'no-cache');
-    res.send(playlist);
+      res.setHeader('Content-Type', 'application/dash+xml');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.send(manifest);
+    } catch (error) {
+      next(error);
+    }
   });
 
   /**
@@ -145,100 +469,164 @@ stream.m3u8
    * Stream segment
    */
   router.get('/:slug/:segment', async (req: Request, res: Response, next: NextFunction) => {
-    // Security: Validate slug format (alphanumeric only)
-    validateSlug(req.params.slug);
+    try {
+      // Security: Validate slug format (alphanumeric only)
+      validateSlug(req.params.slug);
 
-    const channel = await channelService.findChannelBySlug(req.params.slug);
-    if (!channel) {
-      return next(new NotFoundError(`Channel '${req.params.slug}'`));
-    }
+      const channel = await channelService.findChannelBySlug(req.params.slug);
+      if (!channel) {
+        return next(new NotFoundError(`Channel '${req.params.slug}'`));
+      }
 
-    // Track viewer session (segment requests indicate active viewing)
-    // Segment requests are the most reliable indicator of active viewers
-    const sessionId = getSessionId(req);
-    const sessions = viewerSessions.get(channel.id);
-    const wasFirstViewer = !sessions || sessions.size === 0;
+      // Channels requiring signed URLs: URL must be signed for the viewer session
+      streamAccessService.authorizeStream(channel, getSessionToken(req), getStreamUrlParams(req));
 
-    // Update session with timeout (resets timeout on each segment request)
-    updateViewerSession(channel.id, sessionId, channelService);
+      // Track viewer session (segment requests indicate active viewing)
+      // Segment requests are the most reliable indicator of active viewers
+      const session = await viewerSessionService.touchSession(channel.id, getSessionToken(req), getViewerClient(req));
 
-    // Only call onViewerConnect if this is the first viewer (triggers stream resume)
-    if (wasFirstViewer) {
-      await channelService.onViewerConnect(channel.id);
-    }
+      const segment = req.params.segment;
 
-    const segment = req.params.segment;
+      // Security: Validate segment name (no path traversal)
+      if (segment.includes('..') || segment.includes('/') || segment.includes('\\')) {
+        throw new ValidationError('Invalid segment name');
+      }
 
-    // Security: Validate segment name (no path traversal)
-    if (segment.includes('..') || segment.includes('/') || segment.includes('\\')) {
-      throw new ValidationError('Invalid segment name');
-    }
+      // Validate segment filename - allow stream_XXX.m4s, starting.m4s (placeholder), and init.mp4 (fMP4 initialization)
+      // LL-HLS parent segments (llseg_XXX.m4s) are assembled from parts
+      // Passthrough channels write one init_N.mp4 per FFmpeg run; relay channels may mirror MPEG-TS segments
+      if (!/^(stream_\d+\.(m4s|ts)|llseg_\d+\.m4s|starting\.m4s|init(_\d+)?\.mp4)$/.test(segment)) {
+        return next(new NotFoundError('Segment'));
+      }
 
-    // Validate segment filename - allow stream_XXX.m4s, starting.m4s (placeholder), and init.mp4 (fMP4 initialization)
-    if (!/^(stream_\d+\.m4s|starting\.m4s|init\.mp4)$/.test(segment)) {
-      return next(new NotFoundError('Segment'));
+      trackSegment(
+        viewerSessionService,
+        analyticsCollector,
+        session,
+        segment,
+        getSegmentWatchSeconds(channel, segment),
+        res
+      );
+
+      // Security: Resolved paths are validated to stay within output directory
+      await sendChannelSegment(
+        segmentCache,
+        channel.config.outputDir,
+        segment,
+        getChannelLowLatency(channel),
+        req,
+        res,
+        next
+      );
+    } catch (error) {
+      next(error);
     }
+  });
 
-    // Security: Ensure resolved path stays within output directory
-    const segmentPath = validatePathWithinBase(channel.config.outputDir, segment);
-
+  /**
+   * GET /:slug/:variant/stream.m3u8
+   * Rendition playlist (adaptive bitrate ladder)
+   */
+  router.get('/:slug/:variant/stream.m3u8', async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const stats = await fs.stat(segmentPath);
-
-      res.setHeader('Content-Type', 'video/mp2t');
-      res.setHeader('Content-Length', stats.size);
-      // Shorter cache time for segments (30 seconds) to prevent serving stale segments after restart
-      // Playlists are no-cache, but segments need some cache for performance
-      // 30 seconds balances performance with freshness for live streaming
-      res.setHeader('Cache-Control', 'max-age=30, must-revalidate');
-
-      const stream = createReadStream(segmentPath);
-
-      // Handle stream errors
-      stream.on('error', (error: NodeJS.ErrnoException) => {
-        // Don't send error if response already sent
-        if (!res.headersSent) {
-          // If file not found, return 404 silently (common in HLS)
-          if (error.code === 'ENOENT') {
-            res.status(404).end(); // Empty response for HLS compatibility
-            return;
-          }
-          return next(error);
-        }
-        // Silently handle errors after headers sent (client may have disconnected)
-      });
+      // Security: Validate slug format (alphanumeric only)
+      validateSlug(req.params.slug);
 
-      // Handle client disconnect
-      req.on('close', () => {
-        // Destroy the stream if client disconnects
-        if (!stream.destroyed) {
-          stream.destroy();
-        }
-      });
+      const channel = await channelService.findChannelBySlug(req.params.slug);
+      if (!channel) {
+        return next(new NotFoundError(`Channel '${req.params.slug}'`));
+      }
 
-      // Handle response errors
-      res.on('error', (error) => {
-        // Clean up stream if response errors
-        if (!stream.destroyed) {
-          stream.destroy();
-        }
-        // Don't call next() if response already started
-        if (!res.headersSent) {
-          next(error);
-        }
-      });
+      const variant = req.params.variant;
+      if (!isKnownVariant(channelService, channel, variant)) {
+        return next(new NotFoundError(`Rendition '${variant}'`));
+      }
 
-      // Pipe stream to response
-      stream.pipe(res);
+      // Channels requiring signed URLs: URL must be signed for the viewer session
+      streamAccessService.authorizeStream(channel, getSessionToken(req), getStreamUrlParams(req));
+
+      // Track viewer session (playlist requests indicate active viewing)
+      const session = await viewerSessionService.touchSession(channel.id, getSessionToken(req), getViewerClient(req));
+
+      // Security: Ensure resolved path stays within output directory
+      const playlistPath = validatePathWithinBase(channel.config.outputDir, path.join(variant, 'stream.m3u8'));
+      const playlist = await renderPlaylist(
+        playlistService,
+        playlistPath,
+        channel,
+        getChannelLowLatency(channel, variant),
+        req
+      );
+
+      res.setHeader('Content-Type', 'application/vnd.apple.mpegurl');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.send(
+        addSessionToPlaylist(
+          viewerSessionService,
+          streamAccessService,
+          channel,
+          session,
+          addCdnToPlaylist(channel, playlist, variant)
+        )
+      );
     } catch (error) {
-      // For file system errors (like ENOENT), return 404 without logging as error
-      // This is common in HLS when segments haven't been generated yet or were cleaned up
-      const fsError = error as NodeJS.ErrnoException;
-      if (fsError.code === 'ENOENT') {
-        return res.status(404).end(); // Empty response for HLS compatibility
+      next(error);
+    }
+  });
+
+  /**
+   * GET /:slug/:variant/:segment
+   * Rendition segment (adaptive bitrate ladder)
+   */
+  router.get('/:slug/:variant/:segment', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      // Security: Validate slug format (alphanumeric only)
+      validateSlug(req.params.slug);
+
+      const channel = await channelService.findChannelBySlug(req.params.slug);
+      if (!channel) {
+        return next(new NotFoundError(`Channel '${req.params.slug}'`));
+      }
+
+      const { variant, segment } = req.params;
+      if (!isKnownVariant(channelService, channel, variant)) {
+        return next(new NotFoundError(`Rendition '${variant}'`));
       }
-      // For other errors, pass to error handler
-      return next(error);
+
+      // Channels requiring signed URLs: URL must be signed for the viewer session
+      streamAccessService.authorizeStream(channel, getSessionToken(req), getStreamUrlParams(req));
+
+      // Track viewer session (segment requests indicate active viewing)
+      const session = await viewerSessionService.touchSession(channel.id, getSessionToken(req), getViewerClient(req));
+
+      // Validate segment filename - FFmpeg names init segments per variant when using var_stream_map
+      // Subtitle renditions use WebVTT segments
+      if (!/^(stream_\d+\.(m4s|vtt)|llseg_\d+\.m4s|init(_[a-z0-9_-]+)?\.mp4)$/.test(segment)) {
+        return next(new NotFoundError('Segment'));
+      }
+
+      // Security: Ensure resolved path stays within output directory
+      const variantDir = validatePathWithinBase(channel.config.outputDir, variant);
+      trackSegment(
+        viewerSessionService,
+        analyticsCollector,
+        session,
+        `${variant}/${segment}`,
+        getSegmentWatchSeconds(channel, segment, variant),
+        res
+      );
+
+      await sendChannelSegment(
+        segmentCache,
+        variantDir,
+        segment,
+        getChannelLowLatency(channel, variant),
+        req,
+        res,
+        next
+      );
+    } catch (error) {
+      next(error);
     }
   });
 
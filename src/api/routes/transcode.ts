@@ -0,0 +1,130 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { TranscodeService } from '../../services/transcode/TranscodeService';
+import { TRANSCODE_JOB_STATUSES } from '../../domain/transcode/TranscodeJob';
+import { authenticate } from '../middleware/auth';
+import { sendValidationError } from '../middleware/validation';
+import { AuthService } from '../../services/auth/AuthService';
+import { z } from 'zod';
+
+const router = Router();
+
+// Queue the given files, a bucket, or (neither given) all of the channel's buckets
+const createJobsSchema = z
+  .object({
+    channelId: z.string().uuid(),
+    bucketId: z.string().uuid().optional(),
+    mediaFileIds: z.array(z.string().uuid()).min(1).max(1000).optional(),
+  })
+  .refine((data) => !(data.bucketId && data.mediaFileIds), {
+    message: 'Specify either bucketId or mediaFileIds, not both',
+  });
+
+const listJobsSchema = z.object({
+  status: z.enum(TRANSCODE_JOB_STATUSES).optional(),
+  channelId: z.string().uuid().optional(),
+  limit: z.coerce.number().int().min(1).max(1000).optional(),
+});
+
+const jobIdSchema = z.string().uuid();
+
+export const createTranscodeRoutes = (transcodeService: TranscodeService, authService?: AuthService) => {
+  const requireAuth = authenticate(authService);
+
+  /**
+   * GET /api/transcode/jobs
+   * List pre-transcode jobs with progress, newest first
+   */
+  router.get('/jobs', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const filters = listJobsSchema.parse(req.query);
+      const jobs = await transcodeService.getJobs(filters);
+      res.json({
+        success: true,
+        data: jobs,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendValidationError(res, error);
+      }
+      return next(error);
+    }
+  });
+
+  /**
+   * POST /api/transcode/jobs
+   * Queue media for pre-transcoding to a channel's settings
+   */
+  router.post('/jobs', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { channelId, ...source } = createJobsSchema.parse(req.body);
+      const jobs = await transcodeService.enqueue(channelId, source);
+      res.status(201).json({
+        success: true,
+        data: jobs,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendValidationError(res, error);
+      }
+      return next(error);
+    }
+  });
+
+  /**
+   * GET /api/transcode/jobs/:jobId
+   * Get a pre-transcode job
+   */
+  router.get('/jobs/:jobId', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const jobId = jobIdSchema.parse(req.params.jobId);
+      const job = await transcodeService.getJob(jobId);
+      res.json({
+        success: true,
+        data: job,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendValidationError(res, error);
+      }
+      return next(error);
+    }
+  });
+
+  /**
+   * DELETE /api/transcode/jobs/:jobId
+   * Cancel a queued or running job
+   */
+  router.delete('/jobs/:jobId', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const jobId = jobIdSchema.parse(req.params.jobId);
+      const job = await transcodeService.cancelJob(jobId);
+      res.json({
+        success: true,
+        data: job,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendValidationError(res, error);
+      }
+      return next(error);
+    }
+  });
+
+  /**
+   * GET /api/transcode/cache
+   * Get rendition cache usage
+   */
+  router.get('/cache', requireAuth, async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const stats = await transcodeService.getCacheStats();
+      res.json({
+        success: true,
+        data: stats,
+      });
+    } catch (error) {
+      return next(error);
+    }
+  });
+
+  return router;
+};
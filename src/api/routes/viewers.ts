@@ -0,0 +1,37 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { ChannelService } from '../../services/channel/ChannelService';
+import { ViewerSessionService } from '../../services/viewer/ViewerSessionService';
+import { authenticate } from '../middleware/auth';
+import { AuthService } from '../../services/auth/AuthService';
+
+const router = Router();
+
+export const createViewerRoutes = (
+  viewerSessionService: ViewerSessionService,
+  channelService: ChannelService,
+  authService?: AuthService
+) => {
+  const requireAuth = authenticate(authService);
+
+  /**
+   * GET /api/channels/:channelId/viewers
+   * List a channel's active viewer sessions, oldest first
+   */
+  router.get('/:channelId/viewers', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const channel = await channelService.getChannel(req.params.channelId);
+      const viewers = viewerSessionService.getActiveViewers(channel.id);
+      res.json({
+        success: true,
+        data: {
+          count: viewers.length,
+          viewers,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,184 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { WebhookService } from '../../services/webhook/WebhookService';
+import { isValidTopicPattern } from '../../infrastructure/events/EventBus';
+import { authenticate } from '../middleware/auth';
+import { sendValidationError } from '../middleware/validation';
+import { AuthService } from '../../services/auth/AuthService';
+import { z } from 'zod';
+
+const router = Router();
+
+const urlSchema = z
+  .string()
+  .url()
+  .refine((value) => /^https?:\/\//i.test(value), { message: 'URL must be http or https' });
+
+const eventsSchema = z
+  .array(z.string())
+  .min(1)
+  .refine((events) => events.every(isValidTopicPattern), {
+    message: "Events must be event topics, prefixes ('channel.*') or '*'",
+  });
+
+const createWebhookSchema = z.object({
+  name: z.string().min(1).max(100),
+  url: urlSchema,
+  secret: z.string().min(16).max(255).optional(),
+  events: eventsSchema,
+  enabled: z.boolean().optional(),
+});
+
+const updateWebhookSchema = createWebhookSchema.partial();
+
+const deliveriesQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+});
+
+const idSchema = z.string().uuid();
+
+export const createWebhookRoutes = (webhookService: WebhookService, authService?: AuthService) => {
+  const requireAuth = authenticate(authService);
+
+  /**
+   * GET /api/webhooks
+   * List webhooks, newest first
+   */
+  router.get('/', requireAuth, async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const webhooks = await webhookService.listWebhooks();
+      res.json({
+        success: true,
+        data: webhooks,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/webhooks
+   * Create a webhook (the secret is only returned in this response)
+   */
+  router.post('/', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const data = createWebhookSchema.parse(req.body);
+      const { webhook, secret } = await webhookService.createWebhook(data);
+      res.status(201).json({
+        success: true,
+        data: {
+          ...webhook,
+          secret,
+        },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendValidationError(res, error);
+      }
+      return next(error);
+    }
+  });
+
+  /**
+   * GET /api/webhooks/:id
+   * Get a webhook (with its last response code)
+   */
+  router.get('/:id', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = idSchema.parse(req.params.id);
+      const webhook = await webhookService.getWebhook(id);
+      res.json({
+        success: true,
+        data: webhook,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendValidationError(res, error);
+      }
+      return next(error);
+    }
+  });
+
+  /**
+   * PUT /api/webhooks/:id
+   * Update a webhook (omitted fields are kept)
+   */
+  router.put('/:id', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = idSchema.parse(req.params.id);
+      const data = updateWebhookSchema.parse(req.body);
+      const webhook = await webhookService.updateWebhook(id, data);
+      res.json({
+        success: true,
+        data: webhook,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendValidationError(res, error);
+      }
+      return next(error);
+    }
+  });
+
+  /**
+   * DELETE /api/webhooks/:id
+   * Delete a webhook and its delivery log
+   */
+  router.delete('/:id', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = idSchema.parse(req.params.id);
+      await webhookService.deleteWebhook(id);
+      res.json({
+        success: true,
+        message: 'Webhook deleted',
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendValidationError(res, error);
+      }
+      return next(error);
+    }
+  });
+
+  /**
+   * GET /api/webhooks/:id/deliveries
+   * Delivery log, newest first
+   */
+  router.get('/:id/deliveries', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = idSchema.parse(req.params.id);
+      const { limit } = deliveriesQuerySchema.parse(req.query);
+      const deliveries = await webhookService.getDeliveries(id, limit);
+      res.json({
+        success: true,
+        data: deliveries,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendValidationError(res, error);
+      }
+      return next(error);
+    }
+  });
+
+  /**
+   * POST /api/webhooks/:id/test
+   * Send a test event now and return the delivery after its first attempt
+   */
+  router.post('/:id/test', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = idSchema.parse(req.params.id);
+      const delivery = await webhookService.sendTestEvent(id);
+      res.json({
+        success: true,
+        data: delivery,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return sendValidationError(res, error);
+      }
+      return next(error);
+    }
+  });
+
+  return router;
+};
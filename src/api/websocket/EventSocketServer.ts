@@ -0,0 +1,215 @@
+import { IncomingMessage } from 'http';
+import { WebSocket, WebSocketServer } from 'ws';
+import { config } from '../../config/env';
+import { AuthService } from '../../services/auth/AuthService';
+import { BusEvent, eventBus, isValidTopicPattern, matchesTopic } from '../../infrastructure/events/EventBus';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('EventSocketServer');
+
+// Ping clients this often, dropping those that did not answer the previous ping
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+interface ClientMessage {
+  type: 'subscribe' | 'unsubscribe' | 'ping';
+  topics?: string[];
+}
+
+interface SocketClient {
+  topics: Set<string>;
+  alive: boolean;
+}
+
+/**
+ * Parse a Cookie header into name/value pairs
+ */
+function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const part of (header || '').split(';')) {
+    const index = part.indexOf('=');
+    if (index > 0) {
+      cookies[part.slice(0, index).trim()] = decodeURIComponent(part.slice(index + 1).trim());
+    }
+  }
+  return cookies;
+}
+
+/**
+ * Event bus over WebSocket (WEBSOCKET_PORT)
+ *
+ * Clients authenticate like the REST API (API key or session token, which browsers
+ * send as the sessionToken cookie or ?token) and pick topics with ?topics=a,b or
+ * subscribe/unsubscribe messages. Events are sent as { type: 'event', topic, timestamp, data }.
+ */
+export class EventSocketServer {
+  private server?: WebSocketServer;
+  private clients: Map<WebSocket, SocketClient> = new Map();
+  private unsubscribe?: () => void;
+  private heartbeatInterval?: NodeJS.Timeout;
+
+  constructor(private readonly authService?: AuthService) {}
+
+  public start(): void {
+    this.server = new WebSocketServer({
+      port: config.server.websocketPort,
+      host: config.server.host,
+      verifyClient: (info, done) => {
+        this.isAuthorized(info.req)
+          .then((authorized) => done(authorized, authorized ? undefined : 401, 'Authentication required'))
+          .catch((error) => {
+            logger.warn({ error }, 'WebSocket authentication failed');
+            done(false, 500);
+          });
+      },
+    });
+
+    this.server.on('connection', (socket, req) => this.onConnection(socket, req));
+    this.server.on('error', (error) => {
+      logger.error({ error, port: config.server.websocketPort }, 'WebSocket server error');
+    });
+
+    this.unsubscribe = eventBus.subscribe(['*'], (event) => this.broadcast(event));
+
+    this.heartbeatInterval = setInterval(() => {
+      for (const [socket, client] of this.clients) {
+        if (!client.alive) {
+          socket.terminate();
+          continue;
+        }
+        client.alive = false;
+        socket.ping();
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+
+    logger.info({ port: config.server.websocketPort }, 'WebSocket event server listening');
+  }
+
+  public async stop(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = undefined;
+    }
+    if (!this.server) {
+      return;
+    }
+
+    for (const socket of this.clients.keys()) {
+      socket.close(1001, 'Server shutting down');
+    }
+    this.clients.clear();
+
+    const server = this.server;
+    this.server = undefined;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  public getClientCount(): number {
+    return this.clients.size;
+  }
+
+  /**
+   * Same rules as the authenticate middleware: API key, then session token
+   */
+  private async isAuthorized(req: IncomingMessage): Promise<boolean> {
+    if (!config.security.requireAuth) {
+      return true;
+    }
+
+    const url = new URL(req.url || '/', 'http://localhost');
+    const apiKey = req.headers['x-api-key'] || url.searchParams.get('apiKey');
+    if (apiKey && apiKey === config.security.apiKey) {
+      return true;
+    }
+
+    if (this.authService) {
+      const token = parseCookies(req.headers.cookie).sessionToken ||
+        req.headers.authorization?.replace('Bearer ', '') ||
+        url.searchParams.get('token');
+      if (token) {
+        return (await this.authService.validateSession(token)) !== null;
+      }
+    }
+    return false;
+  }
+
+  private onConnection(socket: WebSocket, req: IncomingMessage): void {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const client: SocketClient = { topics: new Set(), alive: true };
+    this.clients.set(socket, client);
+
+    const topics = url.searchParams.get('topics');
+    if (topics) {
+      this.updateTopics(socket, client, { type: 'subscribe', topics: topics.split(',') });
+    }
+
+    socket.on('pong', () => {
+      client.alive = true;
+    });
+    socket.on('message', (raw) => this.onMessage(socket, client, raw.toString()));
+    socket.on('close', () => {
+      this.clients.delete(socket);
+      logger.debug({ clients: this.clients.size }, 'WebSocket client disconnected');
+    });
+    socket.on('error', (error) => {
+      logger.warn({ error }, 'WebSocket client error');
+    });
+
+    logger.debug({ ip: req.socket.remoteAddress, clients: this.clients.size }, 'WebSocket client connected');
+  }
+
+  private onMessage(socket: WebSocket, client: SocketClient, raw: string): void {
+    let message: ClientMessage;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      this.send(socket, { type: 'error', message: 'Messages must be JSON' });
+      return;
+    }
+
+    switch (message?.type) {
+      case 'subscribe':
+      case 'unsubscribe':
+        this.updateTopics(socket, client, message);
+        return;
+      case 'ping':
+        this.send(socket, { type: 'pong' });
+        return;
+      default:
+        this.send(socket, { type: 'error', message: 'Unknown message type' });
+    }
+  }
+
+  private updateTopics(socket: WebSocket, client: SocketClient, message: ClientMessage): void {
+    const topics = (Array.isArray(message.topics) ? message.topics : []).map((topic) => String(topic).trim());
+    const invalid = topics.filter((topic) => !isValidTopicPattern(topic));
+    if (topics.length === 0 || invalid.length > 0) {
+      this.send(socket, { type: 'error', message: `Invalid topics: ${invalid.join(', ') || '(none)'}` });
+      return;
+    }
+
+    for (const topic of topics) {
+      if (message.type === 'subscribe') {
+        client.topics.add(topic);
+      } else {
+        client.topics.delete(topic);
+      }
+    }
+    this.send(socket, { type: 'subscribed', topics: [...client.topics] });
+  }
+
+  private broadcast(event: BusEvent): void {
+    for (const [socket, client] of this.clients) {
+      if ([...client.topics].some((pattern) => matchesTopic(pattern, event.topic))) {
+        this.send(socket, { type: 'event', ...event });
+      }
+    }
+  }
+
+  private send(socket: WebSocket, payload: object): void {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(payload));
+    }
+  }
+}
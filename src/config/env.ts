@@ -5,6 +5,9 @@ import path from 'path';
 // Load environment variables
 dotenv.config();
 
+// Published placeholder API key (must not sign anything)
+const DEFAULT_API_KEY = 'change-this-to-a-secure-random-string';
+
 // Environment validation schema
 const envSchema = z.object({
   // Server
@@ -31,7 +34,7 @@ const envSchema = z.object({
   MAX_CONCURRENT_STREAMS: z.coerce.number().min(1).max(100).default(8),
 
   // Security
-  API_KEY: z.string().min(8).default('change-this-to-a-secure-random-string'),
+  API_KEY: z.string().min(8).default(DEFAULT_API_KEY),
   REQUIRE_AUTH: z
     .string()
     .transform((val) => val === 'true')
@@ -46,6 +49,7 @@ const envSchema = z.object({
     .string()
     .transform((val) => val === 'true')
     .default('false'),
+  STREAM_URL_TTL: z.coerce.number().int().min(60).default(3600), // Lifetime of signed stream URLs (seconds)
 
   // Features
   ENABLE_EPG: z
@@ -56,11 +60,24 @@ const envSchema = z.object({
     .string()
     .transform((val) => val === 'true')
     .default('true'),
+  ENABLE_METRICS: z
+    .string()
+    .transform((val) => val === 'true')
+    .default('true'), // Prometheus metrics at /metrics
+  ANALYTICS_RETENTION_DAYS: z.coerce.number().int().min(1).default(30), // Raw watch time (rollups are kept)
   ENABLE_AUTO_SCAN: z
     .string()
     .transform((val) => val === 'true')
     .default('true'),
   AUTO_SCAN_INTERVAL: z.coerce.number().min(1).default(60),
+  ENABLE_LOUDNESS_SCAN: z
+    .string()
+    .transform((val) => val === 'true')
+    .default('false'), // Measure loudness of new files during library scans (decodes all audio)
+  ENABLE_CROP_DETECT: z
+    .string()
+    .transform((val) => val === 'true')
+    .default('false'), // Detect black bars in new files during library scans
 
   // Logging
   LOG_LEVEL: z.enum(['fatal', 'error', 'warn', 'info', 'debug', 'trace']).default('info'),
@@ -75,6 +92,37 @@ const envSchema = z.object({
     .enum(['ultrafast', 'superfast', 'veryfast', 'faster', 'fast', 'medium', 'slow', 'slower', 'veryslow'])
     .default('fast'), // Changed from 'veryfast' to 'fast' for better quality (less blocky video)
 
+  // Pre-transcode cache
+  TRANSCODE_CACHE_DIR: z.string().default('./transcode_cache'),
+  TRANSCODE_CACHE_MAX_GB: z.coerce.number().positive().default(50), // Least recently used renditions are evicted above this
+  TRANSCODE_CONCURRENCY: z.coerce.number().int().min(1).max(8).default(1), // Parallel pre-transcode jobs
+
+  // Webhooks
+  WEBHOOK_MAX_ATTEMPTS: z.coerce.number().int().min(1).max(20).default(8), // Attempts per delivery (retries back off exponentially)
+  WEBHOOK_TIMEOUT: z.coerce.number().positive().default(10), // Seconds to wait for a webhook response
+
+  // Segment storage backends (per channel: local, tmpfs or s3)
+  TMPFS_OUTPUT_DIR: z.string().default('/dev/shm/hls'), // Output directory of tmpfs channels
+  S3_ENDPOINT: z.string().url().optional(), // e.g. https://s3.us-east-1.amazonaws.com or http://minio:9000
+  S3_REGION: z.string().default('us-east-1'),
+  S3_BUCKET: z.string().optional(),
+  S3_ACCESS_KEY_ID: z.string().optional(),
+  S3_SECRET_ACCESS_KEY: z.string().optional(),
+  S3_PREFIX: z.string().default(''), // Key prefix for published channels ({prefix}{slug}/...)
+  S3_FORCE_PATH_STYLE: z
+    .string()
+    .transform((val) => val === 'true')
+    .default('true'), // {endpoint}/{bucket}/{key} (MinIO) instead of {bucket}.{endpoint}/{key}
+  CDN_BASE_URL: z.string().url().optional(), // Public URL of the bucket/prefix (playlists point segments here)
+
+  // Relay channels (mirror another HLS server)
+  RELAY_FAILOVER_TIMEOUT: z.coerce.number().positive().default(20), // Seconds without new source segments before falling back
+
+  // Live inputs (external HLS/RTMP/SRT/UDP sources)
+  LIVE_INPUT_TIMEOUT: z.coerce.number().positive().default(10), // Seconds without data before a live source counts as dropped
+  LIVE_INPUT_RECONNECT_INTERVAL: z.coerce.number().positive().default(5), // Seconds between reconnect attempts while the slate plays
+  LIVE_INPUT_FALLBACK_TIMEOUT: z.coerce.number().positive().default(30), // Seconds on the slate before falling back to the buckets
+
   // Advanced
   SEGMENT_CLEANUP_INTERVAL: z.coerce.number().positive().default(30),
   SEGMENT_MAX_AGE: z.coerce.number().positive().default(300),
@@ -82,6 +130,7 @@ const envSchema = z.object({
 
   // Viewer Session & Pause/Resume Configuration
   VIEWER_SESSION_TIMEOUT: z.coerce.number().positive().default(60), // Seconds before session expires
+  VIEWER_SESSION_SECRET: z.string().min(16).optional(), // Signs session IDs and stream URLs (defaults to API_KEY)
   VIEWER_DISCONNECT_GRACE_PERIOD: z.coerce.number().positive().default(45), // Seconds before pausing stream
   ENABLE_RESUME_SEEKING: z
     .string()
@@ -99,6 +148,8 @@ const envSchema = z.object({
     .string()
     .transform((val) => val === 'true')
     .default('true'), // Auto-insert at transitions
+  LL_HLS_PART_DURATION: z.coerce.number().min(0.2).max(2).default(1), // Partial segment duration for LL-HLS channels (seconds)
+  SEGMENT_CACHE_MAX_MB: z.coerce.number().min(0).default(256), // Segments served from memory (0 = read from disk per request)
 
   // Transition & Buffering Configuration
   TRANSITION_BUFFER_SEGMENTS: z.coerce.number().min(1).max(10).default(2), // Segments to wait during transitions
@@ -171,14 +222,19 @@ export const config = {
     },
     allowedLibraryPaths: env.ALLOWED_LIBRARY_PATHS,
     exposeFullPaths: env.EXPOSE_FULL_PATHS,
+    streamUrlTtl: env.STREAM_URL_TTL,
   },
 
   // Features
   features: {
     epg: env.ENABLE_EPG,
     analytics: env.ENABLE_ANALYTICS,
+    analyticsRetentionDays: env.ANALYTICS_RETENTION_DAYS,
+    metrics: env.ENABLE_METRICS,
     autoScan: env.ENABLE_AUTO_SCAN,
     autoScanInterval: env.AUTO_SCAN_INTERVAL,
+    loudnessScan: env.ENABLE_LOUDNESS_SCAN,
+    cropDetect: env.ENABLE_CROP_DETECT,
   },
 
   // Logging
@@ -196,6 +252,46 @@ export const config = {
     preset: env.FFMPEG_PRESET,
   },
 
+  // Pre-transcode cache
+  transcode: {
+    cacheDir: path.resolve(env.TRANSCODE_CACHE_DIR),
+    maxCacheBytes: env.TRANSCODE_CACHE_MAX_GB * 1024 * 1024 * 1024,
+    concurrency: env.TRANSCODE_CONCURRENCY,
+  },
+
+  // Webhooks
+  webhooks: {
+    maxAttempts: env.WEBHOOK_MAX_ATTEMPTS,
+    timeout: env.WEBHOOK_TIMEOUT,
+  },
+
+  // Segment storage backends
+  storage: {
+    tmpfsDir: path.resolve(env.TMPFS_OUTPUT_DIR),
+    s3: {
+      endpoint: env.S3_ENDPOINT,
+      region: env.S3_REGION,
+      bucket: env.S3_BUCKET,
+      accessKeyId: env.S3_ACCESS_KEY_ID,
+      secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+      prefix: env.S3_PREFIX,
+      forcePathStyle: env.S3_FORCE_PATH_STYLE,
+    },
+    cdnBaseUrl: env.CDN_BASE_URL?.replace(/\/+$/, ''),
+  },
+
+  // Relay channels
+  relay: {
+    failoverTimeout: env.RELAY_FAILOVER_TIMEOUT,
+  },
+
+  // Live inputs
+  liveInput: {
+    timeout: env.LIVE_INPUT_TIMEOUT,
+    reconnectInterval: env.LIVE_INPUT_RECONNECT_INTERVAL,
+    fallbackTimeout: env.LIVE_INPUT_FALLBACK_TIMEOUT,
+  },
+
   // Cleanup
   cleanup: {
     interval: env.SEGMENT_CLEANUP_INTERVAL,
@@ -210,6 +306,9 @@ export const config = {
   // Viewer Session Management
   viewer: {
     sessionTimeout: env.VIEWER_SESSION_TIMEOUT,
+    sessionSecret: env.VIEWER_SESSION_SECRET || env.API_KEY,
+    // Signed stream URLs need a secret that isn't the published default API key
+    hasSigningSecret: !!env.VIEWER_SESSION_SECRET || env.API_KEY !== DEFAULT_API_KEY,
     disconnectGracePeriod: env.VIEWER_DISCONNECT_GRACE_PERIOD,
     enableResumeSeeking: env.ENABLE_RESUME_SEEKING,
     resumeSeekThreshold: env.RESUME_SEEK_THRESHOLD,
@@ -220,6 +319,8 @@ export const config = {
     playlistWindowSize: env.HLS_PLAYLIST_WINDOW_SIZE,
     discontinuityTracking: env.HLS_DISCONTINUITY_TRACKING,
     insertDiscontinuityTags: env.HLS_INSERT_DISCONTINUITY_TAGS,
+    partDuration: env.LL_HLS_PART_DURATION,
+    segmentCacheBytes: env.SEGMENT_CACHE_MAX_MB * 1024 * 1024,
   },
 
   // Transition & Buffering
@@ -0,0 +1,21 @@
+/**
+ * Viewer Token Domain Model
+ * Long-lived playback tokens for IPTV apps that can't log in or keep cookies
+ */
+
+export interface ViewerToken {
+  id: string;
+  name: string;
+  channelIds?: string[]; // Channels the token may watch (unset = all channels)
+  expiresAt?: Date; // unset = never
+  revokedAt?: Date;
+  lastUsedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateViewerTokenData {
+  name: string;
+  channelIds?: string[];
+  expiresAt?: Date;
+}
@@ -0,0 +1,60 @@
+/**
+ * Viewer Analytics Domain Model
+ * Watch time collected from segment requests and the hourly/daily rollups built from it
+ */
+
+export type AnalyticsPeriod = 'hour' | 'day';
+
+export type AnalyticsInterval = 'minute' | 'hour' | 'day';
+
+/**
+ * Time range of an analytics query (end exclusive)
+ */
+export interface AnalyticsRange {
+  from: Date;
+  to: Date;
+  channelId?: string; // unset = all channels
+}
+
+/**
+ * Seconds of one media file watched by a viewer session within a minute
+ */
+export interface WatchTimeEntry {
+  minute: Date;
+  channelId: string;
+  mediaFileId: string;
+  viewerId: string;
+  seconds: number;
+  duration: number; // Media file duration in seconds
+}
+
+/**
+ * Concurrent viewers within one interval of a time series
+ */
+export interface ConcurrentViewersPoint {
+  time: Date;
+  peak: number; // Most viewers in one minute
+  average: number; // Average viewers per minute
+}
+
+/**
+ * Viewing statistics of a media file
+ */
+export interface ProgramStats {
+  mediaFileId: string;
+  title: string;
+  showName?: string;
+  views: number;
+  watchTime: number; // seconds
+  avgWatchTime: number; // seconds per view
+  completionRate: number; // percent of views that finished the file
+}
+
+/**
+ * Viewers by hour of day
+ */
+export interface PeakHour {
+  hour: number; // 0-23
+  averageViewers: number; // Average of the hourly peaks
+  peakViewers: number;
+}
@@ -8,6 +8,40 @@ export enum ChannelState {
   ERROR = 'error',
 }
 
+/**
+ * A single rung of a channel's adaptive bitrate ladder.
+ * Renditions without a resolution are audio-only.
+ */
+export interface RenditionConfig {
+  /** Variant name, also used as the output subdirectory (e.g. '720p') */
+  name: string;
+  /** Target resolution (WIDTHxHEIGHT), omitted for audio-only renditions */
+  resolution?: string;
+  /** Video bitrate in bps, omitted for audio-only renditions */
+  videoBitrate?: number;
+  /** Audio bitrate in bps */
+  audioBitrate: number;
+}
+
+/**
+ * How sources with a different aspect ratio fill the channel frame
+ * - letterbox: fit inside, pad with black bars (letterbox/pillarbox)
+ * - blur: fit inside over a blurred, cropped copy of the source
+ * - crop: fill the frame, cropping the overflow around the center
+ * - stretch: scale to the frame, ignoring the source aspect ratio
+ */
+export const ASPECT_MODES = ['letterbox', 'blur', 'crop', 'stretch'] as const;
+export type AspectMode = (typeof ASPECT_MODES)[number];
+
+/**
+ * Where a channel's HLS output is written and served from
+ * - local: the HLS output directory on disk (served by this server)
+ * - tmpfs: a memory-backed directory (TMPFS_OUTPUT_DIR), served by this server
+ * - s3: written locally, then published to an S3-compatible bucket and served through CDN_BASE_URL
+ */
+export const STORAGE_BACKENDS = ['local', 'tmpfs', 's3'] as const;
+export type StorageBackend = (typeof STORAGE_BACKENDS)[number];
+
 export interface ChannelConfig {
   name: string;
   slug: string;
@@ -26,6 +60,32 @@ export interface ChannelConfig {
   watermarkImageBase64?: string;
   /** Watermark position on the video */
   watermarkPosition?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center';
+  /** Adaptive bitrate ladder (empty/undefined = single rendition from videoBitrate/resolution) */
+  renditions?: RenditionConfig[];
+  /** Preferred ISO 639-2 language (e.g. 'eng') for the default audio/subtitle rendition */
+  preferredLanguage?: string;
+  /** Publish Low-Latency HLS (partial segments + blocking playlist reload) */
+  lowLatency?: boolean;
+  /** Encoder profile ID (unset = global FFmpeg preset with libx264/AAC) */
+  profileId?: string;
+  /** Stream-copy files that already match the channel encode (codec, resolution, fps) instead of re-encoding */
+  passthrough?: boolean;
+  /** Normalize audio to this integrated loudness in LUFS (e.g. -23 for EBU R128, unset = no normalization) */
+  loudnessTarget?: number;
+  /** True-peak ceiling in dBTP for normalized audio (default -1) */
+  truePeakCeiling?: number;
+  /** How sources with a different aspect ratio fill the frame (default: letterbox) */
+  aspectMode?: AspectMode;
+  /** Crop black bars found by the library scan (cropdetect) before scaling */
+  autoCrop?: boolean;
+  /** Require signed, expiring stream URLs (from /playlist.m3u with a viewer token, or a viewer token) */
+  signedUrls?: boolean;
+  /** Where segments are published (default: local) */
+  storageBackend?: StorageBackend;
+  /** Mirror this HLS playlist (e.g. a channel on another server) instead of encoding the channel's buckets, which become the fallback */
+  relayUrl?: string;
+  /** Re-encode this live source (HLS/RTMP/SRT/UDP URL) instead of playing the channel's buckets, which become the fallback */
+  liveInputUrl?: string;
 }
 
 export interface ChannelMetadata {
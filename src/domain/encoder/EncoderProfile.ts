@@ -0,0 +1,38 @@
+/**
+ * Encoder Profile Domain Model
+ * Named set of encoder settings shared by channels (and their bumpers)
+ */
+
+export const VIDEO_CODECS = ['libx264', 'libx265', 'libsvtav1'] as const;
+export type VideoCodec = typeof VIDEO_CODECS[number];
+
+export const AUDIO_CODECS = ['aac', 'ac3', 'eac3'] as const;
+export type AudioCodec = typeof AUDIO_CODECS[number];
+
+export const RATE_CONTROL_MODES = ['crf', 'cbr'] as const;
+export type RateControlMode = typeof RATE_CONTROL_MODES[number];
+
+export const AUDIO_SAMPLE_RATES = [32000, 44100, 48000] as const;
+
+export interface EncoderProfile {
+  id: string;
+  name: string;
+  description?: string;
+  videoCodec: VideoCodec;
+  preset: string; // x264/x265 preset name, or SVT-AV1 preset number (0-13)
+  rateControl: RateControlMode;
+  crf?: number; // Quality target for 'crf' (bitrate still capped by maxrate)
+  tune?: string;
+  profile?: string; // e.g. 'high', 'main'
+  level?: string; // e.g. '4.1'
+  gopSeconds?: number; // Keyframe interval (defaults to segment duration)
+  audioCodec: AudioCodec;
+  audioSampleRate: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type EncoderProfileInput = Omit<EncoderProfile, 'id' | 'createdAt' | 'updatedAt'>;
+
+/** Settings that affect the encode (profile metadata excluded) */
+export type EncoderSettings = Omit<EncoderProfileInput, 'name' | 'description'>;
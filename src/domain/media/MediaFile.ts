@@ -1,6 +1,35 @@
 import { v4 as uuidv4 } from 'uuid';
 import path from 'path';
 
+export interface MediaStreamInfo {
+  index: number; // position among streams of the same type (FFmpeg a:N / s:N specifier)
+  codec?: string;
+  language?: string; // ISO 639-2 tag from the container (e.g. 'eng', 'jpn')
+  title?: string;
+  default: boolean;
+}
+
+/**
+ * EBU R128 measurement of one audio stream (first loudnorm pass)
+ */
+export interface LoudnessMeasurement {
+  streamIndex: number; // audio stream measured (a:N)
+  integrated: number; // LUFS
+  truePeak: number; // dBTP
+  lra: number; // LU
+  threshold: number; // LUFS
+}
+
+/**
+ * Picture area inside black bars (cropdetect), in source pixels
+ */
+export interface CropRect {
+  width: number;
+  height: number;
+  x: number;
+  y: number;
+}
+
 export interface MediaFileMetadata {
   duration: number; // seconds
   fileSize: number; // bytes
@@ -8,6 +37,11 @@ export interface MediaFileMetadata {
   codec?: string;
   bitrate?: number;
   fps?: number;
+  audioStreams?: MediaStreamInfo[];
+  subtitleStreams?: MediaStreamInfo[];
+  loudness?: LoudnessMeasurement; // Only measured when ENABLE_LOUDNESS_SCAN is on
+  crop?: CropRect; // Only detected when ENABLE_CROP_DETECT is on (the full frame when there are no black bars)
+  contentRating?: string; // e.g. 'TV-14', 'R' (container rating tag, or set through the API)
 }
 
 export interface MediaFileInfo {
@@ -0,0 +1,62 @@
+/**
+ * Channel Overlay Domain Model
+ * Graphics layers composited over a channel's video, bottom to top by zIndex
+ */
+
+export const OVERLAY_TYPES = ['image', 'clock', 'ticker', 'now_next'] as const;
+export type OverlayType = typeof OVERLAY_TYPES[number];
+
+export const OVERLAY_POSITIONS = [
+  'top-left',
+  'top-right',
+  'bottom-left',
+  'bottom-right',
+  'center',
+  'top',
+  'bottom',
+] as const;
+export type OverlayPosition = typeof OVERLAY_POSITIONS[number];
+
+/**
+ * When a layer is visible (both parts must match when both are set, unset = always)
+ * Times are server local time; the window wraps midnight when endTime is before startTime
+ */
+export interface OverlaySchedule {
+  startTime?: string; // HH:MM
+  endTime?: string; // HH:MM
+  intervalSeconds?: number; // Show for visibleSeconds out of every intervalSeconds
+  visibleSeconds?: number;
+}
+
+/**
+ * Type-specific layer settings
+ */
+export interface OverlaySettings {
+  text?: string; // ticker
+  clockFormat?: string; // clock, strftime format (default '%H:%M')
+  fontSize?: number; // text layers
+  fontColor?: string; // text layers, FFmpeg color (default 'white')
+  backgroundColor?: string; // text layers, box behind the text (unset = no box)
+  scrollSpeed?: number; // ticker, pixels per second
+  imageWidth?: number; // image, scaled width in pixels (unset = native size)
+}
+
+export interface ChannelOverlay {
+  id: string;
+  channelId: string;
+  type: OverlayType;
+  name?: string;
+  enabled: boolean;
+  zIndex: number;
+  position: OverlayPosition;
+  offsetX: number; // pixels from the anchored edge
+  offsetY: number;
+  opacity: number; // 0-1
+  imageBase64?: string; // image layers (PNG)
+  settings: OverlaySettings;
+  schedule?: OverlaySchedule;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type ChannelOverlayInput = Omit<ChannelOverlay, 'id' | 'channelId' | 'createdAt' | 'updatedAt'>;
@@ -0,0 +1,62 @@
+/**
+ * Content Rule Domain Model
+ * Programming rules applied to resolved playlists (rating windows, repeat limits, runtime limits)
+ */
+
+export const CONTENT_RULE_TYPES = ['rating_window', 'no_repeat', 'max_consecutive', 'duration'] as const;
+export type ContentRuleType = typeof CONTENT_RULE_TYPES[number];
+
+/**
+ * What happens to media breaking a rule: 'exclude' drops it from the playlist, 'defer' moves it
+ * to the first later position where it passes (media that never passes is dropped)
+ */
+export const CONTENT_RULE_ACTIONS = ['exclude', 'defer'] as const;
+export type ContentRuleAction = typeof CONTENT_RULE_ACTIONS[number];
+
+/**
+ * Rule parameters (which ones apply depends on the rule type)
+ * Times are server local time; the window wraps midnight when endTime is before startTime
+ */
+export interface ContentRuleConditions {
+  ratings?: string[]; // rating_window: content ratings kept out of the window (e.g. 'R', 'TV-MA')
+  startTime?: string; // rating_window: HH:MM:SS
+  endTime?: string; // rating_window: HH:MM:SS
+  hours?: number; // no_repeat: minimum gap between airings
+  scope?: 'show' | 'file'; // no_repeat: compare series (default) or files
+  count?: number; // max_consecutive: most episodes of a series in a row
+  minSeconds?: number; // duration
+  maxSeconds?: number; // duration
+}
+
+export interface ContentRuleActions {
+  action: ContentRuleAction;
+}
+
+export interface ContentRule {
+  id: string;
+  channelId?: string; // unset = all channels
+  name: string;
+  description?: string;
+  ruleType: ContentRuleType;
+  conditions: ContentRuleConditions;
+  actions: ContentRuleActions;
+  priority: number; // higher is checked first (and named in exclusions)
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type ContentRuleInput = Omit<ContentRule, 'id' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Media a rule kept out of a resolved playlist
+ */
+export interface ContentRuleExclusion {
+  mediaFileId: string;
+  title: string;
+  ruleId: string;
+  ruleName: string;
+  ruleType: ContentRuleType;
+  reason: string;
+  airTime?: Date; // when the media would have aired (time-dependent rules)
+}
@@ -0,0 +1,50 @@
+import { AspectMode } from '../channel/Channel';
+import { EncoderSettings } from '../encoder/EncoderProfile';
+
+/**
+ * Pre-transcode Domain Model
+ * Background jobs that encode media to a channel's output settings ahead of playout
+ */
+
+export const TRANSCODE_JOB_STATUSES = ['queued', 'running', 'completed', 'failed', 'cancelled'] as const;
+export type TranscodeJobStatus = typeof TRANSCODE_JOB_STATUSES[number];
+
+/**
+ * Everything that changes the encoded output - the cache key is derived from these
+ */
+export interface TranscodeParams {
+  resolution: string;
+  fps: number;
+  videoBitrate: number;
+  audioBitrate: number;
+  segmentDuration: number; // Keyframes are forced at segment boundaries
+  preset: string;
+  preferredLanguage: string | null; // Picks the audio track that is kept
+  encoder: EncoderSettings | null; // null = global preset with libx264/AAC
+  aspectMode: AspectMode;
+  autoCrop: boolean; // Crops the file's detected black bars
+}
+
+export interface TranscodeJob {
+  id: string;
+  mediaFileId: string;
+  channelId?: string;
+  cacheKey: string;
+  params: TranscodeParams;
+  status: TranscodeJobStatus;
+  progress: number; // percent
+  error?: string;
+  createdAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+}
+
+export interface CachedRendition {
+  cacheKey: string;
+  mediaFileId: string;
+  path: string;
+  sizeBytes: number;
+  params: TranscodeParams;
+  createdAt: Date;
+  lastAccessedAt: Date;
+}
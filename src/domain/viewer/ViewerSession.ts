@@ -0,0 +1,21 @@
+/**
+ * Viewer Session Domain Model
+ * One player watching a channel, identified by the session ID carried in its stream URLs
+ */
+
+export interface ViewerClient {
+  ip: string;
+  userAgent?: string;
+}
+
+export interface ViewerSession {
+  id: string;
+  channelId: string;
+  client: ViewerClient;
+  startedAt: Date;
+  lastSeenAt: Date; // Last playlist or segment request
+  bytesServed: number; // Segment bytes
+  segmentsServed: number;
+  lastSegment?: string; // variant/segment, or segment for single-rendition channels
+  viewerTokenId?: string; // Viewer token the player entered with (channels with signed URLs)
+}
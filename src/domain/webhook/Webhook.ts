@@ -0,0 +1,49 @@
+/**
+ * Webhook Domain Model
+ * Outbound HTTP subscriptions to event bus topics (home automation, chat bots)
+ */
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface Webhook {
+  id: string;
+  name: string;
+  url: string;
+  events: string[]; // Event topics, prefixes ('channel.*') or '*'
+  enabled: boolean;
+  lastDeliveryAt?: Date;
+  lastStatusCode?: number; // HTTP status of the last attempt (unset when it got no response)
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateWebhookData {
+  name: string;
+  url: string;
+  secret: string;
+  events: string[];
+  enabled?: boolean;
+}
+
+export interface UpdateWebhookData {
+  name?: string;
+  url?: string;
+  secret?: string;
+  events?: string[];
+  enabled?: boolean;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  event: string;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseCode?: number;
+  error?: string;
+  nextAttemptAt?: Date; // Set while pending
+  createdAt: Date;
+  deliveredAt?: Date;
+}
@@ -21,12 +21,33 @@ import { createLibraryRoutes } from './api/routes/libraries';
 import { createAuthRoutes } from './api/routes/auth';
 import { createScheduleRoutes } from './api/routes/schedules';
 import { createSettingsRoutes } from './api/routes/settings';
+import { createTranscodeRoutes } from './api/routes/transcode';
+import { createOverlayRoutes } from './api/routes/overlays';
+import { createViewerRoutes } from './api/routes/viewers';
+import { createStreamAccessRoutes } from './api/routes/streamAccess';
+import { createAnalyticsRoutes } from './api/routes/analytics';
+import { createMetricsRoutes } from './api/routes/metrics';
+import { createEventRoutes } from './api/routes/events';
+import { createWebhookRoutes } from './api/routes/webhooks';
+import { createContentRuleRoutes } from './api/routes/contentRules';
+import { EventSocketServer } from './api/websocket/EventSocketServer';
 import { MediaBucketService } from './services/bucket/MediaBucketService';
 import { LibraryService } from './services/library/LibraryService';
 import { AuthService } from './services/auth/AuthService';
 import { PlaylistResolver } from './services/playlist/PlaylistResolver';
 import { SettingsService } from './services/settings/SettingsService';
+import { TranscodeService } from './services/transcode/TranscodeService';
+import { OverlayService } from './services/overlay/OverlayService';
+import { ViewerSessionService } from './services/viewer/ViewerSessionService';
+import { StreamAccessService } from './services/access/StreamAccessService';
+import { AnalyticsCollector } from './services/analytics/AnalyticsCollector';
+import { AnalyticsService } from './services/analytics/AnalyticsService';
+import { WebhookService } from './services/webhook/WebhookService';
+import { ContentRuleService } from './services/rule/ContentRuleService';
+import { PlayHistoryService } from './services/playlist/PlayHistoryService';
 import { Database } from './infrastructure/database/Database';
+import { SegmentCache } from './infrastructure/storage/SegmentCache';
+import { SegmentPublisher } from './services/storage/SegmentPublisher';
 import path from 'path';
 import fs from 'fs/promises';
 
@@ -41,6 +62,18 @@ class Application {
   private libraryService!: LibraryService;
   private authService!: AuthService;
   private settingsService!: SettingsService;
+  private transcodeService!: TranscodeService;
+  private overlayService!: OverlayService;
+  private viewerSessionService!: ViewerSessionService;
+  private streamAccessService!: StreamAccessService;
+  private analyticsCollector!: AnalyticsCollector;
+  private analyticsService!: AnalyticsService;
+  private webhookService!: WebhookService;
+  private contentRuleService!: ContentRuleService;
+  private playHistoryService!: PlayHistoryService;
+  private segmentCache!: SegmentCache;
+  private segmentPublisher!: SegmentPublisher;
+  private eventSocketServer?: EventSocketServer;
   private statePersistence!: StatePersistence;
 
   constructor() {
@@ -83,9 +116,9 @@ class Application {
 
     // Request logging (exclude HLS streaming requests to reduce noise)
     this.app.use((req, _res, next) => {
-      // Skip logging for HLS streaming requests (.m3u8 playlists and .ts segments)
+      // Skip logging for HLS streaming requests (.m3u8 playlists and .ts segments) and metrics scrapes
       const isStreamingRequest = req.path.endsWith('.m3u8') || req.path.endsWith('.m4s');
-      if (!isStreamingRequest) {
+      if (!isStreamingRequest && req.path !== '/metrics') {
         logger.info({ method: req.method, path: req.path }, 'Request received');
       }
       next();
@@ -120,7 +153,12 @@ class Application {
     this.ffmpegEngine.setSettingsService(this.settingsService);
     
     // Kill any orphaned FFmpeg processes from previous runs
-    const orphanedCount = this.ffmpegEngine.killOrphanedProcesses();
+    let orphanedCount = this.ffmpegEngine.killOrphanedProcesses();
+    // tmpfs channels write outside the HLS output directory
+    const hasTmpfsDir = await fs.access(config.storage.tmpfsDir).then(() => true, () => false);
+    if (hasTmpfsDir) {
+      orphanedCount += this.ffmpegEngine.killOrphanedProcesses(config.storage.tmpfsDir);
+    }
     if (orphanedCount > 0) {
       logger.info({ killedCount: orphanedCount }, 'Killed orphaned FFmpeg processes on startup');
     }
@@ -137,6 +175,72 @@ class Application {
     // Set playlist resolver for dynamic playlist generation
     this.channelService.setPlaylistResolver(playlistResolver);
 
+    // Pre-transcode queue (channels play cached renditions when available)
+    this.transcodeService = new TranscodeService(this.channelService, this.bucketService, this.settingsService);
+    this.channelService.setTranscodeService(this.transcodeService);
+    if (dbHealthy) {
+      try {
+        await this.transcodeService.start();
+      } catch (error) {
+        logger.error({ error }, 'Failed to start transcode queue');
+      }
+    }
+
+    // Content rules (applied by the playlist resolver to every resolved playlist)
+    this.contentRuleService = new ContentRuleService(this.channelService, playlistResolver);
+
+    // Play history (shuffle, random and weighted blocks avoid recently played media)
+    this.playHistoryService = new PlayHistoryService();
+    if (dbHealthy) {
+      this.playHistoryService.start();
+    }
+
+    // Overlay layers (composited by FFmpeg when a channel starts)
+    this.overlayService = new OverlayService(this.channelService);
+    this.channelService.setOverlayService(this.overlayService);
+
+    // Viewer sessions (persisted, so players keep their session across restarts)
+    this.viewerSessionService = new ViewerSessionService(this.channelService);
+    if (dbHealthy) {
+      try {
+        await this.viewerSessionService.start();
+      } catch (error) {
+        logger.error({ error }, 'Failed to start viewer session tracking');
+      }
+    }
+
+    // Segments served from memory (output directories are watched for new segments)
+    this.segmentCache = new SegmentCache(config.hls.segmentCacheBytes);
+
+    // Channels with S3 storage publish their output to the bucket while they stream
+    this.segmentPublisher = new SegmentPublisher(this.channelService);
+    this.segmentPublisher.start();
+
+    // Signed stream URLs and viewer tokens (for channels with access control)
+    this.streamAccessService = new StreamAccessService(this.viewerSessionService);
+
+    // Viewer analytics (watch time from segment requests, hourly/daily rollups)
+    this.analyticsCollector = new AnalyticsCollector(this.channelService);
+    this.analyticsService = new AnalyticsService();
+    if (dbHealthy) {
+      try {
+        this.analyticsCollector.start();
+        await this.analyticsService.start();
+      } catch (error) {
+        logger.error({ error }, 'Failed to start viewer analytics');
+      }
+    }
+
+    // Outbound webhooks (event bus deliveries with retries)
+    this.webhookService = new WebhookService();
+    if (dbHealthy) {
+      try {
+        await this.webhookService.start();
+      } catch (error) {
+        logger.error({ error }, 'Failed to start webhooks');
+      }
+    }
+
     // Load channels from database if available
     if (dbHealthy) {
       try {
@@ -195,6 +299,11 @@ class Application {
       });
     });
 
+    // Prometheus metrics
+    if (config.features.metrics) {
+      this.app.use('/', createMetricsRoutes(this.channelService, this.viewerSessionService, this.epgService, this.segmentCache, this.authService));
+    }
+
     // Redirect root to admin panel
     this.app.get('/', (_req, res) => {
       res.redirect('/admin/');
@@ -216,7 +325,7 @@ class Application {
     this.app.use('/', createLibraryRoutes(this.libraryService, this.authService));
 
     // EPG routes (public and API)
-    this.app.use('/', createEPGRoutes(this.channelService, this.epgService, this.authService));
+    this.app.use('/', createEPGRoutes(this.channelService, this.epgService, this.streamAccessService, this.authService));
 
     // Schedule routes (API)
     this.app.use('/api/schedules', createScheduleRoutes(this.authService, this.channelService));
@@ -224,8 +333,41 @@ class Application {
     // Settings routes (API)
     this.app.use('/api/settings', createSettingsRoutes(this.authService));
 
+    // Pre-transcode routes (API)
+    this.app.use('/api/transcode', createTranscodeRoutes(this.transcodeService, this.authService));
+
+    // Channel overlay routes (API)
+    this.app.use('/api/channels', createOverlayRoutes(this.overlayService, this.authService));
+
+    // Viewer session routes (API)
+    this.app.use('/api/channels', createViewerRoutes(this.viewerSessionService, this.channelService, this.authService));
+
+    // Viewer token and signed stream URL routes (API)
+    this.app.use('/', createStreamAccessRoutes(this.streamAccessService, this.channelService, this.authService));
+
+    // Viewer analytics routes (API)
+    this.app.use('/api/analytics', createAnalyticsRoutes(this.analyticsService, this.authService));
+
+    // Event stream (SSE fallback for the WebSocket server)
+    this.app.use('/api/events', createEventRoutes(this.authService));
+
+    // Webhook routes (API)
+    this.app.use('/api/webhooks', createWebhookRoutes(this.webhookService, this.authService));
+
+    // Content rule routes (API)
+    this.app.use('/api/content-rules', createContentRuleRoutes(this.contentRuleService, this.authService));
+
     // Streaming routes (public)
-    this.app.use('/', createStreamingRoutes(this.channelService));
+    this.app.use(
+      '/',
+      createStreamingRoutes(
+        this.channelService,
+        this.viewerSessionService,
+        this.streamAccessService,
+        this.analyticsCollector,
+        this.segmentCache
+      )
+    );
 
     // Error handlers
     this.app.use(notFoundHandler);
@@ -269,6 +411,15 @@ class Application {
       // Cleanup services
       try {
         await this.statePersistence.cleanup();
+        this.transcodeService.stop();
+        await this.viewerSessionService.stop();
+        await this.analyticsCollector.stop();
+        this.analyticsService.stop();
+        this.webhookService.stop();
+        this.playHistoryService.stop();
+        await this.eventSocketServer?.stop();
+        this.segmentCache.close();
+        this.segmentPublisher.stop();
         await this.channelService.cleanup();
         await Database.close();
         logger.info('Services cleaned up');
@@ -422,6 +573,10 @@ class Application {
         logger.info('  3. Stream: http://localhost:8080/default/master.m3u8');
         logger.info('  4. Health check: http://localhost:8080/health');
       });
+
+      // Start WebSocket event server
+      this.eventSocketServer = new EventSocketServer(this.authService);
+      this.eventSocketServer.start();
     } catch (error) {
       logger.fatal({ error }, 'Failed to start server');
       process.exit(1);
@@ -0,0 +1,266 @@
+import { Database } from '../Database';
+import {
+  AnalyticsInterval,
+  AnalyticsPeriod,
+  AnalyticsRange,
+  ConcurrentViewersPoint,
+  PeakHour,
+  ProgramStats,
+  WatchTimeEntry,
+} from '../../../domain/analytics/Analytics';
+
+interface ConcurrentViewersRow {
+  time: Date;
+  peak: number;
+  average: number;
+}
+
+interface ProgramStatsRow {
+  media_file_id: string;
+  title: string;
+  show_name: string | null;
+  views: string; // SUM of INTEGER
+  watch_time: string;
+  completion_rate: string | null; // NUMERIC
+}
+
+interface PeakHourRow {
+  hour: number;
+  average_viewers: string; // NUMERIC
+  peak_viewers: number;
+}
+
+/**
+ * Repository for viewer analytics: raw watch time (viewer_watch_time), viewing_history,
+ * and the hourly/daily rollups in viewer_analytics
+ */
+export class AnalyticsRepository {
+  /**
+   * Add watched seconds to a viewer's minute
+   */
+  public async addWatchTime(entry: WatchTimeEntry): Promise<void> {
+    await Database.query(
+      `INSERT INTO viewer_watch_time (minute, channel_id, media_file_id, viewer_id, watch_seconds)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (minute, channel_id, media_file_id, viewer_id) DO UPDATE SET
+         watch_seconds = viewer_watch_time.watch_seconds + EXCLUDED.watch_seconds`,
+      [entry.minute, entry.channelId, entry.mediaFileId, entry.viewerId, entry.seconds]
+    );
+  }
+
+  /**
+   * Add watched time to a viewer's history for a media file
+   * position accumulates seconds watched; the file counts as completed at 90% of its duration
+   */
+  public async recordViewing(entry: WatchTimeEntry): Promise<void> {
+    await Database.query(
+      `INSERT INTO viewing_history (channel_id, media_file_id, viewer_id, position, duration)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (viewer_id, channel_id, media_file_id) DO UPDATE SET
+         position = LEAST(viewing_history.position + EXCLUDED.position, EXCLUDED.duration),
+         last_watched_at = NOW(),
+         completed_at = CASE
+           WHEN NOT viewing_history.completed
+             AND viewing_history.position + EXCLUDED.position >= EXCLUDED.duration * 0.9
+           THEN NOW()
+           ELSE viewing_history.completed_at
+         END,
+         completed = viewing_history.completed
+           OR viewing_history.position + EXCLUDED.position >= EXCLUDED.duration * 0.9`,
+      [entry.channelId, entry.mediaFileId, entry.viewerId, Math.round(entry.seconds), Math.round(entry.duration)]
+    );
+  }
+
+  /**
+   * Rebuild the viewer_analytics rows of one period from raw watch time
+   * Writes a row per channel and media file, plus a channel total (media_file_id NULL).
+   * A view is one viewer session watching a file; unique viewers are counted by client IP and user agent.
+   */
+  public async rollup(periodType: AnalyticsPeriod, periodStart: Date, periodEnd: Date): Promise<void> {
+    await Database.transaction(async (client) => {
+      await client.query('DELETE FROM viewer_analytics WHERE period_type = $1 AND period_start = $2', [
+        periodType,
+        periodStart,
+      ]);
+
+      await client.query(
+        `WITH views AS (
+           SELECT w.channel_id, w.media_file_id, w.viewer_id,
+                  SUM(w.watch_seconds) AS seconds,
+                  COALESCE(BOOL_OR(h.completed), false) AS completed,
+                  COALESCE(MAX(ps.client_ip || ':' || COALESCE(ps.user_agent, '')), w.viewer_id) AS client_key
+           FROM viewer_watch_time w
+           LEFT JOIN viewing_history h
+             ON h.viewer_id = w.viewer_id AND h.channel_id = w.channel_id AND h.media_file_id = w.media_file_id
+           LEFT JOIN playback_sessions ps ON ps.viewer_id = w.viewer_id
+           WHERE w.minute >= $2 AND w.minute < $3
+           GROUP BY w.channel_id, w.media_file_id, w.viewer_id
+         ),
+         concurrency AS (
+           SELECT channel_id, MAX(viewers) AS peak
+           FROM (
+             SELECT channel_id, minute, COUNT(DISTINCT viewer_id) AS viewers
+             FROM viewer_watch_time
+             WHERE minute >= $2 AND minute < $3
+             GROUP BY channel_id, minute
+           ) minutes
+           GROUP BY channel_id
+         ),
+         file_rows AS (
+           INSERT INTO viewer_analytics (
+             channel_id, media_file_id, period_start, period_end, period_type,
+             view_count, unique_viewers, total_watch_time, avg_watch_time, completion_rate
+           )
+           SELECT channel_id, media_file_id, $2::timestamp, $3::timestamp, $1::varchar,
+                  COUNT(*), COUNT(DISTINCT client_key), ROUND(SUM(seconds)), ROUND(AVG(seconds)),
+                  ROUND(100.0 * COUNT(*) FILTER (WHERE completed) / COUNT(*), 2)
+           FROM views
+           GROUP BY channel_id, media_file_id
+         )
+         INSERT INTO viewer_analytics (
+           channel_id, media_file_id, period_start, period_end, period_type,
+           view_count, unique_viewers, total_watch_time, avg_watch_time, completion_rate, peak_concurrent
+         )
+         SELECT v.channel_id, NULL::uuid, $2::timestamp, $3::timestamp, $1::varchar,
+                COUNT(*), COUNT(DISTINCT v.client_key), ROUND(SUM(v.seconds)), ROUND(AVG(v.seconds)),
+                ROUND(100.0 * COUNT(*) FILTER (WHERE v.completed) / COUNT(*), 2), MAX(c.peak)
+         FROM views v
+         JOIN concurrency c ON c.channel_id = v.channel_id
+         GROUP BY v.channel_id`,
+        [periodType, periodStart, periodEnd]
+      );
+    });
+  }
+
+  /**
+   * Delete raw watch time before the cutoff (rollups are kept)
+   */
+  public async purgeWatchTime(cutoff: Date): Promise<number> {
+    const result = await Database.query('DELETE FROM viewer_watch_time WHERE minute < $1', [cutoff]);
+
+    return result.rowCount || 0;
+  }
+
+  /**
+   * Concurrent viewers per interval, from raw watch time
+   * Intervals without viewers are included with zeros
+   */
+  public async getConcurrentViewers(range: AnalyticsRange, interval: AnalyticsInterval): Promise<ConcurrentViewersPoint[]> {
+    const result = await Database.query<ConcurrentViewersRow>(
+      `WITH minutes AS (
+         SELECT minute, COUNT(DISTINCT viewer_id) AS viewers
+         FROM viewer_watch_time
+         WHERE minute >= $1 AND minute < $2 AND ($3::uuid IS NULL OR channel_id = $3)
+         GROUP BY minute
+       )
+       SELECT b.bucket AS time,
+              COALESCE(MAX(m.viewers), 0)::int AS peak,
+              (COALESCE(SUM(m.viewers), 0) / (EXTRACT(EPOCH FROM ('1 ' || $4::text)::interval) / 60))::float AS average
+       FROM generate_series(
+         date_trunc($4::text, $1::timestamp),
+         $2::timestamp - interval '1 microsecond',
+         ('1 ' || $4::text)::interval
+       ) AS b(bucket)
+       LEFT JOIN minutes m ON m.minute >= b.bucket AND m.minute < b.bucket + ('1 ' || $4::text)::interval
+       GROUP BY b.bucket
+       ORDER BY b.bucket`,
+      [range.from, range.to, range.channelId || null, interval]
+    );
+
+    return result.rows.map((row) => ({
+      time: row.time,
+      peak: row.peak,
+      average: Math.round(row.average * 100) / 100,
+    }));
+  }
+
+  /**
+   * Media files by total watch time, from hourly rollups
+   */
+  public async getTopPrograms(range: AnalyticsRange, limit: number): Promise<ProgramStats[]> {
+    const result = await Database.query<ProgramStatsRow>(
+      `${AnalyticsRepository.PROGRAM_STATS_QUERY}
+       ORDER BY watch_time DESC, views DESC
+       LIMIT $4`,
+      [range.from, range.to, range.channelId || null, limit]
+    );
+
+    return result.rows.map((row) => AnalyticsRepository.rowToProgramStats(row));
+  }
+
+  /**
+   * Media files by completion rate, from hourly rollups
+   * @param minViews - Skip files with fewer views (a single view makes 0% or 100%)
+   */
+  public async getCompletionRates(range: AnalyticsRange, minViews: number, limit: number): Promise<ProgramStats[]> {
+    const result = await Database.query<ProgramStatsRow>(
+      `SELECT * FROM (${AnalyticsRepository.PROGRAM_STATS_QUERY}) stats
+       WHERE views >= $5
+       ORDER BY completion_rate DESC, views DESC
+       LIMIT $4`,
+      [range.from, range.to, range.channelId || null, limit, minViews]
+    );
+
+    return result.rows.map((row) => AnalyticsRepository.rowToProgramStats(row));
+  }
+
+  /**
+   * Peak concurrency by hour of day, from hourly channel totals
+   * With all channels, each hour's peak is the sum of the channel peaks
+   */
+  public async getPeakHours(range: AnalyticsRange): Promise<PeakHour[]> {
+    const result = await Database.query<PeakHourRow>(
+      `SELECT EXTRACT(HOUR FROM period_start)::int AS hour,
+              ROUND(AVG(peak), 2) AS average_viewers,
+              MAX(peak)::int AS peak_viewers
+       FROM (
+         SELECT period_start, SUM(peak_concurrent) AS peak
+         FROM viewer_analytics
+         WHERE period_type = 'hour' AND media_file_id IS NULL
+           AND period_start >= $1 AND period_start < $2
+           AND ($3::uuid IS NULL OR channel_id = $3)
+         GROUP BY period_start
+       ) hours
+       GROUP BY 1
+       ORDER BY 1`,
+      [range.from, range.to, range.channelId || null]
+    );
+
+    return result.rows.map((row) => ({
+      hour: row.hour,
+      averageViewers: parseFloat(row.average_viewers),
+      peakViewers: row.peak_viewers,
+    }));
+  }
+
+  // Per-file totals over hourly rollups ($1 from, $2 to, $3 channel ID or NULL)
+  private static readonly PROGRAM_STATS_QUERY = `
+    SELECT a.media_file_id,
+           COALESCE(mf.title, mf.filename) AS title,
+           mf.show_name,
+           SUM(a.view_count) AS views,
+           SUM(a.total_watch_time) AS watch_time,
+           ROUND(SUM(a.completion_rate * a.view_count) / NULLIF(SUM(a.view_count), 0), 2) AS completion_rate
+    FROM viewer_analytics a
+    JOIN media_files mf ON mf.id = a.media_file_id
+    WHERE a.period_type = 'hour' AND a.period_start >= $1 AND a.period_start < $2
+      AND ($3::uuid IS NULL OR a.channel_id = $3)
+    GROUP BY a.media_file_id, mf.title, mf.filename, mf.show_name`;
+
+  /**
+   * Convert database row to ProgramStats
+   */
+  private static rowToProgramStats(row: ProgramStatsRow): ProgramStats {
+    const views = parseInt(row.views, 10);
+    const watchTime = parseInt(row.watch_time, 10);
+    return {
+      mediaFileId: row.media_file_id,
+      title: row.title,
+      showName: row.show_name || undefined,
+      views,
+      watchTime,
+      avgWatchTime: views > 0 ? Math.round(watchTime / views) : 0,
+      completionRate: row.completion_rate ? parseFloat(row.completion_rate) : 0,
+    };
+  }
+}
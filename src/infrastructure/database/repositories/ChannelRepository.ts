@@ -1,5 +1,12 @@
 import { Database } from '../Database';
-import { Channel, ChannelConfig, ChannelState } from '../../../domain/channel/Channel';
+import {
+  AspectMode,
+  Channel,
+  ChannelConfig,
+  ChannelState,
+  RenditionConfig,
+  StorageBackend,
+} from '../../../domain/channel/Channel';
 
 export interface ChannelRow {
   id: string;
@@ -16,6 +23,19 @@ export interface ChannelRow {
   include_bumpers: boolean | null;
   watermark_image_base64: string | null;
   watermark_position: string | null;
+  renditions: RenditionConfig[] | null;
+  preferred_language: string | null;
+  low_latency: boolean | null;
+  profile_id: string | null;
+  passthrough: boolean | null;
+  loudness_target: number | null;
+  true_peak_ceiling: number | null;
+  aspect_mode: string | null;
+  auto_crop: boolean | null;
+  signed_urls: boolean | null;
+  storage_backend: string | null;
+  relay_url: string | null;
+  live_input_url: string | null;
   state: string;
   current_index: number;
   viewer_count: number;
@@ -48,6 +68,20 @@ export interface ChannelUpdateData {
   auto_start?: boolean;
   watermark_image_base64?: string | null;
   watermark_position?: string | null;
+  renditions?: RenditionConfig[] | null;
+  preferred_language?: string | null;
+  low_latency?: boolean;
+  profile_id?: string | null;
+  passthrough?: boolean;
+  loudness_target?: number | null;
+  true_peak_ceiling?: number | null;
+  aspect_mode?: string | null;
+  auto_crop?: boolean;
+  signed_urls?: boolean;
+  storage_backend?: string;
+  output_dir?: string;
+  relay_url?: string | null;
+  live_input_url?: string | null;
 }
 
 /**
@@ -64,11 +98,12 @@ export class ChannelRepository {
       `INSERT INTO channels (
         id, name, slug, output_dir, video_bitrate, audio_bitrate,
         resolution, fps, segment_duration, auto_start, use_dynamic_playlist, include_bumpers, 
-        watermark_image_base64, watermark_position, state,
+        watermark_image_base64, watermark_position, renditions, preferred_language, low_latency, profile_id, passthrough,
+        loudness_target, true_peak_ceiling, aspect_mode, auto_crop, signed_urls, storage_backend, relay_url, live_input_url, state,
         current_index, viewer_count, virtual_start_time,
         total_virtual_seconds, virtual_current_index, virtual_position_in_file, schedule_start_time
       ) VALUES (
-        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, $27, $28, $29, $30, $31, $32, $33, $34, $35
       )`,
       [
         channel.id,
@@ -85,6 +120,19 @@ export class ChannelRepository {
         config.includeBumpers !== false, // Default to true for backward compatibility (undefined/null → true)
         config.watermarkImageBase64 || null,
         config.watermarkPosition || null,
+        config.renditions && config.renditions.length > 0 ? JSON.stringify(config.renditions) : null,
+        config.preferredLanguage || null,
+        config.lowLatency || false,
+        config.profileId || null,
+        config.passthrough || false,
+        config.loudnessTarget ?? null,
+        config.truePeakCeiling ?? null,
+        config.aspectMode || null,
+        config.autoCrop || false,
+        config.signedUrls || false,
+        config.storageBackend || 'local',
+        config.relayUrl || null,
+        config.liveInputUrl || null,
         channel.getState(),
         channel.getMetadata().currentIndex,
         channel.getMetadata().viewerCount,
@@ -199,6 +247,62 @@ export class ChannelRepository {
       updates.push(`watermark_position = $${paramIndex++}`);
       values.push(data.watermark_position);
     }
+    if (data.renditions !== undefined) {
+      updates.push(`renditions = $${paramIndex++}`);
+      values.push(data.renditions && data.renditions.length > 0 ? JSON.stringify(data.renditions) : null);
+    }
+    if (data.preferred_language !== undefined) {
+      updates.push(`preferred_language = $${paramIndex++}`);
+      values.push(data.preferred_language);
+    }
+    if (data.low_latency !== undefined) {
+      updates.push(`low_latency = $${paramIndex++}`);
+      values.push(data.low_latency);
+    }
+    if (data.profile_id !== undefined) {
+      updates.push(`profile_id = $${paramIndex++}`);
+      values.push(data.profile_id);
+    }
+    if (data.passthrough !== undefined) {
+      updates.push(`passthrough = $${paramIndex++}`);
+      values.push(data.passthrough);
+    }
+    if (data.loudness_target !== undefined) {
+      updates.push(`loudness_target = $${paramIndex++}`);
+      values.push(data.loudness_target);
+    }
+    if (data.true_peak_ceiling !== undefined) {
+      updates.push(`true_peak_ceiling = $${paramIndex++}`);
+      values.push(data.true_peak_ceiling);
+    }
+    if (data.aspect_mode !== undefined) {
+      updates.push(`aspect_mode = $${paramIndex++}`);
+      values.push(data.aspect_mode);
+    }
+    if (data.auto_crop !== undefined) {
+      updates.push(`auto_crop = $${paramIndex++}`);
+      values.push(data.auto_crop);
+    }
+    if (data.signed_urls !== undefined) {
+      updates.push(`signed_urls = $${paramIndex++}`);
+      values.push(data.signed_urls);
+    }
+    if (data.storage_backend !== undefined) {
+      updates.push(`storage_backend = $${paramIndex++}`);
+      values.push(data.storage_backend);
+    }
+    if (data.output_dir !== undefined) {
+      updates.push(`output_dir = $${paramIndex++}`);
+      values.push(data.output_dir);
+    }
+    if (data.relay_url !== undefined) {
+      updates.push(`relay_url = $${paramIndex++}`);
+      values.push(data.relay_url);
+    }
+    if (data.live_input_url !== undefined) {
+      updates.push(`live_input_url = $${paramIndex++}`);
+      values.push(data.live_input_url);
+    }
 
     if (updates.length === 0) {
       return; // No updates
@@ -238,6 +342,19 @@ export class ChannelRepository {
       includeBumpers: row.include_bumpers !== false, // Default to true if null for backward compatibility
       watermarkImageBase64: row.watermark_image_base64 || undefined,
       watermarkPosition: (row.watermark_position as 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center') || undefined,
+      renditions: row.renditions || undefined,
+      preferredLanguage: row.preferred_language || undefined,
+      lowLatency: row.low_latency || false,
+      profileId: row.profile_id || undefined,
+      passthrough: row.passthrough || false,
+      loudnessTarget: row.loudness_target ?? undefined,
+      truePeakCeiling: row.true_peak_ceiling ?? undefined,
+      aspectMode: (row.aspect_mode as AspectMode) || undefined,
+      autoCrop: row.auto_crop || false,
+      signedUrls: row.signed_urls || false,
+      storageBackend: (row.storage_backend as StorageBackend) || 'local',
+      relayUrl: row.relay_url || undefined,
+      liveInputUrl: row.live_input_url || undefined,
     };
 
     const channel = new Channel(config, row.id, row.state as ChannelState, {
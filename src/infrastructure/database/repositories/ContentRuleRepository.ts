@@ -0,0 +1,145 @@
+import { Database } from '../Database';
+import {
+  ContentRule,
+  ContentRuleActions,
+  ContentRuleConditions,
+  ContentRuleInput,
+  ContentRuleType,
+} from '../../../domain/rule/ContentRule';
+
+interface ContentRuleRow {
+  id: string;
+  channel_id: string | null;
+  name: string;
+  description: string | null;
+  rule_type: string;
+  conditions: ContentRuleConditions;
+  actions: ContentRuleActions;
+  priority: number;
+  enabled: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Repository for content_rules database operations
+ */
+export class ContentRuleRepository {
+  /**
+   * Create a rule
+   */
+  public async create(data: ContentRuleInput): Promise<ContentRule> {
+    const result = await Database.query<ContentRuleRow>(
+      `INSERT INTO content_rules (
+        channel_id, name, description, rule_type, conditions, actions, priority, enabled
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING *`,
+      [
+        data.channelId || null,
+        data.name,
+        data.description || null,
+        data.ruleType,
+        JSON.stringify(data.conditions),
+        JSON.stringify(data.actions),
+        data.priority,
+        data.enabled,
+      ]
+    );
+
+    return ContentRuleRepository.rowToRule(result.rows[0]);
+  }
+
+  /**
+   * Find rule by ID
+   */
+  public async findById(id: string): Promise<ContentRule | null> {
+    const result = await Database.query<ContentRuleRow>('SELECT * FROM content_rules WHERE id = $1', [id]);
+
+    return result.rows[0] ? ContentRuleRepository.rowToRule(result.rows[0]) : null;
+  }
+
+  /**
+   * List rules, highest priority first
+   * @param channelId - Only rules applying to this channel (its own and global rules)
+   */
+  public async findAll(channelId?: string): Promise<ContentRule[]> {
+    const result = channelId
+      ? await Database.query<ContentRuleRow>(
+          `SELECT * FROM content_rules
+           WHERE channel_id IS NULL OR channel_id = $1
+           ORDER BY priority DESC, created_at`,
+          [channelId]
+        )
+      : await Database.query<ContentRuleRow>('SELECT * FROM content_rules ORDER BY priority DESC, created_at');
+
+    return result.rows.map((row) => ContentRuleRepository.rowToRule(row));
+  }
+
+  /**
+   * Enabled rules applying to a channel, highest priority first
+   */
+  public async findEnabledForChannel(channelId: string): Promise<ContentRule[]> {
+    const result = await Database.query<ContentRuleRow>(
+      `SELECT * FROM content_rules
+       WHERE enabled = true AND (channel_id IS NULL OR channel_id = $1)
+       ORDER BY priority DESC, created_at`,
+      [channelId]
+    );
+
+    return result.rows.map((row) => ContentRuleRepository.rowToRule(row));
+  }
+
+  /**
+   * Replace a rule's settings
+   * Rules are validated as a whole, so updates always write every column
+   */
+  public async update(id: string, data: ContentRuleInput): Promise<ContentRule | null> {
+    const result = await Database.query<ContentRuleRow>(
+      `UPDATE content_rules SET
+        channel_id = $1, name = $2, description = $3, rule_type = $4, conditions = $5, actions = $6,
+        priority = $7, enabled = $8
+      WHERE id = $9
+      RETURNING *`,
+      [
+        data.channelId || null,
+        data.name,
+        data.description || null,
+        data.ruleType,
+        JSON.stringify(data.conditions),
+        JSON.stringify(data.actions),
+        data.priority,
+        data.enabled,
+        id,
+      ]
+    );
+
+    return result.rows[0] ? ContentRuleRepository.rowToRule(result.rows[0]) : null;
+  }
+
+  /**
+   * Delete a rule
+   */
+  public async delete(id: string): Promise<boolean> {
+    const result = await Database.query('DELETE FROM content_rules WHERE id = $1', [id]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  /**
+   * Convert database row to ContentRule
+   */
+  private static rowToRule(row: ContentRuleRow): ContentRule {
+    return {
+      id: row.id,
+      channelId: row.channel_id || undefined,
+      name: row.name,
+      description: row.description || undefined,
+      ruleType: row.rule_type as ContentRuleType,
+      conditions: row.conditions || {},
+      actions: row.actions,
+      priority: row.priority ?? 0,
+      enabled: row.enabled ?? true,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
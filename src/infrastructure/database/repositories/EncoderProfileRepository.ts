@@ -0,0 +1,151 @@
+import { Database } from '../Database';
+import {
+  AudioCodec,
+  EncoderProfile,
+  EncoderProfileInput,
+  RateControlMode,
+  VideoCodec,
+} from '../../../domain/encoder/EncoderProfile';
+
+interface EncoderProfileRow {
+  id: string;
+  name: string;
+  description: string | null;
+  video_codec: string;
+  preset: string;
+  rate_control: string;
+  crf: number | null;
+  tune: string | null;
+  profile: string | null;
+  level: string | null;
+  gop_seconds: number | null;
+  audio_codec: string;
+  audio_sample_rate: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Repository for encoder_profiles database operations
+ */
+export class EncoderProfileRepository {
+  /**
+   * Create an encoder profile
+   */
+  public async create(data: EncoderProfileInput): Promise<EncoderProfile> {
+    const result = await Database.query<EncoderProfileRow>(
+      `INSERT INTO encoder_profiles (
+        name, description, video_codec, preset, rate_control, crf, tune, profile, level,
+        gop_seconds, audio_codec, audio_sample_rate
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      RETURNING *`,
+      [
+        data.name,
+        data.description || null,
+        data.videoCodec,
+        data.preset,
+        data.rateControl,
+        data.crf ?? null,
+        data.tune || null,
+        data.profile || null,
+        data.level || null,
+        data.gopSeconds ?? null,
+        data.audioCodec,
+        data.audioSampleRate,
+      ]
+    );
+
+    return EncoderProfileRepository.rowToProfile(result.rows[0]);
+  }
+
+  /**
+   * Find profile by ID
+   */
+  public async findById(id: string): Promise<EncoderProfile | null> {
+    const result = await Database.query<EncoderProfileRow>('SELECT * FROM encoder_profiles WHERE id = $1', [id]);
+
+    return result.rows[0] ? EncoderProfileRepository.rowToProfile(result.rows[0]) : null;
+  }
+
+  /**
+   * Find profile by name
+   */
+  public async findByName(name: string): Promise<EncoderProfile | null> {
+    const result = await Database.query<EncoderProfileRow>('SELECT * FROM encoder_profiles WHERE name = $1', [
+      name,
+    ]);
+
+    return result.rows[0] ? EncoderProfileRepository.rowToProfile(result.rows[0]) : null;
+  }
+
+  /**
+   * Get all profiles
+   */
+  public async findAll(): Promise<EncoderProfile[]> {
+    const result = await Database.query<EncoderProfileRow>('SELECT * FROM encoder_profiles ORDER BY name');
+
+    return result.rows.map((row) => EncoderProfileRepository.rowToProfile(row));
+  }
+
+  /**
+   * Replace a profile's settings
+   * Profiles are validated as a whole, so updates always write every column
+   */
+  public async update(id: string, data: EncoderProfileInput): Promise<EncoderProfile | null> {
+    const result = await Database.query<EncoderProfileRow>(
+      `UPDATE encoder_profiles SET
+        name = $1, description = $2, video_codec = $3, preset = $4, rate_control = $5, crf = $6,
+        tune = $7, profile = $8, level = $9, gop_seconds = $10, audio_codec = $11, audio_sample_rate = $12
+      WHERE id = $13
+      RETURNING *`,
+      [
+        data.name,
+        data.description || null,
+        data.videoCodec,
+        data.preset,
+        data.rateControl,
+        data.crf ?? null,
+        data.tune || null,
+        data.profile || null,
+        data.level || null,
+        data.gopSeconds ?? null,
+        data.audioCodec,
+        data.audioSampleRate,
+        id,
+      ]
+    );
+
+    return result.rows[0] ? EncoderProfileRepository.rowToProfile(result.rows[0]) : null;
+  }
+
+  /**
+   * Delete a profile (channels using it fall back to the global preset)
+   */
+  public async delete(id: string): Promise<boolean> {
+    const result = await Database.query('DELETE FROM encoder_profiles WHERE id = $1', [id]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  /**
+   * Convert database row to EncoderProfile
+   */
+  private static rowToProfile(row: EncoderProfileRow): EncoderProfile {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description || undefined,
+      videoCodec: row.video_codec as VideoCodec,
+      preset: row.preset,
+      rateControl: row.rate_control as RateControlMode,
+      crf: row.crf ?? undefined,
+      tune: row.tune || undefined,
+      profile: row.profile || undefined,
+      level: row.level || undefined,
+      gopSeconds: row.gop_seconds ?? undefined,
+      audioCodec: row.audio_codec as AudioCodec,
+      audioSampleRate: row.audio_sample_rate,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
@@ -155,9 +155,11 @@ export class MediaBucketRepository {
   /**
    * Get all media files in a bucket (ordered by position)
    */
-  public async getMediaInBucket(bucketId: string): Promise<Array<{ mediaFileId: string; position: number }>> {
-    const result = await Database.query<{ media_file_id: string; position: number }>(
-      `SELECT media_file_id, position
+  public async getMediaInBucket(
+    bucketId: string
+  ): Promise<Array<{ mediaFileId: string; position: number; weight: number; addedAt: Date }>> {
+    const result = await Database.query<{ media_file_id: string; position: number; weight: number; added_at: Date }>(
+      `SELECT media_file_id, position, weight, added_at
        FROM bucket_media
        WHERE bucket_id = $1
        ORDER BY position ASC`,
@@ -167,9 +169,23 @@ export class MediaBucketRepository {
     return result.rows.map((row) => ({
       mediaFileId: row.media_file_id,
       position: row.position,
+      weight: row.weight,
+      addedAt: row.added_at,
     }));
   }
 
+  /**
+   * Set the weight of a media file in a bucket (weighted playback)
+   * @returns false if the file is not in the bucket
+   */
+  public async setMediaWeight(bucketId: string, mediaFileId: string, weight: number): Promise<boolean> {
+    const result = await Database.query(
+      'UPDATE bucket_media SET weight = $1 WHERE bucket_id = $2 AND media_file_id = $3',
+      [weight, bucketId, mediaFileId]
+    );
+    return (result.rowCount || 0) > 0;
+  }
+
   /**
    * Reorder media in bucket
    */
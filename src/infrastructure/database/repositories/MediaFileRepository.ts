@@ -1,5 +1,5 @@
 import { Database } from '../Database';
-import { MediaFile, MediaFileMetadata, MediaFileInfo } from '../../../domain/media/MediaFile';
+import { CropRect, LoudnessMeasurement, MediaFile, MediaFileMetadata, MediaFileInfo, MediaStreamInfo } from '../../../domain/media/MediaFile';
 
 export interface MediaFileRow {
   id: string;
@@ -11,6 +11,11 @@ export interface MediaFileRow {
   codec: string | null;
   bitrate: number | null;
   fps: number | null;
+  audio_streams: MediaStreamInfo[] | null;
+  subtitle_streams: MediaStreamInfo[] | null;
+  loudness: LoudnessMeasurement | null;
+  crop: CropRect | null;
+  content_rating: string | null;
   show_name: string | null;
   season: number | null;
   episode: number | null;
@@ -35,8 +40,8 @@ export class MediaFileRepository {
       `INSERT INTO media_files (
         id, path, filename, duration, file_size, resolution,
         codec, bitrate, fps, show_name, season, episode, title,
-        file_exists, last_scanned_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+        file_exists, last_scanned_at, audio_streams, subtitle_streams, content_rating
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
       ON CONFLICT (path) DO UPDATE SET
         filename = EXCLUDED.filename,
         duration = EXCLUDED.duration,
@@ -51,6 +56,13 @@ export class MediaFileRepository {
         title = EXCLUDED.title,
         file_exists = EXCLUDED.file_exists,
         last_scanned_at = EXCLUDED.last_scanned_at,
+        audio_streams = EXCLUDED.audio_streams,
+        subtitle_streams = EXCLUDED.subtitle_streams,
+        -- Scans don't measure loudness or detect crop here; keep the results unless the file changed
+        loudness = CASE WHEN media_files.file_size = EXCLUDED.file_size THEN media_files.loudness ELSE NULL END,
+        crop = CASE WHEN media_files.file_size = EXCLUDED.file_size THEN media_files.crop ELSE NULL END,
+        -- Files without a rating tag keep the rating set through the API
+        content_rating = COALESCE(EXCLUDED.content_rating, media_files.content_rating),
         updated_at = NOW()
       RETURNING id`,
       [
@@ -69,6 +81,9 @@ export class MediaFileRepository {
         mediaFile.info.title || null,
         true, // file_exists
         new Date(), // last_scanned_at
+        mediaFile.metadata.audioStreams ? JSON.stringify(mediaFile.metadata.audioStreams) : null,
+        mediaFile.metadata.subtitleStreams ? JSON.stringify(mediaFile.metadata.subtitleStreams) : null,
+        mediaFile.metadata.contentRating || null,
       ]
     );
     
@@ -141,6 +156,38 @@ export class MediaFileRepository {
     }
   }
 
+  /**
+   * Store the loudness measurement of a media file
+   */
+  public async updateLoudness(mediaFileId: string, loudness: LoudnessMeasurement): Promise<void> {
+    await Database.query(
+      'UPDATE media_files SET loudness = $1, updated_at = NOW() WHERE id = $2',
+      [JSON.stringify(loudness), mediaFileId]
+    );
+  }
+
+  /**
+   * Store the detected picture area (black-bar crop) of a media file
+   */
+  public async updateCrop(mediaFileId: string, crop: CropRect): Promise<void> {
+    await Database.query(
+      'UPDATE media_files SET crop = $1, updated_at = NOW() WHERE id = $2',
+      [JSON.stringify(crop), mediaFileId]
+    );
+  }
+
+  /**
+   * Set the content rating of a media file (null = unrated)
+   * @returns false if the media file doesn't exist
+   */
+  public async updateContentRating(mediaFileId: string, contentRating: string | null): Promise<boolean> {
+    const result = await Database.query(
+      'UPDATE media_files SET content_rating = $1, updated_at = NOW() WHERE id = $2',
+      [contentRating, mediaFileId]
+    );
+    return (result.rowCount || 0) > 0;
+  }
+
   /**
    * Delete all media files in a library
    */
@@ -328,6 +375,11 @@ export class MediaFileRepository {
       codec: row.codec || undefined,
       bitrate: row.bitrate || undefined,
       fps: row.fps || undefined,
+      audioStreams: row.audio_streams || undefined,
+      subtitleStreams: row.subtitle_streams || undefined,
+      loudness: row.loudness || undefined,
+      crop: row.crop || undefined,
+      contentRating: row.content_rating || undefined,
     };
 
     const info: MediaFileInfo = {
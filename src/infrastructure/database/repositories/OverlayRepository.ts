@@ -0,0 +1,150 @@
+import { Database } from '../Database';
+import {
+  ChannelOverlay,
+  ChannelOverlayInput,
+  OverlayPosition,
+  OverlaySchedule,
+  OverlaySettings,
+  OverlayType,
+} from '../../../domain/overlay/Overlay';
+
+interface OverlayRow {
+  id: string;
+  channel_id: string;
+  type: string;
+  name: string | null;
+  enabled: boolean;
+  z_index: number;
+  position: string;
+  offset_x: number;
+  offset_y: number;
+  opacity: number;
+  image_base64: string | null;
+  settings: OverlaySettings | null;
+  schedule: OverlaySchedule | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Repository for channel_overlays database operations
+ */
+export class OverlayRepository {
+  /**
+   * Create an overlay layer
+   */
+  public async create(channelId: string, data: ChannelOverlayInput): Promise<ChannelOverlay> {
+    const result = await Database.query<OverlayRow>(
+      `INSERT INTO channel_overlays (
+        channel_id, type, name, enabled, z_index, position, offset_x, offset_y, opacity,
+        image_base64, settings, schedule
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      RETURNING *`,
+      [
+        channelId,
+        data.type,
+        data.name || null,
+        data.enabled,
+        data.zIndex,
+        data.position,
+        data.offsetX,
+        data.offsetY,
+        data.opacity,
+        data.imageBase64 || null,
+        JSON.stringify(data.settings),
+        data.schedule ? JSON.stringify(data.schedule) : null,
+      ]
+    );
+
+    return OverlayRepository.rowToOverlay(result.rows[0]);
+  }
+
+  /**
+   * Find overlay by ID within a channel
+   */
+  public async findById(channelId: string, id: string): Promise<ChannelOverlay | null> {
+    const result = await Database.query<OverlayRow>(
+      'SELECT * FROM channel_overlays WHERE channel_id = $1 AND id = $2',
+      [channelId, id]
+    );
+
+    return result.rows[0] ? OverlayRepository.rowToOverlay(result.rows[0]) : null;
+  }
+
+  /**
+   * Get a channel's overlays, bottom layer first
+   */
+  public async findByChannel(channelId: string): Promise<ChannelOverlay[]> {
+    const result = await Database.query<OverlayRow>(
+      'SELECT * FROM channel_overlays WHERE channel_id = $1 ORDER BY z_index, created_at',
+      [channelId]
+    );
+
+    return result.rows.map((row) => OverlayRepository.rowToOverlay(row));
+  }
+
+  /**
+   * Replace an overlay's settings
+   * Layers are validated as a whole, so updates always write every column
+   */
+  public async update(channelId: string, id: string, data: ChannelOverlayInput): Promise<ChannelOverlay | null> {
+    const result = await Database.query<OverlayRow>(
+      `UPDATE channel_overlays SET
+        type = $1, name = $2, enabled = $3, z_index = $4, position = $5, offset_x = $6, offset_y = $7,
+        opacity = $8, image_base64 = $9, settings = $10, schedule = $11
+      WHERE channel_id = $12 AND id = $13
+      RETURNING *`,
+      [
+        data.type,
+        data.name || null,
+        data.enabled,
+        data.zIndex,
+        data.position,
+        data.offsetX,
+        data.offsetY,
+        data.opacity,
+        data.imageBase64 || null,
+        JSON.stringify(data.settings),
+        data.schedule ? JSON.stringify(data.schedule) : null,
+        channelId,
+        id,
+      ]
+    );
+
+    return result.rows[0] ? OverlayRepository.rowToOverlay(result.rows[0]) : null;
+  }
+
+  /**
+   * Delete an overlay
+   */
+  public async delete(channelId: string, id: string): Promise<boolean> {
+    const result = await Database.query('DELETE FROM channel_overlays WHERE channel_id = $1 AND id = $2', [
+      channelId,
+      id,
+    ]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  /**
+   * Convert database row to ChannelOverlay
+   */
+  private static rowToOverlay(row: OverlayRow): ChannelOverlay {
+    return {
+      id: row.id,
+      channelId: row.channel_id,
+      type: row.type as OverlayType,
+      name: row.name || undefined,
+      enabled: row.enabled,
+      zIndex: row.z_index,
+      position: row.position as OverlayPosition,
+      offsetX: row.offset_x,
+      offsetY: row.offset_y,
+      opacity: row.opacity,
+      imageBase64: row.image_base64 || undefined,
+      settings: row.settings || {},
+      schedule: row.schedule || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
@@ -0,0 +1,57 @@
+import { Database } from '../Database';
+
+/**
+ * Repository for channel_play_history database operations
+ */
+export class PlayHistoryRepository {
+  /**
+   * Record that a channel started playing a media file
+   * Files that are not in the library (generated filler clips) are skipped
+   * @returns true if a play was recorded
+   */
+  public async record(channelId: string, mediaFileId: string, playedAt: Date = new Date()): Promise<boolean> {
+    const result = await Database.query(
+      `INSERT INTO channel_play_history (channel_id, media_file_id, played_at)
+       SELECT $1, id, $3 FROM media_files WHERE id = $2`,
+      [channelId, mediaFileId, playedAt]
+    );
+    return (result.rowCount || 0) > 0;
+  }
+
+  /**
+   * Plays before a time that are within the last hours or among the last items plays
+   * @returns Newest first
+   */
+  public async findRecent(
+    channelId: string,
+    before: Date,
+    hours: number,
+    items: number
+  ): Promise<Array<{ mediaFileId: string; playedAt: Date }>> {
+    const since = new Date(before.getTime() - hours * 60 * 60 * 1000);
+    const result = await Database.query<{ media_file_id: string; played_at: Date }>(
+      `SELECT media_file_id, played_at FROM (
+         SELECT media_file_id, played_at, ROW_NUMBER() OVER (ORDER BY played_at DESC) AS play_number
+         FROM channel_play_history
+         WHERE channel_id = $1 AND played_at < $2
+       ) plays
+       WHERE played_at >= $3 OR play_number <= $4
+       ORDER BY played_at DESC`,
+      [channelId, before, since, items]
+    );
+
+    return result.rows.map((row) => ({
+      mediaFileId: row.media_file_id,
+      playedAt: row.played_at,
+    }));
+  }
+
+  /**
+   * Delete plays older than a date
+   * @returns Number of deleted plays
+   */
+  public async purge(before: Date): Promise<number> {
+    const result = await Database.query('DELETE FROM channel_play_history WHERE played_at < $1', [before]);
+    return result.rowCount || 0;
+  }
+}
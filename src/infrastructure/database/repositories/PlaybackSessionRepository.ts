@@ -30,6 +30,7 @@ export interface EndSessionData {
 
 /**
  * Repository for playback session tracking
+ * Viewer sessions share the table (session_type 'viewer') and are handled by ViewerSessionRepository
  */
 export class PlaybackSessionRepository {
   /**
@@ -77,7 +78,7 @@ export class PlaybackSessionRepository {
   public async getActiveSession(channelId: string): Promise<PlaybackSessionRow | null> {
     const result = await Database.query<PlaybackSessionRow>(
       `SELECT * FROM playback_sessions
-       WHERE channel_id = $1 AND session_end IS NULL
+       WHERE channel_id = $1 AND session_end IS NULL AND session_type <> 'viewer'
        ORDER BY session_start DESC
        LIMIT 1`,
       [channelId]
@@ -92,7 +93,7 @@ export class PlaybackSessionRepository {
   public async findByChannel(channelId: string, limit: number = 100): Promise<PlaybackSessionRow[]> {
     const result = await Database.query<PlaybackSessionRow>(
       `SELECT * FROM playback_sessions
-       WHERE channel_id = $1
+       WHERE channel_id = $1 AND session_type <> 'viewer'
        ORDER BY session_start DESC
        LIMIT $2`,
       [channelId, limit]
@@ -122,7 +123,7 @@ export class PlaybackSessionRepository {
         COALESCE(AVG(duration_seconds), 0) as avg_session_length,
         MAX(session_start) as last_session
        FROM playback_sessions
-       WHERE channel_id = $1 AND session_end IS NOT NULL`,
+       WHERE channel_id = $1 AND session_end IS NOT NULL AND session_type <> 'viewer'`,
       [channelId]
     );
 
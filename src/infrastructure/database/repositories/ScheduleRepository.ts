@@ -10,22 +10,61 @@ export interface ScheduleBlockRow {
   day_of_week: number[] | null; // Array of days (0=Sunday, 6=Saturday), NULL = all days
   start_time: string; // TIME format
   end_time: string; // TIME format
-  bucket_id: string | null;
-  playback_mode: string; // 'sequential', 'random', 'shuffle'
+  bucket_id: string | null; // First bucket of multi-bucket blocks (see getBlockBuckets)
+  bucket_strategy: string; // 'round_robin', 'weighted', 'sequence' (how multi-bucket blocks mix)
+  playback_mode: string; // 'sequential', 'random', 'shuffle', 'weighted'
+  live_input_url: string | null; // Live source played during the block (bucket is the fallback)
+  slot_alignment: string; // 'none' (back to back), 'block', 'half_hour'
+  filler_mode: string; // 'slate', 'bucket', 'bumper' (what fills the gaps before slots)
+  filler_bucket_id: string | null; // Filler content for filler_mode 'bucket'
+  no_repeat_hours: number | null; // Media played this many hours before the block plays last
+  no_repeat_items: number | null; // Media among the last N plays before the block plays last
+  recency_boost_days: number | null; // Weighted mode: media added within this many days...
+  recency_boost: number | null; // ...has its weight multiplied by this
   priority: number;
   enabled: boolean;
   created_at: Date;
   updated_at: Date;
+  event?: {
+    // Set when the "block" is a one-off schedule event (see eventToBlock)
+    mediaFileId: string | null;
+    startsAt: Date;
+    endsAt: Date;
+  };
+}
+
+export interface ScheduleBlockBucket {
+  bucketId: string;
+  position: number;
+  weight: number; // share of the slots for bucket_strategy 'weighted'
+}
+
+export interface ScheduleEventRow {
+  id: string;
+  channel_id: string;
+  title: string;
+  description: string | null;
+  start_time: Date; // TIMESTAMP (absolute)
+  end_time: Date; // TIMESTAMP (absolute)
+  media_file_id: string | null; // File the event opens with
+  bucket_id: string | null;
+  playback_mode: string; // 'sequential', 'random', 'shuffle', 'weighted'
+  live_input_url: string | null;
+  enabled: boolean;
+  created_at: Date;
+  updated_at: Date;
 }
 
 /**
- * Repository for schedule_blocks database operations
+ * Repository for schedule_blocks and schedule event (schedules table) database operations
  */
 export class ScheduleRepository {
   /**
    * Get active schedule block for a channel at a specific time
    * 
    * CRITICAL: Handles midnight wraparound (e.g., 23:00-01:00 blocks)
+   * A running one-off schedule event takes precedence over the recurring blocks
+   * and is returned as a block (see eventToBlock).
    * 
    * @param channelId - Channel ID
    * @param currentTime - Time to check (defaults to now)
@@ -35,6 +74,20 @@ export class ScheduleRepository {
     channelId: string,
     currentTime: Date = new Date()
   ): Promise<ScheduleBlockRow | null> {
+    const activeEvent = await this.getActiveEvent(channelId, currentTime);
+    if (activeEvent) {
+      logger.debug(
+        {
+          channelId,
+          eventId: activeEvent.id,
+          eventTitle: activeEvent.title,
+          currentTime: currentTime.toISOString(),
+        },
+        'Found active schedule event'
+      );
+      return ScheduleRepository.eventToBlock(activeEvent);
+    }
+
     const dayOfWeek = currentTime.getDay(); // 0 = Sunday, 6 = Saturday
     const currentMinutes = currentTime.getHours() * 60 + currentTime.getMinutes();
     const timeStr = currentTime.toTimeString().substring(0, 8);
@@ -136,6 +189,91 @@ export class ScheduleRepository {
     return null;
   }
 
+  /**
+   * Get the schedule event running on a channel at a specific time
+   * (when events overlap, the one that started last wins)
+   */
+  public async getActiveEvent(
+    channelId: string,
+    currentTime: Date = new Date()
+  ): Promise<ScheduleEventRow | null> {
+    const result = await Database.query<ScheduleEventRow>(
+      `SELECT * FROM schedules
+       WHERE channel_id = $1
+         AND enabled = TRUE
+         AND start_time <= $2
+         AND end_time > $2
+       ORDER BY start_time DESC, created_at ASC
+       LIMIT 1`,
+      [channelId, currentTime]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Get schedule events for a channel, optionally only those overlapping a time range
+   */
+  public async getEventsForChannel(channelId: string, from?: Date, to?: Date): Promise<ScheduleEventRow[]> {
+    const result = await Database.query<ScheduleEventRow>(
+      `SELECT * FROM schedules
+       WHERE channel_id = $1
+         AND ($2::timestamp IS NULL OR end_time > $2)
+         AND ($3::timestamp IS NULL OR start_time < $3)
+       ORDER BY start_time ASC`,
+      [channelId, from || null, to || null]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Get a single schedule event of a channel
+   */
+  public async getEvent(channelId: string, eventId: string): Promise<ScheduleEventRow | null> {
+    const result = await Database.query<ScheduleEventRow>(
+      'SELECT * FROM schedules WHERE id = $1 AND channel_id = $2',
+      [eventId, channelId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Present a schedule event as a schedule block so playlist resolution, EPG generation and
+   * schedule transition tracking treat it like any other block. The block outranks every
+   * recurring block and carries the event's absolute times and opening media file.
+   * start_time/end_time only hold the times of day (an event can span days), so anything
+   * judging the block's extent must use event.startsAt/endsAt (see getBlockOccurrence).
+   */
+  public static eventToBlock(event: ScheduleEventRow): ScheduleBlockRow {
+    return {
+      id: event.id,
+      channel_id: event.channel_id,
+      name: event.title,
+      day_of_week: null,
+      start_time: event.start_time.toTimeString().substring(0, 8),
+      end_time: event.end_time.toTimeString().substring(0, 8),
+      bucket_id: event.bucket_id,
+      bucket_strategy: 'round_robin',
+      playback_mode: event.playback_mode,
+      live_input_url: event.live_input_url,
+      slot_alignment: 'none',
+      filler_mode: 'slate',
+      filler_bucket_id: null,
+      no_repeat_hours: null,
+      no_repeat_items: null,
+      recency_boost_days: null,
+      recency_boost: null,
+      priority: Number.MAX_SAFE_INTEGER,
+      enabled: event.enabled,
+      created_at: event.created_at,
+      updated_at: event.updated_at,
+      event: {
+        mediaFileId: event.media_file_id,
+        startsAt: event.start_time,
+        endsAt: event.end_time,
+      },
+    };
+  }
+
   /**
    * Convert time string (HH:MM:SS) to minutes since midnight
    * Matches EPGService.timeToMinutes logic exactly
@@ -173,6 +311,40 @@ export class ScheduleRepository {
     return result.rows;
   }
 
+  /**
+   * Get the buckets of a multi-bucket block (in position order; empty for single-bucket blocks)
+   */
+  public async getBlockBuckets(blockId: string): Promise<ScheduleBlockBucket[]> {
+    const result = await Database.query<{ bucket_id: string; position: number; weight: number }>(
+      `SELECT bucket_id, position, weight FROM schedule_block_buckets
+       WHERE block_id = $1
+       ORDER BY position ASC`,
+      [blockId]
+    );
+
+    return result.rows.map((row) => ({
+      bucketId: row.bucket_id,
+      position: row.position,
+      weight: row.weight,
+    }));
+  }
+
+  /**
+   * Replace the buckets of a block (an empty list makes it a single-bucket block)
+   */
+  public async setBlockBuckets(blockId: string, buckets: Array<{ bucketId: string; weight?: number }>): Promise<void> {
+    await Database.transaction(async (client) => {
+      await client.query('DELETE FROM schedule_block_buckets WHERE block_id = $1', [blockId]);
+      for (let i = 0; i < buckets.length; i++) {
+        await client.query(
+          `INSERT INTO schedule_block_buckets (block_id, bucket_id, position, weight)
+           VALUES ($1, $2, $3, $4)`,
+          [blockId, buckets[i].bucketId, i, buckets[i].weight ?? 1]
+        );
+      }
+    });
+  }
+
   /**
    * Get schedule blocks for a channel that are active at any time
    * (useful for getting all buckets used in schedules)
@@ -195,6 +367,7 @@ export class ScheduleRepository {
    *
    * This is critical for EPG generation - ensures EPG checks at exact block boundaries
    * instead of using fixed intervals that might miss transitions.
+   * Start and end times of schedule events count as transitions too.
    *
    * @param channelId - Channel ID
    * @param currentTime - Current time (defaults to now)
@@ -206,16 +379,28 @@ export class ScheduleRepository {
   ): Promise<Date | null> {
     const blocks = await this.getEnabledBlocksForChannel(channelId);
 
-    if (blocks.length === 0) {
-      return null;
-    }
-
     const currentDayOfWeek = currentTime.getDay();
     const currentMinutes = currentTime.getHours() * 60 + currentTime.getMinutes();
 
     let nextTransition: Date | null = null;
     let minTimeDiff = Infinity;
 
+    // Next event boundary (an event starting or ending)
+    const eventResult = await Database.query<{ boundary: Date | null }>(
+      `SELECT MIN(boundary) AS boundary FROM (
+         SELECT start_time AS boundary FROM schedules WHERE channel_id = $1 AND enabled = TRUE
+         UNION ALL
+         SELECT end_time AS boundary FROM schedules WHERE channel_id = $1 AND enabled = TRUE
+       ) boundaries
+       WHERE boundary > $2`,
+      [channelId, currentTime]
+    );
+    const eventBoundary = eventResult.rows[0]?.boundary;
+    if (eventBoundary) {
+      minTimeDiff = eventBoundary.getTime() - currentTime.getTime();
+      nextTransition = eventBoundary;
+    }
+
     // Check all blocks to find the nearest future transition (start time)
     for (const block of blocks) {
       const startMinutes = this.timeToMinutes(block.start_time);
@@ -0,0 +1,106 @@
+import { Database } from '../Database';
+import { CachedRendition, TranscodeParams } from '../../../domain/transcode/TranscodeJob';
+
+interface TranscodeCacheRow {
+  cache_key: string;
+  media_file_id: string;
+  path: string;
+  size_bytes: string; // BIGINT is returned as a string
+  params: TranscodeParams;
+  created_at: Date;
+  last_accessed_at: Date;
+}
+
+/**
+ * Repository for transcode_cache database operations
+ */
+export class TranscodeCacheRepository {
+  /**
+   * Record a finished rendition (replaces an existing entry for the same key)
+   */
+  public async upsert(data: Omit<CachedRendition, 'createdAt' | 'lastAccessedAt'>): Promise<void> {
+    await Database.query(
+      `INSERT INTO transcode_cache (cache_key, media_file_id, path, size_bytes, params)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (cache_key) DO UPDATE SET
+         path = EXCLUDED.path,
+         size_bytes = EXCLUDED.size_bytes,
+         created_at = NOW(),
+         last_accessed_at = NOW()`,
+      [data.cacheKey, data.mediaFileId, data.path, data.sizeBytes, JSON.stringify(data.params)]
+    );
+  }
+
+  /**
+   * Find renditions by cache key
+   */
+  public async findByKeys(cacheKeys: string[]): Promise<CachedRendition[]> {
+    if (cacheKeys.length === 0) {
+      return [];
+    }
+    const result = await Database.query<TranscodeCacheRow>(
+      'SELECT * FROM transcode_cache WHERE cache_key = ANY($1)',
+      [cacheKeys]
+    );
+
+    return result.rows.map((row) => TranscodeCacheRepository.rowToRendition(row));
+  }
+
+  /**
+   * Get all renditions (for LRU eviction)
+   */
+  public async findAll(): Promise<CachedRendition[]> {
+    const result = await Database.query<TranscodeCacheRow>('SELECT * FROM transcode_cache ORDER BY last_accessed_at');
+
+    return result.rows.map((row) => TranscodeCacheRepository.rowToRendition(row));
+  }
+
+  /**
+   * Mark renditions as used by playout
+   */
+  public async touch(cacheKeys: string[]): Promise<void> {
+    if (cacheKeys.length === 0) {
+      return;
+    }
+    await Database.query('UPDATE transcode_cache SET last_accessed_at = NOW() WHERE cache_key = ANY($1)', [
+      cacheKeys,
+    ]);
+  }
+
+  /**
+   * Get total cache size
+   */
+  public async getStats(): Promise<{ count: number; totalBytes: number }> {
+    const result = await Database.query<{ count: string; total_bytes: string | null }>(
+      'SELECT COUNT(*) AS count, SUM(size_bytes) AS total_bytes FROM transcode_cache'
+    );
+
+    return {
+      count: parseInt(result.rows[0].count, 10),
+      totalBytes: parseInt(result.rows[0].total_bytes || '0', 10),
+    };
+  }
+
+  /**
+   * Delete a rendition entry (the file is removed by the caller)
+   */
+  public async delete(cacheKey: string): Promise<boolean> {
+    const result = await Database.query('DELETE FROM transcode_cache WHERE cache_key = $1', [cacheKey]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  /**
+   * Convert database row to CachedRendition
+   */
+  private static rowToRendition(row: TranscodeCacheRow): CachedRendition {
+    return {
+      cacheKey: row.cache_key,
+      mediaFileId: row.media_file_id,
+      path: row.path,
+      sizeBytes: parseInt(row.size_bytes, 10),
+      params: row.params,
+      createdAt: row.created_at,
+      lastAccessedAt: row.last_accessed_at,
+    };
+  }
+}
@@ -0,0 +1,180 @@
+import { Database } from '../Database';
+import { TranscodeJob, TranscodeJobStatus, TranscodeParams } from '../../../domain/transcode/TranscodeJob';
+
+interface TranscodeJobRow {
+  id: string;
+  media_file_id: string;
+  channel_id: string | null;
+  cache_key: string;
+  params: TranscodeParams;
+  status: string;
+  progress: number;
+  error: string | null;
+  created_at: Date;
+  started_at: Date | null;
+  completed_at: Date | null;
+}
+
+export interface CreateTranscodeJobData {
+  mediaFileId: string;
+  channelId?: string;
+  cacheKey: string;
+  params: TranscodeParams;
+}
+
+/**
+ * Repository for transcode_jobs database operations
+ */
+export class TranscodeJobRepository {
+  /**
+   * Queue a job
+   */
+  public async create(data: CreateTranscodeJobData): Promise<TranscodeJob> {
+    const result = await Database.query<TranscodeJobRow>(
+      `INSERT INTO transcode_jobs (media_file_id, channel_id, cache_key, params)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [data.mediaFileId, data.channelId || null, data.cacheKey, JSON.stringify(data.params)]
+    );
+
+    return TranscodeJobRepository.rowToJob(result.rows[0]);
+  }
+
+  /**
+   * Find job by ID
+   */
+  public async findById(id: string): Promise<TranscodeJob | null> {
+    const result = await Database.query<TranscodeJobRow>('SELECT * FROM transcode_jobs WHERE id = $1', [id]);
+
+    return result.rows[0] ? TranscodeJobRepository.rowToJob(result.rows[0]) : null;
+  }
+
+  /**
+   * List jobs, newest first
+   */
+  public async findAll(filters?: { status?: TranscodeJobStatus; channelId?: string; limit?: number }): Promise<TranscodeJob[]> {
+    const conditions: string[] = [];
+    const values: Array<string | number> = [];
+    let paramIndex = 1;
+
+    if (filters?.status) {
+      conditions.push(`status = $${paramIndex++}`);
+      values.push(filters.status);
+    }
+    if (filters?.channelId) {
+      conditions.push(`channel_id = $${paramIndex++}`);
+      values.push(filters.channelId);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    values.push(filters?.limit || 100);
+
+    const result = await Database.query<TranscodeJobRow>(
+      `SELECT * FROM transcode_jobs ${where} ORDER BY created_at DESC LIMIT $${paramIndex}`,
+      values
+    );
+
+    return result.rows.map((row) => TranscodeJobRepository.rowToJob(row));
+  }
+
+  /**
+   * Oldest queued jobs first (worker pick order)
+   */
+  public async findQueued(limit: number): Promise<TranscodeJob[]> {
+    const result = await Database.query<TranscodeJobRow>(
+      `SELECT * FROM transcode_jobs WHERE status = 'queued' ORDER BY created_at LIMIT $1`,
+      [limit]
+    );
+
+    return result.rows.map((row) => TranscodeJobRepository.rowToJob(row));
+  }
+
+  /**
+   * Get the cache keys of queued or running jobs
+   */
+  public async getActiveCacheKeys(): Promise<Set<string>> {
+    const result = await Database.query<{ cache_key: string }>(
+      `SELECT DISTINCT cache_key FROM transcode_jobs WHERE status IN ('queued', 'running')`
+    );
+
+    return new Set(result.rows.map((row) => row.cache_key));
+  }
+
+  /**
+   * Mark a queued job as running
+   * @returns False if the job is no longer queued (e.g. cancelled)
+   */
+  public async markRunning(id: string): Promise<boolean> {
+    const result = await Database.query(
+      `UPDATE transcode_jobs SET status = 'running', progress = 0, started_at = NOW()
+       WHERE id = $1 AND status = 'queued'`,
+      [id]
+    );
+    return (result.rowCount || 0) > 0;
+  }
+
+  /**
+   * Update progress of a running job
+   */
+  public async updateProgress(id: string, progress: number): Promise<void> {
+    await Database.query(`UPDATE transcode_jobs SET progress = $1 WHERE id = $2 AND status = 'running'`, [
+      progress,
+      id,
+    ]);
+  }
+
+  /**
+   * Move a job to a final state
+   */
+  public async finish(id: string, status: Exclude<TranscodeJobStatus, 'queued' | 'running'>, error?: string): Promise<void> {
+    await Database.query(
+      `UPDATE transcode_jobs
+       SET status = $1, error = $2, completed_at = NOW(),
+           progress = CASE WHEN $1 = 'completed' THEN 100 ELSE progress END
+       WHERE id = $3`,
+      [status, error || null, id]
+    );
+  }
+
+  /**
+   * Cancel a job that hasn't finished
+   * @returns False if the job already finished
+   */
+  public async cancel(id: string): Promise<boolean> {
+    const result = await Database.query(
+      `UPDATE transcode_jobs SET status = 'cancelled', completed_at = NOW()
+       WHERE id = $1 AND status IN ('queued', 'running')`,
+      [id]
+    );
+    return (result.rowCount || 0) > 0;
+  }
+
+  /**
+   * Put jobs left running by a previous process back in the queue
+   */
+  public async requeueRunning(): Promise<number> {
+    const result = await Database.query(
+      `UPDATE transcode_jobs SET status = 'queued', progress = 0, started_at = NULL WHERE status = 'running'`
+    );
+    return result.rowCount || 0;
+  }
+
+  /**
+   * Convert database row to TranscodeJob
+   */
+  private static rowToJob(row: TranscodeJobRow): TranscodeJob {
+    return {
+      id: row.id,
+      mediaFileId: row.media_file_id,
+      channelId: row.channel_id || undefined,
+      cacheKey: row.cache_key,
+      params: row.params,
+      status: row.status as TranscodeJobStatus,
+      progress: row.progress,
+      error: row.error || undefined,
+      createdAt: row.created_at,
+      startedAt: row.started_at || undefined,
+      completedAt: row.completed_at || undefined,
+    };
+  }
+}
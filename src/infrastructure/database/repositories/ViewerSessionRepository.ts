@@ -0,0 +1,109 @@
+import { Database } from '../Database';
+import { ViewerSession } from '../../../domain/viewer/ViewerSession';
+
+interface ViewerSessionRow {
+  viewer_id: string;
+  channel_id: string;
+  client_ip: string | null;
+  user_agent: string | null;
+  session_start: Date;
+  last_seen_at: Date | null;
+  bytes_served: string; // BIGINT
+  segments_served: number;
+  last_segment: string | null;
+}
+
+/**
+ * Repository for viewer sessions (playback_sessions rows with session_type 'viewer')
+ */
+export class ViewerSessionRepository {
+  /**
+   * Open a viewer session
+   * A session that already exists (its player came back after it expired, or the server restarted)
+   * is reopened with its counters intact
+   */
+  public async open(session: ViewerSession): Promise<ViewerSession> {
+    const result = await Database.query<ViewerSessionRow>(
+      `INSERT INTO playback_sessions (
+        channel_id, session_start, virtual_time_at_start, session_type, triggered_by,
+        viewer_id, client_ip, user_agent, last_seen_at
+      ) VALUES ($1, $2, 0, 'viewer', 'viewer', $3, $4, $5, $6)
+      ON CONFLICT (viewer_id) WHERE viewer_id IS NOT NULL DO UPDATE SET
+        session_end = NULL,
+        duration_seconds = NULL,
+        last_seen_at = EXCLUDED.last_seen_at
+      RETURNING *`,
+      [
+        session.channelId,
+        session.startedAt,
+        session.id,
+        session.client.ip,
+        session.client.userAgent || null,
+        session.lastSeenAt,
+      ]
+    );
+
+    return ViewerSessionRepository.rowToSession(result.rows[0]);
+  }
+
+  /**
+   * Save a session's counters
+   */
+  public async updateProgress(session: ViewerSession): Promise<void> {
+    await Database.query(
+      `UPDATE playback_sessions
+       SET bytes_served = $1, segments_served = $2, last_segment = $3, last_seen_at = $4
+       WHERE viewer_id = $5`,
+      [session.bytesServed, session.segmentsServed, session.lastSegment || null, session.lastSeenAt, session.id]
+    );
+  }
+
+  /**
+   * End a session at its last request
+   */
+  public async end(session: ViewerSession): Promise<void> {
+    await Database.query(
+      `UPDATE playback_sessions
+       SET session_end = $1,
+           duration_seconds = EXTRACT(EPOCH FROM ($1 - session_start))::INTEGER,
+           bytes_served = $2, segments_served = $3, last_segment = $4, last_seen_at = $1
+       WHERE viewer_id = $5`,
+      [session.lastSeenAt, session.bytesServed, session.segmentsServed, session.lastSegment || null, session.id]
+    );
+  }
+
+  /**
+   * End sessions whose players stopped requesting before the cutoff (left open by a shutdown)
+   */
+  public async endStale(cutoff: Date): Promise<number> {
+    const result = await Database.query(
+      `UPDATE playback_sessions
+       SET session_end = COALESCE(last_seen_at, session_start),
+           duration_seconds = EXTRACT(EPOCH FROM (COALESCE(last_seen_at, session_start) - session_start))::INTEGER
+       WHERE session_type = 'viewer' AND session_end IS NULL
+         AND COALESCE(last_seen_at, session_start) < $1`,
+      [cutoff]
+    );
+
+    return result.rowCount || 0;
+  }
+
+  /**
+   * Convert database row to ViewerSession
+   */
+  private static rowToSession(row: ViewerSessionRow): ViewerSession {
+    return {
+      id: row.viewer_id,
+      channelId: row.channel_id,
+      client: {
+        ip: row.client_ip || 'unknown',
+        userAgent: row.user_agent || undefined,
+      },
+      startedAt: row.session_start,
+      lastSeenAt: row.last_seen_at || row.session_start,
+      bytesServed: parseInt(row.bytes_served, 10),
+      segmentsServed: row.segments_served,
+      lastSegment: row.last_segment || undefined,
+    };
+  }
+}
@@ -0,0 +1,101 @@
+import { Database } from '../Database';
+import { CreateViewerTokenData, ViewerToken } from '../../../domain/access/ViewerToken';
+
+interface ViewerTokenRow {
+  id: string;
+  name: string;
+  token_hash: string;
+  channel_ids: string[] | null;
+  expires_at: Date | null;
+  revoked_at: Date | null;
+  last_used_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Repository for viewer_tokens database operations
+ * Tokens are looked up by their SHA-256 hash; the plain token is never stored
+ */
+export class ViewerTokenRepository {
+  /**
+   * Create a token
+   */
+  public async create(tokenHash: string, data: CreateViewerTokenData): Promise<ViewerToken> {
+    const result = await Database.query<ViewerTokenRow>(
+      `INSERT INTO viewer_tokens (name, token_hash, channel_ids, expires_at)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [data.name, tokenHash, data.channelIds || null, data.expiresAt || null]
+    );
+
+    return ViewerTokenRepository.rowToToken(result.rows[0]);
+  }
+
+  /**
+   * Find token by ID
+   */
+  public async findById(id: string): Promise<ViewerToken | null> {
+    const result = await Database.query<ViewerTokenRow>('SELECT * FROM viewer_tokens WHERE id = $1', [id]);
+
+    return result.rows[0] ? ViewerTokenRepository.rowToToken(result.rows[0]) : null;
+  }
+
+  /**
+   * Find token by the hash of its value
+   */
+  public async findByHash(tokenHash: string): Promise<ViewerToken | null> {
+    const result = await Database.query<ViewerTokenRow>('SELECT * FROM viewer_tokens WHERE token_hash = $1', [
+      tokenHash,
+    ]);
+
+    return result.rows[0] ? ViewerTokenRepository.rowToToken(result.rows[0]) : null;
+  }
+
+  /**
+   * List tokens, newest first
+   */
+  public async findAll(): Promise<ViewerToken[]> {
+    const result = await Database.query<ViewerTokenRow>('SELECT * FROM viewer_tokens ORDER BY created_at DESC');
+
+    return result.rows.map((row) => ViewerTokenRepository.rowToToken(row));
+  }
+
+  /**
+   * Revoke a token
+   * @returns The revoked token, or null if it doesn't exist or was already revoked
+   */
+  public async revoke(id: string): Promise<ViewerToken | null> {
+    const result = await Database.query<ViewerTokenRow>(
+      `UPDATE viewer_tokens SET revoked_at = NOW()
+       WHERE id = $1 AND revoked_at IS NULL
+       RETURNING *`,
+      [id]
+    );
+
+    return result.rows[0] ? ViewerTokenRepository.rowToToken(result.rows[0]) : null;
+  }
+
+  /**
+   * Record that a token was used
+   */
+  public async markUsed(id: string): Promise<void> {
+    await Database.query('UPDATE viewer_tokens SET last_used_at = NOW() WHERE id = $1', [id]);
+  }
+
+  /**
+   * Convert database row to ViewerToken
+   */
+  private static rowToToken(row: ViewerTokenRow): ViewerToken {
+    return {
+      id: row.id,
+      name: row.name,
+      channelIds: row.channel_ids || undefined,
+      expiresAt: row.expires_at || undefined,
+      revokedAt: row.revoked_at || undefined,
+      lastUsedAt: row.last_used_at || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
@@ -0,0 +1,281 @@
+import { Database } from '../Database';
+import {
+  CreateWebhookData,
+  UpdateWebhookData,
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+} from '../../../domain/webhook/Webhook';
+
+interface WebhookRow {
+  id: string;
+  name: string;
+  url: string;
+  secret: string;
+  events: string[];
+  enabled: boolean;
+  last_delivery_at: Date | null;
+  last_status_code: number | null;
+  last_error: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface WebhookDeliveryRow {
+  id: string;
+  webhook_id: string;
+  event: string;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  response_code: number | null;
+  error: string | null;
+  next_attempt_at: Date | null;
+  created_at: Date;
+  delivered_at: Date | null;
+}
+
+/**
+ * Where and how to send a webhook's deliveries
+ */
+export interface WebhookTarget {
+  id: string;
+  url: string;
+  secret: string;
+  events: string[];
+}
+
+/**
+ * Outcome of a delivery attempt
+ */
+export interface DeliveryAttempt {
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseCode?: number;
+  error?: string;
+  nextAttemptAt?: Date;
+}
+
+/**
+ * Repository for webhooks and webhook_deliveries database operations
+ * Secrets are only read for sending (WebhookTarget), never returned with the webhook
+ */
+export class WebhookRepository {
+  /**
+   * Create a webhook
+   */
+  public async create(data: CreateWebhookData): Promise<Webhook> {
+    const result = await Database.query<WebhookRow>(
+      `INSERT INTO webhooks (name, url, secret, events, enabled)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [data.name, data.url, data.secret, data.events, data.enabled ?? true]
+    );
+
+    return WebhookRepository.rowToWebhook(result.rows[0]);
+  }
+
+  /**
+   * Find webhook by ID
+   */
+  public async findById(id: string): Promise<Webhook | null> {
+    const result = await Database.query<WebhookRow>('SELECT * FROM webhooks WHERE id = $1', [id]);
+
+    return result.rows[0] ? WebhookRepository.rowToWebhook(result.rows[0]) : null;
+  }
+
+  /**
+   * List webhooks, newest first
+   */
+  public async findAll(): Promise<Webhook[]> {
+    const result = await Database.query<WebhookRow>('SELECT * FROM webhooks ORDER BY created_at DESC');
+
+    return result.rows.map((row) => WebhookRepository.rowToWebhook(row));
+  }
+
+  /**
+   * Update a webhook (unset fields are kept)
+   */
+  public async update(id: string, data: UpdateWebhookData): Promise<Webhook | null> {
+    const result = await Database.query<WebhookRow>(
+      `UPDATE webhooks SET
+        name = COALESCE($1, name),
+        url = COALESCE($2, url),
+        secret = COALESCE($3, secret),
+        events = COALESCE($4, events),
+        enabled = COALESCE($5, enabled)
+      WHERE id = $6
+      RETURNING *`,
+      [data.name ?? null, data.url ?? null, data.secret ?? null, data.events ?? null, data.enabled ?? null, id]
+    );
+
+    return result.rows[0] ? WebhookRepository.rowToWebhook(result.rows[0]) : null;
+  }
+
+  /**
+   * Delete a webhook (and its delivery log)
+   */
+  public async delete(id: string): Promise<boolean> {
+    const result = await Database.query('DELETE FROM webhooks WHERE id = $1', [id]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  /**
+   * Targets of the enabled webhooks
+   */
+  public async findEnabledTargets(): Promise<WebhookTarget[]> {
+    const result = await Database.query<WebhookRow>('SELECT * FROM webhooks WHERE enabled = true');
+
+    return result.rows.map((row) => WebhookRepository.rowToTarget(row));
+  }
+
+  /**
+   * Target of one webhook (enabled or not, for test events)
+   */
+  public async findTarget(id: string): Promise<WebhookTarget | null> {
+    const result = await Database.query<WebhookRow>('SELECT * FROM webhooks WHERE id = $1', [id]);
+
+    return result.rows[0] ? WebhookRepository.rowToTarget(result.rows[0]) : null;
+  }
+
+  /**
+   * Log a new delivery, due now
+   */
+  public async createDelivery(
+    webhookId: string,
+    event: string,
+    payload: Record<string, unknown>
+  ): Promise<WebhookDelivery> {
+    const result = await Database.query<WebhookDeliveryRow>(
+      `INSERT INTO webhook_deliveries (webhook_id, event, payload, next_attempt_at)
+       VALUES ($1, $2, $3, NOW())
+       RETURNING *`,
+      [webhookId, event, JSON.stringify(payload)]
+    );
+
+    return WebhookRepository.rowToDelivery(result.rows[0]);
+  }
+
+  /**
+   * Delivery log of a webhook, newest first
+   */
+  public async findDeliveries(webhookId: string, limit: number): Promise<WebhookDelivery[]> {
+    const result = await Database.query<WebhookDeliveryRow>(
+      `SELECT * FROM webhook_deliveries
+       WHERE webhook_id = $1
+       ORDER BY created_at DESC
+       LIMIT $2`,
+      [webhookId, limit]
+    );
+
+    return result.rows.map((row) => WebhookRepository.rowToDelivery(row));
+  }
+
+  /**
+   * Pending deliveries whose next attempt is due, oldest first
+   */
+  public async findDueDeliveries(limit: number): Promise<WebhookDelivery[]> {
+    const result = await Database.query<WebhookDeliveryRow>(
+      `SELECT * FROM webhook_deliveries
+       WHERE status = 'pending' AND next_attempt_at <= NOW()
+       ORDER BY next_attempt_at
+       LIMIT $1`,
+      [limit]
+    );
+
+    return result.rows.map((row) => WebhookRepository.rowToDelivery(row));
+  }
+
+  /**
+   * Record the outcome of an attempt on the delivery and its webhook
+   */
+  public async recordAttempt(delivery: WebhookDelivery, attempt: DeliveryAttempt): Promise<WebhookDelivery> {
+    return Database.transaction(async (client) => {
+      const result = await client.query<WebhookDeliveryRow>(
+        `UPDATE webhook_deliveries SET
+          status = $1::varchar,
+          attempts = $2,
+          response_code = $3,
+          error = $4,
+          next_attempt_at = $5,
+          delivered_at = CASE WHEN $1::varchar = 'succeeded' THEN NOW() ELSE delivered_at END
+        WHERE id = $6
+        RETURNING *`,
+        [
+          attempt.status,
+          attempt.attempts,
+          attempt.responseCode ?? null,
+          attempt.error ?? null,
+          attempt.nextAttemptAt ?? null,
+          delivery.id,
+        ]
+      );
+
+      await client.query(
+        `UPDATE webhooks SET last_delivery_at = NOW(), last_status_code = $1, last_error = $2
+         WHERE id = $3`,
+        [attempt.responseCode ?? null, attempt.error ?? null, delivery.webhookId]
+      );
+
+      return WebhookRepository.rowToDelivery(result.rows[0]);
+    });
+  }
+
+  /**
+   * Delete finished deliveries created before a time
+   * @returns Number of deliveries deleted
+   */
+  public async purgeDeliveries(before: Date): Promise<number> {
+    const result = await Database.query(
+      `DELETE FROM webhook_deliveries WHERE created_at < $1 AND status <> 'pending'`,
+      [before]
+    );
+    return result.rowCount || 0;
+  }
+
+  /**
+   * Convert database row to Webhook
+   */
+  private static rowToWebhook(row: WebhookRow): Webhook {
+    return {
+      id: row.id,
+      name: row.name,
+      url: row.url,
+      events: row.events,
+      enabled: row.enabled,
+      lastDeliveryAt: row.last_delivery_at || undefined,
+      lastStatusCode: row.last_status_code ?? undefined,
+      lastError: row.last_error || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private static rowToTarget(row: WebhookRow): WebhookTarget {
+    return {
+      id: row.id,
+      url: row.url,
+      secret: row.secret,
+      events: row.events,
+    };
+  }
+
+  /**
+   * Convert database row to WebhookDelivery
+   */
+  private static rowToDelivery(row: WebhookDeliveryRow): WebhookDelivery {
+    return {
+      id: row.id,
+      webhookId: row.webhook_id,
+      event: row.event,
+      payload: row.payload,
+      status: row.status,
+      attempts: row.attempts,
+      responseCode: row.response_code ?? undefined,
+      error: row.error || undefined,
+      nextAttemptAt: row.next_attempt_at || undefined,
+      createdAt: row.created_at,
+      deliveredAt: row.delivered_at || undefined,
+    };
+  }
+}
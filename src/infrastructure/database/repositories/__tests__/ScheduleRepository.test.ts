@@ -0,0 +1,113 @@
+import { ScheduleBlockRow, ScheduleEventRow, ScheduleRepository } from '../ScheduleRepository';
+import { Database } from '../../Database';
+
+jest.mock('../../Database');
+jest.mock('../../../../utils/logger', () => ({
+  createLogger: jest.fn().mockReturnValue({
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }),
+}));
+
+describe('ScheduleRepository', () => {
+  const query = Database.query as jest.Mock;
+  let scheduleRepository: ScheduleRepository;
+
+  // Monday 5 January 2026, local time
+  const at = (day: number, hours: number, minutes = 0) => new Date(2026, 0, day, hours, minutes);
+
+  const event: ScheduleEventRow = {
+    id: 'event-1',
+    channel_id: 'channel-1',
+    title: 'Premiere',
+    description: null,
+    start_time: at(5, 20),
+    end_time: at(6, 1, 30),
+    media_file_id: 'media-1',
+    bucket_id: 'bucket-1',
+    playback_mode: 'shuffle',
+    live_input_url: null,
+    enabled: true,
+    created_at: at(1, 9),
+    updated_at: at(1, 9),
+  };
+
+  const block = {
+    id: 'block-1',
+    channel_id: 'channel-1',
+    name: 'Evening',
+    day_of_week: null,
+    start_time: '18:00:00',
+    end_time: '23:00:00',
+    bucket_id: 'bucket-2',
+    priority: 10,
+    enabled: true,
+  } as ScheduleBlockRow;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    scheduleRepository = new ScheduleRepository();
+  });
+
+  describe('eventToBlock', () => {
+    it('should outrank recurring blocks and keep the absolute times', () => {
+      const eventBlock = ScheduleRepository.eventToBlock(event);
+
+      expect(eventBlock.priority).toBeGreaterThan(block.priority);
+      expect(eventBlock.name).toBe('Premiere');
+      expect(eventBlock.start_time).toBe('20:00:00');
+      expect(eventBlock.end_time).toBe('01:30:00');
+      expect(eventBlock.event).toEqual({ mediaFileId: 'media-1', startsAt: event.start_time, endsAt: event.end_time });
+    });
+  });
+
+  describe('getActiveEvent', () => {
+    it('should pick the latest started of overlapping events', async () => {
+      query.mockResolvedValueOnce({ rows: [event] });
+
+      await expect(scheduleRepository.getActiveEvent('channel-1', at(5, 21))).resolves.toBe(event);
+      expect(query.mock.calls[0][0]).toContain('ORDER BY start_time DESC');
+      expect(query.mock.calls[0][1]).toEqual(['channel-1', at(5, 21)]);
+    });
+  });
+
+  describe('getActiveBlock', () => {
+    it('should return a running event instead of an overlapping block', async () => {
+      query.mockResolvedValueOnce({ rows: [event] });
+
+      const activeBlock = await scheduleRepository.getActiveBlock('channel-1', at(5, 21));
+
+      expect(activeBlock?.id).toBe('event-1');
+      expect(activeBlock?.event?.mediaFileId).toBe('media-1');
+      expect(query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fall back to the recurring blocks without a running event', async () => {
+      query.mockResolvedValueOnce({ rows: [] }).mockResolvedValueOnce({ rows: [block] });
+
+      await expect(scheduleRepository.getActiveBlock('channel-1', at(5, 19))).resolves.toBe(block);
+    });
+  });
+
+  describe('getNextTransitionTime', () => {
+    it('should stop at an event start before the next block start', async () => {
+      query.mockResolvedValueOnce({ rows: [block] }).mockResolvedValueOnce({ rows: [{ boundary: event.start_time }] });
+
+      await expect(scheduleRepository.getNextTransitionTime('channel-1', at(5, 19))).resolves.toEqual(at(5, 20));
+    });
+
+    it('should stop at the end of a running event', async () => {
+      query.mockResolvedValueOnce({ rows: [block] }).mockResolvedValueOnce({ rows: [{ boundary: event.end_time }] });
+
+      await expect(scheduleRepository.getNextTransitionTime('channel-1', at(5, 21))).resolves.toEqual(at(6, 1, 30));
+    });
+
+    it('should stop at the next block start before an event boundary', async () => {
+      query.mockResolvedValueOnce({ rows: [block] }).mockResolvedValueOnce({ rows: [{ boundary: at(8, 20) }] });
+
+      await expect(scheduleRepository.getNextTransitionTime('channel-1', at(5, 23))).resolves.toEqual(at(6, 18));
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('EventBus');
+
+/**
+ * Internal event bus
+ *
+ * Services publish what happens to channels, libraries and viewers; the WebSocket
+ * server and /api/events stream it to the admin UI so it does not have to poll.
+ * Subscribers pick topics by name, '*' (everything) or prefix ('channel.*').
+ */
+
+export interface EventMap {
+  'channel.state': {
+    channelId: string;
+    previousState: string;
+    state: string;
+    error?: string;
+  };
+  'channel.file': {
+    channelId: string;
+    index: number;
+    mediaFileId?: string;
+    filename?: string;
+  };
+  'channel.schedule': {
+    channelId: string;
+    previousBlockId?: string;
+    blockId: string;
+    blockName: string;
+  };
+  'channel.relay': {
+    channelId: string;
+    status: 'source_lost' | 'source_restored';
+    sourceUrl: string;
+    error?: string;
+  };
+  'channel.live': {
+    channelId: string;
+    status: 'source_lost' | 'fallback' | 'source_restored';
+    sourceUrl: string;
+    blockId?: string;
+  };
+  'library.scan': {
+    libraryId: string;
+    status: 'started' | 'progress' | 'completed' | 'failed';
+    filesProcessed: number;
+    filesTotal?: number;
+    filesAdded?: number;
+    error?: string;
+  };
+  'viewer.join': {
+    channelId: string;
+    sessionId: string;
+    viewers: number;
+  };
+  'viewer.leave': {
+    channelId: string;
+    sessionId: string;
+    viewers: number;
+    bytesServed: number;
+  };
+  'ffmpeg.error': {
+    channelId: string;
+    message: string;
+    errorCode?: number;
+    isBumperError: boolean;
+    isFileError: boolean;
+  };
+}
+
+export type EventTopic = keyof EventMap;
+
+export const EVENT_TOPICS: EventTopic[] = [
+  'channel.state',
+  'channel.file',
+  'channel.schedule',
+  'channel.relay',
+  'channel.live',
+  'library.scan',
+  'viewer.join',
+  'viewer.leave',
+  'ffmpeg.error',
+];
+
+export type BusEvent = {
+  [T in EventTopic]: { topic: T; timestamp: string; data: EventMap[T] };
+}[EventTopic];
+
+export type EventListener = (event: BusEvent) => void;
+
+/**
+ * Whether a subscription pattern covers a topic ('*', 'channel.*' or an exact topic)
+ */
+export function matchesTopic(pattern: string, topic: string): boolean {
+  if (pattern === '*') {
+    return true;
+  }
+  if (pattern.endsWith('.*')) {
+    return topic.startsWith(pattern.slice(0, -1));
+  }
+  return pattern === topic;
+}
+
+/**
+ * Whether a pattern can match any topic (to reject typos in subscriptions)
+ */
+export function isValidTopicPattern(pattern: string): boolean {
+  return EVENT_TOPICS.some((topic) => matchesTopic(pattern, topic));
+}
+
+export class EventBus {
+  private subscriptions: Set<{ patterns: string[]; listener: EventListener }> = new Set();
+
+  /**
+   * Publish an event to the subscribers of its topic
+   * (listener errors are logged, never thrown back to the publisher)
+   */
+  public emit<T extends EventTopic>(topic: T, data: EventMap[T]): void {
+    const event = { topic, timestamp: new Date().toISOString(), data } as BusEvent;
+    for (const subscription of this.subscriptions) {
+      if (!subscription.patterns.some((pattern) => matchesTopic(pattern, topic))) {
+        continue;
+      }
+      try {
+        subscription.listener(event);
+      } catch (error) {
+        logger.warn({ error, topic }, 'Event listener failed');
+      }
+    }
+  }
+
+  /**
+   * Listen to topics matching any of the patterns; returns the unsubscribe function
+   */
+  public subscribe(patterns: string[], listener: EventListener): () => void {
+    const subscription = { patterns, listener };
+    this.subscriptions.add(subscription);
+    return () => {
+      this.subscriptions.delete(subscription);
+    };
+  }
+
+  public getSubscriberCount(): number {
+    return this.subscriptions.size;
+  }
+}
+
+export const eventBus = new EventBus();
@@ -0,0 +1,70 @@
+import { EventBus, isValidTopicPattern, matchesTopic } from '../EventBus';
+
+jest.mock('../../../utils/logger', () => ({
+  createLogger: jest.fn().mockReturnValue({
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }),
+}));
+
+describe('matchesTopic', () => {
+  it('should match exact topics, prefixes and the wildcard', () => {
+    expect(matchesTopic('channel.state', 'channel.state')).toBe(true);
+    expect(matchesTopic('channel.state', 'channel.file')).toBe(false);
+    expect(matchesTopic('channel.*', 'channel.file')).toBe(true);
+    expect(matchesTopic('channel.*', 'viewer.join')).toBe(false);
+    expect(matchesTopic('*', 'ffmpeg.error')).toBe(true);
+  });
+
+  it('should reject patterns that match no topic', () => {
+    expect(isValidTopicPattern('viewer.*')).toBe(true);
+    expect(isValidTopicPattern('library.scan')).toBe(true);
+    expect(isValidTopicPattern('channel.states')).toBe(false);
+    expect(isValidTopicPattern('channels.*')).toBe(false);
+  });
+});
+
+describe('EventBus', () => {
+  const scanEvent = { libraryId: 'library-1', status: 'started' as const, filesProcessed: 0 };
+
+  it('should deliver events to subscribers of matching topics', () => {
+    const bus = new EventBus();
+    const channelListener = jest.fn();
+    const libraryListener = jest.fn();
+    bus.subscribe(['channel.*'], channelListener);
+    bus.subscribe(['library.scan'], libraryListener);
+
+    bus.emit('library.scan', scanEvent);
+
+    expect(channelListener).not.toHaveBeenCalled();
+    expect(libraryListener).toHaveBeenCalledWith(
+      expect.objectContaining({ topic: 'library.scan', data: scanEvent })
+    );
+  });
+
+  it('should stop delivering after unsubscribe', () => {
+    const bus = new EventBus();
+    const listener = jest.fn();
+    const unsubscribe = bus.subscribe(['*'], listener);
+
+    unsubscribe();
+    bus.emit('library.scan', scanEvent);
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(bus.getSubscriberCount()).toBe(0);
+  });
+
+  it('should keep delivering when a listener throws', () => {
+    const bus = new EventBus();
+    const listener = jest.fn();
+    bus.subscribe(['*'], () => {
+      throw new Error('listener failed');
+    });
+    bus.subscribe(['*'], listener);
+
+    expect(() => bus.emit('library.scan', scanEvent)).not.toThrow();
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
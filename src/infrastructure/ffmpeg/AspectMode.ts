@@ -0,0 +1,119 @@
+import { AspectMode } from '../../domain/channel/Channel';
+import { CropRect, MediaFileMetadata } from '../../domain/media/MediaFile';
+
+/**
+ * Aspect-ratio and black-bar cropping helpers
+ *
+ * The aspect filter fits any source into the channel frame according to the channel's aspect
+ * mode. With auto-crop, black bars found by the library scan are cropped first. Crop sizes
+ * differ per file while a concat stream runs one filter graph, so the crop filter is driven by
+ * sendcmd: each file's play interval sets its own crop, bumpers play uncropped.
+ */
+
+/** Filter instance the sendcmd timeline targets */
+const AUTO_CROP_FILTER = 'crop@autocrop';
+
+/** Detections keeping less of the frame than this are ignored (dark scenes, not bars) */
+const MIN_CROP_AREA = 0.5;
+
+/** Blurred background is rendered at this fraction of the frame (blur hides the upscale) */
+const BLUR_SCALE_DIVISOR = 4;
+
+export interface AutoCropTimelineEntry {
+  duration: number; // seconds of the file that plays (after any seek)
+  bumperDuration: number; // seconds of bumper after the file (played uncropped)
+  crop?: CropRect;
+}
+
+/**
+ * Parse the crop cropdetect settles on (run with reset=0, the last line covers every frame seen)
+ * @returns undefined if cropdetect printed nothing (e.g. no video decoded)
+ */
+export function parseCropdetectOutput(stderr: string): CropRect | undefined {
+  const matches = [...stderr.matchAll(/crop=(\d+):(\d+):(\d+):(\d+)/g)];
+  const last = matches[matches.length - 1];
+  if (!last) {
+    return undefined;
+  }
+  const [width, height, x, y] = last.slice(1).map(Number);
+  return width > 0 && height > 0 ? { width, height, x, y } : undefined;
+}
+
+/**
+ * Get the crop that removes a file's black bars, if it has any worth cropping
+ */
+export function getBlackBarCrop(metadata: MediaFileMetadata): CropRect | undefined {
+  const crop = metadata.crop;
+  if (!crop || !metadata.resolution) {
+    return undefined;
+  }
+  const [width, height] = metadata.resolution.split('x').map(Number);
+  if (crop.width >= width && crop.height >= height) {
+    return undefined;
+  }
+  return crop.width * crop.height >= width * height * MIN_CROP_AREA ? crop : undefined;
+}
+
+/**
+ * Fixed crop filter for a single file (pre-transcoding)
+ */
+export function getCropFilter(crop: CropRect): string {
+  return `crop=${crop.width}:${crop.height}:${crop.x}:${crop.y}`;
+}
+
+/**
+ * Crop filter following a concat stream's files (first entry starts at t=0)
+ * @returns undefined if no file in the timeline has black bars
+ */
+export function getAutoCropFilter(timeline: AutoCropTimelineEntry[]): string | undefined {
+  if (!timeline.some((entry) => entry.crop)) {
+    return undefined;
+  }
+
+  const setCrop = (crop?: CropRect) =>
+    crop
+      ? `${AUTO_CROP_FILTER} w ${crop.width}, ${AUTO_CROP_FILTER} h ${crop.height}, ` +
+        `${AUTO_CROP_FILTER} x ${crop.x}, ${AUTO_CROP_FILTER} y ${crop.y}`
+      : `${AUTO_CROP_FILTER} w iw, ${AUTO_CROP_FILTER} h ih, ${AUTO_CROP_FILTER} x 0, ${AUTO_CROP_FILTER} y 0`;
+
+  // Closed intervals fire again when FFmpeg rebuilds the graph on a resolution change
+  const commands: string[] = [];
+  let start = 0;
+  timeline.forEach((entry, i) => {
+    const fileEnd = start + entry.duration;
+    const isLast = i === timeline.length - 1;
+    commands.push(`${start.toFixed(3)}${isLast ? '' : `-${fileEnd.toFixed(3)}`} ${setCrop(entry.crop)}`);
+    if (!isLast && entry.bumperDuration > 0) {
+      commands.push(`${fileEnd.toFixed(3)}-${(fileEnd + entry.bumperDuration).toFixed(3)} ${setCrop()}`);
+    }
+    start = fileEnd + entry.bumperDuration;
+  });
+
+  return `sendcmd=c='${commands.join('; ')}',${AUTO_CROP_FILTER}=w=iw:h=ih:x=0:y=0`;
+}
+
+/**
+ * Filter that fits the source into width x height according to the aspect mode
+ */
+export function getAspectFilter(width: number, height: number, mode: AspectMode = 'letterbox'): string {
+  switch (mode) {
+    case 'crop':
+      return `scale=${width}:${height}:flags=lanczos:force_original_aspect_ratio=increase,crop=${width}:${height}`;
+    case 'stretch':
+      return `scale=${width}:${height}:flags=lanczos,setsar=1`;
+    case 'blur': {
+      // Even dimensions for yuv420p
+      const bgWidth = Math.round(width / BLUR_SCALE_DIVISOR / 2) * 2;
+      const bgHeight = Math.round(height / BLUR_SCALE_DIVISOR / 2) * 2;
+      return (
+        'split=2[ar_bg][ar_fg];' +
+        `[ar_bg]scale=${bgWidth}:${bgHeight}:force_original_aspect_ratio=increase,crop=${bgWidth}:${bgHeight},` +
+        `boxblur=10:2,scale=${width}:${height}[ar_blur];` +
+        `[ar_fg]scale=${width}:${height}:flags=lanczos:force_original_aspect_ratio=decrease[ar_main];` +
+        '[ar_blur][ar_main]overlay=(W-w)/2:(H-h)/2'
+      );
+    }
+    default:
+      return `scale=${width}:${height}:flags=lanczos:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:black`;
+  }
+}
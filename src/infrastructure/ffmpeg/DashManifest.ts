@@ -0,0 +1,165 @@
+import { ChannelConfig } from '../../domain/channel/Channel';
+import { EncoderProfile } from '../../domain/encoder/EncoderProfile';
+import {
+  PEAK_BITRATE_FACTOR,
+  getAudioCodecString,
+  getVideoCodecString,
+  hasRenditionLadder,
+} from './RenditionLadder';
+
+/**
+ * MPEG-DASH manifest for the HLS fMP4 output
+ *
+ * FFmpegEngine numbers segments by wall-clock time since the channel's schedule started
+ * (see getLiveSegmentNumber), so segment N always covers
+ * [availabilityStartTime + N * segmentDuration, +segmentDuration). That lets a
+ * SegmentTemplate with $Number$ address the same init.mp4 / stream_NNN.m4s files the
+ * HLS playlists list - one encode serves both protocols.
+ */
+
+/** Segments FFmpeg keeps in its playlist (matches -hls_list_size) */
+const DASH_WINDOW_SEGMENTS = 30;
+/** LL-HLS channels keep fewer parent segments in the playlist */
+const DASH_LOW_LATENCY_WINDOW_SEGMENTS = 10;
+
+export interface DashManifestOptions {
+  availabilityStartTime: Date;
+  lowLatency?: boolean;
+  encoderProfile?: EncoderProfile;
+  now?: Date;
+}
+
+interface DashRepresentation {
+  id: string;
+  bandwidth: number;
+  codecs: string;
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Get the segment number covering a point in time
+ * @param availabilityStartTime - Channel's schedule_start_time
+ * @param segmentDuration - Segment duration in seconds
+ */
+export function getLiveSegmentNumber(
+  availabilityStartTime: Date,
+  segmentDuration: number,
+  now: Date = new Date()
+): number {
+  const elapsedSeconds = (now.getTime() - availabilityStartTime.getTime()) / 1000;
+  return Math.max(0, Math.floor(elapsedSeconds / segmentDuration));
+}
+
+/**
+ * Format seconds as an ISO 8601 duration (PT6S, PT1.5S)
+ */
+export function toIsoDuration(seconds: number): string {
+  return `PT${Number(seconds.toFixed(3))}S`;
+}
+
+function getRepresentations(channelConfig: ChannelConfig, encoderProfile?: EncoderProfile): DashRepresentation[] {
+  const audioCodec = getAudioCodecString(encoderProfile);
+  const toRepresentation = (
+    id: string,
+    resolution: string,
+    videoBitrate: number,
+    audioBitrate: number
+  ): DashRepresentation => {
+    const [width, height] = resolution.split('x').map(Number);
+    return {
+      id,
+      bandwidth: videoBitrate * PEAK_BITRATE_FACTOR + audioBitrate,
+      codecs: `${getVideoCodecString(resolution, channelConfig.fps, encoderProfile)},${audioCodec}`,
+      width,
+      height,
+    };
+  };
+
+  if (!hasRenditionLadder(channelConfig.renditions)) {
+    return [
+      toRepresentation(
+        'stream',
+        channelConfig.resolution,
+        channelConfig.videoBitrate,
+        channelConfig.audioBitrate
+      ),
+    ];
+  }
+
+  return channelConfig.renditions.map((rendition) => {
+    if (!rendition.resolution || !rendition.videoBitrate) {
+      return { id: rendition.name, bandwidth: rendition.audioBitrate, codecs: audioCodec };
+    }
+    return toRepresentation(rendition.name, rendition.resolution, rendition.videoBitrate, rendition.audioBitrate);
+  });
+}
+
+function buildAdaptationSet(
+  id: number,
+  mimeType: string,
+  representations: DashRepresentation[],
+  template: string,
+  fps?: number
+): string[] {
+  const attributes = [`id="${id}"`, `mimeType="${mimeType}"`, 'segmentAlignment="true"', 'startWithSAP="1"'];
+  if (fps) {
+    attributes.push(`frameRate="${fps}"`);
+  }
+  return [
+    `    <AdaptationSet ${attributes.join(' ')}>`,
+    template,
+    ...representations.map((r) => {
+      const size = r.width && r.height ? ` width="${r.width}" height="${r.height}"` : '';
+      return `      <Representation id="${r.id}" bandwidth="${r.bandwidth}" codecs="${r.codecs}"${size}/>`;
+    }),
+    '    </AdaptationSet>',
+  ];
+}
+
+/**
+ * Render a live (dynamic) MPD for a channel
+ * Ladder renditions are addressed through $RepresentationID$ (their output subdirectory);
+ * audio-only renditions get their own audio AdaptationSet
+ */
+export function buildDashManifest(channelConfig: ChannelConfig, options: DashManifestOptions): string {
+  const { segmentDuration } = channelConfig;
+  const now = options.now || new Date();
+  const ladder = hasRenditionLadder(channelConfig.renditions);
+  const windowSegments = options.lowLatency ? DASH_LOW_LATENCY_WINDOW_SEGMENTS : DASH_WINDOW_SEGMENTS;
+
+  // LL-HLS channels write parts; DASH uses the assembled parent segments
+  const media = options.lowLatency ? 'llseg_$Number$.m4s' : 'stream_$Number%03d$.m4s';
+  const prefix = ladder ? '$RepresentationID$/' : '';
+  const template =
+    `      <SegmentTemplate timescale="1000" duration="${Math.round(segmentDuration * 1000)}" ` +
+    `startNumber="0" initialization="${prefix}init.mp4" media="${prefix}${media}"/>`;
+
+  const representations = getRepresentations(channelConfig, options.encoderProfile);
+  const video = representations.filter((r) => r.width).sort((a, b) => b.bandwidth - a.bandwidth);
+  const audio = representations.filter((r) => !r.width);
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<MPD xmlns="urn:mpeg:dash:schema:mpd:2011" profiles="urn:mpeg:dash:profile:isoff-live:2011" type="dynamic"' +
+      ` availabilityStartTime="${options.availabilityStartTime.toISOString()}"` +
+      ` publishTime="${now.toISOString()}"` +
+      ` minimumUpdatePeriod="${toIsoDuration(segmentDuration)}"` +
+      ` minBufferTime="${toIsoDuration(segmentDuration * 2)}"` +
+      ` timeShiftBufferDepth="${toIsoDuration(segmentDuration * windowSegments)}"` +
+      ` suggestedPresentationDelay="${toIsoDuration(segmentDuration * 3)}"` +
+      ` maxSegmentDuration="${toIsoDuration(segmentDuration)}">`,
+    '  <Period id="0" start="PT0S">',
+    ...buildAdaptationSet(0, 'video/mp4', video, template, channelConfig.fps),
+  ];
+  if (audio.length > 0) {
+    lines.push(...buildAdaptationSet(1, 'audio/mp4', audio, template));
+  }
+  lines.push(
+    '  </Period>',
+    `  <UTCTiming schemeIdUri="urn:mpeg:dash:utc:direct:2014" value="${now.toISOString()}"/>`,
+    '</MPD>'
+  );
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,170 @@
+import {
+  AUDIO_SAMPLE_RATES,
+  AudioCodec,
+  EncoderProfileInput,
+  EncoderSettings,
+  VideoCodec,
+} from '../../domain/encoder/EncoderProfile';
+import { VALID_FFMPEG_PRESETS } from '../../services/settings/SettingsService';
+import { ValidationError } from '../../utils/errors';
+import { PEAK_BITRATE_FACTOR } from './RenditionLadder';
+
+/**
+ * Encoder profile helpers
+ *
+ * Translates a stored EncoderProfile into FFmpeg options. FFmpegEngine uses the same
+ * helpers for the main stream and streamBumper so bumpers match the channel's encode,
+ * and EncoderProfileService validates profiles with validateEncoderProfile before saving.
+ */
+
+/** -tune values each encoder accepts (SVT-AV1 has no named tunes) */
+const ENCODER_TUNES: Record<VideoCodec, string[]> = {
+  libx264: ['film', 'animation', 'grain', 'stillimage', 'fastdecode', 'zerolatency'],
+  libx265: ['animation', 'grain', 'fastdecode', 'zerolatency'],
+  libsvtav1: [],
+};
+
+/** -profile:v values - output is always 8-bit yuv420p, so no 10-bit profiles */
+const ENCODER_PROFILES: Record<VideoCodec, string[]> = {
+  libx264: ['baseline', 'main', 'high'],
+  libx265: ['main'],
+  libsvtav1: ['main'],
+};
+
+/** CRF range per encoder */
+const CRF_RANGES: Record<VideoCodec, [number, number]> = {
+  libx264: [0, 51],
+  libx265: [0, 51],
+  libsvtav1: [0, 63],
+};
+
+/** SVT-AV1 presets are numeric (0 = slowest, 13 = fastest) */
+const SVT_AV1_PRESET_PATTERN = /^([0-9]|1[0-3])$/;
+
+const LEVEL_PATTERN = /^[1-6](\.[0-3])?$/;
+
+/**
+ * Validate codec-specific profile settings (preset, tune, profile, CRF range)
+ * @throws ValidationError listing every invalid setting
+ */
+export function validateEncoderProfile(profile: EncoderProfileInput): void {
+  const problems: string[] = [];
+  const codec = profile.videoCodec;
+
+  const validPreset =
+    codec === 'libsvtav1'
+      ? SVT_AV1_PRESET_PATTERN.test(profile.preset)
+      : (VALID_FFMPEG_PRESETS as readonly string[]).includes(profile.preset);
+  if (!validPreset) {
+    problems.push(`preset '${profile.preset}' is not valid for ${codec}`);
+  }
+  if (profile.tune && !ENCODER_TUNES[codec].includes(profile.tune)) {
+    problems.push(`tune '${profile.tune}' is not valid for ${codec}`);
+  }
+  if (profile.profile && !ENCODER_PROFILES[codec].includes(profile.profile)) {
+    problems.push(`profile '${profile.profile}' is not valid for ${codec}`);
+  }
+  if (profile.level && (codec === 'libsvtav1' || !LEVEL_PATTERN.test(profile.level))) {
+    problems.push(`level '${profile.level}' is not valid for ${codec}`);
+  }
+  if (profile.rateControl === 'crf') {
+    const [min, max] = CRF_RANGES[codec];
+    if (profile.crf === undefined || profile.crf < min || profile.crf > max) {
+      problems.push(`crf must be between ${min} and ${max} for ${codec}`);
+    }
+  }
+  if (!(AUDIO_SAMPLE_RATES as readonly number[]).includes(profile.audioSampleRate)) {
+    problems.push(`audioSampleRate must be one of ${AUDIO_SAMPLE_RATES.join(', ')}`);
+  }
+
+  if (problems.length > 0) {
+    throw new ValidationError('Invalid encoder profile', problems);
+  }
+}
+
+/**
+ * Encoder tuning options (preset, tune, profile, level, CRF)
+ * The codec itself is set with command.videoCodec(profile.videoCodec)
+ */
+export function getVideoCodecOptions(profile: EncoderSettings): string[] {
+  const options = ['-preset', profile.preset];
+  if (profile.tune) {
+    options.push('-tune', profile.tune);
+  }
+  if (profile.profile) {
+    options.push('-profile:v', profile.profile);
+  }
+  if (profile.rateControl === 'crf' && profile.crf !== undefined) {
+    options.push('-crf', profile.crf.toString());
+  }
+  if (profile.videoCodec === 'libx265') {
+    // hvc1 sample entry is required for HEVC in HLS (Apple players reject hev1)
+    options.push('-tag:v', 'hvc1');
+    if (profile.level) {
+      options.push('-x265-params', `level-idc=${profile.level}`);
+    }
+  } else if (profile.level) {
+    options.push('-level:v', profile.level);
+  }
+  return options;
+}
+
+/**
+ * Video bitrate options for one output stream
+ * Without a profile this is the legacy capped VBR (-b:v with 2x maxrate)
+ * @param streamIndex - Output video stream index for ladders (-b:v:N), omitted for single rendition
+ */
+export function getVideoRateOptions(bitrate: number, profile?: EncoderSettings, streamIndex?: number): string[] {
+  const bitrateFlag = streamIndex === undefined ? '-b:v' : `-b:v:${streamIndex}`;
+  const suffix = streamIndex === undefined ? '' : `:v:${streamIndex}`;
+  const peak = Math.floor(bitrate * PEAK_BITRATE_FACTOR).toString();
+
+  if (profile?.rateControl === 'cbr') {
+    return [
+      bitrateFlag, bitrate.toString(),
+      `-minrate${suffix}`, bitrate.toString(),
+      `-maxrate${suffix}`, bitrate.toString(),
+      `-bufsize${suffix}`, bitrate.toString(),
+    ];
+  }
+  if (profile?.rateControl === 'crf') {
+    // Capped CRF: quality target, but never above the advertised peak bandwidth
+    return [`-maxrate${suffix}`, peak, `-bufsize${suffix}`, peak];
+  }
+  return [bitrateFlag, bitrate.toString(), `-maxrate${suffix}`, peak, `-bufsize${suffix}`, peak];
+}
+
+/**
+ * Keyframe options
+ * Keyframes are always forced at segment boundaries; a profile can add shorter GOPs
+ * (longer ones are capped to the segment duration so every segment starts with a keyframe)
+ */
+export function getGopOptions(fps: number, segmentDuration: number, profile?: EncoderSettings): string[] {
+  const gopSeconds = Math.min(profile?.gopSeconds || segmentDuration, segmentDuration);
+  const gopFrames = Math.round(fps * gopSeconds).toString();
+  return [
+    '-force_key_frames', `expr:gte(t,n_forced*${segmentDuration})`,
+    '-g', gopFrames,
+    '-keyint_min', gopFrames,
+  ];
+}
+
+/**
+ * Get the FFmpeg audio encoder for a profile (AAC without a profile)
+ */
+export function getAudioCodec(profile?: EncoderSettings): AudioCodec {
+  return profile?.audioCodec || 'aac';
+}
+
+/**
+ * Audio sample rate and codec-specific options (AAC-LC at 44.1kHz without a profile)
+ * 44.1kHz is more universally compatible with Wine/MediaFoundation than 48kHz
+ */
+export function getAudioEncoderOptions(profile?: EncoderSettings): string[] {
+  const options = ['-ar', (profile?.audioSampleRate || 44100).toString()];
+  if (getAudioCodec(profile) === 'aac') {
+    // Force AAC-LC (Wine/MediaFoundation compatibility); twoloop is more compatible than 'fast'
+    options.push('-profile:a', 'aac_low', '-aac_coder', 'twoloop');
+  }
+  return options;
+}
@@ -6,6 +6,34 @@ import { config } from '../../config/env';
 import { createLogger } from '../../utils/logger';
 import { FFmpegError } from '../../utils/errors';
 import { SettingsService } from '../../services/settings/SettingsService';
+import { AspectMode, RenditionConfig } from '../../domain/channel/Channel';
+import {
+  getH264Level,
+  getPrimaryPlaylistPath,
+  hasRenditionLadder,
+  isVideoRendition,
+} from './RenditionLadder';
+import { HlsTrack } from './MediaTracks';
+import { getLoudnessFilter, LoudnessOptions } from './Loudness';
+import { AutoCropTimelineEntry, getAspectFilter, getAutoCropFilter } from './AspectMode';
+import { getOverlayFilters, StreamOverlay } from './Overlays';
+import { getLiveInputOptions, getSlateGraph } from './LiveInput';
+import { LowLatencyOptions } from '../../services/playlist/PlaylistService';
+import { EncoderProfile } from '../../domain/encoder/EncoderProfile';
+import {
+  getAudioCodec,
+  getAudioEncoderOptions,
+  getGopOptions,
+  getVideoCodecOptions,
+  getVideoRateOptions,
+} from './EncoderProfiles';
+import { parseFFmpegStats } from './FFmpegStats';
+import { eventBus } from '../events/EventBus';
+import {
+  ffmpegDroppedFrames,
+  ffmpegEncodeSpeed,
+  segmentGenerationSeconds,
+} from '../metrics/StreamingMetrics';
 
 const logger = createLogger('FFmpegEngine');
 
@@ -16,6 +44,8 @@ ffmpeg.setFfprobePath(config.ffmpeg.probePath);
 export interface StreamConfig {
   inputFile?: string; // Single file path (legacy, for backwards compatibility)
   concatFile?: string; // Concat file path (new approach)
+  liveInput?: string; // External live source URL (HLS/RTMP/SRT/UDP), read in realtime and re-encoded
+  slate?: string; // Text of a generated slate played instead of an input (while a live source is down)
   outputDir: string;
   videoBitrate: number;
   audioBitrate: number;
@@ -25,6 +55,17 @@ export interface StreamConfig {
   startPosition?: number; // seconds (for resuming mid-file)
   watermarkImageBase64?: string; // Watermark image as base64 encoded PNG
   watermarkPosition?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center'; // Watermark position
+  renditions?: RenditionConfig[]; // Adaptive bitrate ladder (each rendition written to {outputDir}/{name}/)
+  audioTracks?: HlsTrack[]; // Input audio tracks: first is muxed with video, others become alternate renditions
+  subtitleTracks?: HlsTrack[]; // Input text subtitle tracks, written as WebVTT renditions
+  lowLatency?: LowLatencyOptions; // LL-HLS: FFmpeg writes parts, PlaylistService groups them into segments
+  startNumber?: number; // First segment (or part) number - aligns numbering with the DASH timeline
+  encoderProfile?: EncoderProfile; // Codec/preset/rate control (legacy libx264 + global preset when unset)
+  passthrough?: 'copy' | 'transcode'; // Passthrough channel run: stream-copy one conforming file, or transcode the rest
+  loudness?: LoudnessOptions; // Loudness normalization of the primary audio track
+  aspectMode?: AspectMode; // How sources with a different aspect ratio fill the frame (default: letterbox)
+  autoCrop?: AutoCropTimelineEntry[]; // Per-file black-bar crops in concat order
+  overlays?: StreamOverlay[]; // Graphics layers composited over the video (after the watermark), bottom first
 }
 
 export interface StreamHandle {
@@ -32,6 +73,7 @@ export interface StreamHandle {
   process: FfmpegCommand;
   config: StreamConfig;
   startedAt: Date;
+  hasAudio: boolean; // False when a ladder input has no audio (renditions are encoded video-only)
   onFileEnd?: () => void; // Callback when file finishes
   onFirstSegment?: () => void; // Callback when first segment is written (for merge operations)
 }
@@ -104,8 +146,12 @@ export class FFmpegEngine {
       logger.info({ channelId, concatFile: streamConfig.concatFile }, 'Starting FFmpeg stream with concat file');
     } else if (streamConfig.inputFile) {
       logger.info({ channelId, file: streamConfig.inputFile }, 'Starting FFmpeg stream for single file (legacy mode)');
+    } else if (streamConfig.liveInput) {
+      logger.info({ channelId, liveInput: streamConfig.liveInput }, 'Starting FFmpeg stream from live source');
+    } else if (streamConfig.slate) {
+      logger.info({ channelId }, 'Starting FFmpeg slate stream');
     } else {
-      throw new FFmpegError('Either inputFile or concatFile must be provided');
+      throw new FFmpegError('Either inputFile, concatFile, liveInput or slate must be provided');
     }
 
     try {
@@ -127,7 +173,8 @@ export class FFmpegEngine {
       }
       
       // Check if playlist exists (determines if this is a transition or initial start)
-      const playlistPath = path.join(streamConfig.outputDir, 'stream.m3u8');
+      // With a rendition ladder, the primary (first video) rendition's playlist is tracked
+      const playlistPath = getPrimaryPlaylistPath(streamConfig.outputDir, streamConfig.renditions);
       let isTransition = false;
 
       try {
@@ -195,8 +242,11 @@ export class FFmpegEngine {
       await new Promise(resolve => setTimeout(resolve, 200));
     }
 
+    // var_stream_map fails on audio streams that don't exist, so ladders check the input first
+    const hasAudio = hasRenditionLadder(streamConfig.renditions) ? await this.probeAudio(streamConfig) : true;
+
     // Create FFmpeg command
-    const command = await this.createCommand(streamConfig);
+    const command = await this.createCommand(streamConfig, hasAudio);
 
       // Create stream handle
       const handle: StreamHandle = {
@@ -204,6 +254,7 @@ export class FFmpegEngine {
         process: command,
         config: streamConfig,
         startedAt: new Date(),
+        hasAudio,
         onFileEnd,
       };
 
@@ -220,7 +271,7 @@ export class FFmpegEngine {
       // Use 35 seconds for transitions to allow 2 segments to generate (15s each + processing)
       // For initial starts, wait 45 seconds to ensure segments are generated
       // Note: We don't throw on timeout - just log a warning and let the stream continue
-      const streamStarted = await this.waitForStreamStart(streamConfig.outputDir, isTransition ? 35000 : 45000, isTransition, channelId);
+      const streamStarted = await this.waitForStreamStart(playlistPath, isTransition ? 35000 : 45000, isTransition, channelId);
 
       if (streamStarted) {
         logger.info({ channelId, isTransition }, 'FFmpeg stream started successfully');
@@ -265,6 +316,9 @@ export class FFmpegEngine {
 
       handle.process.once('end', onEnd);
 
+      // Stopping is not a file end - don't let the end/error handlers start the next file
+      handle.onFileEnd = undefined;
+
       // Send quit signal (graceful)
       // If process already ended, this is a no-op
       try {
@@ -340,13 +394,12 @@ export class FFmpegEngine {
       ]);
 
       // Re-encode to reset timestamps (not stream copy!)
-      command.videoCodec('libx264');
-      command.audioCodec('aac');
+      // Bumpers use the channel's encoder profile so they match the main stream exactly
+      const encoderProfile = streamConfig.encoderProfile;
+      command.videoCodec(encoderProfile?.videoCodec || 'libx264');
+      command.audioCodec(getAudioCodec(encoderProfile));
       // Map streams - audio is optional (use ? to handle files without audio)
       command.outputOptions(['-map', '0:v:0', '-map', '0:a?', '-sn']);
-
-      // Wine/VRChat compatibility: Force AAC-LC profile for maximum compatibility
-      command.outputOptions(['-profile:a', 'aac_low']);
       // Don't use command.fps() - let -fps_mode cfr handle frame rate
 
       // Parse resolution
@@ -357,7 +410,8 @@ export class FFmpegEngine {
       const darHeight = height / divisor;
 
       command.outputOptions([
-        '-preset', 'ultrafast', // Fast encoding for bumpers
+        // Fast encoding for bumpers unless the channel has an encoder profile
+        ...(encoderProfile ? getVideoCodecOptions(encoderProfile) : ['-preset', 'ultrafast']),
         '-pix_fmt', 'yuv420p',
         '-vf', `scale=${width}:${height}:flags=lanczos:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:black,format=yuv420p,setdar=${darWidth}/${darHeight}`,
         '-f', 'hls',
@@ -381,22 +435,17 @@ export class FFmpegEngine {
         // Wine/VRChat compatibility: AAC-LC profile with conservative settings
         '-b:a', streamConfig.audioBitrate.toString(),
         '-ac', '2',
-        '-ar', '44100', // 44.1kHz is more universally compatible with Wine/MediaFoundation than 48kHz
+        // Sample rate + AAC-LC settings (Wine/MediaFoundation compatibility) or the profile's codec
+        ...getAudioEncoderOptions(encoderProfile),
         '-channel_layout', 'stereo', // Explicit channel layout for Wine/MediaFoundation compatibility
-        '-profile:a', 'aac_low', // Force AAC-LC for Wine/MediaFoundation compatibility
-        '-aac_coder', 'twoloop', // Better quality and compatibility than default 'fast'
         '-max_delay', '0', // Minimize audio buffering delay
         '-af', 'aresample=async=1', // Audio resampling with async=1 for smooth playback
         // Note: If input has no audio, -b:a will be ignored (that's OK)
         // Video - CRITICAL: Match main stream exactly!
-        '-b:v', streamConfig.videoBitrate.toString(),
-        '-maxrate', Math.floor(streamConfig.videoBitrate * 2).toString(),
-        '-bufsize', Math.floor(streamConfig.videoBitrate * 2).toString(),
+        ...getVideoRateOptions(streamConfig.videoBitrate, encoderProfile),
         // Keyframes - CRITICAL: Must align with segment boundaries!
         // GOP = fps * segmentDuration ensures keyframes ONLY at segment boundaries
-        '-force_key_frames', `expr:gte(t,n_forced*${streamConfig.segmentDuration})`,
-        '-g', (streamConfig.fps * streamConfig.segmentDuration).toString(),
-        '-keyint_min', (streamConfig.fps * streamConfig.segmentDuration).toString(),
+        ...getGopOptions(streamConfig.fps, streamConfig.segmentDuration, encoderProfile),
         '-fps_mode', 'cfr',
         // Explicitly set output frame rate (required when using -fps_mode cfr)
         '-r', streamConfig.fps.toString(),
@@ -413,7 +462,7 @@ export class FFmpegEngine {
         // Wait for bumper stream to start
         // For 15-second bumpers (1 segment), use shorter timeout and don't fail if timeout
         try {
-          await this.waitForStreamStart(streamConfig.outputDir, 3000, true, channelId);
+          await this.waitForStreamStart(playlistPath, 3000, true, channelId);
           logger.info({ channelId }, 'Bumper stream started');
         } catch (error) {
           // For very short bumpers (15 seconds = 1 segment), timeout is expected
@@ -436,6 +485,58 @@ export class FFmpegEngine {
     });
   }
 
+  /**
+   * Check whether a live source is reachable and carries a video stream
+   * ffprobe gives up after LIVE_INPUT_TIMEOUT without data
+   */
+  public async probeInput(url: string): Promise<boolean> {
+    const timeoutSeconds = config.liveInput.timeout;
+    const probe = new Promise<boolean>((resolve) => {
+      ffmpeg.ffprobe(url, ['-rw_timeout', String(Math.round(timeoutSeconds * 1000000))], (err, data) => {
+        if (err) {
+          logger.debug({ url, error: err.message }, 'Live source probe failed');
+          resolve(false);
+          return;
+        }
+        resolve(data.streams.some((stream) => stream.codec_type === 'video'));
+      });
+    });
+    // Protocols that ignore rw_timeout while connecting must not block the caller
+    const timeout = new Promise<boolean>((resolve) => setTimeout(() => resolve(false), (timeoutSeconds + 5) * 1000).unref());
+    return Promise.race([probe, timeout]);
+  }
+
+  /**
+   * Check whether the input a stream starts on carries audio
+   * Known audio tracks and slates (silent audio track) skip the probe; probe failures assume audio
+   */
+  private async probeAudio(streamConfig: StreamConfig): Promise<boolean> {
+    if (streamConfig.audioTracks?.length || streamConfig.slate) {
+      return true;
+    }
+    const input = streamConfig.concatFile || streamConfig.inputFile || streamConfig.liveInput;
+    if (!input) {
+      return true;
+    }
+    const options = streamConfig.concatFile ? ['-f', 'concat', '-safe', '0'] : [];
+    const timeoutSeconds = config.liveInput.timeout;
+    if (streamConfig.liveInput) {
+      options.push('-rw_timeout', String(Math.round(timeoutSeconds * 1000000)));
+    }
+    const probe = new Promise<boolean>((resolve) => {
+      ffmpeg.ffprobe(input, options, (err, data) => {
+        if (err) {
+          logger.debug({ input, error: err.message }, 'Audio probe failed');
+          resolve(true);
+          return;
+        }
+        resolve(data.streams.some((stream) => stream.codec_type === 'audio'));
+      });
+    });
+    const timeout = new Promise<boolean>((resolve) => setTimeout(() => resolve(true), (timeoutSeconds + 5) * 1000).unref());
+    return Promise.race([probe, timeout]);
+  }
+
   /**
    * Check if stream is active
    */
@@ -500,12 +601,104 @@ export class FFmpegEngine {
     }
   }
 
+  /**
+   * Configure filter graph, stream mapping and var_stream_map for a rendition ladder
+   * Every rendition is encoded from the same decoded input (split once, scaled per rendition)
+   * so keyframes stay aligned across variants and players can switch at any segment boundary.
+   * Without input audio, only the video renditions are encoded (no audio maps or audio-only renditions).
+   * @returns Per-rendition bitrate options (-b:v:N, -maxrate:v:N, -bufsize:v:N, -b:a:N)
+   */
+  private async applyRenditionLadder(
+    command: FfmpegCommand,
+    streamConfig: StreamConfig,
+    ladder: RenditionConfig[],
+    sourceFilters: string[],
+    hasAudio: boolean
+  ): Promise<string[]> {
+    const renditions = hasAudio ? ladder : ladder.filter(isVideoRendition);
+    const videoRenditions = renditions.filter(isVideoRendition);
+
+    // FFmpeg creates %v directories itself on most versions, but create them up front to be safe
+    await Promise.all(
+      renditions.map((rendition) => fs.mkdir(path.join(streamConfig.outputDir, rendition.name), { recursive: true }))
+    );
+
+    // Normalize the source once at channel resolution (plus watermark/overlays), then split per rendition
+    const filters = [...sourceFilters];
+    filters.push(`[src]split=${videoRenditions.length}${videoRenditions.map((_, i) => `[s${i}]`).join('')}`);
+
+    const gcd = (a: number, b: number): number => b === 0 ? a : gcd(b, a % b);
+    videoRenditions.forEach((rendition, i) => {
+      const [width, height] = (rendition.resolution as string).split('x').map(Number);
+      const divisor = gcd(width, height);
+      filters.push(
+        `[s${i}]scale=${width}:${height}:flags=lanczos:force_original_aspect_ratio=decrease,` +
+          `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:black,setdar=${width / divisor}/${height / divisor}[v${i}]`
+      );
+    });
+
+    const mapOptions: string[] = [];
+    const bitrateOptions: string[] = [];
+    const streamMap: string[] = [];
+
+    // Output stream order: all video renditions first (v:0..v:N), then one audio stream per rendition
+    const encoderProfile = streamConfig.encoderProfile;
+    const isH264 = !encoderProfile || encoderProfile.videoCodec === 'libx264';
+    videoRenditions.forEach((rendition, i) => {
+      const videoBitrate = rendition.videoBitrate as number;
+      mapOptions.push('-map', `[v${i}]`);
+      bitrateOptions.push(...getVideoRateOptions(videoBitrate, encoderProfile, i));
+      if (isH264 && !encoderProfile?.level) {
+        // Explicit level so the CODECS attribute in the master playlist is accurate
+        bitrateOptions.push(`-level:v:${i}`, (getH264Level(rendition.resolution as string, streamConfig.fps) / 10).toFixed(1));
+      }
+    });
+
+    // Primary audio track only - each rendition needs its own encoded copy for var_stream_map
+    // NOTE: var_stream_map requires audio to exist when the ladder references it
+    const primaryAudioIndex = streamConfig.audioTracks?.[0]?.streamIndex ?? 0;
+    let videoIndex = 0;
+    renditions.forEach((rendition, audioIndex) => {
+      if (!hasAudio) {
+        streamMap.push(`v:${videoIndex++},name:${rendition.name}`);
+        return;
+      }
+      mapOptions.push('-map', `0:a:${primaryAudioIndex}?`);
+      bitrateOptions.push(`-b:a:${audioIndex}`, rendition.audioBitrate.toString());
+      if (isVideoRendition(rendition)) {
+        streamMap.push(`v:${videoIndex++},a:${audioIndex},name:${rendition.name}`);
+      } else {
+        streamMap.push(`a:${audioIndex},name:${rendition.name}`);
+      }
+    });
+
+    command.outputOptions([
+      // Force 8-bit pixel format for hardware encoder compatibility
+      '-pix_fmt', 'yuv420p',
+      '-filter_complex', filters.join(';'),
+      ...mapOptions,
+      '-sn',
+      // High profile on every rendition (matches avc1.6400xx in the master playlist)
+      // unless the encoder profile picks one (see getVideoCodecOptions)
+      ...(isH264 && !encoderProfile?.profile ? ['-profile:v', 'high'] : []),
+      '-var_stream_map', streamMap.join(' '),
+    ]);
+
+    logger.info(
+      { renditions: renditions.map((r) => r.name), varStreamMap: streamMap.join(' ') },
+      'Encoding adaptive bitrate ladder'
+    );
+
+    return bitrateOptions;
+  }
+
   /**
    * Create FFmpeg command for HLS streaming
    * Uses concat demuxer for seamless transitions, or single file input (legacy)
    */
   private async createCommand(
-    streamConfig: StreamConfig
+    streamConfig: StreamConfig,
+    hasAudio: boolean = true
   ): Promise<FfmpegCommand> {
     // Use concat file if provided, otherwise fall back to single file input (legacy)
     let command: FfmpegCommand;
@@ -557,12 +750,13 @@ export class FFmpegEngine {
 
       command.inputOptions(mainInputOptions);
     } else if (streamConfig.inputFile) {
-      // Legacy single file input
+      // Legacy single file input (also used for stream-copied passthrough files)
       command = ffmpeg(streamConfig.inputFile);
       // Prepare input options for single file input
       const mainInputOptions: string[] = [
         // CRITICAL: Timestamp and codec transition handling
-        '-fflags', '+genpts+igndts+flush_packets',
+        // Stream copy keeps the source DTS (B-frames need it), so igndts only applies when encoding
+        '-fflags', streamConfig.passthrough === 'copy' ? '+genpts' : '+genpts+igndts+flush_packets',
         '-avoid_negative_ts', 'make_zero',
         '-analyzeduration', '10000000',
         '-probesize', '10000000',
@@ -583,12 +777,30 @@ export class FFmpegEngine {
       
       mainInputOptions.push('-re');
       command.inputOptions(mainInputOptions);
+    } else if (streamConfig.liveInput) {
+      // Live source - already paced by the sender, so no -re
+      command = ffmpeg(streamConfig.liveInput);
+      const mainInputOptions = getLiveInputOptions(streamConfig.liveInput, config.liveInput.timeout);
+      if (config.ffmpeg.hwAccel !== 'none') {
+        mainInputOptions.push('-hwaccel', config.ffmpeg.hwAccel);
+      }
+      command.inputOptions(mainInputOptions);
+    } else if (streamConfig.slate) {
+      // Generated slate (video and silent audio from one lavfi graph, paced with -re)
+      const [width, height] = streamConfig.resolution.split('x').map((value) => parseInt(value, 10));
+      command = ffmpeg(getSlateGraph(width, height, streamConfig.fps, streamConfig.slate));
+      command.inputOptions(['-f', 'lavfi', '-re']);
     } else {
-      throw new FFmpegError('Either inputFile or concatFile must be provided');
+      throw new FFmpegError('Either inputFile, concatFile, liveInput or slate must be provided');
+    }
+
+    if (streamConfig.passthrough === 'copy') {
+      return this.createStreamCopyCommand(command, streamConfig);
     }
 
     // Video codec (we'll set bitrate via outputOptions for consistency)
-    command.videoCodec('libx264');
+    const encoderProfile = streamConfig.encoderProfile;
+    command.videoCodec(encoderProfile?.videoCodec || 'libx264');
     // CRITICAL: Don't use command.fps() when using -fps_mode cfr
     // command.fps() sets -r which can conflict with -fps_mode cfr
     // Instead, let -fps_mode cfr handle frame rate conversion
@@ -598,15 +810,24 @@ export class FFmpegEngine {
     // Valid presets: ultrafast, superfast, veryfast, faster, fast, medium, slow, slower, veryslow
     // Trade-off: faster presets = lower quality but faster encoding, slower = better quality but slower
     // Note: Preset is now configured via admin UI or .env, not dynamically changed
-    const preset = await this.getPreset();
-    command.outputOptions(['-preset', preset]);
-    logger.debug(
-      { preset, source: this.settingsService ? 'database' : 'config' },
-      'FFmpeg encoder preset configured'
-    );
+    // Channels with an encoder profile use the profile's preset/tune/profile/level instead
+    if (encoderProfile) {
+      command.outputOptions(getVideoCodecOptions(encoderProfile));
+      logger.debug(
+        { profile: encoderProfile.name, videoCodec: encoderProfile.videoCodec, preset: encoderProfile.preset },
+        'FFmpeg encoder profile configured'
+      );
+    } else {
+      const preset = await this.getPreset();
+      command.outputOptions(['-preset', preset]);
+      logger.debug(
+        { preset, source: this.settingsService ? 'database' : 'config' },
+        'FFmpeg encoder preset configured'
+      );
+    }
 
     // Audio codec (we'll set bitrate and channels via outputOptions to avoid duplicates)
-    command.audioCodec('aac');
+    command.audioCodec(getAudioCodec(encoderProfile));
 
     // Handle watermark if provided (must be done before stream mapping)
     let watermarkPath: string | null = null;
@@ -624,19 +845,48 @@ export class FFmpegEngine {
       }
     }
 
+    // Overlay image layers are looped inputs after the watermark (text layers need no input)
+    const overlays = streamConfig.overlays || [];
+    const firstOverlayInput = hasWatermark ? 2 : 1;
+    for (const streamOverlay of overlays) {
+      if (streamOverlay.imagePath) {
+        command.input(streamOverlay.imagePath);
+        command.inputOptions(['-loop', '1', '-framerate', streamConfig.fps.toString()]);
+      }
+    }
+    const hasOverlays = overlays.length > 0;
+    if (hasOverlays) {
+      logger.info(
+        { layers: overlays.map((o) => ({ id: o.overlay.id, type: o.overlay.type })) },
+        'Overlay layers added to stream'
+      );
+    }
+
     // Explicit stream mapping (map only video and audio, skip subtitles)
     // Use 0:a? to map all audio streams (optional - won't fail if none exist)
     // FFmpeg will automatically skip problematic audio streams and use working ones
     // If a specific stream has decoder errors, FFmpeg will try other audio streams
     // The ? makes it optional so FFmpeg continues even if all audio streams fail
     // Note: When watermark is present, we'll use filter_complex for video, so mapping is handled there
-    if (!hasWatermark) {
-      command.outputOptions(['-map', '0:v:0', '-map', '0:a?', '-sn']);
+    // Note: Rendition ladders also use filter_complex (one scaled output per rendition)
+    const useLadder = hasRenditionLadder(streamConfig.renditions);
+    // With known tracks, only the primary audio track is muxed with video (alternates get their own outputs)
+    const primaryAudioMap = streamConfig.audioTracks?.length
+      ? `0:a:${streamConfig.audioTracks[0].streamIndex}?`
+      : '0:a?';
+    if (!hasWatermark && !hasOverlays && !useLadder) {
+      command.outputOptions(['-map', '0:v:0', '-map', primaryAudioMap, '-sn']);
     }
 
     // HLS options
-    const playlistPath = path.join(streamConfig.outputDir, 'stream.m3u8');
-    const segmentPattern = path.join(streamConfig.outputDir, 'stream_%03d.m4s');
+    // With a ladder, %v is replaced by each rendition's name (var_stream_map name:)
+    // so every rendition gets its own directory: {outputDir}/{name}/stream.m3u8
+    const playlistPath = useLadder
+      ? path.join(streamConfig.outputDir, '%v', 'stream.m3u8')
+      : path.join(streamConfig.outputDir, 'stream.m3u8');
+    const segmentPattern = useLadder
+      ? path.join(streamConfig.outputDir, '%v', 'stream_%03d.m4s')
+      : path.join(streamConfig.outputDir, 'stream_%03d.m4s');
 
         // Segment pattern - always start from 0 for each new file
 
@@ -650,27 +900,58 @@ export class FFmpegEngine {
     const darHeight = height / divisor;
 
     // Build video filter/filter_complex based on whether watermark exists
-    const baseVideoFilter = `scale=${width}:${height}:flags=lanczos:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:black,format=yuv420p,fps=${streamConfig.fps},setdar=${darWidth}/${darHeight}`;
-
-    // Add video filter or filter_complex based on watermark presence
-    if (hasWatermark && watermarkPath && streamConfig.watermarkPosition) {
-      // Use filter_complex for watermark overlay (requires multiple inputs)
-      const overlayPosition = this.calculateWatermarkPosition(streamConfig.watermarkPosition);
-      // Filter complex: process main video, then overlay watermark
-      // [0:v] = main video input, [1:v] = watermark input
-      // Scale watermark maintaining aspect ratio, preserve alpha channel for transparency
-      // overlay=...:eof_action=repeat ensures watermark continues even if input ends
-      // format=yuva420p preserves alpha channel (transparency) from PNG
-      const filterComplex = `[0:v]${baseVideoFilter}[main];[1:v]scale=-1:-1,format=yuva420p[wm];[main][wm]overlay=${overlayPosition}:eof_action=repeat[v]`;
+    // Black bars are cropped before the aspect filter fits the picture into the frame
+    const autoCropFilter = streamConfig.autoCrop ? getAutoCropFilter(streamConfig.autoCrop) : undefined;
+    const baseVideoFilter = `${autoCropFilter ? `${autoCropFilter},` : ''}${getAspectFilter(width, height, streamConfig.aspectMode)},format=yuv420p,fps=${streamConfig.fps},setdar=${darWidth}/${darHeight}`;
+
+    // Base filter, then the watermark and the overlay stack (filter_complex, they need extra inputs)
+    const getSourceFilters = (outputLabel: string): string[] => {
+      if (!hasWatermark && !hasOverlays) {
+        return [`[0:v]${baseVideoFilter}${outputLabel}`];
+      }
+      const filters = [`[0:v]${baseVideoFilter}[main]`];
+      let current = '[main]';
+      if (hasWatermark) {
+        // [1:v] = watermark input
+        // Scale watermark maintaining aspect ratio, preserve alpha channel for transparency
+        // overlay=...:eof_action=repeat ensures watermark continues even if input ends
+        // format=yuva420p preserves alpha channel (transparency) from PNG
+        const overlayPosition = this.calculateWatermarkPosition(streamConfig.watermarkPosition);
+        const watermarkOutput = hasOverlays ? '[wmout]' : outputLabel;
+        filters.push(
+          '[1:v]scale=-1:-1,format=yuva420p[wm]',
+          `[main][wm]overlay=${overlayPosition}:eof_action=repeat${watermarkOutput}`
+        );
+        current = watermarkOutput;
+      }
+      if (hasOverlays) {
+        filters.push(...getOverlayFilters(overlays, firstOverlayInput, current, outputLabel, new Date()));
+      }
+      return filters;
+    };
+
+    // Add video filter or filter_complex based on ladder/watermark/overlay presence
+    let bitrateOptions: string[] = [];
+    if (useLadder && streamConfig.renditions) {
+      bitrateOptions = await this.applyRenditionLadder(
+        command,
+        streamConfig,
+        streamConfig.renditions,
+        getSourceFilters('[src]'),
+        hasAudio
+      );
+    } else if (hasWatermark || hasOverlays) {
+      // Use filter_complex for watermark/overlays (requires multiple inputs)
+      const filterComplex = getSourceFilters('[v]').join(';');
       command
         .outputOptions([
           // Force 8-bit pixel format for hardware encoder compatibility
           '-pix_fmt', 'yuv420p',
-          // Use filter_complex for watermark overlay
+          // Use filter_complex for watermark and overlay layers
           '-filter_complex', filterComplex,
           // Map video from filter_complex output and audio from main input
           '-map', '[v]',
-          '-map', '0:a?',
+          '-map', primaryAudioMap,
           '-sn',
         ]);
     } else {
@@ -690,70 +971,47 @@ export class FFmpegEngine {
         ]);
     }
 
+    if (!useLadder) {
+      bitrateOptions = [
+        // audioBitrate is in bps (e.g., 128000 = 128 kbps)
+        '-b:a', streamConfig.audioBitrate.toString(),
+        // Video bitrate settings (VBR encoding for better quality/efficiency)
+        // videoBitrate is in bps (e.g., 1500000 = 1.5 Mbps)
+        // maxrate caps peak bitrate to prevent spikes (2x average for VBR headroom)
+        // bufsize controls VBR variance (1-2 seconds of max bitrate)
+        // NO minrate = true VBR, saves bitrate on simple scenes (encoder profiles may pick CRF or CBR)
+        ...getVideoRateOptions(streamConfig.videoBitrate, encoderProfile),
+      ];
+    }
+
     command
       .outputOptions([
         
         // HLS Output Settings
-        '-f', 'hls',
-        '-hls_time', streamConfig.segmentDuration.toString(),
-        // Keep 30 segments in playlist (~7.5 minutes at 15s/segment) to prevent premature deletion
-        // CRITICAL: Players (especially Roku) may buffer/lag behind FFmpeg generation
-        // Larger window prevents 410 Gone errors during transitions and normal playback
-        '-hls_list_size', '30',
-        // Calculate delete threshold to keep ~10 minutes of segments total
-        // Total segments for 10 minutes = 600 seconds / segmentDuration
-        // Threshold = total segments - playlist size (keeps unreferenced segments on disk)
-        // This gives players more time to request older segments before they're deleted
-        '-hls_delete_threshold', Math.max(1, Math.ceil((600 / streamConfig.segmentDuration) - 30)).toString(),
-        // HLS flags for continuous streaming:
-        // delete_segments: Auto-clean old segments (sliding window) - safe with 30-segment buffer + threshold
-        // split_by_time: Only cut segments at proper time boundaries (prevents partial segments)
-        // temp_file: Write segments atomically (prevents partial/corrupted segments if process is killed)
-        // NOTE: No append_list needed - concat handles seamless transitions automatically
-        // NOTE: Removed program_date_time and omit_endlist for better Wine/MediaFoundation compatibility
-        '-hls_flags', 'delete_segments+split_by_time+temp_file',
-        // Start from segment 0 (concat creates a fresh stream)
-        '-hls_start_number_source', 'generic',
-        '-hls_segment_filename', segmentPattern,
-        '-hls_segment_type', 'fmp4',
-        '-hls_fmp4_init_filename', 'init.mp4',
-
-        // Live playlist mode for better segment handling
-        '-segment_list_flags', 'live',
-        // No playlist type - let PlaylistService handle this
-        '-hls_allow_cache', '1', // Enable caching for better Wine/MediaFoundation compatibility
-        '-hls_base_url', '', // No base URL
+        ...this.getHlsMuxerOptions(streamConfig, segmentPattern),
         
         // Audio settings (set explicitly here to control format)
-        // audioBitrate is in bps (e.g., 128000 = 128 kbps)
+        // Bitrates are set per rendition in bitrateOptions below
         // Wine/VRChat compatibility: AAC-LC profile with conservative settings
-        '-b:a', streamConfig.audioBitrate.toString(),
         '-ac', '2', // Stereo
-        '-ar', '44100', // 44.1kHz is more universally compatible with Wine/MediaFoundation than 48kHz
+        // Sample rate (44.1kHz default) + AAC-LC twoloop settings, or the encoder profile's audio codec
+        ...getAudioEncoderOptions(encoderProfile),
         '-channel_layout', 'stereo', // Explicit channel layout for Wine/MediaFoundation compatibility
-        '-profile:a', 'aac_low', // Force AAC-LC (Low Complexity) for Wine/MediaFoundation compatibility
-        '-aac_coder', 'twoloop', // Better quality encoder (more compatible than 'fast', less CPU than 'anmr')
         '-max_delay', '0', // Minimize audio buffering delay
-        '-af', 'aresample=async=1', // Audio resampling with async=1 for smooth playback
+        // Audio resampling with async=1 for smooth playback, then loudness normalization if enabled
+        '-af', this.getAudioFilter(streamConfig.loudness),
         
         // Keyframe management - CRITICAL: GOP must match segment duration for Roku
         // GOP = fps * segmentDuration ensures keyframes align with discontinuity tags
-        '-force_key_frames', `expr:gte(t,n_forced*${streamConfig.segmentDuration})`, // Force keyframes at segment boundaries
-        '-g', (streamConfig.fps * streamConfig.segmentDuration).toString(), // GOP size: 15 seconds worth of frames (450 at 30fps)
-        '-keyint_min', (streamConfig.fps * streamConfig.segmentDuration).toString(), // Minimum keyframe interval matches GOP
+        // (encoder profiles may shorten the GOP; keyframes are still forced at segment boundaries)
+        ...getGopOptions(streamConfig.fps, streamConfig.segmentDuration, encoderProfile),
         // Frame rate mode for smooth playback
         '-fps_mode', 'cfr', // Constant frame rate for smooth playback
         // Explicitly set output frame rate (required when using -fps_mode cfr)
         '-r', streamConfig.fps.toString(),
         
-        // Video bitrate settings (VBR encoding for better quality/efficiency)
-        // videoBitrate is in bps (e.g., 1500000 = 1.5 Mbps)
-        '-b:v', streamConfig.videoBitrate.toString(),
-        // maxrate caps peak bitrate to prevent spikes (2x average for VBR headroom)
-        '-maxrate', Math.floor(streamConfig.videoBitrate * 2).toString(),
-        // bufsize controls VBR variance (1-2 seconds of max bitrate)
-        '-bufsize', Math.floor(streamConfig.videoBitrate * 2).toString(),
-        // NO minrate = true VBR, saves bitrate on simple scenes
+        // Audio/video bitrates (single rendition or per-rendition for ladders)
+        ...bitrateOptions,
         
         // Muxing and buffer settings for stability
         '-movflags', '+faststart',
@@ -775,9 +1033,189 @@ export class FFmpegEngine {
       ])
       .output(playlistPath);
 
+    // Alternate audio and subtitle renditions are separate outputs of the same process
+    await this.addAlternateTrackOutputs(command, streamConfig);
+
+    return command;
+  }
+
+  /**
+   * Audio filter chain for encoded outputs
+   */
+  private getAudioFilter(loudness?: LoudnessOptions): string {
+    return loudness ? `aresample=async=1,${getLoudnessFilter(loudness)}` : 'aresample=async=1';
+  }
+
+  /**
+   * HLS muxer options shared by encoding and stream-copy commands
+   */
+  private getHlsMuxerOptions(streamConfig: StreamConfig, segmentPattern: string): string[] {
+    // LL-HLS: FFmpeg cuts partial segments (parts) instead of full segments
+    // Keyframes stay at segment boundaries (see -force_key_frames), which always start a part
+    // because parts evenly divide the segment duration
+    const hlsTime = streamConfig.lowLatency ? streamConfig.lowLatency.partTarget : streamConfig.segmentDuration;
+    const hlsListSize = streamConfig.lowLatency ? streamConfig.lowLatency.partsPerSegment * 10 : 30;
+
+    // Wall-clock segment numbering: segment N starts N * hlsTime after the schedule start,
+    // and timestamps are offset to match so DASH $Number$ templates line up with the media
+    const startNumberOptions = streamConfig.startNumber !== undefined
+      ? ['-start_number', streamConfig.startNumber.toString(), '-output_ts_offset', (streamConfig.startNumber * hlsTime).toString()]
+      : [];
+
+    // Copied media can only be cut at its own keyframes, so split_by_time is encoding-only
+    const hlsFlags = streamConfig.passthrough === 'copy'
+      ? ['delete_segments', 'temp_file']
+      : ['delete_segments', 'split_by_time', 'temp_file'];
+    // Passthrough runs have different codec parameters from the previous process:
+    // mark the first segment as a discontinuity and give the run its own init segment
+    // so players don't decode new segments with a cached init.mp4
+    let initFilename = 'init.mp4';
+    if (streamConfig.passthrough) {
+      hlsFlags.push('discont_start');
+      initFilename = `init_${streamConfig.startNumber ?? Date.now()}.mp4`;
+    }
+
+    return [
+      '-f', 'hls',
+      '-hls_time', hlsTime.toString(),
+      // Keep 30 segments in playlist (~7.5 minutes at 15s/segment) to prevent premature deletion
+      // CRITICAL: Players (especially Roku) may buffer/lag behind FFmpeg generation
+      // Larger window prevents 410 Gone errors during transitions and normal playback
+      // (LL-HLS: 10 segments worth of parts - PlaylistService only advertises the tail)
+      '-hls_list_size', hlsListSize.toString(),
+      // Calculate delete threshold to keep ~10 minutes of segments total
+      // Total segments for 10 minutes = 600 seconds / segmentDuration
+      // Threshold = total segments - playlist size (keeps unreferenced segments on disk)
+      // This gives players more time to request older segments before they're deleted
+      '-hls_delete_threshold', Math.max(1, Math.ceil((600 / hlsTime) - hlsListSize)).toString(),
+      // HLS flags for continuous streaming:
+      // delete_segments: Auto-clean old segments (sliding window) - safe with 30-segment buffer + threshold
+      // split_by_time: Only cut segments at proper time boundaries (prevents partial segments)
+      // temp_file: Write segments atomically (prevents partial/corrupted segments if process is killed)
+      // discont_start: Passthrough run boundary (EXT-X-DISCONTINUITY before the first segment)
+      // NOTE: No append_list needed - concat handles seamless transitions automatically
+      // NOTE: Removed program_date_time and omit_endlist for better Wine/MediaFoundation compatibility
+      '-hls_flags', hlsFlags.join('+'),
+      // Start from segment 0 (concat creates a fresh stream), or from startNumber when given
+      '-hls_start_number_source', 'generic',
+      ...startNumberOptions,
+      '-hls_segment_filename', segmentPattern,
+      '-hls_segment_type', 'fmp4',
+      '-hls_fmp4_init_filename', initFilename,
+
+      // Live playlist mode for better segment handling
+      '-segment_list_flags', 'live',
+      // No playlist type - let PlaylistService handle this
+      '-hls_allow_cache', '1', // Enable caching for better Wine/MediaFoundation compatibility
+      '-hls_base_url', '', // No base URL
+    ];
+  }
+
+  /**
+   * Remux a file that already matches the channel encode (passthrough mode)
+   * No filters, rate control or keyframe forcing - segments are cut at the source's keyframes.
+   * Alternate audio/subtitle renditions are still encoded (they are separate outputs).
+   */
+  private async createStreamCopyCommand(command: FfmpegCommand, streamConfig: StreamConfig): Promise<FfmpegCommand> {
+    const primaryAudioMap = streamConfig.audioTracks?.length
+      ? `0:a:${streamConfig.audioTracks[0].streamIndex}?`
+      : '0:a?';
+
+    command.videoCodec('copy');
+    command.audioCodec('copy');
+    command
+      .outputOptions([
+        '-map', '0:v:0',
+        '-map', primaryAudioMap,
+        '-sn',
+        ...this.getHlsMuxerOptions(streamConfig, path.join(streamConfig.outputDir, 'stream_%03d.m4s')),
+        '-max_muxing_queue_size', '8192',
+        '-loglevel', 'warning',
+      ])
+      .output(path.join(streamConfig.outputDir, 'stream.m3u8'));
+
+    logger.debug({ inputFile: streamConfig.inputFile }, 'FFmpeg stream copy (passthrough) configured');
+
+    await this.addAlternateTrackOutputs(command, streamConfig);
+
     return command;
   }
 
+  /**
+   * Add one output per alternate audio track (fMP4 HLS) and per subtitle track (WebVTT)
+   * Each is written to {outputDir}/{track.name}/stream.m3u8 so the master playlist can
+   * reference them as EXT-X-MEDIA renditions.
+   *
+   * NOTE: Tracks come from the file the stream starts on (concat takes its stream layout from
+   * the first file). Later files or bumpers without those tracks simply leave gaps.
+   */
+  private async addAlternateTrackOutputs(command: FfmpegCommand, streamConfig: StreamConfig): Promise<void> {
+    const alternateAudio = (streamConfig.audioTracks || []).slice(1);
+    const subtitles = streamConfig.subtitleTracks || [];
+    if (alternateAudio.length === 0 && subtitles.length === 0) {
+      return;
+    }
+
+    for (const track of alternateAudio) {
+      const trackDir = path.join(streamConfig.outputDir, track.name);
+      await fs.mkdir(trackDir, { recursive: true });
+      command
+        .output(path.join(trackDir, 'stream.m3u8'))
+        .outputOptions([
+          '-map', `0:a:${track.streamIndex}`,
+          '-vn', '-sn',
+          // Same audio settings as the primary track so players can switch seamlessly
+          '-c:a', getAudioCodec(streamConfig.encoderProfile),
+          '-b:a', streamConfig.audioBitrate.toString(),
+          '-ac', '2',
+          ...getAudioEncoderOptions(streamConfig.encoderProfile),
+          '-channel_layout', 'stereo',
+          // Per-file measurements are for the primary track, so alternates use realtime loudnorm
+          '-af', this.getAudioFilter(streamConfig.loudness && { ...streamConfig.loudness, timeline: undefined }),
+          '-f', 'hls',
+          '-hls_time', streamConfig.segmentDuration.toString(),
+          '-hls_list_size', '30',
+          '-hls_delete_threshold', Math.max(1, Math.ceil((600 / streamConfig.segmentDuration) - 30)).toString(),
+          '-hls_flags', 'delete_segments+split_by_time+temp_file',
+          '-hls_segment_filename', path.join(trackDir, 'stream_%03d.m4s'),
+          '-hls_segment_type', 'fmp4',
+          '-hls_fmp4_init_filename', 'init.mp4',
+          ...(track.language ? ['-metadata:s:a:0', `language=${track.language}`] : []),
+        ]);
+    }
+
+    // WebVTT via the segment muxer (it writes its own m3u8 list)
+    // segment_wrap reuses filenames after ~20 minutes so old cues don't pile up on disk
+    const wrap = Math.max(60, Math.ceil(1200 / streamConfig.segmentDuration));
+    for (const track of subtitles) {
+      const trackDir = path.join(streamConfig.outputDir, track.name);
+      await fs.mkdir(trackDir, { recursive: true });
+      command
+        .output(path.join(trackDir, 'stream_%03d.vtt'))
+        .outputOptions([
+          '-map', `0:s:${track.streamIndex}`,
+          '-vn', '-an',
+          '-c:s', 'webvtt',
+          '-f', 'segment',
+          '-segment_time', streamConfig.segmentDuration.toString(),
+          '-segment_format', 'webvtt',
+          '-segment_list', path.join(trackDir, 'stream.m3u8'),
+          '-segment_list_type', 'm3u8',
+          '-segment_list_size', '30',
+          '-segment_list_flags', '+live',
+          '-segment_wrap', wrap.toString(),
+        ]);
+    }
+
+    logger.info(
+      {
+        alternateAudio: alternateAudio.map((t) => ({ name: t.name, language: t.language })),
+        subtitles: subtitles.map((t) => ({ name: t.name, language: t.language })),
+      },
+      'Added alternate audio/subtitle renditions'
+    );
+  }
+
   /**
    * Set up FFmpeg event handlers
    */
@@ -790,6 +1228,38 @@ export class FFmpegEngine {
     const RATE_LIMIT_WINDOW = 5000; // 5 seconds
     const RATE_LIMIT_THRESHOLD = 10; // Log every 10th occurrence after first
 
+    // Metrics from FFmpeg's stats lines: drop= is a process total, and a segment is done
+    // each time the output time crosses a segment boundary
+    const metricLabels = { channel: channelId };
+    let droppedFrames = 0;
+    let lastSegmentIndex: number | undefined;
+    let lastSegmentAt = 0;
+    const recordStats = (line: string): boolean => {
+      const stats = parseFFmpegStats(line);
+      if (!stats) {
+        return false;
+      }
+      if (stats.speed !== undefined) {
+        ffmpegEncodeSpeed.set(metricLabels, stats.speed);
+      }
+      if (stats.droppedFrames !== undefined && stats.droppedFrames > droppedFrames) {
+        ffmpegDroppedFrames.inc(metricLabels, stats.droppedFrames - droppedFrames);
+        droppedFrames = stats.droppedFrames;
+      }
+      if (stats.outTime !== undefined && stats.outTime >= 0) {
+        const segmentIndex = Math.floor(stats.outTime / handle.config.segmentDuration);
+        const now = Date.now();
+        if (lastSegmentIndex !== undefined && segmentIndex > lastSegmentIndex) {
+          segmentGenerationSeconds.observe(metricLabels, (now - lastSegmentAt) / 1000 / (segmentIndex - lastSegmentIndex));
+        }
+        if (lastSegmentIndex === undefined || segmentIndex > lastSegmentIndex) {
+          lastSegmentIndex = segmentIndex;
+          lastSegmentAt = now;
+        }
+      }
+      return true;
+    };
+
     command
       .on('start', (commandLine) => {
         logger.info({ channelId, commandLine }, 'FFmpeg command started');
@@ -805,6 +1275,10 @@ export class FFmpegEngine {
         // Capture all stderr lines for error debugging
         if (typeof line === 'string') {
           const l = line.trim();
+          // Stats lines only feed metrics (they would crowd real errors out of the buffer)
+          if (recordStats(l)) {
+            return;
+          }
           stderrLines.push(l);
           
           // Filter out known non-fatal warnings that don't affect playback
@@ -873,6 +1347,7 @@ export class FFmpegEngine {
       })
       .on('end', async () => {
         logger.info({ channelId }, 'File stream ended');
+        ffmpegEncodeSpeed.remove(metricLabels);
 
         // With append_list, FFmpeg automatically manages segment numbering
         // No manual tracking needed - each next FFmpeg process reads the playlist and continues
@@ -889,6 +1364,8 @@ export class FFmpegEngine {
         this.activeStreams.delete(channelId);
       })
       .on('error', (err, stdout, stderr) => {
+        ffmpegEncodeSpeed.remove(metricLabels);
+
         // Get error details
         const errorCode = (err as any).code;
         const errorSignal = (err as any).signal;
@@ -954,6 +1431,13 @@ export class FFmpegEngine {
             },
             isBumperError ? 'FFmpeg error (likely bumper-related)' : 'FFmpeg error'
           );
+          eventBus.emit('ffmpeg.error', {
+            channelId,
+            message: err.message,
+            errorCode: typeof errorCode === 'number' ? errorCode : undefined,
+            isBumperError,
+            isFileError,
+          });
           
           // If this is a bumper-related error and we're using concat, try to recover
           if (isBumperError && handle.config.concatFile) {
@@ -997,14 +1481,13 @@ export class FFmpegEngine {
 
   /**
    * Wait for stream to start (check for playlist file)
-   * @param outputDir - Output directory for the stream
+   * @param playlistPath - Playlist written by FFmpeg (primary rendition when using a ladder)
    * @param timeout - Maximum time to wait
    * @param isTransition - If true, this is a file transition (playlist already exists, reduce wait time)
    * @param channelId - Channel ID for logging (optional)
    * @returns true if stream started successfully, false if timeout
    */
-  private async waitForStreamStart(outputDir: string, timeout: number, isTransition: boolean = false, channelId?: string): Promise<boolean> {
-    const playlistPath = path.join(outputDir, 'stream.m3u8');
+  private async waitForStreamStart(playlistPath: string, timeout: number, isTransition: boolean = false, channelId?: string): Promise<boolean> {
     const startTime = Date.now();
 
     // Get baseline last segment NUMBER before FFmpeg starts (for transitions)
@@ -1039,6 +1522,11 @@ export class FFmpegEngine {
     const checkInterval = isTransition ? 200 : 500;
 
     while (Date.now() - startTime < timeout) {
+      // The process already exited (e.g. an unreachable live source) - no segments will come
+      if (channelId && !this.activeStreams.has(channelId)) {
+        logger.warn({ channelId, elapsed: Date.now() - startTime }, 'FFmpeg exited before the stream started');
+        return false;
+      }
       try {
         await fs.access(playlistPath);
 
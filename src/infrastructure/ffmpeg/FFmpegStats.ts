@@ -0,0 +1,38 @@
+/**
+ * FFmpeg progress line parsing
+ *
+ * FFmpeg prints a stats line to stderr about twice a second, even at -loglevel warning:
+ *   frame=  250 fps= 25 q=28.0 size=    1024kB time=00:00:10.00 bitrate= 838.9kbits/s drop=2 speed=1.01x
+ * drop= (and dup=) only appear once frames were dropped; fields FFmpeg can't compute yet are N/A.
+ */
+
+export interface FFmpegStats {
+  outTime?: number; // Output timestamp in seconds
+  speed?: number; // Multiple of realtime
+  droppedFrames?: number; // Total for the process
+}
+
+/**
+ * Parse an FFmpeg stats line (undefined for other stderr lines)
+ */
+export function parseFFmpegStats(line: string): FFmpegStats | undefined {
+  if (!/\btime=/.test(line) || !/\bspeed=/.test(line)) {
+    return undefined;
+  }
+
+  const stats: FFmpegStats = {};
+  const time = line.match(/\btime=\s*(-?)(\d+):(\d{2}):(\d{2}(?:\.\d+)?)/);
+  if (time) {
+    const seconds = parseInt(time[2], 10) * 3600 + parseInt(time[3], 10) * 60 + parseFloat(time[4]);
+    stats.outTime = time[1] ? -seconds : seconds;
+  }
+  const speed = line.match(/\bspeed=\s*(\d+(?:\.\d+)?(?:e[+-]?\d+)?)x/);
+  if (speed) {
+    stats.speed = parseFloat(speed[1]);
+  }
+  const drop = line.match(/\bdrop=\s*(\d+)/);
+  if (drop) {
+    stats.droppedFrames = parseInt(drop[1], 10);
+  }
+  return stats;
+}
@@ -0,0 +1,71 @@
+import { escapeFilterValue } from './Overlays';
+
+/**
+ * External live source helpers
+ *
+ * A channel (or a schedule block) can take its input from a live URL - a tuner, an encoder or
+ * another server - instead of the concat file. FFmpeg reads the source in realtime (no -re) and
+ * re-encodes it to the channel's profile like any other input. When the source drops, FFmpeg
+ * plays a generated "source lost" slate until the source comes back or ChannelService falls
+ * back to the channel's buckets.
+ */
+
+export const LIVE_INPUT_PROTOCOLS = ['http', 'https', 'rtmp', 'rtmps', 'srt', 'udp'] as const;
+
+const LIVE_INPUT_URL_PATTERN = new RegExp(`^(${LIVE_INPUT_PROTOCOLS.join('|')})://\\S+$`, 'i');
+
+/** Shown on the slate while the source is unreachable */
+export const SOURCE_LOST_SLATE_TEXT = 'Source unavailable - reconnecting';
+
+/** Bytes/microseconds FFmpeg may read to detect the source's streams */
+const LIVE_PROBE_SIZE = 5000000;
+
+/**
+ * Check if a URL is a supported live source (HLS/HTTP, RTMP, SRT or UDP)
+ */
+export function isLiveInputUrl(url: string): boolean {
+  return LIVE_INPUT_URL_PATTERN.test(url);
+}
+
+/**
+ * Input options for a live source
+ * @param timeoutSeconds - Fail the read (and end the FFmpeg process) after this long without data
+ */
+export function getLiveInputOptions(url: string, timeoutSeconds: number): string[] {
+  const protocol = url.slice(0, url.indexOf(':')).toLowerCase();
+  const options = [
+    '-fflags', '+genpts+discardcorrupt',
+    '-analyzeduration', String(LIVE_PROBE_SIZE),
+    '-probesize', String(LIVE_PROBE_SIZE),
+    '-thread_queue_size', '512',
+    '-rw_timeout', String(Math.round(timeoutSeconds * 1000000)),
+  ];
+
+  if (protocol === 'http' || protocol === 'https') {
+    // Ride out short drops of the source server before giving up
+    options.push(
+      '-reconnect', '1',
+      '-reconnect_streamed', '1',
+      '-reconnect_on_network_error', '1',
+      '-reconnect_delay_max', '5'
+    );
+  } else if (protocol === 'udp') {
+    // Don't die when the reader falls behind a bursty multicast feed
+    options.push('-overrun_nonfatal', '1', '-fifo_size', '1000000');
+  }
+
+  return options;
+}
+
+/**
+ * lavfi graph for the "source lost" slate (video on out0, silent stereo audio on out1)
+ */
+export function getSlateGraph(width: number, height: number, fps: number, text: string = SOURCE_LOST_SLATE_TEXT): string {
+  const fontSize = Math.max(16, Math.round(height / 18));
+  return (
+    `color=c=black:s=${width}x${height}:r=${fps},` +
+    `drawtext=text=${escapeFilterValue(text)}:fontcolor=white:fontsize=${fontSize}:` +
+    'x=(w-text_w)/2:y=(h-text_h)/2[out0];' +
+    'anullsrc=r=48000:cl=stereo[out1]'
+  );
+}
@@ -0,0 +1,121 @@
+import { ChannelConfig } from '../../domain/channel/Channel';
+import { LoudnessMeasurement, MediaFileMetadata } from '../../domain/media/MediaFile';
+import { selectHlsTracks } from './MediaTracks';
+
+/**
+ * Loudness normalization helpers
+ *
+ * Channels with a loudness target normalize the primary audio track. When every file in the
+ * concat stream has a scan-time measurement (ENABLE_LOUDNESS_SCAN), each file gets its exact
+ * gain from a time-based volume expression followed by a peak limiter - the second pass of
+ * two-pass loudnorm, applied per file inside one FFmpeg process. Otherwise the realtime
+ * loudnorm filter estimates the gain as it goes.
+ */
+
+export const DEFAULT_TRUE_PEAK_CEILING = -1;
+
+/** Loudness range target for realtime loudnorm (its default) */
+const LOUDNORM_LRA = 11;
+
+/** Never boost more than this (near-silent files would otherwise become noise) */
+const MAX_LOUDNESS_GAIN_DB = 20;
+
+/** Normalization settings passed to FFmpegEngine */
+export interface LoudnessOptions {
+  target: number; // LUFS
+  truePeakCeiling: number; // dBTP
+  /** Files in concat order (first entry starts at t=0), omitted for realtime loudnorm */
+  timeline?: LoudnessTimelineEntry[];
+}
+
+export interface LoudnessTimelineEntry {
+  duration: number; // seconds of the file that plays (after any seek), plus the bumper after it
+  measurement?: LoudnessMeasurement;
+}
+
+/**
+ * Check if a channel normalizes loudness
+ */
+export function isLoudnessNormalized(channelConfig: ChannelConfig): boolean {
+  return channelConfig.loudnessTarget !== undefined;
+}
+
+/**
+ * Parse the JSON summary loudnorm prints with print_format=json
+ * @returns undefined if the output has no summary (e.g. silent or audio-less input)
+ */
+export function parseLoudnormOutput(stderr: string, streamIndex: number): LoudnessMeasurement | undefined {
+  const start = stderr.lastIndexOf('{');
+  const end = stderr.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    return undefined;
+  }
+
+  try {
+    const summary = JSON.parse(stderr.slice(start, end + 1));
+    const measurement = {
+      streamIndex,
+      integrated: parseFloat(summary.input_i),
+      truePeak: parseFloat(summary.input_tp),
+      lra: parseFloat(summary.input_lra),
+      threshold: parseFloat(summary.input_thresh),
+    };
+    // Silence measures as -inf
+    const values = [measurement.integrated, measurement.truePeak, measurement.lra, measurement.threshold];
+    return values.every(Number.isFinite) ? measurement : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Get the measurement of the audio track a channel plays
+ * Files measured on another track (different preferred language) count as unmeasured
+ */
+export function getPrimaryLoudness(
+  metadata: MediaFileMetadata,
+  preferredLanguage?: string
+): LoudnessMeasurement | undefined {
+  const primaryTrack = selectHlsTracks(metadata, preferredLanguage).audioTracks[0];
+  return primaryTrack && metadata.loudness?.streamIndex === primaryTrack.streamIndex ? metadata.loudness : undefined;
+}
+
+/**
+ * Gain in dB that brings a file to the target without pushing its true peak over the ceiling
+ * (boosts are capped at the ceiling; the limiter catches the rest of a cut file's peaks)
+ */
+export function getLoudnessGain(measurement: LoudnessMeasurement, target: number, truePeakCeiling: number): number {
+  const gain = target - measurement.integrated;
+  if (gain <= 0) {
+    return gain;
+  }
+  return Math.min(gain, Math.max(0, truePeakCeiling - measurement.truePeak), MAX_LOUDNESS_GAIN_DB);
+}
+
+/**
+ * Audio filter that normalizes loudness (appended to the audio filter chain)
+ */
+export function getLoudnessFilter(options: LoudnessOptions): string {
+  const timeline = options.timeline;
+  if (!timeline || timeline.length === 0 || timeline.some((entry) => !entry.measurement)) {
+    return `loudnorm=I=${options.target}:TP=${options.truePeakCeiling}:LRA=${LOUDNORM_LRA}`;
+  }
+
+  // Flat sum of gain * (start <= t < end) terms - nested if() would hit the expression depth limit
+  let start = 0;
+  const terms = timeline.map((entry, i) => {
+    const gainDb = getLoudnessGain(entry.measurement!, options.target, options.truePeakCeiling);
+    const factor = Math.pow(10, gainDb / 20).toFixed(4);
+    const end = start + entry.duration;
+    const term =
+      i === timeline.length - 1
+        ? `${factor}*gte(t,${start.toFixed(3)})`
+        : `${factor}*gte(t,${start.toFixed(3)})*lt(t,${end.toFixed(3)})`;
+    start = end;
+    return term;
+  });
+
+  // alimiter works on sample peaks, so it only approximates the true-peak ceiling
+  const limit = Math.max(0.0625, Math.pow(10, options.truePeakCeiling / 20)).toFixed(4);
+  return `volume=eval=frame:volume='${terms.join('+')}',alimiter=limit=${limit}:level=0`;
+}
@@ -0,0 +1,142 @@
+import { MediaFileMetadata, MediaStreamInfo } from '../../domain/media/MediaFile';
+
+/**
+ * Audio/subtitle track selection for HLS output
+ *
+ * The concat demuxer takes its stream layout from the first file, so tracks are
+ * selected from the metadata MetadataExtractor recorded for the file a stream starts on.
+ * The primary audio track stays muxed with video (legacy layout); every other audio
+ * track becomes an alternate EXT-X-MEDIA rendition, and text subtitles become WebVTT
+ * renditions.
+ */
+
+export interface HlsTrack {
+  streamIndex: number; // input stream index within its type (a:N / s:N)
+  name: string; // output subdirectory (e.g. 'audio_1', 'subs_0')
+  language?: string; // ISO 639-2 code from the container
+  label: string; // human readable NAME attribute
+  default: boolean;
+}
+
+export interface HlsTrackSelection {
+  /** First entry is the primary track (muxed with video), the rest are alternates */
+  audioTracks: HlsTrack[];
+  subtitleTracks: HlsTrack[];
+}
+
+/** Each alternate audio track is a separate AAC encode, so cap them */
+export const MAX_ALTERNATE_AUDIO_TRACKS = 3;
+export const MAX_SUBTITLE_TRACKS = 4;
+
+/** Only text subtitles can be converted to WebVTT (bitmap PGS/DVD subs are skipped) */
+const TEXT_SUBTITLE_CODECS = ['subrip', 'srt', 'ass', 'ssa', 'mov_text', 'webvtt', 'text'];
+
+/** ISO 639-2 -> [RFC 5646 tag, display name] for common languages */
+const LANGUAGES: Record<string, [string, string]> = {
+  eng: ['en', 'English'],
+  jpn: ['ja', 'Japanese'],
+  spa: ['es', 'Spanish'],
+  fre: ['fr', 'French'],
+  fra: ['fr', 'French'],
+  ger: ['de', 'German'],
+  deu: ['de', 'German'],
+  ita: ['it', 'Italian'],
+  por: ['pt', 'Portuguese'],
+  rus: ['ru', 'Russian'],
+  chi: ['zh', 'Chinese'],
+  zho: ['zh', 'Chinese'],
+  kor: ['ko', 'Korean'],
+  dut: ['nl', 'Dutch'],
+  nld: ['nl', 'Dutch'],
+  swe: ['sv', 'Swedish'],
+  nor: ['no', 'Norwegian'],
+  dan: ['da', 'Danish'],
+  fin: ['fi', 'Finnish'],
+  pol: ['pl', 'Polish'],
+  ara: ['ar', 'Arabic'],
+  hin: ['hi', 'Hindi'],
+  tur: ['tr', 'Turkish'],
+};
+
+/**
+ * Convert an ISO 639-2 code to the tag used in the LANGUAGE attribute
+ */
+export function toHlsLanguage(language: string): string {
+  return LANGUAGES[language]?.[0] || language;
+}
+
+function getTrackLabel(stream: MediaStreamInfo, fallback: string): string {
+  if (stream.title) {
+    return stream.title;
+  }
+  if (stream.language) {
+    return LANGUAGES[stream.language]?.[1] || stream.language.toUpperCase();
+  }
+  return `${fallback} ${stream.index + 1}`;
+}
+
+/**
+ * Select audio and subtitle tracks to publish for a stream
+ * @param metadata - Metadata of the file the stream starts on
+ * @param preferredLanguage - Channel's preferred ISO 639-2 language (e.g. 'eng')
+ */
+export function selectHlsTracks(metadata: MediaFileMetadata, preferredLanguage?: string): HlsTrackSelection {
+  const audioStreams = metadata.audioStreams || [];
+  const preferred = preferredLanguage?.toLowerCase();
+
+  // Primary audio: preferred language, then the container's default track, then the first track
+  const primary =
+    (preferred && audioStreams.find((s) => s.language === preferred)) ||
+    audioStreams.find((s) => s.default) ||
+    audioStreams[0];
+
+  const audioTracks: HlsTrack[] = [];
+  if (primary) {
+    audioTracks.push({
+      streamIndex: primary.index,
+      name: `audio_${primary.index}`,
+      language: primary.language,
+      label: getTrackLabel(primary, 'Audio'),
+      default: true,
+    });
+    audioStreams
+      .filter((s) => s !== primary)
+      .slice(0, MAX_ALTERNATE_AUDIO_TRACKS)
+      .forEach((s) => {
+        audioTracks.push({
+          streamIndex: s.index,
+          name: `audio_${s.index}`,
+          language: s.language,
+          label: getTrackLabel(s, 'Audio'),
+          default: false,
+        });
+      });
+  }
+
+  // Subtitles default on only when the preferred language isn't spoken (e.g. Japanese audio, English subs)
+  const needsDefaultSubtitle = !!preferred && primary?.language !== preferred;
+  let hasDefaultSubtitle = false;
+  const subtitleTracks = (metadata.subtitleStreams || [])
+    .filter((s) => !s.codec || TEXT_SUBTITLE_CODECS.includes(s.codec))
+    .slice(0, MAX_SUBTITLE_TRACKS)
+    .map((s) => {
+      const isDefault = needsDefaultSubtitle && !hasDefaultSubtitle && s.language === preferred;
+      hasDefaultSubtitle = hasDefaultSubtitle || isDefault;
+      return {
+        streamIndex: s.index,
+        name: `subs_${s.index}`,
+        language: s.language,
+        label: getTrackLabel(s, 'Subtitles'),
+        default: isDefault,
+      };
+    });
+
+  return { audioTracks, subtitleTracks };
+}
+
+/**
+ * Check if a selection needs EXT-X-MEDIA renditions (more than the single muxed audio track)
+ */
+export function hasAlternateTracks(tracks?: HlsTrackSelection): tracks is HlsTrackSelection {
+  return !!tracks && (tracks.audioTracks.length > 1 || tracks.subtitleTracks.length > 0);
+}
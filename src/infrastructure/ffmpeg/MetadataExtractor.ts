@@ -2,8 +2,11 @@ import ffmpeg from 'fluent-ffmpeg';
 import fs from 'fs/promises';
 import { config } from '../../config/env';
 import { createLogger } from '../../utils/logger';
-import { MediaFileMetadata } from '../../domain/media/MediaFile';
+import { CropRect, LoudnessMeasurement, MediaFileMetadata, MediaStreamInfo } from '../../domain/media/MediaFile';
 import { FFmpegError } from '../../utils/errors';
+import { parseLoudnormOutput } from './Loudness';
+import { parseCropdetectOutput } from './AspectMode';
+import { selectHlsTracks } from './MediaTracks';
 
 const logger = createLogger('MetadataExtractor');
 
@@ -39,6 +42,9 @@ export class MetadataExtractor {
           ? parseInt(String(metadata.format.bit_rate), 10)
           : undefined,
         fps: this.extractFPS(videoStream),
+        audioStreams: this.extractStreams(metadata.streams, 'audio'),
+        subtitleStreams: this.extractStreams(metadata.streams, 'subtitle'),
+        contentRating: this.extractContentRating(metadata.format.tags),
       };
     } catch (error) {
       logger.error({ error, file: filePath }, 'Failed to extract metadata');
@@ -46,6 +52,71 @@ export class MetadataExtractor {
     }
   }
 
+  /**
+   * Measure EBU R128 loudness of the file's default audio track (first pass of two-pass loudnorm)
+   * Decodes the whole track, so this takes a while for long files
+   * @returns undefined if the file has no audio or loudnorm printed no usable summary
+   */
+  public async measureLoudness(filePath: string, metadata: MediaFileMetadata): Promise<LoudnessMeasurement | undefined> {
+    const track = selectHlsTracks(metadata).audioTracks[0];
+    if (!track) {
+      return undefined;
+    }
+
+    const stderr = await new Promise<string>((resolve, reject) => {
+      ffmpeg(filePath)
+        .outputOptions([
+          '-map', `0:a:${track.streamIndex}`,
+          '-vn', '-sn',
+          '-af', 'loudnorm=print_format=json',
+          '-f', 'null',
+        ])
+        .output('-')
+        .on('end', (_stdout, stderrOutput) => resolve(stderrOutput || ''))
+        .on('error', (err) => reject(new FFmpegError(`Failed to measure loudness: ${err.message}`)))
+        .run();
+    });
+
+    const measurement = parseLoudnormOutput(stderr, track.streamIndex);
+    if (!measurement) {
+      logger.warn({ file: filePath }, 'Loudness measurement produced no summary');
+    }
+    return measurement;
+  }
+
+  /**
+   * Detect black bars with cropdetect on a sample from the middle of the file
+   * reset=0 keeps the largest picture area seen, so dark scenes don't shrink the crop
+   * @returns The picture area (the full frame when there are no bars), undefined if no video was decoded
+   */
+  public async detectCrop(filePath: string, metadata: MediaFileMetadata): Promise<CropRect | undefined> {
+    // Skip intros/credits, which are often black or windowboxed differently
+    const sampleStart = Math.floor(metadata.duration * 0.25);
+    const sampleDuration = Math.min(120, Math.max(1, metadata.duration - sampleStart));
+
+    const stderr = await new Promise<string>((resolve, reject) => {
+      ffmpeg(filePath)
+        .inputOptions(['-ss', sampleStart.toString()])
+        .outputOptions([
+          '-map', '0:v:0',
+          '-an', '-sn',
+          '-t', sampleDuration.toString(),
+          '-vf', 'cropdetect=limit=24:round=2:reset=0',
+          '-f', 'null',
+        ])
+        .output('-')
+        .on('end', (_stdout, stderrOutput) => resolve(stderrOutput || ''))
+        .on('error', (err) => reject(new FFmpegError(`Failed to detect crop: ${err.message}`)))
+        .run();
+    });
+
+    const crop = parseCropdetectOutput(stderr);
+    if (!crop) {
+      logger.warn({ file: filePath }, 'Crop detection produced no result');
+    }
+    return crop;
+  }
+
   /**
    * Probe file using ffprobe
    */
@@ -61,6 +132,41 @@ export class MetadataExtractor {
     });
   }
 
+  /**
+   * Read the content rating from container tags (MKV RATING, MP4 rating, ...)
+   */
+  private extractContentRating(tags?: Record<string, string | number>): string | undefined {
+    if (!tags) {
+      return undefined;
+    }
+    const key = Object.keys(tags).find((name) => ['rating', 'content_rating', 'certification'].includes(name.toLowerCase()));
+    const value = key ? String(tags[key]).trim() : '';
+    return value ? value.substring(0, 20) : undefined;
+  }
+
+  /**
+   * Extract audio or subtitle stream info (language, codec, default flag)
+   * Index is relative to the stream type so it maps directly to FFmpeg's a:N / s:N specifiers
+   */
+  private extractStreams(
+    streams: ffmpeg.FfprobeStream[],
+    codecType: 'audio' | 'subtitle'
+  ): MediaStreamInfo[] {
+    return streams
+      .filter((s) => s.codec_type === codecType)
+      .map((s, index) => {
+        const language = s.tags?.language;
+        return {
+          index,
+          codec: s.codec_name,
+          // 'und' means undetermined - treat as no language
+          language: language && language !== 'und' ? String(language).toLowerCase() : undefined,
+          title: s.tags?.title || undefined,
+          default: s.disposition?.default === 1,
+        };
+      });
+  }
+
   /**
    * Extract FPS from video stream
    */
@@ -0,0 +1,202 @@
+import { ChannelOverlay, OverlayPosition, OverlaySchedule } from '../../domain/overlay/Overlay';
+
+/**
+ * Overlay stack filter helpers
+ *
+ * Layers are chained bottom to top after the channel's base video filter (and watermark).
+ * Image layers are extra looped inputs blended with overlay; text layers are drawtext filters
+ * reading a text file with reload, so OverlayService can change the ticker and now/next text
+ * while FFmpeg runs. Schedules become enable expressions on stream time, offset by the
+ * wall-clock time the stream started so windows and cycles line up with the real clock.
+ */
+
+export const DEFAULT_CLOCK_FORMAT = '%H:%M';
+const DEFAULT_FONT_SIZE = 32;
+const DEFAULT_FONT_COLOR = 'white';
+const DEFAULT_SCROLL_SPEED = 100; // pixels per second
+const SECONDS_PER_DAY = 86400;
+
+/** A layer with the files FFmpeg reads for it */
+export interface StreamOverlay {
+  overlay: ChannelOverlay;
+  imagePath?: string; // image layers
+  textPath?: string; // text layers (clock, ticker, now_next)
+}
+
+/**
+ * Escape a value for use as a filter option (e.g. a file path)
+ */
+export function escapeFilterValue(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/:/g, '\\:')
+    .replace(/'/g, "\\'")
+    .replace(/\[/g, '\\[')
+    .replace(/\]/g, '\\]')
+    .replace(/,/g, '\\,');
+}
+
+function parseTimeOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 3600 + minutes * 60;
+}
+
+/**
+ * Contents of a clock layer's text file (drawtext expands %{localtime} every frame)
+ */
+export function getClockText(format: string = DEFAULT_CLOCK_FORMAT): string {
+  // ':' separates expansion arguments, so it's escaped inside the format
+  return `%{localtime:${format.replace(/\\/g, '\\\\').replace(/:/g, '\\:').replace(/}/g, '\\}')}}`;
+}
+
+/**
+ * FFmpeg enable expression for a layer's schedule
+ * @param streamStart - Wall-clock time stream t=0 corresponds to
+ * @returns undefined when the layer is always visible
+ */
+export function getOverlayEnableExpression(
+  schedule: OverlaySchedule | undefined,
+  streamStart: Date
+): string | undefined {
+  if (!schedule) {
+    return undefined;
+  }
+  const offset =
+    streamStart.getHours() * 3600 + streamStart.getMinutes() * 60 + streamStart.getSeconds();
+  const conditions: string[] = [];
+
+  if (schedule.startTime || schedule.endTime) {
+    const timeOfDay = `mod(t+${offset},${SECONDS_PER_DAY})`;
+    const start = schedule.startTime ? parseTimeOfDay(schedule.startTime) : undefined;
+    const end = schedule.endTime ? parseTimeOfDay(schedule.endTime) : undefined;
+    if (start !== undefined && end !== undefined) {
+      conditions.push(
+        start <= end
+          ? `between(${timeOfDay},${start},${end})`
+          : `gte(${timeOfDay},${start})+lt(${timeOfDay},${end})`
+      );
+    } else if (start !== undefined) {
+      conditions.push(`gte(${timeOfDay},${start})`);
+    } else {
+      conditions.push(`lt(${timeOfDay},${end})`);
+    }
+  }
+
+  if (schedule.intervalSeconds && schedule.visibleSeconds !== undefined) {
+    conditions.push(`lt(mod(t+${offset},${schedule.intervalSeconds}),${schedule.visibleSeconds})`);
+  }
+
+  return conditions.length > 0 ? conditions.map((condition) => `(${condition})`).join('*') : undefined;
+}
+
+/**
+ * Position expressions for an item anchored in the frame
+ * @param frame - Frame size variables (W:H for overlay, w:h for drawtext)
+ * @param item - Item size variables (w:h for overlay, text_w:text_h for drawtext)
+ */
+function getPlacement(
+  position: OverlayPosition,
+  offsetX: number,
+  offsetY: number,
+  frame: [string, string],
+  item: [string, string]
+): { x: string; y: string } {
+  const [fw, fh] = frame;
+  const [iw, ih] = item;
+  const centerX = `(${fw}-${iw})/2+${offsetX}`;
+  switch (position) {
+    case 'top-right':
+      return { x: `${fw}-${iw}-${offsetX}`, y: `${offsetY}` };
+    case 'bottom-left':
+      return { x: `${offsetX}`, y: `${fh}-${ih}-${offsetY}` };
+    case 'bottom-right':
+      return { x: `${fw}-${iw}-${offsetX}`, y: `${fh}-${ih}-${offsetY}` };
+    case 'center':
+      return { x: centerX, y: `(${fh}-${ih})/2+${offsetY}` };
+    case 'top':
+      return { x: centerX, y: `${offsetY}` };
+    case 'bottom':
+      return { x: centerX, y: `${fh}-${ih}-${offsetY}` };
+    default:
+      return { x: `${offsetX}`, y: `${offsetY}` };
+  }
+}
+
+function getDrawtextFilter(streamOverlay: StreamOverlay, enable: string | undefined): string {
+  const { overlay, textPath } = streamOverlay;
+  const settings = overlay.settings;
+  const fontColor = settings.fontColor || DEFAULT_FONT_COLOR;
+
+  let placement = getPlacement(overlay.position, overlay.offsetX, overlay.offsetY, ['w', 'h'], ['text_w', 'text_h']);
+  if (overlay.type === 'ticker') {
+    // Scrolls right to left across the full width, re-entering once it has left the frame
+    const speed = settings.scrollSpeed || DEFAULT_SCROLL_SPEED;
+    placement = {
+      x: `'w-mod(t*${speed},w+text_w)'`,
+      y: overlay.position.startsWith('top') ? `${overlay.offsetY}` : `h-text_h-${overlay.offsetY}`,
+    };
+  }
+
+  const options = [
+    `textfile=${escapeFilterValue(textPath as string)}`,
+    'reload=1',
+    // Only the clock uses %{...} expansion - ticker and program titles are shown verbatim
+    `expansion=${overlay.type === 'clock' ? 'normal' : 'none'}`,
+    `fontsize=${settings.fontSize || DEFAULT_FONT_SIZE}`,
+    `fontcolor=${escapeFilterValue(fontColor.includes('@') ? fontColor : `${fontColor}@${overlay.opacity}`)}`,
+    `x=${placement.x}`,
+    `y=${placement.y}`,
+  ];
+  if (settings.backgroundColor) {
+    options.push('box=1', `boxcolor=${escapeFilterValue(settings.backgroundColor)}`, 'boxborderw=10');
+  }
+  if (enable) {
+    options.push(`enable='${enable}'`);
+  }
+  return `drawtext=${options.join(':')}`;
+}
+
+/**
+ * Filter chains compositing the layers over inputLabel into outputLabel
+ * @param overlays - Layers bottom to top
+ * @param firstImageInput - FFmpeg input index of the first image layer (images follow in order)
+ */
+export function getOverlayFilters(
+  overlays: StreamOverlay[],
+  firstImageInput: number,
+  inputLabel: string,
+  outputLabel: string,
+  streamStart: Date
+): string[] {
+  const filters: string[] = [];
+  let imageInput = firstImageInput;
+  let current = inputLabel;
+
+  overlays.forEach((streamOverlay, i) => {
+    const { overlay } = streamOverlay;
+    const next = i === overlays.length - 1 ? outputLabel : `[ov${i}]`;
+    const enable = getOverlayEnableExpression(overlay.schedule, streamStart);
+
+    if (overlay.type === 'image') {
+      const imageFilters = ['format=yuva420p'];
+      if (overlay.settings.imageWidth) {
+        imageFilters.push(`scale=${overlay.settings.imageWidth}:-1`);
+      }
+      if (overlay.opacity < 1) {
+        imageFilters.push(`colorchannelmixer=aa=${overlay.opacity}`);
+      }
+      filters.push(`[${imageInput++}:v]${imageFilters.join(',')}[img${i}]`);
+
+      const placement = getPlacement(overlay.position, overlay.offsetX, overlay.offsetY, ['W', 'H'], ['w', 'h']);
+      filters.push(
+        `${current}[img${i}]overlay=x=${placement.x}:y=${placement.y}:eof_action=repeat` +
+          `${enable ? `:enable='${enable}'` : ''}${next}`
+      );
+    } else {
+      filters.push(`${current}${getDrawtextFilter(streamOverlay, enable)}${next}`);
+    }
+    current = next;
+  });
+
+  return filters;
+}
@@ -0,0 +1,149 @@
+import { ChannelConfig } from '../../domain/channel/Channel';
+import { AudioCodec, EncoderProfile, VideoCodec } from '../../domain/encoder/EncoderProfile';
+import { MediaFile, MediaFileMetadata } from '../../domain/media/MediaFile';
+import { getBlackBarCrop } from './AspectMode';
+import { isLoudnessNormalized } from './Loudness';
+import { selectHlsTracks } from './MediaTracks';
+import { hasRenditionLadder, PEAK_BITRATE_FACTOR } from './RenditionLadder';
+
+/**
+ * Stream-copy passthrough helpers
+ *
+ * Passthrough channels remux files that already match the channel encode with -c copy and
+ * only transcode the rest. A stream-copied file keeps its own codec parameters (SPS/PPS,
+ * init segment), so each one runs in its own FFmpeg process; consecutive non-conforming files
+ * (and the bumpers between them) share one transcoding process as usual. ChannelService
+ * restarts FFmpeg at every run boundary and the playlist marks it with EXT-X-DISCONTINUITY.
+ * Bumpers only play inside transcode runs - a stream-copied file goes straight to the next run.
+ */
+
+/** ffprobe codec_name each encoder produces */
+export const PROBED_VIDEO_CODECS: Record<VideoCodec, string> = {
+  libx264: 'h264',
+  libx265: 'hevc',
+  libsvtav1: 'av1',
+};
+
+export const PROBED_AUDIO_CODECS: Record<AudioCodec, string> = {
+  aac: 'aac',
+  ac3: 'ac3',
+  eac3: 'eac3',
+};
+
+/** Frame rates within this tolerance count as equal (23.976 vs 23.98 from rounding) */
+const FPS_TOLERANCE = 0.01;
+
+/** One FFmpeg process worth of media: files [startIndex, endIndex) */
+export interface PassthroughRun {
+  copy: boolean;
+  startIndex: number;
+  endIndex: number;
+}
+
+/**
+ * Channel features that need re-encoding every frame (passthrough is ignored while any is set)
+ */
+export function getPassthroughBlockers(channelConfig: ChannelConfig): string[] {
+  const blockers: string[] = [];
+  if (hasRenditionLadder(channelConfig.renditions)) {
+    blockers.push('rendition ladder');
+  }
+  if (channelConfig.watermarkImageBase64) {
+    blockers.push('watermark');
+  }
+  if (channelConfig.lowLatency) {
+    // Parts must start on keyframes at partTarget intervals, which copied media doesn't have
+    blockers.push('low-latency HLS');
+  }
+  if (isLoudnessNormalized(channelConfig)) {
+    blockers.push('loudness normalization');
+  }
+  return blockers;
+}
+
+/**
+ * Check if a channel streams in passthrough mode (enabled and not blocked by another feature)
+ */
+export function isPassthroughEnabled(channelConfig: ChannelConfig): boolean {
+  return channelConfig.passthrough === true && getPassthroughBlockers(channelConfig).length === 0;
+}
+
+/**
+ * Reasons a file can't be stream-copied into the channel (empty = compatible)
+ * Unknown metadata counts as a mismatch - only files we know match are copied.
+ */
+export function getPassthroughMismatches(
+  metadata: MediaFileMetadata,
+  channelConfig: ChannelConfig,
+  encoderProfile?: EncoderProfile
+): string[] {
+  const mismatches: string[] = [];
+  const videoCodec = PROBED_VIDEO_CODECS[encoderProfile?.videoCodec || 'libx264'];
+  const audioCodec = PROBED_AUDIO_CODECS[encoderProfile?.audioCodec || 'aac'];
+
+  if (metadata.codec !== videoCodec) {
+    mismatches.push(`video codec ${metadata.codec || 'unknown'} (channel: ${videoCodec})`);
+  }
+  if (metadata.resolution !== channelConfig.resolution) {
+    mismatches.push(`resolution ${metadata.resolution || 'unknown'} (channel: ${channelConfig.resolution})`);
+  }
+  if (metadata.fps === undefined || Math.abs(metadata.fps - channelConfig.fps) > FPS_TOLERANCE) {
+    mismatches.push(`fps ${metadata.fps ?? 'unknown'} (channel: ${channelConfig.fps})`);
+  }
+
+  // The primary audio track is the one muxed with video
+  const primaryTrack = selectHlsTracks(metadata, channelConfig.preferredLanguage).audioTracks[0];
+  const primaryAudio = primaryTrack
+    ? metadata.audioStreams?.find((stream) => stream.index === primaryTrack.streamIndex)
+    : undefined;
+  if (primaryAudio?.codec !== audioCodec) {
+    mismatches.push(`audio codec ${primaryAudio?.codec || 'unknown'} (channel: ${audioCodec})`);
+  }
+
+  if (channelConfig.autoCrop && getBlackBarCrop(metadata)) {
+    mismatches.push('black bars (channel crops them)');
+  }
+
+  // Playlists advertise the channel's bitrates, so a copied file must not exceed the peak
+  const peakBitrate = channelConfig.videoBitrate * PEAK_BITRATE_FACTOR + channelConfig.audioBitrate;
+  if (metadata.bitrate !== undefined && metadata.bitrate > peakBitrate) {
+    mismatches.push(`bitrate ${metadata.bitrate} (channel peak: ${peakBitrate})`);
+  }
+
+  return mismatches;
+}
+
+/**
+ * Check if a file can be stream-copied into the channel
+ */
+export function isPassthroughCompatible(
+  metadata: MediaFileMetadata,
+  channelConfig: ChannelConfig,
+  encoderProfile?: EncoderProfile
+): boolean {
+  return getPassthroughMismatches(metadata, channelConfig, encoderProfile).length === 0;
+}
+
+/**
+ * Get the run of media starting at startIndex
+ * A compatible file is a copy run on its own; otherwise the run extends up to the next
+ * compatible file (or the end of the list).
+ */
+export function getPassthroughRun(
+  media: MediaFile[],
+  startIndex: number,
+  channelConfig: ChannelConfig,
+  encoderProfile?: EncoderProfile
+): PassthroughRun {
+  const compatible = (file: MediaFile) => isPassthroughCompatible(file.metadata, channelConfig, encoderProfile);
+
+  if (compatible(media[startIndex])) {
+    return { copy: true, startIndex, endIndex: startIndex + 1 };
+  }
+
+  let endIndex = startIndex + 1;
+  while (endIndex < media.length && !compatible(media[endIndex])) {
+    endIndex++;
+  }
+  return { copy: false, startIndex, endIndex };
+}
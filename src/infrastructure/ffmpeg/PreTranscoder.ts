@@ -0,0 +1,140 @@
+import ffmpeg, { FfmpegCommand } from 'fluent-ffmpeg';
+import path from 'path';
+import fs from 'fs/promises';
+import { config } from '../../config/env';
+import { createLogger } from '../../utils/logger';
+import { FFmpegError } from '../../utils/errors';
+import { MediaFileMetadata } from '../../domain/media/MediaFile';
+import { TranscodeParams } from '../../domain/transcode/TranscodeJob';
+import {
+  getAudioCodec,
+  getAudioEncoderOptions,
+  getGopOptions,
+  getVideoCodecOptions,
+  getVideoRateOptions,
+} from './EncoderProfiles';
+import { selectHlsTracks } from './MediaTracks';
+import { getAspectFilter, getBlackBarCrop, getCropFilter } from './AspectMode';
+
+const logger = createLogger('PreTranscoder');
+
+// Set FFmpeg paths
+ffmpeg.setFfmpegPath(config.ffmpeg.path);
+
+/**
+ * Encodes a media file to a channel's output settings ahead of playout
+ *
+ * The output is a plain MP4 with the same video filter, GOP and audio settings the live
+ * encoder uses, so it can be stream-copied into the channel's HLS output. Files are written
+ * to a temp path and renamed when complete, so the cache never contains partial renditions.
+ */
+export class PreTranscoder {
+  private activeJobs: Map<string, FfmpegCommand> = new Map();
+
+  /**
+   * Encode sourcePath to outputPath
+   * @param onProgress - Called with the encode progress in percent
+   * @returns Size of the finished rendition in bytes
+   */
+  public async transcode(
+    jobId: string,
+    sourcePath: string,
+    outputPath: string,
+    metadata: MediaFileMetadata,
+    params: TranscodeParams,
+    onProgress: (percent: number) => void
+  ): Promise<number> {
+    await fs.mkdir(path.dirname(outputPath), { recursive: true });
+    const tempPath = `${outputPath}.tmp.${Date.now()}`;
+
+    const encoder = params.encoder || undefined;
+    const [width, height] = params.resolution.split('x').map(Number);
+    const gcd = (a: number, b: number): number => b === 0 ? a : gcd(b, a % b);
+    const divisor = gcd(width, height);
+
+    // Keep only the audio track the channel would play (preferred language, default, first)
+    const primaryTrack = selectHlsTracks(metadata, params.preferredLanguage || undefined).audioTracks[0];
+    const audioMap = primaryTrack ? `0:a:${primaryTrack.streamIndex}` : '0:a?';
+    const crop = params.autoCrop ? getBlackBarCrop(metadata) : undefined;
+
+    const command = ffmpeg(sourcePath);
+    command.videoCodec(encoder?.videoCodec || 'libx264');
+    command.audioCodec(getAudioCodec(encoder));
+    command.outputOptions([
+      '-map', '0:v:0',
+      '-map', audioMap,
+      '-sn',
+      ...(encoder ? getVideoCodecOptions(encoder) : ['-preset', params.preset]),
+      '-pix_fmt', 'yuv420p',
+      '-vf', `${crop ? `${getCropFilter(crop)},` : ''}${getAspectFilter(width, height, params.aspectMode)},format=yuv420p,fps=${params.fps},setdar=${width / divisor}/${height / divisor}`,
+      ...getVideoRateOptions(params.videoBitrate, encoder),
+      // Keyframes at segment boundaries so the rendition can be stream-copied into HLS
+      ...getGopOptions(params.fps, params.segmentDuration, encoder),
+      '-fps_mode', 'cfr',
+      '-r', params.fps.toString(),
+      '-b:a', params.audioBitrate.toString(),
+      '-ac', '2',
+      ...getAudioEncoderOptions(encoder),
+      '-channel_layout', 'stereo',
+      '-af', 'aresample=async=1',
+      '-movflags', '+faststart',
+      '-max_muxing_queue_size', '8192',
+      '-f', 'mp4',
+      '-loglevel', 'warning',
+      '-y',
+    ]);
+    command.output(tempPath);
+
+    this.activeJobs.set(jobId, command);
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        command.on('start', (commandLine) => {
+          logger.debug({ jobId, command: commandLine }, 'Pre-transcode FFmpeg command');
+        });
+        command.on('progress', (progress) => {
+          if (typeof progress.percent === 'number' && Number.isFinite(progress.percent)) {
+            onProgress(Math.min(100, Math.max(0, progress.percent)));
+          }
+        });
+        command.on('end', () => resolve());
+        command.on('error', (err, _stdout, stderr) => {
+          logger.debug({ jobId, stderr }, 'Pre-transcode FFmpeg stderr');
+          reject(new FFmpegError(`Pre-transcode failed: ${err.message}`));
+        });
+        command.run();
+      });
+
+      await fs.rename(tempPath, outputPath);
+      const stats = await fs.stat(outputPath);
+      return stats.size;
+    } catch (error) {
+      await fs.unlink(tempPath).catch(() => undefined);
+      throw error;
+    } finally {
+      this.activeJobs.delete(jobId);
+    }
+  }
+
+  /**
+   * Kill a running encode (its transcode() call rejects)
+   * @returns True if the job was running
+   */
+  public cancel(jobId: string): boolean {
+    const command = this.activeJobs.get(jobId);
+    if (!command) {
+      return false;
+    }
+    command.kill('SIGKILL');
+    return true;
+  }
+
+  /**
+   * Kill all running encodes (shutdown)
+   */
+  public cancelAll(): void {
+    for (const jobId of this.activeJobs.keys()) {
+      this.cancel(jobId);
+    }
+  }
+}
@@ -0,0 +1,347 @@
+import path from 'path';
+import { ChannelConfig, RenditionConfig } from '../../domain/channel/Channel';
+import { AudioCodec, EncoderProfile, VideoCodec } from '../../domain/encoder/EncoderProfile';
+import { HlsTrack, HlsTrackSelection, hasAlternateTracks, toHlsLanguage } from './MediaTracks';
+
+/**
+ * Adaptive bitrate ladder helpers
+ *
+ * Shared by FFmpegEngine (which encodes every rendition from the same concat input
+ * using var_stream_map) and the streaming routes (which build the master playlist).
+ * Keeping both sides here guarantees the advertised BANDWIDTH/CODECS match what
+ * FFmpeg actually produces.
+ */
+
+/**
+ * Suggested ladder for channels that want adaptive streaming
+ * (1080p / 720p / 480p / audio-only)
+ */
+export const DEFAULT_RENDITION_LADDER: RenditionConfig[] = [
+  { name: '1080p', resolution: '1920x1080', videoBitrate: 5000000, audioBitrate: 192000 },
+  { name: '720p', resolution: '1280x720', videoBitrate: 2800000, audioBitrate: 128000 },
+  { name: '480p', resolution: '854x480', videoBitrate: 1200000, audioBitrate: 96000 },
+  { name: 'audio', audioBitrate: 64000 },
+];
+
+/**
+ * Peak bitrate multiplier - FFmpegEngine sets -maxrate to videoBitrate * this factor,
+ * so the master playlist BANDWIDTH (peak) must use the same factor
+ */
+export const PEAK_BITRATE_FACTOR = 2;
+
+/** AAC-LC codec string (FFmpegEngine always encodes aac_low) */
+export const AAC_LC_CODEC = 'mp4a.40.2';
+
+/** RFC 6381 codec strings for the audio codecs encoder profiles can select */
+const AUDIO_CODEC_STRINGS: Record<AudioCodec, string> = {
+  aac: AAC_LC_CODEC,
+  ac3: 'ac-3',
+  eac3: 'ec-3',
+};
+
+/** avc1 profile_idc + constraint flags for each x264 profile */
+const H264_PROFILE_PREFIXES: Record<string, string> = {
+  baseline: '42e0',
+  main: '4d40',
+  high: '6400',
+};
+
+/** Variant names become directory names, so keep them strictly safe */
+const RENDITION_NAME_PATTERN = /^[a-z0-9_-]+$/;
+
+export interface MasterPlaylistVariant {
+  uri: string;
+  bandwidth: number;
+  averageBandwidth: number;
+  codecs: string;
+  resolution?: string;
+  fps?: number;
+}
+
+/**
+ * Check if a rendition carries video (renditions without resolution are audio-only)
+ */
+export function isVideoRendition(rendition: RenditionConfig): boolean {
+  return !!rendition.resolution && !!rendition.videoBitrate;
+}
+
+/**
+ * Check if a variant name is safe to use as a directory name
+ */
+export function isValidRenditionName(name: string): boolean {
+  return RENDITION_NAME_PATTERN.test(name);
+}
+
+/**
+ * Check if a channel has an adaptive bitrate ladder configured
+ */
+export function hasRenditionLadder(renditions?: RenditionConfig[]): renditions is RenditionConfig[] {
+  return !!renditions && renditions.some(isVideoRendition);
+}
+
+/**
+ * Get the playlist FFmpeg writes for the primary (first video) rendition
+ * Single-rendition channels keep the legacy {outputDir}/stream.m3u8 layout
+ */
+export function getPrimaryPlaylistPath(outputDir: string, renditions?: RenditionConfig[]): string {
+  const primary = renditions?.find(isVideoRendition);
+  if (primary) {
+    return path.join(outputDir, primary.name, 'stream.m3u8');
+  }
+  return path.join(outputDir, 'stream.m3u8');
+}
+
+/**
+ * Pick the lowest H.264 level that fits the given resolution and frame rate
+ * Returns level * 10 (e.g. 31 for level 3.1), as used in the avc1 codec string
+ */
+export function getH264Level(resolution: string, fps: number): number {
+  const [width, height] = resolution.split('x').map(Number);
+  const frameSize = Math.ceil(width / 16) * Math.ceil(height / 16); // macroblocks per frame
+  const macroblockRate = frameSize * fps;
+
+  // [level, max frame size (MBs), max macroblock rate (MBs/s)] from ITU-T H.264 Table A-1
+  const levels: Array<[number, number, number]> = [
+    [30, 1620, 40500],
+    [31, 3600, 108000],
+    [32, 5120, 216000],
+    [40, 8192, 245760],
+    [42, 8704, 522240],
+    [50, 22080, 589824],
+    [51, 36864, 983040],
+    [52, 36864, 2073600],
+  ];
+
+  const match = levels.find(([, maxFrameSize, maxRate]) => frameSize <= maxFrameSize && macroblockRate <= maxRate);
+  return match ? match[0] : 52;
+}
+
+/**
+ * Build RFC 6381 codec string for H.264 at the given level (High profile by default)
+ */
+export function getH264CodecString(level: number, profile: string = 'high'): string {
+  const prefix = H264_PROFILE_PREFIXES[profile] || H264_PROFILE_PREFIXES.high;
+  return `avc1.${prefix}${level.toString(16).padStart(2, '0')}`;
+}
+
+/**
+ * Pick the lowest level that fits from a [level, max luma picture size, max luma sample rate] table
+ */
+function pickLevel(levels: Array<[number, number, number]>, resolution: string, fps: number): number {
+  const [width, height] = resolution.split('x').map(Number);
+  const pictureSize = width * height;
+  const match = levels.find(([, maxSize, maxRate]) => pictureSize <= maxSize && pictureSize * fps <= maxRate);
+  return match ? match[0] : levels[levels.length - 1][0];
+}
+
+/**
+ * Pick the lowest HEVC Main tier level (level * 30, as used in the hvc1 codec string)
+ */
+export function getHevcLevel(resolution: string, fps: number): number {
+  // ITU-T H.265 Table A.8
+  return pickLevel(
+    [
+      [90, 552960, 16588800],
+      [93, 983040, 33177600],
+      [120, 2228224, 66846720],
+      [123, 2228224, 133693440],
+      [150, 8912896, 267386880],
+      [153, 8912896, 534773760],
+      [156, 8912896, 1069547520],
+    ],
+    resolution,
+    fps
+  );
+}
+
+/**
+ * Pick the lowest AV1 seq_level_idx (e.g. 8 for level 4.0)
+ */
+export function getAv1Level(resolution: string, fps: number): number {
+  // AV1 spec Annex A.3
+  return pickLevel(
+    [
+      [0, 147456, 4423680],
+      [1, 278784, 8363520],
+      [4, 665856, 19975680],
+      [5, 1065024, 31950720],
+      [8, 2359296, 70778880],
+      [9, 2359296, 141557760],
+      [12, 8912896, 267386880],
+      [13, 8912896, 534773760],
+    ],
+    resolution,
+    fps
+  );
+}
+
+/**
+ * Parse an encoder profile level ('4.1') into level * 10
+ */
+function parseLevel(level?: string): number | undefined {
+  return level ? Math.round(parseFloat(level) * 10) : undefined;
+}
+
+/**
+ * Build the RFC 6381 video codec string for what FFmpeg encodes
+ * @param encoderProfile - Channel's encoder profile (H.264 High when not set)
+ */
+export function getVideoCodecString(
+  resolution: string,
+  fps: number,
+  encoderProfile?: Pick<EncoderProfile, 'videoCodec' | 'profile' | 'level'>
+): string {
+  const videoCodec: VideoCodec = encoderProfile?.videoCodec || 'libx264';
+  const level = parseLevel(encoderProfile?.level);
+  switch (videoCodec) {
+    case 'libx265':
+      return `hvc1.1.6.L${level ? level * 3 : getHevcLevel(resolution, fps)}.90`;
+    case 'libsvtav1':
+      return `av01.0.${String(getAv1Level(resolution, fps)).padStart(2, '0')}M.08`;
+    default:
+      return getH264CodecString(level || getH264Level(resolution, fps), encoderProfile?.profile);
+  }
+}
+
+/**
+ * Get the RFC 6381 audio codec string (AAC-LC when no profile is set)
+ */
+export function getAudioCodecString(encoderProfile?: Pick<EncoderProfile, 'audioCodec'>): string {
+  return encoderProfile ? AUDIO_CODEC_STRINGS[encoderProfile.audioCodec] : AAC_LC_CODEC;
+}
+
+/**
+ * Build master playlist variants for a channel
+ * Without a ladder, a single variant pointing at stream.m3u8 is returned (legacy layout)
+ * @param encoderProfile - Encoder profile of the running stream (selects CODECS)
+ * @param hasAudio - False when the running ladder is encoded without audio (drops audio-only renditions)
+ */
+export function getMasterPlaylistVariants(
+  channelConfig: ChannelConfig,
+  encoderProfile?: EncoderProfile,
+  hasAudio: boolean = true
+): MasterPlaylistVariant[] {
+  const audioCodec = getAudioCodecString(encoderProfile);
+  if (!hasRenditionLadder(channelConfig.renditions)) {
+    const videoCodec = getVideoCodecString(channelConfig.resolution, channelConfig.fps, encoderProfile);
+    return [
+      {
+        uri: 'stream.m3u8',
+        bandwidth: channelConfig.videoBitrate * PEAK_BITRATE_FACTOR + channelConfig.audioBitrate,
+        averageBandwidth: channelConfig.videoBitrate + channelConfig.audioBitrate,
+        codecs: `${videoCodec},${audioCodec}`,
+        resolution: channelConfig.resolution,
+        fps: channelConfig.fps,
+      },
+    ];
+  }
+
+  const renditions = hasAudio ? channelConfig.renditions : channelConfig.renditions.filter(isVideoRendition);
+  return renditions.map((rendition) => {
+    const uri = `${rendition.name}/stream.m3u8`;
+    if (!rendition.resolution || !rendition.videoBitrate) {
+      return {
+        uri,
+        bandwidth: rendition.audioBitrate,
+        averageBandwidth: rendition.audioBitrate,
+        codecs: audioCodec,
+      };
+    }
+
+    const videoCodec = getVideoCodecString(rendition.resolution, channelConfig.fps, encoderProfile);
+    const audioBitrate = hasAudio ? rendition.audioBitrate : 0;
+    return {
+      uri,
+      bandwidth: rendition.videoBitrate * PEAK_BITRATE_FACTOR + audioBitrate,
+      averageBandwidth: rendition.videoBitrate + audioBitrate,
+      codecs: hasAudio ? `${videoCodec},${audioCodec}` : videoCodec,
+      resolution: rendition.resolution,
+      fps: channelConfig.fps,
+    };
+  });
+}
+
+/** GROUP-IDs used for alternate renditions in the master playlist */
+export const AUDIO_GROUP_ID = 'aud';
+export const SUBTITLE_GROUP_ID = 'subs';
+
+function buildMediaTag(type: 'AUDIO' | 'SUBTITLES', track: HlsTrack, uri?: string): string {
+  const attributes = [
+    `TYPE=${type}`,
+    `GROUP-ID="${type === 'AUDIO' ? AUDIO_GROUP_ID : SUBTITLE_GROUP_ID}"`,
+    `NAME="${track.label.replace(/"/g, "'")}"`,
+  ];
+  if (track.language) {
+    attributes.push(`LANGUAGE="${toHlsLanguage(track.language)}"`);
+  }
+  attributes.push(`DEFAULT=${track.default ? 'YES' : 'NO'}`, 'AUTOSELECT=YES');
+  if (type === 'SUBTITLES') {
+    attributes.push('FORCED=NO');
+  }
+  // No URI = rendition is muxed into the variant streams (primary audio track)
+  if (uri) {
+    attributes.push(`URI="${uri}"`);
+  }
+  return `#EXT-X-MEDIA:${attributes.join(',')}`;
+}
+
+/**
+ * Render the master playlist for a channel
+ * Variants are listed highest bandwidth first; audio-only renditions come last
+ * @param tracks - Audio/subtitle tracks of the running stream (adds EXT-X-MEDIA groups)
+ * @param encoderProfile - Encoder profile of the running stream (selects CODECS)
+ * @param hasAudio - False when the running ladder is encoded without audio
+ */
+export function buildMasterPlaylist(
+  channelConfig: ChannelConfig,
+  tracks?: HlsTrackSelection,
+  encoderProfile?: EncoderProfile,
+  hasAudio: boolean = true
+): string {
+  const variants = getMasterPlaylistVariants(channelConfig, encoderProfile, hasAudio).sort(
+    (a, b) => b.bandwidth - a.bandwidth
+  );
+
+  // Version 7: media playlists use fMP4 segments (EXT-X-MAP with init.mp4)
+  const lines = ['#EXTM3U', '#EXT-X-VERSION:7'];
+
+  let hasAudioGroup = false;
+  let hasSubtitleGroup = false;
+  if (hasAlternateTracks(tracks)) {
+    if (tracks.audioTracks.length > 1) {
+      hasAudioGroup = true;
+      tracks.audioTracks.forEach((track, i) => {
+        lines.push(buildMediaTag('AUDIO', track, i === 0 ? undefined : `${track.name}/stream.m3u8`));
+      });
+    }
+    if (tracks.subtitleTracks.length > 0) {
+      hasSubtitleGroup = true;
+      tracks.subtitleTracks.forEach((track) => {
+        lines.push(buildMediaTag('SUBTITLES', track, `${track.name}/stream.m3u8`));
+      });
+    }
+  }
+
+  for (const variant of variants) {
+    const attributes = [
+      `BANDWIDTH=${variant.bandwidth}`,
+      `AVERAGE-BANDWIDTH=${variant.averageBandwidth}`,
+      `CODECS="${variant.codecs}"`,
+    ];
+    if (variant.resolution) {
+      attributes.push(`RESOLUTION=${variant.resolution}`);
+    }
+    if (variant.fps) {
+      attributes.push(`FRAME-RATE=${variant.fps.toFixed(3)}`);
+    }
+    if (hasAudioGroup) {
+      attributes.push(`AUDIO="${AUDIO_GROUP_ID}"`);
+    }
+    if (hasSubtitleGroup) {
+      attributes.push(`SUBTITLES="${SUBTITLE_GROUP_ID}"`);
+    }
+    lines.push(`#EXT-X-STREAM-INF:${attributes.join(',')}`, variant.uri);
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,132 @@
+import crypto from 'crypto';
+import path from 'path';
+import { ChannelConfig } from '../../domain/channel/Channel';
+import { EncoderProfile } from '../../domain/encoder/EncoderProfile';
+import { MediaFileMetadata } from '../../domain/media/MediaFile';
+import { CachedRendition, TranscodeParams } from '../../domain/transcode/TranscodeJob';
+import { getPrimaryLoudness } from './Loudness';
+import { selectHlsTracks } from './MediaTracks';
+import { PROBED_AUDIO_CODECS, PROBED_VIDEO_CODECS } from './Passthrough';
+
+/**
+ * Pre-transcode cache helpers
+ *
+ * Renditions are content-addressed: the key hashes the media file ID with every parameter
+ * that changes the encoded output, so channels with the same settings share renditions and
+ * changing a channel's settings simply misses the cache. A cached rendition matches the
+ * channel encode exactly, so passthrough channels stream-copy it instead of transcoding.
+ */
+
+/** Bump when PreTranscoder's output changes so stale renditions stop matching */
+const CACHE_FORMAT_VERSION = 1;
+
+/**
+ * Get the encoding parameters a channel's renditions are cached under
+ * @param preset - Global FFmpeg preset (only used without an encoder profile)
+ */
+export function getTranscodeParams(
+  channelConfig: ChannelConfig,
+  encoderProfile: EncoderProfile | undefined,
+  preset: string
+): TranscodeParams {
+  // Fixed key order - the params are hashed as JSON
+  return {
+    resolution: channelConfig.resolution,
+    fps: channelConfig.fps,
+    videoBitrate: channelConfig.videoBitrate,
+    audioBitrate: channelConfig.audioBitrate,
+    segmentDuration: channelConfig.segmentDuration,
+    preset: encoderProfile?.preset || preset,
+    preferredLanguage: channelConfig.preferredLanguage || null,
+    encoder: encoderProfile
+      ? {
+          videoCodec: encoderProfile.videoCodec,
+          preset: encoderProfile.preset,
+          rateControl: encoderProfile.rateControl,
+          crf: encoderProfile.crf,
+          tune: encoderProfile.tune,
+          profile: encoderProfile.profile,
+          level: encoderProfile.level,
+          gopSeconds: encoderProfile.gopSeconds,
+          audioCodec: encoderProfile.audioCodec,
+          audioSampleRate: encoderProfile.audioSampleRate,
+        }
+      : null,
+    aspectMode: channelConfig.aspectMode || 'letterbox',
+    autoCrop: channelConfig.autoCrop === true,
+  };
+}
+
+/**
+ * Content address of a rendition (SHA-256 hex)
+ */
+export function getTranscodeCacheKey(mediaFileId: string, params: TranscodeParams): string {
+  return crypto
+    .createHash('sha256')
+    .update(`${CACHE_FORMAT_VERSION}:${mediaFileId}:${JSON.stringify(params)}`)
+    .digest('hex');
+}
+
+/**
+ * Path of a rendition in the cache directory
+ * Fanned out by the first two key characters to keep directories small
+ */
+export function getTranscodeCachePath(cacheDir: string, cacheKey: string): string {
+  return path.join(cacheDir, cacheKey.slice(0, 2), `${cacheKey}.mp4`);
+}
+
+/**
+ * Metadata of a rendition encoded from a file with the given params
+ * Only the primary audio track is kept, subtitles are dropped
+ */
+export function getCachedRenditionMetadata(source: MediaFileMetadata, params: TranscodeParams): MediaFileMetadata {
+  const primaryTrack = selectHlsTracks(source, params.preferredLanguage || undefined).audioTracks[0];
+  // The kept track is re-encoded at the same level, so its measurement still applies
+  const loudness = getPrimaryLoudness(source, params.preferredLanguage || undefined);
+  return {
+    duration: source.duration,
+    fileSize: source.fileSize,
+    resolution: params.resolution,
+    codec: PROBED_VIDEO_CODECS[params.encoder?.videoCodec || 'libx264'],
+    bitrate: params.videoBitrate + params.audioBitrate,
+    fps: params.fps,
+    audioStreams: primaryTrack
+      ? [
+          {
+            index: 0,
+            codec: PROBED_AUDIO_CODECS[params.encoder?.audioCodec || 'aac'],
+            language: primaryTrack.language,
+            default: true,
+          },
+        ]
+      : [],
+    subtitleStreams: [],
+    loudness: loudness ? { ...loudness, streamIndex: 0 } : undefined,
+  };
+}
+
+/**
+ * Pick renditions to evict so the cache fits in maxBytes, least recently used first
+ * @param protectedKeys - Renditions that must stay (e.g. just written)
+ */
+export function selectLruEvictions(
+  entries: Pick<CachedRendition, 'cacheKey' | 'sizeBytes' | 'lastAccessedAt'>[],
+  maxBytes: number,
+  protectedKeys: Set<string> = new Set()
+): string[] {
+  let totalBytes = entries.reduce((sum, entry) => sum + entry.sizeBytes, 0);
+  const evictions: string[] = [];
+  const oldestFirst = [...entries].sort((a, b) => a.lastAccessedAt.getTime() - b.lastAccessedAt.getTime());
+
+  for (const entry of oldestFirst) {
+    if (totalBytes <= maxBytes) {
+      break;
+    }
+    if (protectedKeys.has(entry.cacheKey)) {
+      continue;
+    }
+    evictions.push(entry.cacheKey);
+    totalBytes -= entry.sizeBytes;
+  }
+  return evictions;
+}
@@ -0,0 +1,87 @@
+import { getAspectFilter, getAutoCropFilter, getBlackBarCrop, parseCropdetectOutput } from '../AspectMode';
+import { MediaFileMetadata } from '../../../domain/media/MediaFile';
+
+describe('AspectMode', () => {
+  describe('parseCropdetectOutput', () => {
+    it('should return the last crop cropdetect reports', () => {
+      const stderr = [
+        '[Parsed_cropdetect_0 @ 0x5581] x1:0 x2:1919 y1:140 y2:939 w:1920 h:800 x:0 y:140 pts:1 t:0.041 crop=1920:800:0:140',
+        '[Parsed_cropdetect_0 @ 0x5581] x1:0 x2:1919 y1:138 y2:941 w:1920 h:804 x:0 y:138 pts:2 t:0.083 crop=1920:804:0:138',
+      ].join('\n');
+
+      expect(parseCropdetectOutput(stderr)).toEqual({ width: 1920, height: 804, x: 0, y: 138 });
+    });
+
+    it('should return undefined when nothing was detected', () => {
+      expect(parseCropdetectOutput('Output file is empty, nothing was encoded')).toBeUndefined();
+    });
+  });
+
+  describe('getBlackBarCrop', () => {
+    const metadata = (crop?: MediaFileMetadata['crop']): MediaFileMetadata => ({
+      duration: 60,
+      fileSize: 1000,
+      resolution: '1920x1080',
+      crop,
+    });
+
+    it('should return the crop of letterboxed and pillarboxed files', () => {
+      expect(getBlackBarCrop(metadata({ width: 1920, height: 800, x: 0, y: 140 }))).toEqual({
+        width: 1920,
+        height: 800,
+        x: 0,
+        y: 140,
+      });
+      expect(getBlackBarCrop(metadata({ width: 1440, height: 1080, x: 240, y: 0 }))).toBeDefined();
+    });
+
+    it('should ignore full-frame, missing and implausibly small crops', () => {
+      expect(getBlackBarCrop(metadata({ width: 1920, height: 1080, x: 0, y: 0 }))).toBeUndefined();
+      expect(getBlackBarCrop(metadata())).toBeUndefined();
+      expect(getBlackBarCrop(metadata({ width: 640, height: 360, x: 640, y: 360 }))).toBeUndefined();
+    });
+  });
+
+  describe('getAspectFilter', () => {
+    it('should letterbox by default', () => {
+      expect(getAspectFilter(1920, 1080)).toBe(
+        'scale=1920:1080:flags=lanczos:force_original_aspect_ratio=decrease,pad=1920:1080:(ow-iw)/2:(oh-ih)/2:black'
+      );
+    });
+
+    it('should crop or stretch to fill the frame', () => {
+      expect(getAspectFilter(1920, 1080, 'crop')).toBe(
+        'scale=1920:1080:flags=lanczos:force_original_aspect_ratio=increase,crop=1920:1080'
+      );
+      expect(getAspectFilter(1920, 1080, 'stretch')).toBe('scale=1920:1080:flags=lanczos,setsar=1');
+    });
+
+    it('should overlay the fitted picture on a blurred background', () => {
+      const filter = getAspectFilter(1280, 720, 'blur');
+
+      expect(filter).toContain('[ar_bg]scale=320:180:force_original_aspect_ratio=increase,crop=320:180,');
+      expect(filter).toContain('[ar_fg]scale=1280:720:flags=lanczos:force_original_aspect_ratio=decrease[ar_main]');
+      expect(filter.endsWith('[ar_blur][ar_main]overlay=(W-w)/2:(H-h)/2')).toBe(true);
+    });
+  });
+
+  describe('getAutoCropFilter', () => {
+    it('should crop each file for its play interval and leave bumpers uncropped', () => {
+      const filter = getAutoCropFilter([
+        { duration: 60, bumperDuration: 6, crop: { width: 1920, height: 800, x: 0, y: 140 } },
+        { duration: 30, bumperDuration: 0 },
+      ]);
+
+      expect(filter).toBe(
+        "sendcmd=c='0.000-60.000 crop@autocrop w 1920, crop@autocrop h 800, crop@autocrop x 0, crop@autocrop y 140; " +
+          '60.000-66.000 crop@autocrop w iw, crop@autocrop h ih, crop@autocrop x 0, crop@autocrop y 0; ' +
+          "66.000 crop@autocrop w iw, crop@autocrop h ih, crop@autocrop x 0, crop@autocrop y 0'," +
+          'crop@autocrop=w=iw:h=ih:x=0:y=0'
+      );
+    });
+
+    it('should return undefined when no file has black bars', () => {
+      expect(getAutoCropFilter([{ duration: 60, bumperDuration: 6 }, { duration: 30, bumperDuration: 0 }])).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { buildDashManifest, getLiveSegmentNumber, toIsoDuration } from '../DashManifest';
+import { DEFAULT_RENDITION_LADDER } from '../RenditionLadder';
+import { ChannelConfig } from '../../../domain/channel/Channel';
+
+describe('DashManifest', () => {
+  const baseConfig: ChannelConfig = {
+    name: 'Test Channel',
+    slug: 'test',
+    outputDir: './output/test',
+    videoBitrate: 1500000,
+    audioBitrate: 128000,
+    resolution: '1920x1080',
+    fps: 30,
+    segmentDuration: 6,
+  };
+  const availabilityStartTime = new Date('2026-01-01T00:00:00.000Z');
+  const now = new Date('2026-01-01T01:00:00.000Z');
+
+  describe('getLiveSegmentNumber', () => {
+    it('should count whole segments since the schedule start', () => {
+      expect(getLiveSegmentNumber(availabilityStartTime, 6, now)).toBe(600);
+      expect(getLiveSegmentNumber(availabilityStartTime, 6, new Date('2026-01-01T00:00:11.999Z'))).toBe(1);
+    });
+
+    it('should never return a negative number', () => {
+      expect(getLiveSegmentNumber(availabilityStartTime, 6, new Date('2025-12-31T23:59:00.000Z'))).toBe(0);
+    });
+  });
+
+  describe('toIsoDuration', () => {
+    it('should format seconds as an ISO 8601 duration', () => {
+      expect(toIsoDuration(6)).toBe('PT6S');
+      expect(toIsoDuration(1.5)).toBe('PT1.5S');
+    });
+  });
+
+  describe('buildDashManifest', () => {
+    it('should describe a dynamic MPD over the HLS fMP4 segments', () => {
+      const manifest = buildDashManifest(baseConfig, { availabilityStartTime, now });
+
+      expect(manifest).toContain('type="dynamic"');
+      expect(manifest).toContain('availabilityStartTime="2026-01-01T00:00:00.000Z"');
+      expect(manifest).toContain('timeShiftBufferDepth="PT180S"');
+      expect(manifest).toContain(
+        '<SegmentTemplate timescale="1000" duration="6000" startNumber="0" initialization="init.mp4" media="stream_$Number%03d$.m4s"/>'
+      );
+      expect(manifest).toContain(
+        '<Representation id="stream" bandwidth="3128000" codecs="avc1.640028,mp4a.40.2" width="1920" height="1080"/>'
+      );
+      expect(manifest).not.toContain('audio/mp4');
+    });
+
+    it('should address ladder renditions by directory and split out audio-only renditions', () => {
+      const manifest = buildDashManifest(
+        { ...baseConfig, renditions: DEFAULT_RENDITION_LADDER },
+        { availabilityStartTime, now }
+      );
+
+      expect(manifest).toContain(
+        'initialization="$RepresentationID$/init.mp4" media="$RepresentationID$/stream_$Number%03d$.m4s"'
+      );
+      expect(manifest.indexOf('id="1080p"')).toBeLessThan(manifest.indexOf('id="480p"'));
+      expect(manifest).toContain('mimeType="audio/mp4"');
+      expect(manifest).toContain('<Representation id="audio" bandwidth="64000" codecs="mp4a.40.2"/>');
+    });
+
+    it('should use assembled parent segments for low-latency channels', () => {
+      const manifest = buildDashManifest(baseConfig, { availabilityStartTime, now, lowLatency: true });
+
+      expect(manifest).toContain('media="llseg_$Number$.m4s"');
+      expect(manifest).toContain('timeShiftBufferDepth="PT60S"');
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import {
+  getAudioEncoderOptions,
+  getGopOptions,
+  getVideoCodecOptions,
+  getVideoRateOptions,
+  validateEncoderProfile,
+} from '../EncoderProfiles';
+import { getAudioCodecString, getVideoCodecString } from '../RenditionLadder';
+import { EncoderProfile } from '../../../domain/encoder/EncoderProfile';
+import { ValidationError } from '../../../utils/errors';
+
+describe('EncoderProfiles', () => {
+  const x264Profile: EncoderProfile = {
+    id: 'profile-1',
+    name: 'Animation',
+    videoCodec: 'libx264',
+    preset: 'medium',
+    rateControl: 'crf',
+    crf: 20,
+    tune: 'animation',
+    profile: 'main',
+    level: '4.0',
+    gopSeconds: 2,
+    audioCodec: 'aac',
+    audioSampleRate: 48000,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  describe('validateEncoderProfile', () => {
+    it('should accept a valid profile', () => {
+      expect(() => validateEncoderProfile(x264Profile)).not.toThrow();
+    });
+
+    it('should reject settings the codec does not support', () => {
+      expect(() =>
+        validateEncoderProfile({ ...x264Profile, videoCodec: 'libsvtav1', preset: 'medium', tune: 'film', crf: 70 })
+      ).toThrow(ValidationError);
+
+      expect(() => validateEncoderProfile({ ...x264Profile, videoCodec: 'libx265', profile: 'high' })).toThrow(
+        expect.objectContaining({ details: ["profile 'high' is not valid for libx265"] })
+      );
+    });
+
+    it('should require a CRF value in CRF mode', () => {
+      expect(() => validateEncoderProfile({ ...x264Profile, crf: undefined })).toThrow(ValidationError);
+      expect(() => validateEncoderProfile({ ...x264Profile, rateControl: 'cbr', crf: undefined })).not.toThrow();
+    });
+  });
+
+  describe('getVideoCodecOptions', () => {
+    it('should translate x264 settings', () => {
+      expect(getVideoCodecOptions(x264Profile)).toEqual([
+        '-preset', 'medium',
+        '-tune', 'animation',
+        '-profile:v', 'main',
+        '-crf', '20',
+        '-level:v', '4.0',
+      ]);
+    });
+
+    it('should tag HEVC as hvc1 and pass the level through x265-params', () => {
+      const options = getVideoCodecOptions({ ...x264Profile, videoCodec: 'libx265', profile: undefined, tune: undefined });
+
+      expect(options).toContain('hvc1');
+      expect(options.slice(-2)).toEqual(['-x265-params', 'level-idc=4.0']);
+    });
+  });
+
+  describe('getVideoRateOptions', () => {
+    it('should keep the legacy capped VBR without a profile', () => {
+      expect(getVideoRateOptions(1500000)).toEqual(['-b:v', '1500000', '-maxrate', '3000000', '-bufsize', '3000000']);
+    });
+
+    it('should drop the target bitrate in CRF mode and pin it in CBR mode', () => {
+      expect(getVideoRateOptions(1500000, x264Profile, 1)).toEqual([
+        '-maxrate:v:1', '3000000',
+        '-bufsize:v:1', '3000000',
+      ]);
+      expect(getVideoRateOptions(1500000, { ...x264Profile, rateControl: 'cbr' })).toEqual([
+        '-b:v', '1500000',
+        '-minrate', '1500000',
+        '-maxrate', '1500000',
+        '-bufsize', '1500000',
+      ]);
+    });
+  });
+
+  describe('getGopOptions', () => {
+    it('should use the profile GOP but never exceed the segment duration', () => {
+      expect(getGopOptions(30, 6, x264Profile)).toEqual([
+        '-force_key_frames', 'expr:gte(t,n_forced*6)',
+        '-g', '60',
+        '-keyint_min', '60',
+      ]);
+      expect(getGopOptions(30, 6, { ...x264Profile, gopSeconds: 10 })).toContain('180');
+      expect(getGopOptions(30, 6)).toContain('180');
+    });
+  });
+
+  describe('getAudioEncoderOptions', () => {
+    it('should only add AAC-LC settings for AAC', () => {
+      expect(getAudioEncoderOptions()).toEqual(['-ar', '44100', '-profile:a', 'aac_low', '-aac_coder', 'twoloop']);
+      expect(getAudioEncoderOptions({ ...x264Profile, audioCodec: 'eac3' })).toEqual(['-ar', '48000']);
+    });
+  });
+
+  describe('codec strings', () => {
+    it('should advertise the codec the profile encodes', () => {
+      expect(getVideoCodecString('1920x1080', 30)).toBe('avc1.640028');
+      expect(getVideoCodecString('1920x1080', 30, x264Profile)).toBe('avc1.4d4028');
+      expect(getVideoCodecString('1920x1080', 30, { videoCodec: 'libx265' })).toBe('hvc1.1.6.L120.90');
+      expect(getVideoCodecString('1920x1080', 60, { videoCodec: 'libsvtav1' })).toBe('av01.0.09M.08');
+      expect(getAudioCodecString({ audioCodec: 'ac3' })).toBe('ac-3');
+      expect(getAudioCodecString()).toBe('mp4a.40.2');
+    });
+  });
+});
@@ -0,0 +1,27 @@
+import { parseFFmpegStats } from '../FFmpegStats';
+
+describe('FFmpegStats', () => {
+  it('should parse a video stats line', () => {
+    const line =
+      'frame=  250 fps= 25 q=28.0 size=    1024kB time=00:01:10.50 bitrate= 838.9kbits/s dup=1 drop=2 speed=1.01x';
+
+    expect(parseFFmpegStats(line)).toEqual({ outTime: 70.5, speed: 1.01, droppedFrames: 2 });
+  });
+
+  it('should parse audio-only lines and missing values', () => {
+    expect(parseFFmpegStats('size=N/A time=01:00:00.00 bitrate=N/A speed=  20x')).toEqual({
+      outTime: 3600,
+      speed: 20,
+    });
+    expect(parseFFmpegStats('frame=    0 fps=0.0 q=0.0 size=N/A time=N/A bitrate=N/A speed=N/A')).toEqual({});
+  });
+
+  it('should keep negative start times negative', () => {
+    expect(parseFFmpegStats('size=0kB time=-00:00:00.04 bitrate=N/A speed=N/A')?.outTime).toBeCloseTo(-0.04);
+  });
+
+  it('should ignore other stderr lines', () => {
+    expect(parseFFmpegStats("[hls @ 0x55d5] Opening 'stream_001.m4s' for writing")).toBeUndefined();
+    expect(parseFFmpegStats('Stream #0:1: Audio: aac, 48000 Hz, stereo')).toBeUndefined();
+  });
+});
@@ -0,0 +1,51 @@
+import { getLiveInputOptions, getSlateGraph, isLiveInputUrl } from '../LiveInput';
+
+describe('LiveInput', () => {
+  describe('isLiveInputUrl', () => {
+    it('should accept HLS, RTMP, SRT and UDP sources', () => {
+      expect(isLiveInputUrl('https://example.com/live/stream.m3u8')).toBe(true);
+      expect(isLiveInputUrl('rtmp://127.0.0.1/live/key')).toBe(true);
+      expect(isLiveInputUrl('srt://127.0.0.1:9000?mode=caller')).toBe(true);
+      expect(isLiveInputUrl('UDP://239.0.0.1:1234')).toBe(true);
+    });
+
+    it('should reject local files and other protocols', () => {
+      expect(isLiveInputUrl('/media/movie.mkv')).toBe(false);
+      expect(isLiveInputUrl('file:///media/movie.mkv')).toBe(false);
+      expect(isLiveInputUrl('ftp://example.com/stream')).toBe(false);
+      expect(isLiveInputUrl('udp://')).toBe(false);
+    });
+  });
+
+  describe('getLiveInputOptions', () => {
+    it('should set the read timeout in microseconds', () => {
+      const options = getLiveInputOptions('srt://127.0.0.1:9000', 10);
+
+      expect(options).toContain('+genpts+discardcorrupt');
+      expect(options[options.indexOf('-rw_timeout') + 1]).toBe('10000000');
+      expect(options).not.toContain('-re');
+      expect(options).not.toContain('-reconnect');
+    });
+
+    it('should reconnect HTTP sources and tolerate UDP overruns', () => {
+      expect(getLiveInputOptions('https://example.com/live.m3u8', 5)).toEqual(
+        expect.arrayContaining(['-reconnect', '-reconnect_streamed', '-reconnect_on_network_error'])
+      );
+      expect(getLiveInputOptions('udp://127.0.0.1:1234', 5)).toEqual(
+        expect.arrayContaining(['-overrun_nonfatal', '-fifo_size'])
+      );
+    });
+  });
+
+  describe('getSlateGraph', () => {
+    it('should render escaped text over black with silent audio', () => {
+      const graph = getSlateGraph(1280, 720, 30, 'Back soon: stay tuned');
+
+      expect(graph).toBe(
+        'color=c=black:s=1280x720:r=30,' +
+          'drawtext=text=Back soon\\: stay tuned:fontcolor=white:fontsize=40:x=(w-text_w)/2:y=(h-text_h)/2[out0];' +
+          'anullsrc=r=48000:cl=stereo[out1]'
+      );
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { getLoudnessFilter, getLoudnessGain, getPrimaryLoudness, parseLoudnormOutput } from '../Loudness';
+import { LoudnessMeasurement, MediaFileMetadata } from '../../../domain/media/MediaFile';
+
+describe('Loudness', () => {
+  const measurement = (integrated: number, truePeak: number): LoudnessMeasurement => ({
+    streamIndex: 0,
+    integrated,
+    truePeak,
+    lra: 7,
+    threshold: integrated - 10,
+  });
+
+  describe('parseLoudnormOutput', () => {
+    it('should parse the JSON summary at the end of the output', () => {
+      const stderr = [
+        'Input #0, matroska,webm, from \'movie.mkv\':',
+        '[Parsed_loudnorm_0 @ 0x55d5c8a3c240] ',
+        '{',
+        '\t"input_i" : "-27.61",',
+        '\t"input_tp" : "-4.47",',
+        '\t"input_lra" : "18.06",',
+        '\t"input_thresh" : "-39.20",',
+        '\t"output_i" : "-24.58",',
+        '\t"target_offset" : "0.58"',
+        '}',
+      ].join('\n');
+
+      expect(parseLoudnormOutput(stderr, 1)).toEqual({
+        streamIndex: 1,
+        integrated: -27.61,
+        truePeak: -4.47,
+        lra: 18.06,
+        threshold: -39.2,
+      });
+    });
+
+    it('should return undefined for silent or missing summaries', () => {
+      const silent = '{ "input_i" : "-inf", "input_tp" : "-inf", "input_lra" : "0.00", "input_thresh" : "-inf" }';
+
+      expect(parseLoudnormOutput(silent, 0)).toBeUndefined();
+      expect(parseLoudnormOutput('Output file is empty, nothing was encoded', 0)).toBeUndefined();
+    });
+  });
+
+  describe('getLoudnessGain', () => {
+    it('should cut loud files to the target', () => {
+      expect(getLoudnessGain(measurement(-14, 0.5), -23, -1)).toBe(-9);
+    });
+
+    it('should cap boosts at the true-peak ceiling', () => {
+      expect(getLoudnessGain(measurement(-30, -4), -23, -1)).toBe(3);
+      expect(getLoudnessGain(measurement(-30, -10), -23, -1)).toBe(7);
+      expect(getLoudnessGain(measurement(-60, -50), -23, -1)).toBe(20);
+    });
+  });
+
+  describe('getLoudnessFilter', () => {
+    it('should use realtime loudnorm without a fully measured timeline', () => {
+      expect(getLoudnessFilter({ target: -23, truePeakCeiling: -2 })).toBe('loudnorm=I=-23:TP=-2:LRA=11');
+      expect(
+        getLoudnessFilter({
+          target: -23,
+          truePeakCeiling: -2,
+          timeline: [{ duration: 60, measurement: measurement(-20, -3) }, { duration: 60 }],
+        })
+      ).toBe('loudnorm=I=-23:TP=-2:LRA=11');
+    });
+
+    it('should apply each file its own gain when every file is measured', () => {
+      const filter = getLoudnessFilter({
+        target: -23,
+        truePeakCeiling: -1,
+        timeline: [
+          { duration: 60, measurement: measurement(-17, 0) },
+          { duration: 30.5, measurement: measurement(-23, -5) },
+        ],
+      });
+
+      expect(filter).toBe(
+        "volume=eval=frame:volume='0.5012*gte(t,0.000)*lt(t,60.000)+1.0000*gte(t,60.000)',alimiter=limit=0.8913:level=0"
+      );
+    });
+  });
+
+  describe('getPrimaryLoudness', () => {
+    const metadata: MediaFileMetadata = {
+      duration: 60,
+      fileSize: 1000,
+      audioStreams: [
+        { index: 0, codec: 'aac', language: 'jpn', default: true },
+        { index: 1, codec: 'aac', language: 'eng', default: false },
+      ],
+      loudness: measurement(-20, -3),
+    };
+
+    it('should return the measurement of the track the channel plays', () => {
+      expect(getPrimaryLoudness(metadata)).toEqual(metadata.loudness);
+    });
+
+    it('should ignore measurements of another track', () => {
+      expect(getPrimaryLoudness(metadata, 'eng')).toBeUndefined();
+    });
+  });
+});
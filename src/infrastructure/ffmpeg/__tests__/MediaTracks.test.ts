@@ -0,0 +1,86 @@
+import { selectHlsTracks, hasAlternateTracks } from '../MediaTracks';
+import { buildMasterPlaylist } from '../RenditionLadder';
+import { MediaFileMetadata } from '../../../domain/media/MediaFile';
+
+describe('MediaTracks', () => {
+  const animeMetadata: MediaFileMetadata = {
+    duration: 1440,
+    fileSize: 1000,
+    audioStreams: [
+      { index: 0, codec: 'aac', language: 'jpn', default: true },
+      { index: 1, codec: 'aac', language: 'eng', default: false },
+    ],
+    subtitleStreams: [
+      { index: 0, codec: 'hdmv_pgs_subtitle', language: 'eng', default: false },
+      { index: 1, codec: 'ass', language: 'eng', title: 'Full Subs', default: false },
+    ],
+  };
+
+  describe('selectHlsTracks', () => {
+    it('should use the preferred language as the primary audio track', () => {
+      const { audioTracks } = selectHlsTracks(animeMetadata, 'eng');
+
+      expect(audioTracks.map((t) => t.streamIndex)).toEqual([1, 0]);
+      expect(audioTracks[0]).toMatchObject({ name: 'audio_1', label: 'English', default: true });
+    });
+
+    it('should fall back to the container default track', () => {
+      const { audioTracks } = selectHlsTracks(animeMetadata);
+
+      expect(audioTracks[0]).toMatchObject({ streamIndex: 0, language: 'jpn', default: true });
+    });
+
+    it('should skip bitmap subtitles and default subtitles on when the preferred language is not spoken', () => {
+      const { subtitleTracks } = selectHlsTracks(
+        { ...animeMetadata, audioStreams: [animeMetadata.audioStreams![0]] },
+        'eng'
+      );
+
+      expect(subtitleTracks).toEqual([
+        { streamIndex: 1, name: 'subs_1', language: 'eng', label: 'Full Subs', default: true },
+      ]);
+    });
+
+    it('should not default subtitles when the preferred language is spoken', () => {
+      const { subtitleTracks } = selectHlsTracks(animeMetadata, 'eng');
+
+      expect(subtitleTracks[0].default).toBe(false);
+    });
+
+    it('should return no tracks for files without stream info', () => {
+      const tracks = selectHlsTracks({ duration: 10, fileSize: 10 });
+
+      expect(tracks).toEqual({ audioTracks: [], subtitleTracks: [] });
+      expect(hasAlternateTracks(tracks)).toBe(false);
+    });
+  });
+
+  describe('master playlist renditions', () => {
+    it('should emit EXT-X-MEDIA groups and reference them from variants', () => {
+      const playlist = buildMasterPlaylist(
+        {
+          name: 'Anime',
+          slug: 'anime',
+          outputDir: './output/anime',
+          videoBitrate: 1500000,
+          audioBitrate: 128000,
+          resolution: '1920x1080',
+          fps: 30,
+          segmentDuration: 6,
+        },
+        selectHlsTracks(animeMetadata, 'jpn')
+      );
+
+      expect(playlist).toContain(
+        '#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aud",NAME="Japanese",LANGUAGE="ja",DEFAULT=YES,AUTOSELECT=YES\n'
+      );
+      expect(playlist).toContain(
+        '#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aud",NAME="English",LANGUAGE="en",DEFAULT=NO,AUTOSELECT=YES,URI="audio_1/stream.m3u8"'
+      );
+      expect(playlist).toContain(
+        '#EXT-X-MEDIA:TYPE=SUBTITLES,GROUP-ID="subs",NAME="Full Subs",LANGUAGE="en",DEFAULT=NO,AUTOSELECT=YES,FORCED=NO,URI="subs_1/stream.m3u8"'
+      );
+      expect(playlist).toContain('AUDIO="aud",SUBTITLES="subs"\nstream.m3u8');
+    });
+  });
+});
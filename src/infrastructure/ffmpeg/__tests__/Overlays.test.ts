@@ -0,0 +1,99 @@
+import { getClockText, getOverlayEnableExpression, getOverlayFilters, StreamOverlay } from '../Overlays';
+import { ChannelOverlay } from '../../../domain/overlay/Overlay';
+
+describe('Overlays', () => {
+  // 18:00:00 local time -> stream t=0 is 64800 seconds into the day
+  const streamStart = new Date(2024, 0, 1, 18, 0, 0);
+
+  const overlay = (overrides: Partial<ChannelOverlay>): ChannelOverlay => ({
+    id: 'overlay-1',
+    channelId: 'channel-1',
+    type: 'image',
+    enabled: true,
+    zIndex: 0,
+    position: 'top-left',
+    offsetX: 10,
+    offsetY: 10,
+    opacity: 1,
+    settings: {},
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+
+  describe('getClockText', () => {
+    it('should wrap the format in a localtime expansion', () => {
+      expect(getClockText()).toBe('%{localtime:%H\\:%M}');
+      expect(getClockText('%d.%m. %H:%M:%S')).toBe('%{localtime:%d.%m. %H\\:%M\\:%S}');
+    });
+  });
+
+  describe('getOverlayEnableExpression', () => {
+    it('should return undefined for layers without a schedule', () => {
+      expect(getOverlayEnableExpression(undefined, streamStart)).toBeUndefined();
+      expect(getOverlayEnableExpression({}, streamStart)).toBeUndefined();
+    });
+
+    it('should offset time windows by the wall-clock start', () => {
+      expect(getOverlayEnableExpression({ startTime: '18:30', endTime: '20:00' }, streamStart)).toBe(
+        '(between(mod(t+64800,86400),66600,72000))'
+      );
+    });
+
+    it('should wrap windows that cross midnight', () => {
+      expect(getOverlayEnableExpression({ startTime: '22:00', endTime: '06:00' }, streamStart)).toBe(
+        '(gte(mod(t+64800,86400),79200)+lt(mod(t+64800,86400),21600))'
+      );
+    });
+
+    it('should combine windows and cycles', () => {
+      expect(
+        getOverlayEnableExpression({ startTime: '20:00', intervalSeconds: 300, visibleSeconds: 30 }, streamStart)
+      ).toBe('(gte(mod(t+64800,86400),72000))*(lt(mod(t+64800,300),30))');
+    });
+  });
+
+  describe('getOverlayFilters', () => {
+    it('should chain image and text layers bottom to top', () => {
+      const layers: StreamOverlay[] = [
+        {
+          overlay: overlay({ position: 'bottom-right', opacity: 0.5, settings: { imageWidth: 200 } }),
+          imagePath: '/tmp/overlays/overlay-1.png',
+        },
+        {
+          overlay: overlay({ id: 'overlay-2', type: 'clock', position: 'top-right' }),
+          textPath: '/tmp/overlays/overlay-2.txt',
+        },
+      ];
+
+      expect(getOverlayFilters(layers, 1, '[base]', '[v]', streamStart)).toEqual([
+        '[1:v]format=yuva420p,scale=200:-1,colorchannelmixer=aa=0.5[img0]',
+        '[base][img0]overlay=x=W-w-10:y=H-h-10:eof_action=repeat[ov0]',
+        '[ov0]drawtext=textfile=/tmp/overlays/overlay-2.txt:reload=1:expansion=normal:fontsize=32:' +
+          'fontcolor=white@1:x=w-text_w-10:y=10[v]',
+      ]);
+    });
+
+    it('should scroll tickers and add boxes and schedules', () => {
+      const layers: StreamOverlay[] = [
+        {
+          overlay: overlay({
+            type: 'ticker',
+            position: 'bottom',
+            offsetY: 40,
+            settings: { scrollSpeed: 150, backgroundColor: 'black@0.6' },
+            schedule: { intervalSeconds: 600, visibleSeconds: 60 },
+          }),
+          textPath: '/tmp/overlays/ticker.txt',
+        },
+      ];
+
+      const [filter] = getOverlayFilters(layers, 2, '[base]', '[v]', streamStart);
+      expect(filter).toContain('expansion=none');
+      expect(filter).toContain("x='w-mod(t*150,w+text_w)':y=h-text_h-40");
+      expect(filter).toContain('box=1:boxcolor=black@0.6:boxborderw=10');
+      expect(filter).toContain("enable='(lt(mod(t+64800,600),60))'");
+      expect(filter.endsWith('[v]')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import {
+  getPassthroughBlockers,
+  getPassthroughMismatches,
+  getPassthroughRun,
+  isPassthroughEnabled,
+} from '../Passthrough';
+import { DEFAULT_RENDITION_LADDER } from '../RenditionLadder';
+import { ChannelConfig } from '../../../domain/channel/Channel';
+import { EncoderProfile } from '../../../domain/encoder/EncoderProfile';
+import { MediaFile, MediaFileMetadata } from '../../../domain/media/MediaFile';
+
+describe('Passthrough', () => {
+  const channelConfig: ChannelConfig = {
+    name: 'Test Channel',
+    slug: 'test',
+    outputDir: './output/test',
+    videoBitrate: 1500000,
+    audioBitrate: 128000,
+    resolution: '1920x1080',
+    fps: 30,
+    segmentDuration: 6,
+    passthrough: true,
+  };
+
+  const compliant: MediaFileMetadata = {
+    duration: 1320,
+    fileSize: 1000,
+    resolution: '1920x1080',
+    codec: 'h264',
+    bitrate: 2500000,
+    fps: 30,
+    audioStreams: [{ index: 0, codec: 'aac', language: 'eng', default: true }],
+  };
+  const hevc: MediaFileMetadata = { ...compliant, codec: 'hevc' };
+
+  const createMedia = (metadata: MediaFileMetadata[]) =>
+    metadata.map((m, i) => new MediaFile(`/media/file${i}.mkv`, m, { showName: 'Show' }));
+
+  describe('getPassthroughMismatches', () => {
+    it('should accept H.264/AAC at the channel resolution and frame rate', () => {
+      expect(getPassthroughMismatches(compliant, channelConfig)).toEqual([]);
+    });
+
+    it('should list every mismatch', () => {
+      const mismatches = getPassthroughMismatches(
+        { ...hevc, resolution: '1280x720', fps: 23.98, bitrate: 9000000, audioStreams: [] },
+        channelConfig
+      );
+
+      expect(mismatches).toEqual([
+        'video codec hevc (channel: h264)',
+        'resolution 1280x720 (channel: 1920x1080)',
+        'fps 23.98 (channel: 30)',
+        'audio codec unknown (channel: aac)',
+        'bitrate 9000000 (channel peak: 3128000)',
+      ]);
+    });
+
+    it('should check the preferred-language audio track and the encoder profile codecs', () => {
+      const dualAudio: MediaFileMetadata = {
+        ...hevc,
+        audioStreams: [
+          { index: 0, codec: 'aac', language: 'jpn', default: true },
+          { index: 1, codec: 'eac3', language: 'eng', default: false },
+        ],
+      };
+      const profile = { videoCodec: 'libx265', audioCodec: 'eac3' } as EncoderProfile;
+
+      expect(getPassthroughMismatches(dualAudio, { ...channelConfig, preferredLanguage: 'eng' }, profile)).toEqual([]);
+      expect(getPassthroughMismatches(dualAudio, channelConfig, profile)).toEqual(['audio codec aac (channel: eac3)']);
+    });
+
+    it('should transcode files with black bars on auto-crop channels', () => {
+      const letterboxed: MediaFileMetadata = { ...compliant, crop: { width: 1920, height: 800, x: 0, y: 140 } };
+
+      expect(getPassthroughMismatches(letterboxed, channelConfig)).toEqual([]);
+      expect(getPassthroughMismatches(letterboxed, { ...channelConfig, autoCrop: true })).toEqual([
+        'black bars (channel crops them)',
+      ]);
+    });
+  });
+
+  describe('getPassthroughBlockers', () => {
+    it('should block passthrough for features that re-encode every frame', () => {
+      expect(getPassthroughBlockers(channelConfig)).toEqual([]);
+      expect(
+        getPassthroughBlockers({
+          ...channelConfig,
+          renditions: DEFAULT_RENDITION_LADDER,
+          watermarkImageBase64: 'iVBORw0KGgo=',
+          lowLatency: true,
+          loudnessTarget: -23,
+        })
+      ).toEqual(['rendition ladder', 'watermark', 'low-latency HLS', 'loudness normalization']);
+      expect(isPassthroughEnabled({ ...channelConfig, lowLatency: true })).toBe(false);
+      expect(isPassthroughEnabled({ ...channelConfig, passthrough: false })).toBe(false);
+    });
+  });
+
+  describe('getPassthroughRun', () => {
+    it('should stream-copy a conforming file on its own', () => {
+      const media = createMedia([compliant, compliant, hevc]);
+
+      expect(getPassthroughRun(media, 0, channelConfig)).toEqual({ copy: true, startIndex: 0, endIndex: 1 });
+    });
+
+    it('should transcode non-conforming files up to the next conforming file', () => {
+      const media = createMedia([hevc, hevc, compliant, hevc]);
+
+      expect(getPassthroughRun(media, 0, channelConfig)).toEqual({ copy: false, startIndex: 0, endIndex: 2 });
+      expect(getPassthroughRun(media, 3, channelConfig)).toEqual({ copy: false, startIndex: 3, endIndex: 4 });
+    });
+  });
+});
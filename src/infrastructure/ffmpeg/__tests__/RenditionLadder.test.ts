@@ -0,0 +1,103 @@
+import path from 'path';
+import {
+  DEFAULT_RENDITION_LADDER,
+  buildMasterPlaylist,
+  getH264CodecString,
+  getH264Level,
+  getPrimaryPlaylistPath,
+  hasRenditionLadder,
+  isValidRenditionName,
+} from '../RenditionLadder';
+import { ChannelConfig } from '../../../domain/channel/Channel';
+
+describe('RenditionLadder', () => {
+  const baseConfig: ChannelConfig = {
+    name: 'Test Channel',
+    slug: 'test',
+    outputDir: './output/test',
+    videoBitrate: 1500000,
+    audioBitrate: 128000,
+    resolution: '1920x1080',
+    fps: 30,
+    segmentDuration: 6,
+  };
+
+  describe('getH264Level', () => {
+    it('should pick the lowest level that fits resolution and frame rate', () => {
+      expect(getH264Level('640x360', 30)).toBe(30);
+      expect(getH264Level('854x480', 30)).toBe(31);
+      expect(getH264Level('1280x720', 30)).toBe(31);
+      expect(getH264Level('1280x720', 60)).toBe(32);
+      expect(getH264Level('1920x1080', 30)).toBe(40);
+      expect(getH264Level('1920x1080', 60)).toBe(42);
+    });
+  });
+
+  describe('getH264CodecString', () => {
+    it('should encode the level as hex in a High profile codec string', () => {
+      expect(getH264CodecString(40)).toBe('avc1.640028');
+      expect(getH264CodecString(31)).toBe('avc1.64001f');
+    });
+  });
+
+  describe('hasRenditionLadder', () => {
+    it('should require at least one video rendition', () => {
+      expect(hasRenditionLadder(undefined)).toBe(false);
+      expect(hasRenditionLadder([])).toBe(false);
+      expect(hasRenditionLadder([{ name: 'audio', audioBitrate: 64000 }])).toBe(false);
+      expect(hasRenditionLadder(DEFAULT_RENDITION_LADDER)).toBe(true);
+    });
+  });
+
+  describe('isValidRenditionName', () => {
+    it('should reject names that are not path-safe', () => {
+      expect(isValidRenditionName('720p')).toBe(true);
+      expect(isValidRenditionName('../etc')).toBe(false);
+      expect(isValidRenditionName('a/b')).toBe(false);
+      expect(isValidRenditionName('')).toBe(false);
+    });
+  });
+
+  describe('getPrimaryPlaylistPath', () => {
+    it('should use the legacy layout without a ladder', () => {
+      expect(getPrimaryPlaylistPath('/hls/test')).toBe(path.join('/hls/test', 'stream.m3u8'));
+    });
+
+    it('should use the first video rendition directory with a ladder', () => {
+      const ladder = [{ name: 'audio', audioBitrate: 64000 }, ...DEFAULT_RENDITION_LADDER];
+      expect(getPrimaryPlaylistPath('/hls/test', ladder)).toBe(path.join('/hls/test', '1080p', 'stream.m3u8'));
+    });
+  });
+
+  describe('buildMasterPlaylist', () => {
+    it('should list a single stream.m3u8 variant without a ladder', () => {
+      const playlist = buildMasterPlaylist(baseConfig);
+
+      expect(playlist).toContain('#EXTM3U');
+      expect(playlist).toContain(
+        '#EXT-X-STREAM-INF:BANDWIDTH=3128000,AVERAGE-BANDWIDTH=1628000,CODECS="avc1.640028,mp4a.40.2",RESOLUTION=1920x1080,FRAME-RATE=30.000\nstream.m3u8'
+      );
+    });
+
+    it('should list every rendition highest bandwidth first with audio-only last', () => {
+      const playlist = buildMasterPlaylist({ ...baseConfig, renditions: DEFAULT_RENDITION_LADDER });
+      const uris = playlist.split('\n').filter((line) => line && !line.startsWith('#'));
+
+      expect(uris).toEqual(['1080p/stream.m3u8', '720p/stream.m3u8', '480p/stream.m3u8', 'audio/stream.m3u8']);
+      expect(playlist).toContain('CODECS="avc1.64001f,mp4a.40.2",RESOLUTION=1280x720');
+      expect(playlist).toContain('#EXT-X-STREAM-INF:BANDWIDTH=64000,AVERAGE-BANDWIDTH=64000,CODECS="mp4a.40.2"\naudio/stream.m3u8');
+    });
+
+    it('should declare version 7 for fMP4 media playlists', () => {
+      expect(buildMasterPlaylist(baseConfig)).toContain('#EXT-X-VERSION:7');
+    });
+
+    it('should list only video renditions without audio when the source is silent', () => {
+      const playlist = buildMasterPlaylist({ ...baseConfig, renditions: DEFAULT_RENDITION_LADDER }, undefined, undefined, false);
+      const uris = playlist.split('\n').filter((line) => line && !line.startsWith('#'));
+
+      expect(uris).toEqual(['1080p/stream.m3u8', '720p/stream.m3u8', '480p/stream.m3u8']);
+      expect(playlist).toContain('#EXT-X-STREAM-INF:BANDWIDTH=2400000,AVERAGE-BANDWIDTH=1200000,CODECS="avc1.64001f",RESOLUTION=854x480');
+    });
+  });
+});
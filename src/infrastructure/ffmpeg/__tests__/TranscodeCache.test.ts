@@ -0,0 +1,117 @@
+import {
+  getCachedRenditionMetadata,
+  getTranscodeCacheKey,
+  getTranscodeCachePath,
+  getTranscodeParams,
+  selectLruEvictions,
+} from '../TranscodeCache';
+import { isPassthroughCompatible } from '../Passthrough';
+import { ChannelConfig } from '../../../domain/channel/Channel';
+import { EncoderProfile } from '../../../domain/encoder/EncoderProfile';
+import { MediaFileMetadata } from '../../../domain/media/MediaFile';
+
+describe('TranscodeCache', () => {
+  const channelConfig: ChannelConfig = {
+    name: 'Test Channel',
+    slug: 'test',
+    outputDir: './output/test',
+    videoBitrate: 1500000,
+    audioBitrate: 128000,
+    resolution: '1920x1080',
+    fps: 30,
+    segmentDuration: 6,
+  };
+
+  const profile: EncoderProfile = {
+    id: 'profile-1',
+    name: 'HEVC',
+    videoCodec: 'libx265',
+    preset: 'medium',
+    rateControl: 'crf',
+    crf: 24,
+    audioCodec: 'eac3',
+    audioSampleRate: 48000,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  describe('getTranscodeCacheKey', () => {
+    it('should be stable for the same media and settings', () => {
+      const key = getTranscodeCacheKey('media-1', getTranscodeParams(channelConfig, undefined, 'fast'));
+
+      expect(key).toMatch(/^[0-9a-f]{64}$/);
+      expect(getTranscodeCacheKey('media-1', getTranscodeParams({ ...channelConfig, name: 'Other' }, undefined, 'fast'))).toBe(key);
+      expect(getTranscodeCachePath('/cache', key)).toBe(`/cache/${key.slice(0, 2)}/${key}.mp4`);
+    });
+
+    it('should change with anything that affects the encode', () => {
+      const key = getTranscodeCacheKey('media-1', getTranscodeParams(channelConfig, undefined, 'fast'));
+
+      expect(getTranscodeCacheKey('media-2', getTranscodeParams(channelConfig, undefined, 'fast'))).not.toBe(key);
+      expect(getTranscodeCacheKey('media-1', getTranscodeParams(channelConfig, undefined, 'slow'))).not.toBe(key);
+      expect(getTranscodeCacheKey('media-1', getTranscodeParams({ ...channelConfig, fps: 25 }, undefined, 'fast'))).not.toBe(key);
+      expect(getTranscodeCacheKey('media-1', getTranscodeParams(channelConfig, profile, 'fast'))).not.toBe(key);
+    });
+
+    it('should ignore the global preset and profile metadata when a profile is set', () => {
+      const key = getTranscodeCacheKey('media-1', getTranscodeParams(channelConfig, profile, 'fast'));
+
+      expect(getTranscodeCacheKey('media-1', getTranscodeParams(channelConfig, profile, 'slow'))).toBe(key);
+      expect(
+        getTranscodeCacheKey('media-1', getTranscodeParams(channelConfig, { ...profile, id: 'profile-2', name: 'Copy' }, 'fast'))
+      ).toBe(key);
+    });
+  });
+
+  describe('getCachedRenditionMetadata', () => {
+    it('should describe a rendition that passthrough channels can stream-copy', () => {
+      const source: MediaFileMetadata = {
+        duration: 1320,
+        fileSize: 1000,
+        resolution: '1280x720',
+        codec: 'mpeg4',
+        fps: 23.976,
+        audioStreams: [
+          { index: 0, codec: 'mp3', language: 'jpn', default: true },
+          { index: 1, codec: 'ac3', language: 'eng', default: false },
+        ],
+        subtitleStreams: [{ index: 0, codec: 'subrip', language: 'eng', default: false }],
+      };
+      const config = { ...channelConfig, preferredLanguage: 'eng', passthrough: true };
+      const params = getTranscodeParams(config, profile, 'fast');
+
+      const metadata = getCachedRenditionMetadata(source, params);
+
+      expect(metadata.audioStreams).toEqual([{ index: 0, codec: 'eac3', language: 'eng', default: true }]);
+      expect(metadata.subtitleStreams).toEqual([]);
+      expect(isPassthroughCompatible(source, config, profile)).toBe(false);
+      expect(isPassthroughCompatible(metadata, config, profile)).toBe(true);
+    });
+  });
+
+  describe('selectLruEvictions', () => {
+    const entry = (cacheKey: string, sizeBytes: number, lastAccessedAt: string) => ({
+      cacheKey,
+      sizeBytes,
+      lastAccessedAt: new Date(lastAccessedAt),
+    });
+
+    it('should evict least recently used renditions until the cache fits', () => {
+      const entries = [
+        entry('new', 40, '2024-01-03'),
+        entry('old', 40, '2024-01-01'),
+        entry('mid', 40, '2024-01-02'),
+      ];
+
+      expect(selectLruEvictions(entries, 120)).toEqual([]);
+      expect(selectLruEvictions(entries, 100)).toEqual(['old']);
+      expect(selectLruEvictions(entries, 40)).toEqual(['old', 'mid']);
+    });
+
+    it('should never evict protected renditions', () => {
+      const entries = [entry('old', 40, '2024-01-01'), entry('mid', 40, '2024-01-02')];
+
+      expect(selectLruEvictions(entries, 40, new Set(['old']))).toEqual(['mid']);
+    });
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Minimal Prometheus metrics (text exposition format 0.0.4)
+ *
+ * Counters, gauges and histograms with labels, rendered by a registry for /metrics.
+ * Values that live elsewhere (channel state, pool usage) are copied in by collect
+ * callbacks, which run right before each render.
+ */
+
+export type Labels = Record<string, string>;
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+/** Default histogram buckets (seconds) */
+export const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+// Label values escape backslashes, quotes and newlines
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) {
+    return 'NaN';
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? '+Inf' : '-Inf';
+  }
+  return String(value);
+}
+
+// Series key: labels in a fixed order, so { a, b } and { b, a } are the same series
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(Object.keys(labels).sort().map((name) => [name, labels[name]]));
+}
+
+abstract class Metric {
+  constructor(
+    public readonly name: string,
+    public readonly help: string,
+    public readonly type: MetricType
+  ) {}
+
+  /**
+   * Sample lines of the metric (without HELP/TYPE)
+   */
+  public abstract samples(): string[];
+
+  /**
+   * Drop all series (e.g. of channels that no longer exist)
+   */
+  public abstract reset(): void;
+}
+
+/**
+ * Value per label set
+ */
+abstract class ValueMetric extends Metric {
+  protected series: Map<string, { labels: Labels; value: number }> = new Map();
+
+  public get(labels: Labels = {}): number {
+    return this.series.get(seriesKey(labels))?.value ?? 0;
+  }
+
+  public samples(): string[] {
+    return [...this.series.values()].map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`
+    );
+  }
+
+  /**
+   * Drop one series (e.g. of a process that ended)
+   */
+  public remove(labels: Labels): void {
+    this.series.delete(seriesKey(labels));
+  }
+
+  public reset(): void {
+    this.series.clear();
+  }
+
+  protected add(labels: Labels, amount: number): void {
+    const key = seriesKey(labels);
+    const entry = this.series.get(key);
+    if (entry) {
+      entry.value += amount;
+    } else {
+      this.series.set(key, { labels, value: amount });
+    }
+  }
+
+  protected setValue(labels: Labels, value: number): void {
+    this.series.set(seriesKey(labels), { labels, value });
+  }
+}
+
+/**
+ * Monotonically increasing count
+ */
+export class Counter extends ValueMetric {
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  public inc(labels: Labels = {}, amount: number = 1): void {
+    if (amount < 0) {
+      throw new Error(`Counter ${this.name} cannot decrease`);
+    }
+    this.add(labels, amount);
+  }
+}
+
+/**
+ * Value that goes up and down
+ */
+export class Gauge extends ValueMetric {
+  constructor(name: string, help: string) {
+    super(name, help, 'gauge');
+  }
+
+  public set(labels: Labels, value: number): void {
+    this.setValue(labels, value);
+  }
+
+  public inc(labels: Labels = {}, amount: number = 1): void {
+    this.add(labels, amount);
+  }
+
+  public dec(labels: Labels = {}, amount: number = 1): void {
+    this.add(labels, -amount);
+  }
+}
+
+/**
+ * Distribution of observed values in cumulative buckets
+ */
+export class Histogram extends Metric {
+  private readonly buckets: number[];
+  private series: Map<string, { labels: Labels; counts: number[]; sum: number; count: number }> = new Map();
+
+  constructor(name: string, help: string, buckets: number[] = DEFAULT_BUCKETS) {
+    super(name, help, 'histogram');
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  public observe(labels: Labels, value: number): void {
+    const key = seriesKey(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, entry);
+    }
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) {
+        entry!.counts[i]++;
+      }
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  public samples(): string[] {
+    const lines: string[] = [];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${counts[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(sum)}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+
+  public reset(): void {
+    this.series.clear();
+  }
+}
+
+/**
+ * Set of metrics rendered together
+ */
+export class MetricsRegistry {
+  private metrics: Map<string, Metric> = new Map();
+  private collectors: Array<() => void | Promise<void>> = [];
+
+  public register<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+
+  /**
+   * Run a callback before each render (to copy in values kept elsewhere)
+   */
+  public addCollector(collector: () => void | Promise<void>): void {
+    this.collectors.push(collector);
+  }
+
+  /**
+   * Render all metrics in the Prometheus text format
+   */
+  public async render(): Promise<string> {
+    for (const collector of this.collectors) {
+      await collector();
+    }
+
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      lines.push(`# HELP ${metric.name} ${metric.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      lines.push(...metric.samples());
+    }
+    return lines.join('\n') + '\n';
+  }
+}
@@ -0,0 +1,70 @@
+import { Counter, Gauge, Histogram, MetricsRegistry } from './MetricsRegistry';
+
+/**
+ * Streaming metrics exposed at /metrics
+ *
+ * Series are labelled by channel ID; hls_channel_info maps IDs to slugs and names.
+ * Event metrics are updated where they happen, state gauges by collectors registered
+ * with the /metrics route.
+ */
+export const metricsRegistry = new MetricsRegistry();
+
+export const channelInfo = metricsRegistry.register(
+  new Gauge('hls_channel_info', 'Channel slug and name (always 1)')
+);
+
+export const channelState = metricsRegistry.register(
+  new Gauge('hls_channel_state', 'Channel state (1 for the current state, 0 otherwise)')
+);
+
+export const activeViewers = metricsRegistry.register(
+  new Gauge('hls_active_viewers', 'Active viewer sessions')
+);
+
+export const bytesServed = metricsRegistry.register(
+  new Counter('hls_bytes_served_total', 'Segment bytes served to viewers')
+);
+
+export const ffmpegRestarts = metricsRegistry.register(
+  new Counter('hls_ffmpeg_restarts_total', 'FFmpeg restarts (reason: crash or manual)')
+);
+
+export const ffmpegEncodeSpeed = metricsRegistry.register(
+  new Gauge('hls_ffmpeg_encode_speed', 'FFmpeg encode speed as a multiple of realtime (below 1 falls behind)')
+);
+
+export const ffmpegDroppedFrames = metricsRegistry.register(
+  new Counter('hls_ffmpeg_dropped_frames_total', 'Frames dropped by FFmpeg')
+);
+
+export const segmentGenerationSeconds = metricsRegistry.register(
+  new Histogram(
+    'hls_segment_generation_seconds',
+    'Wall-clock time FFmpeg took to produce each segment (segment duration when keeping up)',
+    [0.5, 1, 2, 4, 6, 8, 10, 15, 20, 30, 60]
+  )
+);
+
+export const bumperGenerationSeconds = metricsRegistry.register(
+  new Histogram('hls_bumper_generation_seconds', 'Time to render a bumper MP4', [1, 2, 5, 10, 20, 30, 60, 120])
+);
+
+export const epgCacheRequests = metricsRegistry.register(
+  new Counter('hls_epg_cache_requests_total', 'EPG lookups by cache result (hit or miss)')
+);
+
+export const epgCacheEntries = metricsRegistry.register(
+  new Gauge('hls_epg_cache_entries', 'Channels in the in-memory EPG cache')
+);
+
+export const segmentCacheRequests = metricsRegistry.register(
+  new Counter('hls_segment_cache_requests_total', 'Segment reads by cache result (hit or miss)')
+);
+
+export const segmentCacheBytes = metricsRegistry.register(
+  new Gauge('hls_segment_cache_bytes', 'Segment bytes held in memory')
+);
+
+export const dbPoolConnections = metricsRegistry.register(
+  new Gauge('hls_db_pool_connections', 'Database pool connections (state: total, idle or waiting clients)')
+);
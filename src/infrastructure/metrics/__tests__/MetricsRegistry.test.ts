@@ -0,0 +1,73 @@
+import { Counter, Gauge, Histogram, MetricsRegistry } from '../MetricsRegistry';
+
+describe('MetricsRegistry', () => {
+  it('should render counters and gauges with labels', async () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.register(new Counter('test_requests_total', 'Requests'));
+    const gauge = registry.register(new Gauge('test_viewers', 'Viewers'));
+
+    counter.inc({ channel: 'a' });
+    counter.inc({ channel: 'a' }, 2);
+    gauge.set({ channel: 'a', name: 'News "24"' }, 5);
+
+    expect(await registry.render()).toBe(
+      [
+        '# HELP test_requests_total Requests',
+        '# TYPE test_requests_total counter',
+        'test_requests_total{channel="a"} 3',
+        '# HELP test_viewers Viewers',
+        '# TYPE test_viewers gauge',
+        'test_viewers{channel="a",name="News \\"24\\""} 5',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should treat labels in any order as one series', () => {
+    const gauge = new Gauge('test_gauge', 'Gauge');
+
+    gauge.inc({ a: '1', b: '2' });
+    gauge.inc({ b: '2', a: '1' });
+    gauge.dec({ a: '1', b: '2' }, 0.5);
+
+    expect(gauge.get({ a: '1', b: '2' })).toBe(1.5);
+    expect(gauge.samples()).toHaveLength(1);
+  });
+
+  it('should reject counter decrements', () => {
+    const counter = new Counter('test_total', 'Total');
+
+    expect(() => counter.inc({}, -1)).toThrow();
+  });
+
+  it('should render cumulative histogram buckets', () => {
+    const histogram = new Histogram('test_seconds', 'Seconds', [1, 5]);
+
+    histogram.observe({}, 0.5);
+    histogram.observe({}, 2);
+    histogram.observe({}, 10);
+
+    expect(histogram.samples()).toEqual([
+      'test_seconds_bucket{le="1"} 1',
+      'test_seconds_bucket{le="5"} 2',
+      'test_seconds_bucket{le="+Inf"} 3',
+      'test_seconds_sum 12.5',
+      'test_seconds_count 3',
+    ]);
+  });
+
+  it('should run collectors before rendering', async () => {
+    const registry = new MetricsRegistry();
+    const gauge = registry.register(new Gauge('test_pool', 'Pool'));
+    registry.addCollector(() => gauge.set({}, 7));
+
+    expect(await registry.render()).toContain('test_pool 7');
+  });
+
+  it('should reject duplicate metric names', () => {
+    const registry = new MetricsRegistry();
+    registry.register(new Gauge('test_dup', 'Dup'));
+
+    expect(() => registry.register(new Counter('test_dup', 'Dup'))).toThrow();
+  });
+});
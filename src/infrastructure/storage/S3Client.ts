@@ -0,0 +1,218 @@
+import crypto from 'crypto';
+
+/** Hash of an empty payload (GET/DELETE/LIST requests) */
+const EMPTY_PAYLOAD_HASH = crypto.createHash('sha256').update('').digest('hex');
+
+/** Keys returned per ListObjectsV2 page */
+const LIST_PAGE_SIZE = 1000;
+
+export interface S3ClientConfig {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** {endpoint}/{bucket}/{key} instead of {bucket}.{endpoint-host}/{key} */
+  forcePathStyle: boolean;
+  /** Seconds to wait for a response */
+  timeout?: number;
+}
+
+export interface SignRequestOptions {
+  method: string;
+  url: URL;
+  /** Headers to sign (host and x-amz-* headers are added) */
+  headers: Record<string, string>;
+  /** Hex SHA-256 of the body */
+  payloadHash: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  region: string;
+  service?: string;
+  date: Date;
+}
+
+/**
+ * Percent-encode a string as AWS expects (RFC 3986, slashes optionally kept)
+ */
+export function encodeS3Path(value: string, keepSlashes = true): string {
+  const encoded = encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+  return keepSlashes ? encoded.replace(/%2F/g, '/') : encoded;
+}
+
+function hmac(key: crypto.BinaryLike, value: string): Buffer {
+  return crypto.createHmac('sha256', key).update(value).digest();
+}
+
+/**
+ * Sign a request with AWS Signature Version 4
+ * @returns The headers to send (the given headers plus host, x-amz-date, x-amz-content-sha256 and authorization)
+ */
+export function signS3Request(options: SignRequestOptions): Record<string, string> {
+  const service = options.service || 's3';
+  const amzDate = options.date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(options.headers)) {
+    headers[name.toLowerCase()] = value;
+  }
+  headers.host = options.url.host;
+  headers['x-amz-date'] = amzDate;
+  headers['x-amz-content-sha256'] = options.payloadHash;
+
+  const signedHeaderNames = Object.keys(headers).sort();
+  const canonicalHeaders = signedHeaderNames
+    .map((name) => `${name}:${headers[name].trim().replace(/\s+/g, ' ')}\n`)
+    .join('');
+  const canonicalQuery = [...options.url.searchParams.entries()]
+    .map(([name, value]) => [encodeS3Path(name, false), encodeS3Path(value, false)])
+    .sort(([a, aValue], [b, bValue]) => (a === b ? (aValue < bValue ? -1 : 1) : a < b ? -1 : 1))
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&');
+
+  const canonicalRequest = [
+    options.method,
+    options.url.pathname,
+    canonicalQuery,
+    canonicalHeaders,
+    signedHeaderNames.join(';'),
+    options.payloadHash,
+  ].join('\n');
+
+  const scope = `${dateStamp}/${options.region}/${service}/aws4_request`;
+  const stringToSign = [
+    'AWS4-HMAC-SHA256',
+    amzDate,
+    scope,
+    crypto.createHash('sha256').update(canonicalRequest).digest('hex'),
+  ].join('\n');
+
+  const signingKey = hmac(
+    hmac(hmac(hmac(`AWS4${options.secretAccessKey}`, dateStamp), options.region), service),
+    'aws4_request'
+  );
+  const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  headers.authorization =
+    `AWS4-HMAC-SHA256 Credential=${options.accessKeyId}/${scope}, ` +
+    `SignedHeaders=${signedHeaderNames.join(';')}, Signature=${signature}`;
+  return headers;
+}
+
+/**
+ * Minimal client for S3-compatible object storage (AWS S3, MinIO, R2, ...)
+ * Supports what segment publishing needs: put, delete and list objects.
+ */
+export class S3Client {
+  constructor(private readonly options: S3ClientConfig) {}
+
+  /**
+   * Upload an object (replacing any existing one)
+   */
+  public async putObject(
+    key: string,
+    body: Buffer,
+    contentType: string,
+    cacheControl?: string
+  ): Promise<void> {
+    const headers: Record<string, string> = {
+      'content-type': contentType,
+      'content-length': String(body.length),
+    };
+    if (cacheControl) {
+      headers['cache-control'] = cacheControl;
+    }
+    await this.send('PUT', this.objectUrl(key), headers, body);
+  }
+
+  /**
+   * Delete an object (succeeds when it doesn't exist)
+   */
+  public async deleteObject(key: string): Promise<void> {
+    await this.send('DELETE', this.objectUrl(key), {});
+  }
+
+  /**
+   * Keys of all objects under a prefix
+   */
+  public async listObjects(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const url = this.objectUrl('');
+      url.searchParams.set('list-type', '2');
+      url.searchParams.set('prefix', prefix);
+      url.searchParams.set('max-keys', String(LIST_PAGE_SIZE));
+      if (continuationToken) {
+        url.searchParams.set('continuation-token', continuationToken);
+      }
+
+      const xml = await (await this.send('GET', url, {})).text();
+      for (const match of xml.matchAll(/<Key>([^<]*)<\/Key>/g)) {
+        keys.push(decodeXml(match[1]));
+      }
+      const truncated = /<IsTruncated>true<\/IsTruncated>/.test(xml);
+      const token = xml.match(/<NextContinuationToken>([^<]*)<\/NextContinuationToken>/);
+      continuationToken = truncated && token ? decodeXml(token[1]) : undefined;
+    } while (continuationToken);
+
+    return keys;
+  }
+
+  private objectUrl(key: string): URL {
+    const endpoint = new URL(this.options.endpoint);
+    const basePath = endpoint.pathname.replace(/\/+$/, '');
+    if (this.options.forcePathStyle) {
+      return new URL(`${endpoint.origin}${basePath}/${encodeS3Path(this.options.bucket)}/${encodeS3Path(key)}`);
+    }
+    return new URL(`${endpoint.protocol}//${this.options.bucket}.${endpoint.host}${basePath}/${encodeS3Path(key)}`);
+  }
+
+  private async send(
+    method: string,
+    url: URL,
+    headers: Record<string, string>,
+    body?: Buffer
+  ): Promise<Response> {
+    const payloadHash = body ? crypto.createHash('sha256').update(body).digest('hex') : EMPTY_PAYLOAD_HASH;
+    const signedHeaders = signS3Request({
+      method,
+      url,
+      headers,
+      payloadHash,
+      accessKeyId: this.options.accessKeyId,
+      secretAccessKey: this.options.secretAccessKey,
+      region: this.options.region,
+      date: new Date(),
+    });
+    // fetch sets the host header itself
+    delete signedHeaders.host;
+
+    const response = await fetch(url, {
+      method,
+      headers: signedHeaders,
+      body,
+      signal: AbortSignal.timeout((this.options.timeout ?? 30) * 1000),
+    });
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      const code = text.match(/<Code>([^<]*)<\/Code>/);
+      throw new Error(`S3 ${method} ${url.pathname} failed: HTTP ${response.status}${code ? ` ${code[1]}` : ''}`);
+    }
+    return response;
+  }
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,320 @@
+import fs from 'fs/promises';
+import { FSWatcher, watch } from 'fs';
+import path from 'path';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('SegmentCache');
+
+/** Media segments FFmpeg writes once (via a temp file), loaded as soon as they appear */
+const SEGMENT_PATTERN = /^stream_(\d+)\.(m4s|ts|vtt)$/;
+
+/** Files served from the cache (segments, init segments, the starting placeholder) */
+const CACHEABLE_PATTERN = /^(stream_\d+\.(m4s|ts|vtt)|starting\.m4s|init(_[a-z0-9_-]+)?\.mp4)$/;
+
+/** Playlist FFmpeg writes in each output directory */
+const PLAYLIST_FILENAME = 'stream.m3u8';
+
+/** Wait this long after the last change event before loading a file (writes come in bursts) */
+const LOAD_DELAY_MS = 50;
+
+/** Stop watching directories without requests for this long */
+const IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface CachedSegment {
+  body: Buffer;
+  etag: string;
+  lastModified: Date;
+}
+
+interface WatchedDirectory {
+  watcher: FSWatcher;
+  lastAccess: number;
+  loadTimers: Map<string, NodeJS.Timeout>;
+}
+
+/**
+ * First segment number of a playlist's window (undefined when it lists no numbered segments)
+ */
+export function getPlaylistWindowStart(playlist: string): number | undefined {
+  let start: number | undefined;
+  for (const match of playlist.matchAll(/stream_(\d+)\.(m4s|ts|vtt)/g)) {
+    const number = parseInt(match[1], 10);
+    if (start === undefined || number < start) {
+      start = number;
+    }
+  }
+  return start;
+}
+
+/**
+ * In-memory cache of the segments in channel output directories
+ *
+ * Each directory is watched once it is first requested: new segments are read as FFmpeg
+ * renames them into place, so viewers are served from memory instead of a stat and read per
+ * request. Segments that fall out of the directory's playlist window are evicted, and the oldest
+ * entries go first when the cache is over its byte limit. With a limit of 0 nothing is kept and
+ * every read goes to disk.
+ */
+export class SegmentCache {
+  // Insertion order doubles as the eviction order (oldest first)
+  private entries: Map<string, CachedSegment> = new Map();
+  private loading: Map<string, Promise<CachedSegment | null>> = new Map();
+  private directories: Map<string, WatchedDirectory> = new Map();
+  private totalBytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private sweepInterval?: NodeJS.Timeout;
+
+  constructor(private readonly maxBytes: number) {}
+
+  /**
+   * Get a file of an output directory, from memory or disk (null when it doesn't exist)
+   */
+  public async read(dir: string, filename: string): Promise<CachedSegment | null> {
+    const key = path.join(dir, filename);
+    if (this.maxBytes <= 0 || !CACHEABLE_PATTERN.test(filename)) {
+      return this.readFile(key);
+    }
+
+    const directory = this.watchDirectory(dir);
+    if (!directory) {
+      return this.readFile(key);
+    }
+    directory.lastAccess = Date.now();
+
+    const cached = this.entries.get(key);
+    if (cached) {
+      this.hits++;
+      return cached;
+    }
+    this.misses++;
+    return this.load(key);
+  }
+
+  public getStats(): { entries: number; bytes: number; directories: number; hits: number; misses: number } {
+    return {
+      entries: this.entries.size,
+      bytes: this.totalBytes,
+      directories: this.directories.size,
+      hits: this.hits,
+      misses: this.misses,
+    };
+  }
+
+  /**
+   * Stop all watchers and drop cached segments
+   */
+  public close(): void {
+    if (this.sweepInterval) {
+      clearInterval(this.sweepInterval);
+      this.sweepInterval = undefined;
+    }
+    for (const dir of [...this.directories.keys()]) {
+      this.unwatchDirectory(dir);
+    }
+  }
+
+  private async readFile(filePath: string): Promise<CachedSegment | null> {
+    try {
+      const handle = await fs.open(filePath, 'r');
+      try {
+        const [stats, body] = await Promise.all([handle.stat(), handle.readFile()]);
+        return {
+          body,
+          etag: `"${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`,
+          lastModified: stats.mtime,
+        };
+      } finally {
+        await handle.close();
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Read a file into the cache (concurrent requests share one read)
+   */
+  private load(key: string): Promise<CachedSegment | null> {
+    const pending = this.loading.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const promise = this.readFile(key)
+      .then((segment) => {
+        // Skip storing when the file changed while it was read (a newer load is under way)
+        if (segment && this.loading.get(key) === promise && this.directories.has(path.dirname(key))) {
+          this.store(key, segment);
+        }
+        return segment;
+      })
+      .finally(() => {
+        if (this.loading.get(key) === promise) {
+          this.loading.delete(key);
+        }
+      });
+    this.loading.set(key, promise);
+    return promise;
+  }
+
+  private store(key: string, segment: CachedSegment): void {
+    this.remove(key);
+    this.entries.set(key, segment);
+    this.totalBytes += segment.body.length;
+
+    for (const [oldestKey] of this.entries) {
+      if (this.totalBytes <= this.maxBytes) {
+        break;
+      }
+      this.remove(oldestKey);
+    }
+  }
+
+  private remove(key: string): void {
+    const segment = this.entries.get(key);
+    if (segment) {
+      this.entries.delete(key);
+      this.totalBytes -= segment.body.length;
+    }
+  }
+
+  /**
+   * Start watching a directory (undefined when it can't be watched, e.g. it doesn't exist yet)
+   */
+  private watchDirectory(dir: string): WatchedDirectory | undefined {
+    const existing = this.directories.get(dir);
+    if (existing) {
+      return existing;
+    }
+
+    let watcher: FSWatcher;
+    try {
+      watcher = watch(dir, { persistent: false }, (_event, filename) => {
+        if (filename) {
+          this.onFileEvent(dir, filename.toString());
+        }
+      });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn({ error, dir }, 'Failed to watch output directory (serving from disk)');
+      }
+      return undefined;
+    }
+
+    watcher.on('error', (error) => {
+      logger.debug({ error, dir }, 'Output directory watcher failed');
+      this.unwatchDirectory(dir);
+    });
+
+    const directory: WatchedDirectory = { watcher, lastAccess: Date.now(), loadTimers: new Map() };
+    this.directories.set(dir, directory);
+    this.startSweep();
+    logger.debug({ dir }, 'Watching output directory');
+    return directory;
+  }
+
+  private unwatchDirectory(dir: string): void {
+    const directory = this.directories.get(dir);
+    if (!directory) {
+      return;
+    }
+    directory.watcher.close();
+    for (const timer of directory.loadTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.directories.delete(dir);
+
+    for (const key of [...this.entries.keys()]) {
+      if (path.dirname(key) === dir) {
+        this.remove(key);
+      }
+    }
+  }
+
+  /**
+   * A file was created, replaced, changed or deleted: drop the cached copy and reload new segments
+   */
+  private onFileEvent(dir: string, filename: string): void {
+    const directory = this.directories.get(dir);
+    if (!directory) {
+      return;
+    }
+
+    if (filename === PLAYLIST_FILENAME) {
+      void this.applyPlaylistWindow(dir);
+      return;
+    }
+    if (!CACHEABLE_PATTERN.test(filename)) {
+      return;
+    }
+
+    const key = path.join(dir, filename);
+    this.remove(key);
+    this.loading.delete(key);
+
+    if (SEGMENT_PATTERN.test(filename)) {
+      clearTimeout(directory.loadTimers.get(filename));
+      directory.loadTimers.set(
+        filename,
+        setTimeout(() => {
+          directory.loadTimers.delete(filename);
+          this.load(key).catch((error) => {
+            logger.debug({ error, key }, 'Failed to load segment');
+          });
+        }, LOAD_DELAY_MS)
+      );
+    }
+  }
+
+  /**
+   * Evict segments before the start of the directory's playlist window
+   */
+  private async applyPlaylistWindow(dir: string): Promise<void> {
+    let playlist: string;
+    try {
+      playlist = await fs.readFile(path.join(dir, PLAYLIST_FILENAME), 'utf-8');
+    } catch {
+      return;
+    }
+
+    const windowStart = getPlaylistWindowStart(playlist);
+    if (windowStart === undefined) {
+      return;
+    }
+    for (const key of [...this.entries.keys()]) {
+      if (path.dirname(key) !== dir) {
+        continue;
+      }
+      const match = path.basename(key).match(SEGMENT_PATTERN);
+      if (match && parseInt(match[1], 10) < windowStart) {
+        this.remove(key);
+      }
+    }
+  }
+
+  /**
+   * Periodically stop watching idle directories (channels nobody watches)
+   */
+  private startSweep(): void {
+    if (this.sweepInterval) {
+      return;
+    }
+    this.sweepInterval = setInterval(() => {
+      const idleSince = Date.now() - IDLE_TIMEOUT_MS;
+      for (const [dir, directory] of this.directories) {
+        if (directory.lastAccess < idleSince) {
+          this.unwatchDirectory(dir);
+        }
+      }
+      if (this.directories.size === 0 && this.sweepInterval) {
+        clearInterval(this.sweepInterval);
+        this.sweepInterval = undefined;
+      }
+    }, IDLE_TIMEOUT_MS / 5);
+    this.sweepInterval.unref();
+  }
+}
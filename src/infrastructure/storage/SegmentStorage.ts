@@ -0,0 +1,45 @@
+import path from 'path';
+import { config } from '../../config/env';
+import { ChannelConfig, StorageBackend } from '../../domain/channel/Channel';
+import { S3ClientConfig } from './S3Client';
+
+/**
+ * Output directory of a channel for a storage backend
+ * tmpfs channels write under TMPFS_OUTPUT_DIR; local and s3 channels write to the HLS output directory
+ * (s3 channels publish from there)
+ */
+export function getChannelOutputDir(slug: string, backend: StorageBackend = 'local'): string {
+  if (backend === 'tmpfs') {
+    return path.join(config.storage.tmpfsDir, slug);
+  }
+  return `./hls_output/${slug}`;
+}
+
+/**
+ * Key prefix of a channel's objects in the bucket ({S3_PREFIX}{slug}/)
+ */
+export function getChannelObjectPrefix(slug: string): string {
+  return `${config.storage.s3.prefix}${slug}/`;
+}
+
+/**
+ * Public URL of a channel's published output (or of one of its variant directories)
+ * @returns undefined unless the channel publishes to S3 and CDN_BASE_URL is set
+ */
+export function getChannelCdnUrl(channelConfig: ChannelConfig, variant?: string): string | undefined {
+  if (channelConfig.storageBackend !== 's3' || !config.storage.cdnBaseUrl) {
+    return undefined;
+  }
+  return [config.storage.cdnBaseUrl, channelConfig.slug, variant].filter(Boolean).join('/');
+}
+
+/**
+ * S3 connection settings (undefined when the endpoint, bucket or credentials aren't configured)
+ */
+export function getS3ClientConfig(): S3ClientConfig | undefined {
+  const { endpoint, region, bucket, accessKeyId, secretAccessKey, forcePathStyle } = config.storage.s3;
+  if (!endpoint || !bucket || !accessKeyId || !secretAccessKey) {
+    return undefined;
+  }
+  return { endpoint, region, bucket, accessKeyId, secretAccessKey, forcePathStyle };
+}
@@ -0,0 +1,89 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { SegmentCache, getPlaylistWindowStart } from '../SegmentCache';
+
+jest.mock('../../../utils/logger', () => ({
+  createLogger: jest.fn().mockReturnValue({
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }),
+}));
+
+describe('getPlaylistWindowStart', () => {
+  it('should return the lowest segment number in the playlist', () => {
+    const playlist = [
+      '#EXTM3U',
+      '#EXT-X-MEDIA-SEQUENCE:41',
+      '#EXT-X-MAP:URI="init.mp4"',
+      '#EXTINF:6.000000,',
+      'stream_041.m4s',
+      '#EXTINF:6.000000,',
+      'stream_042.m4s',
+    ].join('\n');
+
+    expect(getPlaylistWindowStart(playlist)).toBe(41);
+  });
+
+  it('should return undefined without numbered segments', () => {
+    expect(getPlaylistWindowStart('#EXTM3U\n#EXTINF:6.0,\nstarting.m4s\n')).toBeUndefined();
+  });
+});
+
+describe('SegmentCache', () => {
+  let dir: string;
+  let cache: SegmentCache;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'segment-cache-'));
+  });
+
+  afterEach(async () => {
+    cache.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should read a segment from disk once and serve it from memory', async () => {
+    cache = new SegmentCache(1024 * 1024);
+    await fs.writeFile(path.join(dir, 'stream_001.m4s'), 'segment-1');
+
+    const first = await cache.read(dir, 'stream_001.m4s');
+    const second = await cache.read(dir, 'stream_001.m4s');
+
+    expect(first?.body.toString()).toBe('segment-1');
+    expect(first?.etag).toMatch(/^"[0-9a-f]+-[0-9a-f]+"$/);
+    expect(second).toBe(first);
+    expect(cache.getStats()).toMatchObject({ entries: 1, bytes: 9, hits: 1, misses: 1 });
+  });
+
+  it('should return null for missing segments', async () => {
+    cache = new SegmentCache(1024 * 1024);
+
+    expect(await cache.read(dir, 'stream_404.m4s')).toBeNull();
+    expect(cache.getStats().entries).toBe(0);
+  });
+
+  it('should evict the oldest segments above the byte limit', async () => {
+    cache = new SegmentCache(20);
+    for (const number of [1, 2, 3]) {
+      await fs.writeFile(path.join(dir, `stream_00${number}.m4s`), `segment-${number}`);
+    }
+    for (const number of [1, 2, 3]) {
+      await cache.read(dir, `stream_00${number}.m4s`);
+    }
+
+    expect(cache.getStats()).toMatchObject({ entries: 2, bytes: 18 });
+    await cache.read(dir, 'stream_001.m4s');
+    expect(cache.getStats().misses).toBe(4);
+  });
+
+  it('should read from disk every time when disabled', async () => {
+    cache = new SegmentCache(0);
+    await fs.writeFile(path.join(dir, 'init.mp4'), 'init');
+
+    expect((await cache.read(dir, 'init.mp4'))?.body.toString()).toBe('init');
+    expect(cache.getStats()).toMatchObject({ entries: 0, directories: 0 });
+  });
+});
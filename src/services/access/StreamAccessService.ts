@@ -0,0 +1,224 @@
+import crypto from 'crypto';
+import { config } from '../../config/env';
+import { Channel } from '../../domain/channel/Channel';
+import { CreateViewerTokenData, ViewerToken } from '../../domain/access/ViewerToken';
+import { ViewerTokenRepository } from '../../infrastructure/database/repositories/ViewerTokenRepository';
+import { ViewerSessionService } from '../viewer/ViewerSessionService';
+import { getSignedStreamQuery, isValidStreamSignature } from './StreamSignature';
+import { createLogger } from '../../utils/logger';
+import {
+  AuthenticationError,
+  AuthorizationError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '../../utils/errors';
+
+const logger = createLogger('StreamAccessService');
+
+/**
+ * Signature parameters of a stream request (?exp=...&sig=...)
+ */
+export interface StreamUrlParams {
+  expires?: string;
+  signature?: string;
+}
+
+/**
+ * Service for stream access control on channels that require signed URLs
+ *
+ * Players enter through the master playlist: either with a viewer token (?token=..., minted by
+ * admins and linked from /playlist.m3u) or with a signed entry URL from the admin API. The master playlist
+ * then signs every variant and segment URL for the player's viewer session. Signed URLs expire
+ * after STREAM_URL_TTL seconds; each playlist is rendered with freshly signed URLs, so players
+ * keep fetching new segments while the TTL bounds how long one master playlist stays usable.
+ * Revoking a viewer token ends the sessions that entered with it, and their URLs are refused
+ * until they would have expired. Channels without signed URLs stay open to anyone with the slug.
+ */
+export class StreamAccessService {
+  private readonly tokenRepository: ViewerTokenRepository;
+  private readonly viewerSessionService: ViewerSessionService;
+  // Sessions of revoked viewer tokens: session ID -> refused until (ms)
+  private readonly revokedSessions: Map<string, number> = new Map();
+
+  constructor(viewerSessionService: ViewerSessionService) {
+    this.tokenRepository = new ViewerTokenRepository();
+    this.viewerSessionService = viewerSessionService;
+  }
+
+  /**
+   * Check if a channel only accepts signed URLs
+   */
+  public requiresSignedUrls(channel: Channel): boolean {
+    return channel.config.signedUrls === true;
+  }
+
+  /**
+   * Query string signing a channel's URLs for a viewer session ('' when the channel is open)
+   * Pass no session token for entry URLs (master playlist links handed out to admins)
+   */
+  public getSignedQuery(channel: Channel, sessionToken?: string): string {
+    if (!this.requiresSignedUrls(channel)) {
+      return '';
+    }
+    return getSignedStreamQuery(channel.id, sessionToken, config.security.streamUrlTtl, config.viewer.sessionSecret);
+  }
+
+  /**
+   * Authorize a master playlist request (viewer token or signed entry URL)
+   * @returns The viewer token the player entered with
+   */
+  public async authorizeEntry(
+    channel: Channel,
+    token: string | undefined,
+    params: StreamUrlParams
+  ): Promise<ViewerToken | undefined> {
+    if (!this.requiresSignedUrls(channel)) {
+      return undefined;
+    }
+    if (token) {
+      return this.validateToken(token, channel.id);
+    }
+    this.verifySignature(channel, undefined, params);
+    return undefined;
+  }
+
+  /**
+   * Signed master playlist path for a channel (admin previews of protected channels)
+   */
+  public getEntryPath(channel: Channel): string {
+    const signedQuery = this.getSignedQuery(channel);
+    return `/${channel.config.slug}/master.m3u8${signedQuery ? `?${signedQuery}` : ''}`;
+  }
+
+  /**
+   * Authorize a media playlist or segment request (URL signed for the viewer session)
+   */
+  public authorizeStream(channel: Channel, sessionToken: string | undefined, params: StreamUrlParams): void {
+    if (!this.requiresSignedUrls(channel)) {
+      return;
+    }
+    if (!sessionToken) {
+      throw new AuthenticationError('Signed stream URL required');
+    }
+    this.verifySignature(channel, sessionToken, params);
+
+    const sessionId = this.viewerSessionService.getSessionId(channel.id, sessionToken);
+    const revokedUntil = sessionId ? this.revokedSessions.get(sessionId) : undefined;
+    if (revokedUntil && revokedUntil > Date.now()) {
+      throw new AuthorizationError('Viewer token revoked');
+    }
+  }
+
+  /**
+   * Get the token behind a plain token value
+   * @param channelId - Also require the token to allow this channel
+   */
+  public async validateToken(token: string, channelId?: string): Promise<ViewerToken> {
+    const viewerToken = await this.tokenRepository.findByHash(this.hashToken(token));
+    if (!viewerToken || viewerToken.revokedAt || (viewerToken.expiresAt && viewerToken.expiresAt <= new Date())) {
+      throw new AuthenticationError('Invalid or expired viewer token');
+    }
+    if (channelId && !this.canWatch(viewerToken, channelId)) {
+      throw new AuthorizationError('Viewer token does not allow this channel');
+    }
+
+    this.tokenRepository.markUsed(viewerToken.id).catch((error) => {
+      logger.warn({ error, tokenId: viewerToken.id }, 'Failed to record viewer token use');
+    });
+    return viewerToken;
+  }
+
+  /**
+   * Check if a token allows a channel
+   */
+  public canWatch(viewerToken: ViewerToken, channelId: string): boolean {
+    return !viewerToken.channelIds || viewerToken.channelIds.includes(channelId);
+  }
+
+  /**
+   * Mint a viewer token
+   * The token value is only returned here - just its hash is stored
+   */
+  public async createToken(data: CreateViewerTokenData): Promise<{ token: string; viewerToken: ViewerToken }> {
+    if (data.expiresAt && data.expiresAt <= new Date()) {
+      throw new ValidationError('expiresAt must be in the future');
+    }
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    const viewerToken = await this.tokenRepository.create(this.hashToken(token), data);
+    logger.info({ tokenId: viewerToken.id, name: viewerToken.name }, 'Viewer token created');
+    return { token, viewerToken };
+  }
+
+  /**
+   * List tokens, newest first
+   */
+  public async listTokens(): Promise<ViewerToken[]> {
+    return this.tokenRepository.findAll();
+  }
+
+  /**
+   * Get a token
+   */
+  public async getToken(id: string): Promise<ViewerToken> {
+    const viewerToken = await this.tokenRepository.findById(id);
+    if (!viewerToken) {
+      throw new NotFoundError(`Viewer token '${id}'`);
+    }
+    return viewerToken;
+  }
+
+  /**
+   * Revoke a token (playlists requested with it are rejected from now on)
+   * Sessions that entered with it end, and their URLs are refused until they expire
+   */
+  public async revokeToken(id: string): Promise<ViewerToken> {
+    const revoked = await this.tokenRepository.revoke(id);
+    if (!revoked) {
+      await this.getToken(id);
+      throw new ConflictError(`Viewer token '${id}' is already revoked`);
+    }
+
+    const now = Date.now();
+    for (const [sessionId, until] of this.revokedSessions) {
+      if (until <= now) {
+        this.revokedSessions.delete(sessionId);
+      }
+    }
+    const sessionIds = await this.viewerSessionService.endTokenSessions(id);
+    for (const sessionId of sessionIds) {
+      this.revokedSessions.set(sessionId, now + config.security.streamUrlTtl * 1000);
+    }
+
+    logger.info({ tokenId: id, endedSessions: sessionIds.length }, 'Viewer token revoked');
+    return revoked;
+  }
+
+  /**
+   * Check a URL signature and its expiry
+   */
+  private verifySignature(channel: Channel, sessionToken: string | undefined, params: StreamUrlParams): void {
+    // Channels enabled before the secret was unset: anyone could sign with the default API key
+    if (!config.viewer.hasSigningSecret) {
+      throw new AuthorizationError('Signed URLs are disabled until VIEWER_SESSION_SECRET or API_KEY is set');
+    }
+    if (!params.expires || !params.signature) {
+      throw new AuthenticationError('Viewer token or signed stream URL required');
+    }
+    const expires = Number(params.expires);
+    if (
+      !Number.isInteger(expires) ||
+      !isValidStreamSignature(channel.id, sessionToken, expires, params.signature, config.viewer.sessionSecret)
+    ) {
+      throw new AuthorizationError('Invalid stream URL signature');
+    }
+    if (expires * 1000 <= Date.now()) {
+      throw new AuthorizationError('Stream URL expired');
+    }
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,47 @@
+import crypto from 'crypto';
+
+/**
+ * Signature of a channel's stream URLs until expires (unix seconds)
+ * URLs handed to a viewer session also bind its session token, so a signature can't be
+ * reused with another session
+ */
+export function signStreamUrl(
+  channelId: string,
+  sessionToken: string | undefined,
+  expires: number,
+  secret: string
+): string {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${channelId}:${sessionToken || ''}:${expires}`)
+    .digest('base64url');
+}
+
+/**
+ * Query string with an expiry and signature for a channel's stream URLs
+ */
+export function getSignedStreamQuery(
+  channelId: string,
+  sessionToken: string | undefined,
+  ttlSeconds: number,
+  secret: string,
+  now: number = Date.now()
+): string {
+  const expires = Math.floor(now / 1000) + ttlSeconds;
+  return `exp=${expires}&sig=${signStreamUrl(channelId, sessionToken, expires, secret)}`;
+}
+
+/**
+ * Check a stream URL signature (expiry is checked by the caller)
+ */
+export function isValidStreamSignature(
+  channelId: string,
+  sessionToken: string | undefined,
+  expires: number,
+  signature: string,
+  secret: string
+): boolean {
+  const expected = Buffer.from(signStreamUrl(channelId, sessionToken, expires, secret));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,99 @@
+import { StreamAccessService } from '../StreamAccessService';
+import { getSignedStreamQuery } from '../StreamSignature';
+import { ViewerSessionService } from '../../viewer/ViewerSessionService';
+import { ViewerTokenRepository } from '../../../infrastructure/database/repositories/ViewerTokenRepository';
+import { Channel } from '../../../domain/channel/Channel';
+import { config } from '../../../config/env';
+import { AuthorizationError } from '../../../utils/errors';
+
+jest.mock('../../../infrastructure/database/repositories/ViewerTokenRepository');
+jest.mock('../../../utils/logger', () => ({
+  createLogger: jest.fn().mockReturnValue({
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }),
+}));
+jest.mock('../../../config/env', () => ({
+  config: {
+    security: {
+      streamUrlTtl: 3600,
+    },
+    viewer: {
+      sessionSecret: 'test-secret-for-streams',
+      hasSigningSecret: true,
+    },
+  },
+}));
+
+describe('StreamAccessService', () => {
+  const secret = 'test-secret-for-streams';
+  const sessionToken = 'session-1.signature';
+  const channel = { id: 'channel-1', config: { slug: 'news', signedUrls: true } } as unknown as Channel;
+
+  let viewerSessionService: { getSessionId: jest.Mock; endTokenSessions: jest.Mock };
+  let tokenRepository: jest.Mocked<ViewerTokenRepository>;
+  let streamAccessService: StreamAccessService;
+
+  const signedParams = (ttlSeconds: number) => {
+    const params = new URLSearchParams(getSignedStreamQuery(channel.id, sessionToken, ttlSeconds, secret));
+    return { expires: params.get('exp') || undefined, signature: params.get('sig') || undefined };
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    viewerSessionService = {
+      getSessionId: jest.fn().mockReturnValue('session-1'),
+      endTokenSessions: jest.fn().mockResolvedValue([]),
+    };
+    streamAccessService = new StreamAccessService(viewerSessionService as unknown as ViewerSessionService);
+    tokenRepository = (ViewerTokenRepository as jest.MockedClass<typeof ViewerTokenRepository>).mock
+      .instances[0] as jest.Mocked<ViewerTokenRepository>;
+  });
+
+  describe('authorizeStream', () => {
+    it('should accept URLs signed for the session', () => {
+      expect(() => streamAccessService.authorizeStream(channel, sessionToken, signedParams(60))).not.toThrow();
+    });
+
+    it('should reject expired URLs', () => {
+      expect(() => streamAccessService.authorizeStream(channel, sessionToken, signedParams(-60))).toThrow(
+        'Stream URL expired'
+      );
+    });
+
+    it('should reject every URL without a signing secret', () => {
+      const viewerConfig = config.viewer as { hasSigningSecret: boolean };
+      viewerConfig.hasSigningSecret = false;
+      try {
+        expect(() => streamAccessService.authorizeStream(channel, sessionToken, signedParams(60))).toThrow(
+          AuthorizationError
+        );
+      } finally {
+        viewerConfig.hasSigningSecret = true;
+      }
+    });
+
+    it('should reject the sessions of revoked tokens', async () => {
+      tokenRepository.revoke.mockResolvedValue({ id: 'token-1' } as never);
+      viewerSessionService.endTokenSessions.mockResolvedValue(['session-1']);
+
+      await streamAccessService.revokeToken('token-1');
+
+      expect(viewerSessionService.endTokenSessions).toHaveBeenCalledWith('token-1');
+      expect(() => streamAccessService.authorizeStream(channel, sessionToken, signedParams(60))).toThrow(
+        AuthorizationError
+      );
+    });
+
+    it('should keep accepting sessions of other tokens', async () => {
+      tokenRepository.revoke.mockResolvedValue({ id: 'token-1' } as never);
+      viewerSessionService.endTokenSessions.mockResolvedValue(['session-2']);
+
+      await streamAccessService.revokeToken('token-1');
+
+      expect(() => streamAccessService.authorizeStream(channel, sessionToken, signedParams(60))).not.toThrow();
+    });
+  });
+});
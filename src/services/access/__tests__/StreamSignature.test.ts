@@ -0,0 +1,35 @@
+import { getSignedStreamQuery, isValidStreamSignature, signStreamUrl } from '../StreamSignature';
+
+describe('StreamSignature', () => {
+  const secret = 'test-secret-for-streams';
+  const sessionToken = '0b0f7a4e-6f0c-4a53-9d2e-4f1f5b0c9a11.q3Xy9Kc0hRk2mT1bW8vZ4A';
+
+  it('should build a query expiring after the TTL', () => {
+    const query = getSignedStreamQuery('channel-1', sessionToken, 3600, secret, 1_700_000_000_500);
+    const params = new URLSearchParams(query);
+
+    expect(params.get('exp')).toBe('1700003600');
+    expect(params.get('sig')).toBe(signStreamUrl('channel-1', sessionToken, 1700003600, secret));
+  });
+
+  it('should accept its own signatures', () => {
+    const signature = signStreamUrl('channel-1', sessionToken, 1700003600, secret);
+
+    expect(isValidStreamSignature('channel-1', sessionToken, 1700003600, signature, secret)).toBe(true);
+    expect(isValidStreamSignature('channel-1', undefined, 1700003600, signStreamUrl('channel-1', undefined, 1700003600, secret), secret)).toBe(true);
+  });
+
+  it('should bind the channel, session, expiry and secret', () => {
+    const signature = signStreamUrl('channel-1', sessionToken, 1700003600, secret);
+
+    expect(isValidStreamSignature('channel-2', sessionToken, 1700003600, signature, secret)).toBe(false);
+    expect(isValidStreamSignature('channel-1', undefined, 1700003600, signature, secret)).toBe(false);
+    expect(isValidStreamSignature('channel-1', sessionToken, 1700007200, signature, secret)).toBe(false);
+    expect(isValidStreamSignature('channel-1', sessionToken, 1700003600, signature, 'another-secret-value')).toBe(false);
+  });
+
+  it('should reject malformed signatures', () => {
+    expect(isValidStreamSignature('channel-1', sessionToken, 1700003600, '', secret)).toBe(false);
+    expect(isValidStreamSignature('channel-1', sessionToken, 1700003600, 'short', secret)).toBe(false);
+  });
+});
@@ -0,0 +1,101 @@
+import { config } from '../../config/env';
+import { WatchTimeEntry } from '../../domain/analytics/Analytics';
+import { ViewerSession } from '../../domain/viewer/ViewerSession';
+import { AnalyticsRepository } from '../../infrastructure/database/repositories/AnalyticsRepository';
+import { ChannelService } from '../channel/ChannelService';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('AnalyticsCollector');
+
+/** Write buffered watch time this often */
+const FLUSH_INTERVAL_MS = 30000;
+
+/**
+ * Collects watch time from segment requests
+ *
+ * Each media segment served to a viewer session counts its duration against the media file
+ * the channel is playing. Watch time is buffered per viewer, file and minute, then added to
+ * viewer_watch_time (rolled up by AnalyticsService) and to the viewer's viewing_history.
+ */
+export class AnalyticsCollector {
+  private readonly analyticsRepository: AnalyticsRepository;
+  private readonly channelService: ChannelService;
+
+  // Buffered watch time by minute, viewer and media file
+  private pending: Map<string, WatchTimeEntry> = new Map();
+  private flushInterval?: NodeJS.Timeout;
+
+  constructor(channelService: ChannelService) {
+    this.analyticsRepository = new AnalyticsRepository();
+    this.channelService = channelService;
+  }
+
+  /**
+   * Start writing buffered watch time (no-op unless ENABLE_ANALYTICS)
+   */
+  public start(): void {
+    if (!config.features.analytics) {
+      return;
+    }
+    this.flushInterval = setInterval(() => {
+      void this.flush();
+    }, FLUSH_INTERVAL_MS);
+  }
+
+  /**
+   * Write buffered watch time and stop
+   */
+  public async stop(): Promise<void> {
+    if (this.flushInterval) {
+      clearInterval(this.flushInterval);
+      this.flushInterval = undefined;
+    }
+    await this.flush();
+  }
+
+  /**
+   * Count seconds of a segment served to a viewer session
+   */
+  public recordWatchTime(session: ViewerSession, seconds: number): void {
+    if (!this.flushInterval || seconds <= 0) {
+      return;
+    }
+    const media = this.channelService.getCurrentMedia(session.channelId);
+    if (!media) {
+      return;
+    }
+
+    const minute = new Date(Math.floor(Date.now() / 60000) * 60000);
+    const key = `${minute.getTime()}:${session.id}:${media.id}`;
+    const entry = this.pending.get(key);
+    if (entry) {
+      entry.seconds += seconds;
+      return;
+    }
+    this.pending.set(key, {
+      minute,
+      channelId: session.channelId,
+      mediaFileId: media.id,
+      viewerId: session.id,
+      seconds,
+      duration: media.metadata.duration,
+    });
+  }
+
+  private async flush(): Promise<void> {
+    if (this.pending.size === 0) {
+      return;
+    }
+    const entries = [...this.pending.values()];
+    this.pending.clear();
+
+    for (const entry of entries) {
+      try {
+        await this.analyticsRepository.addWatchTime(entry);
+        await this.analyticsRepository.recordViewing(entry);
+      } catch (error) {
+        logger.warn({ error, channelId: entry.channelId, viewerId: entry.viewerId }, 'Failed to save watch time');
+      }
+    }
+  }
+}
@@ -0,0 +1,186 @@
+import { config } from '../../config/env';
+import {
+  AnalyticsInterval,
+  AnalyticsPeriod,
+  AnalyticsRange,
+  ConcurrentViewersPoint,
+  PeakHour,
+  ProgramStats,
+} from '../../domain/analytics/Analytics';
+import { AnalyticsRepository } from '../../infrastructure/database/repositories/AnalyticsRepository';
+import { createLogger } from '../../utils/logger';
+import { ValidationError } from '../../utils/errors';
+
+const logger = createLogger('AnalyticsService');
+
+/** Rebuild the current and previous hour/day this often */
+const ROLLUP_INTERVAL_MS = 5 * 60 * 1000;
+
+/** Hours rebuilt on start (covers downtime and rollups missed by a shutdown) */
+const STARTUP_ROLLUP_HOURS = 48;
+
+/** Longest concurrent viewer time series */
+const MAX_SERIES_POINTS = 2000;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const INTERVAL_MS: Record<AnalyticsInterval, number> = {
+  minute: 60 * 1000,
+  hour: HOUR_MS,
+  day: DAY_MS,
+};
+
+/**
+ * Query options of the analytics endpoints (range defaults to the last day)
+ */
+export interface AnalyticsQuery {
+  channelId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Service for viewer analytics
+ *
+ * Rolls the watch time collected by AnalyticsCollector up into hourly and daily rows in
+ * viewer_analytics, and answers the analytics queries: concurrent viewers come from raw watch
+ * time (kept for ANALYTICS_RETENTION_DAYS), everything else from the hourly rollups.
+ * Periods are rebuilt from scratch, so the current hour and day fill in as they go.
+ */
+export class AnalyticsService {
+  private readonly analyticsRepository: AnalyticsRepository;
+  private rollupInterval?: NodeJS.Timeout;
+  private rollupRunning = false;
+
+  constructor() {
+    this.analyticsRepository = new AnalyticsRepository();
+  }
+
+  /**
+   * Catch up on rollups and start the periodic job (no-op unless ENABLE_ANALYTICS)
+   */
+  public async start(): Promise<void> {
+    if (!config.features.analytics) {
+      return;
+    }
+
+    // Catch-up runs in the background (rebuilding two days can take a while)
+    void this.runRollup(STARTUP_ROLLUP_HOURS);
+    this.rollupInterval = setInterval(() => {
+      void this.runRollup(2);
+    }, ROLLUP_INTERVAL_MS);
+  }
+
+  /**
+   * Stop the periodic rollup
+   */
+  public stop(): void {
+    if (this.rollupInterval) {
+      clearInterval(this.rollupInterval);
+      this.rollupInterval = undefined;
+    }
+  }
+
+  /**
+   * Concurrent viewers over time
+   */
+  public async getConcurrentViewers(
+    query: AnalyticsQuery,
+    interval: AnalyticsInterval = 'hour'
+  ): Promise<ConcurrentViewersPoint[]> {
+    const range = this.resolveRange(query, DAY_MS);
+    const points = Math.ceil((range.to.getTime() - range.from.getTime()) / INTERVAL_MS[interval]);
+    if (points > MAX_SERIES_POINTS) {
+      throw new ValidationError(`Range has too many ${interval} intervals (max ${MAX_SERIES_POINTS})`);
+    }
+    return this.analyticsRepository.getConcurrentViewers(range, interval);
+  }
+
+  /**
+   * Most watched media files
+   */
+  public async getTopPrograms(query: AnalyticsQuery, limit: number = 10): Promise<ProgramStats[]> {
+    return this.analyticsRepository.getTopPrograms(this.resolveRange(query, 7 * DAY_MS), limit);
+  }
+
+  /**
+   * Media files by share of views that finished them
+   */
+  public async getCompletionRates(
+    query: AnalyticsQuery,
+    minViews: number = 3,
+    limit: number = 50
+  ): Promise<ProgramStats[]> {
+    return this.analyticsRepository.getCompletionRates(this.resolveRange(query, 7 * DAY_MS), minViews, limit);
+  }
+
+  /**
+   * Viewers by hour of day
+   */
+  public async getPeakHours(query: AnalyticsQuery): Promise<PeakHour[]> {
+    return this.analyticsRepository.getPeakHours(this.resolveRange(query, 30 * DAY_MS));
+  }
+
+  /**
+   * Rebuild the last hours (and the days they touch), then purge old raw watch time
+   */
+  private async runRollup(hours: number): Promise<void> {
+    if (this.rollupRunning) {
+      return;
+    }
+    this.rollupRunning = true;
+
+    try {
+      const now = Date.now();
+      const currentHour = new Date(now).setMinutes(0, 0, 0);
+      for (let start = currentHour - (hours - 1) * HOUR_MS; start <= currentHour; start += HOUR_MS) {
+        await this.rollupPeriod('hour', new Date(start), HOUR_MS);
+      }
+
+      // Days start at local midnight, like the TIMESTAMP columns
+      const firstDay = this.startOfDay(new Date(currentHour - (hours - 1) * HOUR_MS));
+      for (let day = firstDay; day.getTime() <= now; day = this.nextDay(day)) {
+        await this.rollupPeriod('day', day, this.nextDay(day).getTime() - day.getTime());
+      }
+
+      const cutoff = new Date(now - config.features.analyticsRetentionDays * DAY_MS);
+      const purged = await this.analyticsRepository.purgeWatchTime(cutoff);
+      if (purged > 0) {
+        logger.debug({ purged }, 'Purged old watch time');
+      }
+    } catch (error) {
+      logger.error({ error }, 'Analytics rollup failed');
+    } finally {
+      this.rollupRunning = false;
+    }
+  }
+
+  private async rollupPeriod(periodType: AnalyticsPeriod, start: Date, lengthMs: number): Promise<void> {
+    await this.analyticsRepository.rollup(periodType, start, new Date(start.getTime() + lengthMs));
+  }
+
+  private startOfDay(date: Date): Date {
+    const day = new Date(date);
+    day.setHours(0, 0, 0, 0);
+    return day;
+  }
+
+  private nextDay(day: Date): Date {
+    const next = new Date(day);
+    next.setDate(next.getDate() + 1);
+    return next;
+  }
+
+  /**
+   * Apply range defaults (ending now, defaultMs long)
+   */
+  private resolveRange(query: AnalyticsQuery, defaultMs: number): AnalyticsRange {
+    const to = query.to || new Date();
+    const from = query.from || new Date(to.getTime() - defaultMs);
+    if (from >= to) {
+      throw new ValidationError('from must be before to');
+    }
+    return { from, to, channelId: query.channelId };
+  }
+}
@@ -0,0 +1,91 @@
+import { AnalyticsCollector } from '../AnalyticsCollector';
+import { AnalyticsRepository } from '../../../infrastructure/database/repositories/AnalyticsRepository';
+import { ChannelService } from '../../channel/ChannelService';
+import { ViewerSession } from '../../../domain/viewer/ViewerSession';
+
+jest.mock('../../../infrastructure/database/repositories/AnalyticsRepository');
+jest.mock('../../../utils/logger', () => ({
+  createLogger: jest.fn().mockReturnValue({
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }),
+}));
+jest.mock('../../../config/env', () => ({
+  config: {
+    features: {
+      analytics: true,
+    },
+  },
+}));
+
+describe('AnalyticsCollector', () => {
+  let collector: AnalyticsCollector;
+  let getCurrentMedia: jest.Mock;
+  let repository: jest.Mocked<AnalyticsRepository>;
+
+  const session = (id: string): ViewerSession => ({
+    id,
+    channelId: 'channel-1',
+    client: { ip: '10.0.0.1' },
+    startedAt: new Date(),
+    lastSeenAt: new Date(),
+    bytesServed: 0,
+    segmentsServed: 0,
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2026-01-01T12:00:10Z'));
+    getCurrentMedia = jest.fn().mockReturnValue({ id: 'media-1', metadata: { duration: 1800 } });
+    collector = new AnalyticsCollector({ getCurrentMedia } as unknown as ChannelService);
+    repository = (AnalyticsRepository as jest.MockedClass<typeof AnalyticsRepository>).mock.instances.at(-1) as jest.Mocked<AnalyticsRepository>;
+    collector.start();
+  });
+
+  afterEach(async () => {
+    await collector.stop();
+    jest.useRealTimers();
+    jest.clearAllMocks();
+  });
+
+  it('should sum segments of a viewer per media file and minute', async () => {
+    collector.recordWatchTime(session('viewer-1'), 6);
+    collector.recordWatchTime(session('viewer-1'), 6);
+    collector.recordWatchTime(session('viewer-2'), 6);
+
+    await collector.stop();
+
+    expect(repository.addWatchTime).toHaveBeenCalledTimes(2);
+    expect(repository.addWatchTime).toHaveBeenCalledWith({
+      minute: new Date('2026-01-01T12:00:00Z'),
+      channelId: 'channel-1',
+      mediaFileId: 'media-1',
+      viewerId: 'viewer-1',
+      seconds: 12,
+      duration: 1800,
+    });
+    expect(repository.recordViewing).toHaveBeenCalledTimes(2);
+  });
+
+  it('should start a new entry each minute', async () => {
+    collector.recordWatchTime(session('viewer-1'), 6);
+    jest.setSystemTime(new Date('2026-01-01T12:01:00Z'));
+    collector.recordWatchTime(session('viewer-1'), 6);
+
+    await collector.stop();
+
+    expect(repository.addWatchTime).toHaveBeenCalledTimes(2);
+  });
+
+  it('should skip segments without content or current media', async () => {
+    collector.recordWatchTime(session('viewer-1'), 0);
+    getCurrentMedia.mockReturnValue(undefined);
+    collector.recordWatchTime(session('viewer-1'), 6);
+
+    await collector.stop();
+
+    expect(repository.addWatchTime).not.toHaveBeenCalled();
+  });
+});
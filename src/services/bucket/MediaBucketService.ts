@@ -182,6 +182,34 @@ export class MediaBucketService {
     return mediaFileIds;
   }
 
+  /**
+   * Get all media files in bucket with their weights (weighted playback)
+   */
+  public async getWeightedMediaInBucket(bucketId: string): Promise<Array<{ mediaFileId: string; weight: number; addedAt: Date }>> {
+    await this.getBucket(bucketId); // Verify bucket exists
+
+    const media = await this.bucketRepository.getMediaInBucket(bucketId);
+    return media.map(m => ({ mediaFileId: m.mediaFileId, weight: m.weight, addedAt: m.addedAt }));
+  }
+
+  /**
+   * Set the weight of a media file in bucket (weighted playback, default 1)
+   */
+  public async setMediaWeight(bucketId: string, mediaFileId: string, weight: number): Promise<void> {
+    await this.getBucket(bucketId); // Verify bucket exists
+
+    if (!(weight > 0)) {
+      throw new ValidationError('Weight must be greater than 0');
+    }
+
+    const updated = await this.bucketRepository.setMediaWeight(bucketId, mediaFileId, weight);
+    if (!updated) {
+      throw new NotFoundError(`Media file '${mediaFileId}' in bucket '${bucketId}'`);
+    }
+
+    logger.info({ bucketId, mediaFileId, weight }, 'Media weight updated');
+  }
+
   /**
    * Reorder media in bucket
    */
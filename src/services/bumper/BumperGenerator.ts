@@ -3,6 +3,7 @@ import fs from 'fs/promises';
 import { spawn } from 'child_process';
 import { createLogger } from '../../utils/logger';
 import { config as envConfig } from '../../config/env';
+import { bumperGenerationSeconds } from '../../infrastructure/metrics/StreamingMetrics';
 
 const logger = createLogger('BumperGenerator');
 
@@ -296,6 +297,7 @@ export class BumperGenerator {
       { showName, episodeName, duration, outputPath, retryCount },
       'Generating bumper MP4 file for concat'
     );
+    const startedAt = Date.now();
 
     // Ensure output directory exists BEFORE starting FFmpeg
     const outputDir = path.dirname(outputPath);
@@ -443,6 +445,7 @@ export class BumperGenerator {
               { outputPath, sizeMB: (stats.size / 1024 / 1024).toFixed(2), wasRetry: retryCount > 0 },
               'Bumper MP4 generated and atomically written successfully'
             );
+            bumperGenerationSeconds.observe({}, (Date.now() - startedAt) / 1000);
             hasResolved = true;
             resolve(outputPath);
           } catch (error) {
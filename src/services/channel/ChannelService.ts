@@ -1,6 +1,22 @@
-import { Channel, ChannelState, ChannelConfig } from '../../domain/channel/Channel';
+import {
+  AspectMode,
+  Channel,
+  ChannelState,
+  ChannelConfig,
+  RenditionConfig,
+  StorageBackend,
+} from '../../domain/channel/Channel';
 import { MediaFile } from '../../domain/media/MediaFile';
 import { FFmpegEngine, StreamConfig } from '../../infrastructure/ffmpeg/FFmpegEngine';
+import { HlsTrackSelection, selectHlsTracks } from '../../infrastructure/ffmpeg/MediaTracks';
+import { getLiveSegmentNumber } from '../../infrastructure/ffmpeg/DashManifest';
+import {
+  getPassthroughBlockers,
+  getPassthroughMismatches,
+  getPassthroughRun,
+  isPassthroughCompatible,
+  PassthroughRun,
+} from '../../infrastructure/ffmpeg/Passthrough';
 import { createLogger } from '../../utils/logger';
 import {
   NotFoundError,
@@ -11,19 +27,52 @@ import path from 'path';
 import fs from 'fs/promises';
 import { config } from '../../config/env';
 import { ChannelRepository } from '../../infrastructure/database/repositories/ChannelRepository';
+import { EncoderProfileRepository } from '../../infrastructure/database/repositories/EncoderProfileRepository';
+import { EncoderProfile } from '../../domain/encoder/EncoderProfile';
 import { MediaFileRepository } from '../../infrastructure/database/repositories/MediaFileRepository';
 import { ChannelMediaRepository } from '../../infrastructure/database/repositories/ChannelMediaRepository';
 import { PlaybackSessionRepository } from '../../infrastructure/database/repositories/PlaybackSessionRepository';
 import { ScheduleTimeService } from '../schedule-time/ScheduleTimeService';
 import { BumperGenerator } from '../bumper/BumperGenerator';
+import { ffmpegRestarts } from '../../infrastructure/metrics/StreamingMetrics';
+import { eventBus } from '../../infrastructure/events/EventBus';
+import { getChannelOutputDir, getS3ClientConfig } from '../../infrastructure/storage/SegmentStorage';
+import { HlsRelay, RelayStatus } from '../relay/HlsRelay';
+import { SOURCE_LOST_SLATE_TEXT } from '../../infrastructure/ffmpeg/LiveInput';
 // import { PlaylistManipulator } from '../playlist/PlaylistManipulator'; // UNUSED - kept for reference
-import { PlaylistService } from '../playlist/PlaylistService';
+import { PlaylistService, getLowLatencyOptions } from '../playlist/PlaylistService';
+import { isFillerClip } from '../playlist/FillerClips';
 import { EPGService } from '../epg/EPGService';
 import { AsyncMutex } from '../../utils/AsyncMutex';
 import { ConcatFileManager } from '../concat/ConcatFileManager';
+import { CachedRenditionLookup, TranscodeService } from '../transcode/TranscodeService';
+import { OverlayService } from '../overlay/OverlayService';
+import { StreamOverlay } from '../../infrastructure/ffmpeg/Overlays';
+import { getCachedRenditionMetadata } from '../../infrastructure/ffmpeg/TranscodeCache';
+import { AutoCropTimelineEntry, getBlackBarCrop } from '../../infrastructure/ffmpeg/AspectMode';
+import {
+  DEFAULT_TRUE_PEAK_CEILING,
+  getPrimaryLoudness,
+  isLoudnessNormalized,
+  LoudnessOptions,
+} from '../../infrastructure/ffmpeg/Loudness';
 
 const logger = createLogger('ChannelService');
 
+/**
+ * A channel (or schedule block) playing an external live source
+ * live: FFmpeg re-encodes the source; slate: the source dropped and the "source lost" slate plays;
+ * fallback: the source stayed down and the channel plays its buckets
+ */
+interface LiveInputSession {
+  url: string;
+  blockId?: string;
+  mode: 'live' | 'slate' | 'fallback';
+  lostAt?: Date;
+  timer: NodeJS.Timeout;
+  checking: boolean;
+}
+
 export class ChannelService {
   // In-memory cache for fast access (synced with database)
   private channels: Map<string, Channel> = new Map()
@@ -42,12 +91,15 @@ export class ChannelService {
   private readonly mediaFileRepository: MediaFileRepository;
   private readonly channelMediaRepository: ChannelMediaRepository;
   private readonly playbackSessionRepository: PlaybackSessionRepository;
+  private readonly encoderProfileRepository: EncoderProfileRepository;
   private readonly scheduleTimeService: ScheduleTimeService;
   private readonly bumperGenerator: BumperGenerator;
   private readonly epgService: EPGService;
   private readonly concatFileManager: ConcatFileManager;
   private bucketService?: any; // MediaBucketService - injected via setter
   private playlistResolver?: any; // PlaylistResolver - injected via setter
+  private transcodeService?: TranscodeService; // Pre-transcode cache - injected via setter
+  private overlayService?: OverlayService; // Overlay layers - injected via setter
 
   // Grace period timers for pausing streams after inactivity
   private pauseTimers: Map<string, NodeJS.Timeout> = new Map();
@@ -83,6 +135,18 @@ export class ChannelService {
   // Track active schedule block IDs for dynamic playlists (used to detect schedule transitions)
   private activeScheduleBlocks: Map<string, string> = new Map();
 
+  // Passthrough channels restarting FFmpeg between runs (progression tracker must not treat the gap as a crash)
+  private passthroughTransitions: Set<string> = new Set();
+
+  // Relay channels mirroring their source (instead of running FFmpeg)
+  private relays: Map<string, HlsRelay> = new Map();
+
+  // Relay channels playing their buckets while the relay source is lost
+  private relayFallbacks: Set<string> = new Set();
+
+  // Channels playing a live input (reconnect checks run while they stream)
+  private liveInputs: Map<string, LiveInputSession> = new Map();
+
   constructor(ffmpegEngine: FFmpegEngine) {
     this.ffmpegEngine = ffmpegEngine;
     this.channelRepository = new ChannelRepository();
@@ -91,6 +155,7 @@ export class ChannelService {
     this.scheduleTimeService = new ScheduleTimeService();
     this.bumperGenerator = new BumperGenerator();
     this.playbackSessionRepository = new PlaybackSessionRepository();
+    this.encoderProfileRepository = new EncoderProfileRepository();
     this.epgService = new EPGService();
     this.concatFileManager = new ConcatFileManager();
 
@@ -130,12 +195,12 @@ export class ChannelService {
 
           // Follow proper state transitions
           if (currentState === ChannelState.STREAMING) {
-            channel.transitionTo(ChannelState.STOPPING);
-            channel.transitionTo(ChannelState.IDLE);
+            this.transitionChannel(channel, ChannelState.STOPPING);
+            this.transitionChannel(channel, ChannelState.IDLE);
           } else if (currentState === ChannelState.STARTING || currentState === ChannelState.STOPPING) {
-            channel.transitionTo(ChannelState.IDLE);
+            this.transitionChannel(channel, ChannelState.IDLE);
           } else if (currentState === ChannelState.ERROR) {
-            channel.transitionTo(ChannelState.IDLE);
+            this.transitionChannel(channel, ChannelState.IDLE);
           }
 
           await this.channelRepository.update(channel.id, {
@@ -199,6 +264,16 @@ export class ChannelService {
     if (existing) {
       throw new ConflictError(`Channel with slug '${config.slug}' already exists`);
     }
+    if (config.profileId) {
+      await this.assertEncoderProfileExists(config.profileId);
+    }
+    if (config.storageBackend) {
+      this.assertStorageBackendAvailable(config.storageBackend);
+    }
+    if (config.signedUrls) {
+      this.assertSignedUrlsAvailable();
+    }
+    this.assertRelayCompatible(config);
 
     const channel = new Channel(config);
     
@@ -224,6 +299,53 @@ export class ChannelService {
     return mutex;
   }
 
+  /**
+   * Change channel state and publish the transition
+   */
+  private transitionChannel(channel: Channel, state: ChannelState): void {
+    const previousState = channel.getState();
+    channel.transitionTo(state);
+    eventBus.emit('channel.state', { channelId: channel.id, previousState, state });
+  }
+
+  /**
+   * Put a channel in the error state and publish the transition
+   */
+  private setChannelError(channel: Channel, error: string): void {
+    const previousState = channel.getState();
+    channel.setError(error);
+    eventBus.emit('channel.state', { channelId: channel.id, previousState, state: ChannelState.ERROR, error });
+  }
+
+  /**
+   * Move a channel to a file of its media list and publish the change
+   */
+  private updateChannelIndex(channel: Channel, index: number, file?: MediaFile): void {
+    channel.updateCurrentIndex(index);
+    eventBus.emit('channel.file', {
+      channelId: channel.id,
+      index,
+      mediaFileId: file?.id,
+      filename: file?.filename,
+    });
+  }
+
+  /**
+   * Track the schedule block a dynamic channel plays, publishing block changes
+   */
+  private trackScheduleBlock(channelId: string, block: { id: string; name: string }): void {
+    const previousBlockId = this.activeScheduleBlocks.get(channelId);
+    this.activeScheduleBlocks.set(channelId, block.id);
+    if (previousBlockId !== block.id) {
+      eventBus.emit('channel.schedule', {
+        channelId,
+        previousBlockId,
+        blockId: block.id,
+        blockName: block.name,
+      });
+    }
+  }
+
   /**
    * Get transition state for a channel (used by PlaylistService)
    * Returns bumper info if channel is in transition
@@ -316,8 +438,43 @@ export class ChannelService {
     autoStart?: boolean;
     watermarkImageBase64?: string | null;
     watermarkPosition?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center' | null;
+    renditions?: RenditionConfig[] | null;
+    preferredLanguage?: string | null;
+    lowLatency?: boolean;
+    profileId?: string | null;
+    passthrough?: boolean;
+    loudnessTarget?: number | null;
+    truePeakCeiling?: number | null;
+    aspectMode?: AspectMode | null;
+    autoCrop?: boolean;
+    signedUrls?: boolean;
+    storageBackend?: StorageBackend;
+    relayUrl?: string | null;
+    liveInputUrl?: string | null;
   }): Promise<void> {
     const channel = await this.getChannel(channelId);
+    if (updates.profileId) {
+      await this.assertEncoderProfileExists(updates.profileId);
+    }
+    if (updates.signedUrls) {
+      this.assertSignedUrlsAvailable();
+    }
+
+    // Switching backends moves the output directory, so FFmpeg must not be writing to it
+    let outputDir: string | undefined;
+    if (updates.storageBackend !== undefined && updates.storageBackend !== (channel.config.storageBackend || 'local')) {
+      this.assertStorageBackendAvailable(updates.storageBackend);
+      if (!channel.isIdle() && channel.getState() !== ChannelState.ERROR) {
+        throw new ConflictError('Stop the channel before changing its storage backend');
+      }
+      outputDir = getChannelOutputDir(channel.config.slug, updates.storageBackend);
+    }
+    this.assertRelayCompatible({
+      relayUrl: updates.relayUrl !== undefined ? updates.relayUrl || undefined : channel.config.relayUrl,
+      liveInputUrl: updates.liveInputUrl !== undefined ? updates.liveInputUrl || undefined : channel.config.liveInputUrl,
+      renditions: updates.renditions !== undefined ? updates.renditions || undefined : channel.config.renditions,
+      lowLatency: updates.lowLatency ?? channel.config.lowLatency,
+    });
     
     // Update database
     await this.channelRepository.update(channelId, {
@@ -326,6 +483,20 @@ export class ChannelService {
       auto_start: updates.autoStart,
       watermark_image_base64: updates.watermarkImageBase64,
       watermark_position: updates.watermarkPosition,
+      renditions: updates.renditions,
+      preferred_language: updates.preferredLanguage,
+      low_latency: updates.lowLatency,
+      profile_id: updates.profileId,
+      passthrough: updates.passthrough,
+      loudness_target: updates.loudnessTarget,
+      true_peak_ceiling: updates.truePeakCeiling,
+      aspect_mode: updates.aspectMode,
+      auto_crop: updates.autoCrop,
+      signed_urls: updates.signedUrls,
+      storage_backend: updates.storageBackend,
+      output_dir: outputDir,
+      relay_url: updates.relayUrl,
+      live_input_url: updates.liveInputUrl,
     });
     
     // Update in-memory channel config
@@ -344,6 +515,51 @@ export class ChannelService {
     if (updates.watermarkPosition !== undefined) {
       channel.config.watermarkPosition = updates.watermarkPosition || undefined;
     }
+    if (updates.signedUrls !== undefined) {
+      // Applies to the next request (running players keep streaming until their session ends)
+      channel.config.signedUrls = updates.signedUrls;
+    }
+    if (updates.storageBackend !== undefined) {
+      channel.config.storageBackend = updates.storageBackend;
+    }
+    if (outputDir) {
+      channel.config.outputDir = outputDir;
+    }
+
+    // Read when the stream starts, so these take effect on the next stream start
+    if (updates.renditions !== undefined) {
+      channel.config.renditions = updates.renditions && updates.renditions.length > 0 ? updates.renditions : undefined;
+    }
+    if (updates.preferredLanguage !== undefined) {
+      channel.config.preferredLanguage = updates.preferredLanguage || undefined;
+    }
+    if (updates.lowLatency !== undefined) {
+      channel.config.lowLatency = updates.lowLatency;
+    }
+    if (updates.profileId !== undefined) {
+      channel.config.profileId = updates.profileId || undefined;
+    }
+    if (updates.passthrough !== undefined) {
+      channel.config.passthrough = updates.passthrough;
+    }
+    if (updates.loudnessTarget !== undefined) {
+      channel.config.loudnessTarget = updates.loudnessTarget ?? undefined;
+    }
+    if (updates.truePeakCeiling !== undefined) {
+      channel.config.truePeakCeiling = updates.truePeakCeiling ?? undefined;
+    }
+    if (updates.aspectMode !== undefined) {
+      channel.config.aspectMode = updates.aspectMode || undefined;
+    }
+    if (updates.autoCrop !== undefined) {
+      channel.config.autoCrop = updates.autoCrop;
+    }
+    if (updates.relayUrl !== undefined) {
+      channel.config.relayUrl = updates.relayUrl || undefined;
+    }
+    if (updates.liveInputUrl !== undefined) {
+      channel.config.liveInputUrl = updates.liveInputUrl || undefined;
+    }
     
     // Update cache
     this.channels.set(channelId, channel);
@@ -358,6 +574,366 @@ export class ChannelService {
     return Array.from(this.channels.values());
   }
 
+  /**
+   * Get audio/subtitle tracks of the running stream (used for EXT-X-MEDIA in the master playlist)
+   * Returns undefined when the channel isn't streaming
+   */
+  public getStreamTracks(channelId: string): HlsTrackSelection | undefined {
+    const handle = this.ffmpegEngine.getHandle(channelId);
+    if (!handle) {
+      return undefined;
+    }
+    return {
+      audioTracks: handle.config.audioTracks || [],
+      subtitleTracks: handle.config.subtitleTracks || [],
+    };
+  }
+
+  /**
+   * Check if the running stream carries audio (ladders on silent sources are encoded video-only)
+   * Returns true when the channel isn't streaming
+   */
+  public streamHasAudio(channelId: string): boolean {
+    return this.ffmpegEngine.getHandle(channelId)?.hasAudio ?? true;
+  }
+
+  /**
+   * Get the encoder profile of the running stream (used for CODECS in the master playlist)
+   * Returns undefined when the channel isn't streaming or uses the global preset
+   */
+  public getStreamEncoderProfile(channelId: string): EncoderProfile | undefined {
+    return this.ffmpegEngine.getHandle(channelId)?.config.encoderProfile;
+  }
+
+  /**
+   * Get the media file a channel is currently playing (used for viewing history)
+   * Returns undefined when the channel isn't streaming or plays a generated filler clip
+   */
+  public getCurrentMedia(channelId: string): MediaFile | undefined {
+    const tracker = this.concatProgressionTrackers.get(channelId);
+    const channel = this.channels.get(channelId);
+    if (!tracker || !channel) {
+      return undefined;
+    }
+    const media = tracker.mediaFiles[channel.getMetadata().currentIndex];
+    return media && !isFillerClip(media) ? media : undefined;
+  }
+
+  /**
+   * Load a channel's encoder profile for a stream start
+   * A profile deleted since it was assigned falls back to the global preset
+   */
+  private async resolveEncoderProfile(channel: Channel): Promise<EncoderProfile | undefined> {
+    if (!channel.config.profileId) {
+      return undefined;
+    }
+    const profile = await this.encoderProfileRepository.findById(channel.config.profileId);
+    if (!profile) {
+      logger.warn(
+        { channelId: channel.id, profileId: channel.config.profileId },
+        'Encoder profile not found, using global preset'
+      );
+      return undefined;
+    }
+    return profile;
+  }
+
+  /**
+   * Relays mirror a single stream into the channel directory, so the fallback must write the same layout
+   */
+  private assertRelayCompatible(
+    config: Pick<ChannelConfig, 'relayUrl' | 'liveInputUrl' | 'renditions' | 'lowLatency'>
+  ): void {
+    if (!config.relayUrl) {
+      return;
+    }
+    if (config.liveInputUrl) {
+      throw new ValidationError('Relay channels cannot have a live input');
+    }
+    if (config.renditions && config.renditions.length > 0) {
+      throw new ValidationError('Relay channels cannot have a rendition ladder');
+    }
+    if (config.lowLatency) {
+      throw new ValidationError('Relay channels cannot use low-latency HLS');
+    }
+  }
+
+  private assertPlayingFiles(channel: Channel): void {
+    if (this.relays.has(channel.id)) {
+      throw new ConflictError('Relay channels play their source; stop the channel to change its file');
+    }
+    const liveInput = this.liveInputs.get(channel.id);
+    if (liveInput && liveInput.mode !== 'fallback') {
+      throw new ConflictError('Channel is playing a live input; stop the channel to change its file');
+    }
+  }
+
+  private assertStorageBackendAvailable(backend: StorageBackend): void {
+    if (backend === 's3' && !getS3ClientConfig()) {
+      throw new ValidationError('S3 storage is not configured (set S3_ENDPOINT, S3_BUCKET and S3 credentials)');
+    }
+  }
+
+  private assertSignedUrlsAvailable(): void {
+    if (!config.viewer.hasSigningSecret) {
+      throw new ValidationError('Signed URLs need a secret (set VIEWER_SESSION_SECRET or change API_KEY from its default)');
+    }
+  }
+
+  private async assertEncoderProfileExists(profileId: string): Promise<void> {
+    const profile = await this.encoderProfileRepository.findById(profileId);
+    if (!profile) {
+      throw new NotFoundError(`Encoder profile '${profileId}'`);
+    }
+  }
+
+  /**
+   * Render the generated filler clips (slates and "Up Next" bumpers) of a slot plan that don't exist yet
+   * Render failures are logged rather than thrown so they don't block the channel start
+   */
+  private async renderFillerClips(channel: Channel, media: MediaFile[]): Promise<void> {
+    const clips = new Map<string, MediaFile>();
+    for (const file of media) {
+      if (isFillerClip(file)) {
+        clips.set(file.path, file);
+      }
+    }
+    if (clips.size === 0) {
+      return;
+    }
+
+    const [width, height] = channel.config.resolution.split('x').map(Number);
+    for (const clip of clips.values()) {
+      const exists = await fs.access(clip.path).then(() => true).catch(() => false);
+      if (exists) {
+        continue;
+      }
+
+      // Render to a temp path so an interrupted render never leaves a truncated clip behind
+      const tempPath = `${clip.path}.tmp`;
+      try {
+        await fs.mkdir(path.dirname(clip.path), { recursive: true });
+        await this.bumperGenerator.generateSinglePlaceholderSegment(
+          tempPath,
+          clip.getDisplayName(),
+          clip.metadata.duration,
+          width,
+          height,
+          channel.config.fps,
+          channel.config.videoBitrate,
+          channel.config.audioBitrate
+        );
+        await fs.rename(tempPath, clip.path);
+      } catch (error) {
+        logger.warn({ channelId: channel.id, clipPath: clip.path, error }, 'Failed to render filler clip');
+        await fs.unlink(tempPath).catch(() => {});
+      }
+    }
+  }
+
+  /**
+   * Look up pre-transcoded renditions of the media (undefined without a transcode service)
+   * Lookup failures fall back to the source files
+   */
+  private async getCachedRenditions(
+    channel: Channel,
+    media: MediaFile[],
+    encoderProfile?: EncoderProfile
+  ): Promise<CachedRenditionLookup | undefined> {
+    if (!this.transcodeService) {
+      return undefined;
+    }
+    try {
+      return await this.transcodeService.getCachedRenditions(channel, media, encoderProfile);
+    } catch (error) {
+      logger.warn({ channelId: channel.id, error }, 'Failed to look up cached renditions, using source files');
+      return undefined;
+    }
+  }
+
+  /**
+   * Timeline of a concat stream of media[startIndex..endIndex)
+   * Follows the concat file: the first file starts at seekToSeconds and each file but the last
+   * is followed by a segment-long bumper (as the progression tracker assumes)
+   */
+  private getConcatTimeline(
+    channel: Channel,
+    media: MediaFile[],
+    startIndex: number,
+    endIndex: number,
+    seekToSeconds: number
+  ): { file: MediaFile; duration: number; bumperDuration: number }[] {
+    const bumperDuration = channel.config.includeBumpers !== false ? channel.config.segmentDuration : 0;
+    return media.slice(startIndex, endIndex).map((file, i, files) => ({
+      file,
+      duration: (file.metadata.duration || 0) - (i === 0 ? seekToSeconds : 0),
+      bumperDuration: i < files.length - 1 ? bumperDuration : 0,
+    }));
+  }
+
+  /**
+   * Loudness normalization for a concat stream of media[startIndex..endIndex)
+   */
+  private getLoudnessOptions(
+    channel: Channel,
+    media: MediaFile[],
+    startIndex: number,
+    endIndex: number,
+    seekToSeconds: number
+  ): LoudnessOptions | undefined {
+    if (!isLoudnessNormalized(channel.config)) {
+      return undefined;
+    }
+    const timeline = this.getConcatTimeline(channel, media, startIndex, endIndex, seekToSeconds).map((entry) => ({
+      duration: entry.duration + entry.bumperDuration,
+      measurement: getPrimaryLoudness(entry.file.metadata, channel.config.preferredLanguage),
+    }));
+
+    const unmeasured = timeline.filter((entry) => !entry.measurement).length;
+    logger.info(
+      { channelId: channel.id, target: channel.config.loudnessTarget, files: timeline.length, unmeasured },
+      unmeasured === 0
+        ? 'Loudness normalization: applying measured per-file gain'
+        : 'Loudness normalization: unmeasured files, using realtime loudnorm'
+    );
+
+    return {
+      target: channel.config.loudnessTarget!,
+      truePeakCeiling: channel.config.truePeakCeiling ?? DEFAULT_TRUE_PEAK_CEILING,
+      timeline,
+    };
+  }
+
+  /**
+   * Black-bar crops for a concat stream of media[startIndex..endIndex)
+   * Undefined when auto-crop is off or no file has detected black bars
+   */
+  private getAutoCropTimeline(
+    channel: Channel,
+    media: MediaFile[],
+    startIndex: number,
+    endIndex: number,
+    seekToSeconds: number
+  ): AutoCropTimelineEntry[] | undefined {
+    if (!channel.config.autoCrop) {
+      return undefined;
+    }
+    const timeline = this.getConcatTimeline(channel, media, startIndex, endIndex, seekToSeconds).map((entry) => ({
+      duration: entry.duration,
+      bumperDuration: entry.bumperDuration,
+      crop: getBlackBarCrop(entry.file.metadata),
+    }));
+
+    const cropped = timeline.filter((entry) => entry.crop).length;
+    if (cropped === 0) {
+      return undefined;
+    }
+    logger.info({ channelId: channel.id, files: timeline.length, cropped }, 'Auto-crop: cropping detected black bars');
+    return timeline;
+  }
+
+  /**
+   * Write the channel's overlay layer files for a stream start
+   * Overlays are cosmetic: on failure the stream starts without them
+   */
+  private async prepareOverlays(channel: Channel): Promise<StreamOverlay[]> {
+    if (!this.overlayService) {
+      return [];
+    }
+    try {
+      return await this.overlayService.prepareStream(channel);
+    } catch (error) {
+      logger.warn({ channelId: channel.id, error }, 'Failed to prepare overlay layers, streaming without them');
+      return [];
+    }
+  }
+
+  /**
+   * Show the EPG's current and next program on the channel's now/next overlay layers
+   */
+  private async updateNowNextOverlay(channel: Channel, media: MediaFile[]): Promise<void> {
+    if (!this.overlayService?.hasNowNext(channel.id) || media.length === 0) {
+      return;
+    }
+    try {
+      const { current, next } = await this.epgService.getCurrentAndNext(channel, media);
+      await this.overlayService.updateNowNext(channel.id, current?.info.title, next?.info.title);
+    } catch (error) {
+      logger.warn({ channelId: channel.id, error }, 'Failed to update now/next overlay');
+    }
+  }
+
+  /**
+   * Get the FFmpeg run a passthrough channel should start at the given file
+   * Returns undefined when passthrough is off, blocked by another feature, or no file can be copied
+   * (the whole list is then transcoded in one looping concat stream as usual)
+   */
+  private getPassthroughRun(
+    channel: Channel,
+    media: MediaFile[],
+    startIndex: number,
+    encoderProfile?: EncoderProfile,
+    hasOverlays = false
+  ): PassthroughRun | undefined {
+    if (!channel.config.passthrough) {
+      return undefined;
+    }
+    const blockers = getPassthroughBlockers(channel.config);
+    if (hasOverlays) {
+      blockers.push('overlays');
+    }
+    if (blockers.length > 0) {
+      logger.warn({ channelId: channel.id, blockers }, 'Passthrough disabled - channel features require re-encoding');
+      return undefined;
+    }
+    if (!media.some((file) => isPassthroughCompatible(file.metadata, channel.config, encoderProfile))) {
+      logger.info({ channelId: channel.id }, 'Passthrough: no media matches the channel encode, transcoding all files');
+      return undefined;
+    }
+
+    const run = getPassthroughRun(media, startIndex, channel.config, encoderProfile);
+    logger.info(
+      {
+        channelId: channel.id,
+        copy: run.copy,
+        startFile: media[startIndex]?.filename,
+        runLength: run.endIndex - run.startIndex,
+        mismatches: run.copy ? undefined : getPassthroughMismatches(media[startIndex].metadata, channel.config, encoderProfile),
+      },
+      run.copy ? 'Passthrough: stream-copying file' : 'Passthrough: transcoding non-conforming files'
+    );
+    return run;
+  }
+
+  /**
+   * Restart a passthrough channel's FFmpeg process for the run starting at nextIndex
+   * The new process marks its first segment as a discontinuity (see FFmpegEngine hls_flags)
+   */
+  private async advancePassthroughRun(channelId: string, nextIndex: number): Promise<void> {
+    const channel = this.channels.get(channelId);
+    if (!channel || !channel.isStreaming() || this.passthroughTransitions.has(channelId)) {
+      return;
+    }
+
+    this.passthroughTransitions.add(channelId);
+    try {
+      logger.info({ channelId, nextIndex }, 'Passthrough run ended - starting next run');
+      await this.startChannel(channelId, nextIndex, true);
+    } catch (error) {
+      logger.error({ channelId, nextIndex, error }, 'Failed to start next passthrough run');
+    } finally {
+      this.passthroughTransitions.delete(channelId);
+    }
+  }
+
+  /**
+   * Get the channel's schedule start time (DASH availabilityStartTime)
+   * Returns null until the channel has streamed for the first time
+   */
+  public async getScheduleStartTime(channelId: string): Promise<Date | null> {
+    return this.scheduleTimeService.getScheduleStartTime(channelId);
+  }
+
   /**
    * Delete channel
    */
@@ -408,6 +984,20 @@ export class ChannelService {
     this.playlistResolver = playlistResolver;
   }
 
+  /**
+   * Set transcode service (for playing pre-transcoded renditions)
+   */
+  public setTranscodeService(transcodeService: TranscodeService): void {
+    this.transcodeService = transcodeService;
+  }
+
+  /**
+   * Set overlay service (composites the channel's overlay layers into the stream)
+   */
+  public setOverlayService(overlayService: OverlayService): void {
+    this.overlayService = overlayService;
+  }
+
   /**
    * Invalidate EPG cache for a channel
    * Call this when the channel's playlist changes (media added/removed/reordered)
@@ -583,6 +1173,18 @@ export class ChannelService {
     isTransition: boolean = false
   ): Promise<void> {
     const channel = await this.getChannel(channelId);
+
+    // Relay channels mirror their source; FFmpeg only runs while they fall back to their buckets
+    if (channel.config.relayUrl && !this.relayFallbacks.has(channelId)) {
+      return this.startRelayChannel(channel);
+    }
+
+    // Live inputs re-encode their source; the buckets only play while the source is down
+    const liveInput = await this.resolveLiveInput(channel);
+    if (liveInput && this.liveInputs.get(channelId)?.mode !== 'fallback') {
+      return this.startLiveInput(channel, liveInput, isTransition);
+    }
+
     let media: MediaFile[] = [];
 
     // For dynamic playlists with PlaylistResolver, resolve media now based on schedule
@@ -617,7 +1219,7 @@ export class ChannelService {
         { channelId, currentState },
         'Resetting orphaned state to IDLE before starting'
       );
-      channel.transitionTo(ChannelState.IDLE);
+      this.transitionChannel(channel, ChannelState.IDLE);
       await this.channelRepository.update(channelId, {
         state: ChannelState.IDLE,
       });
@@ -628,7 +1230,7 @@ export class ChannelService {
         'Resetting orphaned STARTING state to IDLE before starting'
       );
       // STARTING can transition to IDLE according to state machine
-      channel.transitionTo(ChannelState.IDLE);
+      this.transitionChannel(channel, ChannelState.IDLE);
       await this.channelRepository.update(channelId, {
         state: ChannelState.IDLE,
       });
@@ -645,7 +1247,7 @@ export class ChannelService {
     // We'll update it to STREAMING again after the new file starts
     if (!isTransition && channel.getState() !== ChannelState.STARTING) {
       // Only transition to STARTING for non-transition starts (and only if not already STARTING)
-      channel.transitionTo(ChannelState.STARTING);
+      this.transitionChannel(channel, ChannelState.STARTING);
       await this.channelRepository.update(channelId, {
         state: ChannelState.STARTING,
       });
@@ -697,7 +1299,7 @@ export class ChannelService {
       // Transition to STARTING (only if not already in transition and not already STARTING)
       // During transitions, channel is already in STREAMING state, so skip this
       if (!isTransition && channel.getState() !== ChannelState.STARTING) {
-        channel.transitionTo(ChannelState.STARTING);
+        this.transitionChannel(channel, ChannelState.STARTING);
         await this.channelRepository.update(channelId, {
           state: ChannelState.STARTING,
           started_at: new Date(),
@@ -1167,7 +1769,7 @@ export class ChannelService {
       );
 
       // Update channel index
-      channel.updateCurrentIndex(actualStartIndex);
+      this.updateChannelIndex(channel, actualStartIndex, currentFile);
       await this.channelRepository.update(channelId, {
         current_index: actualStartIndex,
       });
@@ -1187,7 +1789,10 @@ export class ChannelService {
       if (!isTransition) {
         try {
           const files = await fs.readdir(outputDir);
-          const segments = files.filter(f => f.endsWith('.m4s') && f.startsWith('stream_'));
+          // Passthrough runs also leave one init_N.mp4 each
+          const segments = files.filter(
+            f => (f.endsWith('.m4s') && f.startsWith('stream_')) || /^init_\d+\.mp4$/.test(f)
+          );
           let deletedCount = 0;
           for (const segment of segments) {
             try {
@@ -1416,7 +2021,7 @@ export class ChannelService {
           );
           if (activeBlock) {
             scheduleBlockId = activeBlock.id;
-            this.activeScheduleBlocks.set(channelId, activeBlock.id);
+            this.trackScheduleBlock(channelId, activeBlock);
             logger.debug(
               { channelId, scheduleBlockId, scheduleBlockName: activeBlock.name },
               'Tracking schedule block for dynamic playlist'
@@ -1446,20 +2051,70 @@ export class ChannelService {
         'Creating concat file with EPG-calculated position'
       );
       
-      const { concatFilePath, startPosition } = await this.concatFileManager.createConcatFile(
-        channelId,
-        outputDir,
-        mediaFilePaths,
-        bumperPath,
+      // Slot-aligned blocks play generated filler clips, which must exist before FFmpeg reads them
+      await this.renderFillerClips(channel, media);
+
+      const encoderProfile = await this.resolveEncoderProfile(channel);
+
+      // Pre-transcoded renditions replace their source files. They match the channel encode,
+      // so passthrough channels stream-copy them instead of transcoding
+      const cached = await this.getCachedRenditions(channel, media, encoderProfile);
+      const playoutMedia = cached?.renditions.size
+        ? media.map((file) => {
+            const renditionPath = cached.renditions.get(file.path);
+            return renditionPath
+              ? new MediaFile(renditionPath, getCachedRenditionMetadata(file.metadata, cached.params), file.info, file.id, file.addedAt)
+              : file;
+          })
+        : media;
+      const overlays = await this.prepareOverlays(channel);
+      const passthroughRun = this.getPassthroughRun(
+        channel,
+        playoutMedia,
         actualStartIndex,
-        seekToSeconds,
-        scheduleBlockId // Pass schedule block ID for metadata tracking
+        encoderProfile,
+        overlays.length > 0
       );
 
-      logger.info({ channelId, concatFilePath, mediaCount: media.length }, 'Starting stream with concat file');
+      // Passthrough transcode runs stop at the next conforming file. It stays in the concat file as
+      // the tail so FFmpeg has media until the progression tracker restarts it in stream-copy mode
+      const runMediaPaths =
+        passthroughRun && passthroughRun.endIndex < media.length
+          ? mediaFilePaths.slice(0, passthroughRun.endIndex + 1)
+          : mediaFilePaths;
+
+      // Stream-copied files are read directly (one file per FFmpeg process, no concat file)
+      let concatFilePath: string | undefined;
+      let startPosition = 0;
+      if (!passthroughRun?.copy) {
+        ({ concatFilePath, startPosition } = await this.concatFileManager.createConcatFile(
+          channelId,
+          outputDir,
+          runMediaPaths,
+          bumperPath,
+          actualStartIndex,
+          seekToSeconds,
+          scheduleBlockId, // Pass schedule block ID for metadata tracking
+          cached?.renditions
+        ));
+        logger.info({ channelId, concatFilePath, mediaCount: media.length }, 'Starting stream with concat file');
+      }
+
+      const startMedia = playoutMedia[actualStartIndex];
+      const startTracks = startMedia
+        ? selectHlsTracks(startMedia.metadata, channel.config.preferredLanguage)
+        : { audioTracks: [], subtitleTracks: [] };
+
+      // Number segments by time since the schedule started (DASH manifests derive the live edge from it)
+      const scheduleStartTime = await this.scheduleTimeService.getScheduleStartTime(channelId);
+      const lowLatency = channel.config.lowLatency ? getLowLatencyOptions(channel.config.segmentDuration) : undefined;
+      const startSegment = scheduleStartTime
+        ? getLiveSegmentNumber(scheduleStartTime, channel.config.segmentDuration)
+        : undefined;
 
       const streamConfig: StreamConfig = {
         concatFile: concatFilePath,
+        inputFile: passthroughRun?.copy ? playoutMedia[actualStartIndex].path : undefined,
         outputDir: outputDir,
         videoBitrate: channel.config.videoBitrate,
         audioBitrate: channel.config.audioBitrate,
@@ -1468,9 +2123,23 @@ export class ChannelService {
         segmentDuration: channel.config.segmentDuration,
         // startPosition is handled by inpoint in the concat file, so we don't need -ss
         // But we keep it for compatibility (it will be 0 when using concat)
-        startPosition: startPosition,
+        // Stream-copied files seek with -ss instead (to the keyframe before the position)
+        startPosition: passthroughRun?.copy ? seekToSeconds : startPosition,
         watermarkImageBase64: channel.config.watermarkImageBase64,
         watermarkPosition: channel.config.watermarkPosition,
+        renditions: channel.config.renditions,
+        // Alternate audio/subtitle renditions from the file the concat stream starts on
+        audioTracks: startTracks.audioTracks,
+        subtitleTracks: startTracks.subtitleTracks,
+        lowLatency,
+        startNumber:
+          startSegment !== undefined && lowLatency ? startSegment * lowLatency.partsPerSegment : startSegment,
+        encoderProfile,
+        passthrough: passthroughRun ? (passthroughRun.copy ? 'copy' : 'transcode') : undefined,
+        loudness: this.getLoudnessOptions(channel, playoutMedia, actualStartIndex, runMediaPaths.length, seekToSeconds),
+        aspectMode: channel.config.aspectMode,
+        autoCrop: this.getAutoCropTimeline(channel, playoutMedia, actualStartIndex, runMediaPaths.length, seekToSeconds),
+        overlays,
       };
 
       // With concat approach: No onFileEnd callback needed
@@ -1497,12 +2166,17 @@ export class ChannelService {
       }
       
       // Start FFmpeg stream with concat file (no callback needed - concat handles transitions)
-      await this.ffmpegEngine.start(channelId, streamConfig);
+      // A stream-copied file doesn't loop: when it ends, the next run starts at the following file
+      const onCopyEnd = passthroughRun?.copy
+        ? () => this.advancePassthroughRun(channelId, (actualStartIndex + 1) % media.length)
+        : undefined;
+      await this.updateNowNextOverlay(channel, media);
+      await this.ffmpegEngine.start(channelId, streamConfig, onCopyEnd);
       
       // Start file progression tracking for concat stream
       // This tracks which file is currently playing and regenerates bumper when episodes start
       // Pass seekToSeconds so the tracker accounts for starting mid-file
-      this.startConcatProgressionTracking(channelId, media, actualStartIndex, seekToSeconds, channel);
+      this.startConcatProgressionTracking(channelId, media, actualStartIndex, seekToSeconds, channel, passthroughRun);
       
       logger.info(
         { channelId },
@@ -1529,7 +2203,7 @@ export class ChannelService {
         });
       } else {
         // Normal start - transition to STREAMING
-        channel.transitionTo(ChannelState.STREAMING);
+        this.transitionChannel(channel, ChannelState.STREAMING);
         await this.channelRepository.update(channelId, {
           state: ChannelState.STREAMING,
           started_at: new Date(),
@@ -1568,7 +2242,7 @@ export class ChannelService {
       );
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      channel.setError(errorMessage);
+      this.setChannelError(channel, errorMessage);
       await this.channelRepository.update(channelId, {
         state: ChannelState.ERROR,
         last_error: errorMessage,
@@ -1588,7 +2262,8 @@ export class ChannelService {
     mediaFiles: MediaFile[],
     startIndex: number,
     seekToSeconds: number,
-    channel: Channel
+    channel: Channel,
+    passthroughRun?: PassthroughRun
   ): void {
     // Stop any existing tracker for this channel
     this.stopConcatProgressionTracking(channelId);
@@ -1640,8 +2315,9 @@ export class ChannelService {
 
         // CRITICAL: Check if FFmpeg is still running - if not, restart stream
         // This handles cases where FFmpeg crashes due to missing/corrupted bumper files
+        // (passthrough run switches stop FFmpeg on purpose)
         const isFFmpegActive = this.ffmpegEngine.isActive(channelId);
-        if (!isFFmpegActive && channel.isStreaming()) {
+        if (!isFFmpegActive && channel.isStreaming() && !this.passthroughTransitions.has(channelId)) {
           logger.warn(
             { channelId, state: channel.getState() },
             'FFmpeg process stopped unexpectedly - attempting to restart stream'
@@ -1661,6 +2337,7 @@ export class ChannelService {
               );
               
               // Restart the channel from current position
+              ffmpegRestarts.inc({ channel: channelId, reason: 'crash' });
               await this.startChannel(channelId, currentIndex, true);
             } catch (restartError) {
               logger.error(
@@ -1808,10 +2485,11 @@ export class ChannelService {
           );
 
           // Update channel's currentIndex
-          channel.updateCurrentIndex(currentFileIndex);
+          this.updateChannelIndex(channel, currentFileIndex, mediaFiles[currentFileIndex]);
           await this.channelRepository.update(channelId, {
             current_index: currentFileIndex,
           });
+          await this.updateNowNextOverlay(channel, mediaFiles);
 
           // Update virtual time
           let accumulatedSeconds = 0;
@@ -1823,6 +2501,17 @@ export class ChannelService {
           }
         // NOTE: No longer advancing virtual time - position calculated on-demand from schedule_start_time
 
+          // Passthrough: a transcode run ends at the next conforming file (or wraps to the list start),
+          // restart FFmpeg so that file is stream-copied
+          if (
+            passthroughRun &&
+            !passthroughRun.copy &&
+            (currentFileIndex >= passthroughRun.endIndex || currentFileIndex < passthroughRun.startIndex)
+          ) {
+            await this.advancePassthroughRun(channelId, currentFileIndex);
+            return;
+          }
+
           // Regenerate bumper for the NEXT file (when this one ends)
           // The concat file references the same bumper.mp4 path multiple times
           // We overwrite the file content with fresh "Up Next" info for each episode
@@ -1936,6 +2625,55 @@ export class ChannelService {
       return;
     }
 
+    // Relay channels stop mirroring (and their fallback playout, if any, stops below)
+    const relay = this.relays.get(channelId);
+    if (relay) {
+      relay.stop();
+      this.relays.delete(channelId);
+    }
+    this.relayFallbacks.delete(channelId);
+    this.clearLiveInput(channelId);
+
+    try {
+      this.transitionChannel(channel, ChannelState.STOPPING);
+      await this.channelRepository.update(channelId, { state: ChannelState.STOPPING });
+
+      await this.stopPlayout(channelId);
+
+      this.transitionChannel(channel, ChannelState.IDLE);
+      await this.channelRepository.update(channelId, {
+        state: ChannelState.IDLE,
+        started_at: null,
+      });
+
+      // Clean up schedule block tracking for dynamic playlists (only when fully stopped)
+      this.activeScheduleBlocks.delete(channelId);
+
+      // NOTE: No longer need to pause/track virtual time with schedule-based approach
+      // Position is calculated on-demand from schedule_start_time when channel resumes
+
+      logger.info({ channelId }, 'Channel stopped');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.setChannelError(channel, errorMessage);
+      await this.channelRepository.update(channelId, {
+        state: ChannelState.ERROR,
+        last_error: errorMessage,
+        last_error_at: new Date(),
+      });
+      
+      // NOTE: No longer need to pause virtual time on error with schedule-based approach
+
+      logger.error({ error, channelId }, 'Failed to stop channel');
+      throw error;
+    }
+  }
+
+  /**
+   * Stop FFmpeg and everything that follows its playout (early-start timer, progression
+   * tracking, overlays, playback session) without changing the channel state
+   */
+  private async stopPlayout(channelId: string): Promise<void> {
     // Cancel early-start timer if it exists
     const earlyStartTimer = this.earlyStartTimers.get(channelId);
     if (earlyStartTimer) {
@@ -1949,72 +2687,472 @@ export class ChannelService {
 
     // Stop concat progression tracking
     this.stopConcatProgressionTracking(channelId);
+    this.overlayService?.releaseStream(channelId);
 
+    // Stop FFmpeg - wrap in try-catch to handle errors gracefully
+    // Note: FFmpeg errors during stop are expected (how we pause streams)
     try {
-      channel.transitionTo(ChannelState.STOPPING);
-      await this.channelRepository.update(channelId, { state: ChannelState.STOPPING });
+      await this.ffmpegEngine.stop(channelId);
+      logger.debug({ channelId }, 'FFmpeg stop completed');
+    } catch (ffmpegError) {
+      logger.warn(
+        { error: ffmpegError, channelId },
+        'FFmpeg stop error (continuing with channel stop)'
+      );
+      // Continue anyway - channel state will be updated
+    }
 
-      // Stop FFmpeg - wrap in try-catch to handle errors gracefully
-      // Note: FFmpeg errors during stop are expected (how we pause streams)
+    // End playback session if one is active
+    const sessionId = this.activeSessionIds.get(channelId);
+    if (sessionId) {
       try {
-        await this.ffmpegEngine.stop(channelId);
-        logger.debug({ channelId }, 'FFmpeg stop completed');
-      } catch (ffmpegError) {
-        logger.warn(
-          { error: ffmpegError, channelId },
-          'FFmpeg stop error (continuing with channel stop)'
+        await this.playbackSessionRepository.endSession(sessionId, {
+          sessionEnd: new Date(),
+        });
+
+        this.activeSessionIds.delete(channelId);
+
+        logger.info(
+          { channelId, sessionId },
+          'Playback session ended'
         );
-        // Continue anyway - channel state will be updated
+      } catch (sessionError) {
+        logger.warn({ error: sessionError, channelId }, 'Failed to end playback session');
       }
+    }
+  }
 
-      // End playback session if one is active
-      const sessionId = this.activeSessionIds.get(channelId);
-      if (sessionId) {
-        try {
-          await this.playbackSessionRepository.endSession(sessionId, {
-            sessionEnd: new Date(),
-          });
+  /**
+   * Move a channel into STARTING, resetting states left over from earlier runs (as for regular channels)
+   */
+  private async enterStartingState(channel: Channel): Promise<void> {
+    const currentState = channel.getState();
+    if (
+      currentState === ChannelState.STOPPING ||
+      currentState === ChannelState.ERROR ||
+      currentState === ChannelState.STARTING
+    ) {
+      this.transitionChannel(channel, ChannelState.IDLE);
+      await this.channelRepository.update(channel.id, { state: ChannelState.IDLE });
+    }
+    if (!channel.canTransitionTo(ChannelState.STARTING)) {
+      throw new ConflictError(`Channel is already ${channel.getState()}`);
+    }
+    this.transitionChannel(channel, ChannelState.STARTING);
+    await this.channelRepository.update(channel.id, { state: ChannelState.STARTING });
+  }
 
-          this.activeSessionIds.delete(channelId);
+  /**
+   * Start a relay channel: mirror its source into the output directory instead of running FFmpeg
+   * When the source can't be read, the channel starts on its fallback (its own buckets) right away
+   */
+  private async startRelayChannel(channel: Channel): Promise<void> {
+    const channelId = channel.id;
+    await this.enterStartingState(channel);
+
+    const relay = new HlsRelay({
+      channelId,
+      sourceUrl: channel.config.relayUrl!,
+      outputDir: channel.config.outputDir,
+      maxBandwidth: channel.config.videoBitrate + channel.config.audioBitrate,
+      windowSize: config.hls.playlistWindowSize,
+      onSourceLost: (error) => void this.onRelaySourceLost(channelId, error),
+      onSourceRestored: () => void this.onRelaySourceRestored(channelId),
+    });
+    this.relays.set(channelId, relay);
 
-          logger.info(
-            { channelId, sessionId },
-            'Playback session ended'
-          );
-        } catch (sessionError) {
-          logger.warn({ error: sessionError, channelId }, 'Failed to end playback session');
-        }
+    try {
+      if (!(await relay.start())) {
+        logger.warn({ channelId, sourceUrl: channel.config.relayUrl }, 'Relay source unreachable, starting fallback');
+        await this.startRelayFallback(channel, relay);
+        return;
       }
 
-      channel.transitionTo(ChannelState.IDLE);
+      this.transitionChannel(channel, ChannelState.STREAMING);
       await this.channelRepository.update(channelId, {
-        state: ChannelState.IDLE,
-        started_at: null,
+        state: ChannelState.STREAMING,
+        started_at: new Date(),
       });
+      logger.info({ channelId, sourceUrl: channel.config.relayUrl }, 'Relay channel started');
+    } catch (error) {
+      await this.failRelayChannel(channel, error);
+      throw error;
+    }
+  }
 
-      // Clean up schedule block tracking for dynamic playlists (only when fully stopped)
-      this.activeScheduleBlocks.delete(channelId);
+  /**
+   * Play the relay channel's buckets while its source is lost (the relay keeps probing the source)
+   */
+  private async startRelayFallback(channel: Channel, relay: HlsRelay): Promise<void> {
+    relay.pause();
+    this.relayFallbacks.add(channel.id);
+    try {
+      // Keeps the channel state (STARTING or STREAMING) until the fallback is streaming
+      await this.startChannel(channel.id, undefined, true);
+    } catch (error) {
+      this.relayFallbacks.delete(channel.id);
+      throw error;
+    }
+  }
 
-      // NOTE: No longer need to pause/track virtual time with schedule-based approach
-      // Position is calculated on-demand from schedule_start_time when channel resumes
+  /**
+   * Stop the relay of a relay channel that can't stream (source and fallback unavailable)
+   */
+  private async failRelayChannel(channel: Channel, error: unknown): Promise<void> {
+    this.relays.get(channel.id)?.stop();
+    this.relays.delete(channel.id);
+    this.relayFallbacks.delete(channel.id);
 
-      logger.info({ channelId }, 'Channel stopped');
-    } catch (error) {
+    // A failed fallback start has already put the channel in the error state
+    if (channel.getState() !== ChannelState.ERROR) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      channel.setError(errorMessage);
-      await this.channelRepository.update(channelId, {
+      this.setChannelError(channel, errorMessage);
+      await this.channelRepository.update(channel.id, {
         state: ChannelState.ERROR,
         last_error: errorMessage,
         last_error_at: new Date(),
       });
-      
-      // NOTE: No longer need to pause virtual time on error with schedule-based approach
+    }
+    logger.error({ error, channelId: channel.id }, 'Failed to start relay channel');
+  }
 
-      logger.error({ error, channelId }, 'Failed to stop channel');
+  private async onRelaySourceLost(channelId: string, error?: string): Promise<void> {
+    const channel = this.channels.get(channelId);
+    const relay = this.relays.get(channelId);
+    if (!channel || !relay) {
+      return;
+    }
+    eventBus.emit('channel.relay', {
+      channelId,
+      status: 'source_lost',
+      sourceUrl: relay.getStatus().sourceUrl,
+      error,
+    });
+
+    try {
+      await this.startRelayFallback(channel, relay);
+      logger.info({ channelId }, 'Relay source lost, playing fallback');
+    } catch (fallbackError) {
+      await this.failRelayChannel(channel, fallbackError).catch((updateError) => {
+        logger.error({ error: updateError, channelId }, 'Failed to record relay channel error');
+      });
+    }
+  }
+
+  private async onRelaySourceRestored(channelId: string): Promise<void> {
+    const relay = this.relays.get(channelId);
+    if (!relay || !this.relayFallbacks.has(channelId)) {
+      return;
+    }
+    eventBus.emit('channel.relay', {
+      channelId,
+      status: 'source_restored',
+      sourceUrl: relay.getStatus().sourceUrl,
+    });
+
+    try {
+      await this.stopPlayout(channelId);
+      this.relayFallbacks.delete(channelId);
+      await relay.resume();
+      logger.info({ channelId }, 'Relay source restored, fallback stopped');
+    } catch (error) {
+      logger.error({ error, channelId }, 'Failed to switch back to relay source');
+    }
+  }
+
+  /**
+   * Get the relay state of a relay channel
+   * source is undefined while the channel isn't streaming
+   */
+  public async getRelayStatus(channelId: string): Promise<{
+    relayUrl: string;
+    fallback: boolean;
+    source?: RelayStatus;
+  }> {
+    const channel = await this.getChannel(channelId);
+    if (!channel.config.relayUrl) {
+      throw new NotFoundError(`Relay channel '${channelId}'`);
+    }
+    return {
+      relayUrl: channel.config.relayUrl,
+      fallback: this.relayFallbacks.has(channelId),
+      source: this.relays.get(channelId)?.getStatus(),
+    };
+  }
+
+  /**
+   * Live source the channel should play now: the active schedule block's input, else the channel's own
+   */
+  private async resolveLiveInput(
+    channel: Channel
+  ): Promise<{ url: string; block?: { id: string; name: string } } | undefined> {
+    if (channel.config.useDynamicPlaylist && this.playlistResolver) {
+      const block = await this.playlistResolver.scheduleRepository?.getActiveBlock(channel.id, new Date());
+      if (block?.live_input_url) {
+        return { url: block.live_input_url, block };
+      }
+    }
+    return channel.config.liveInputUrl ? { url: channel.config.liveInputUrl } : undefined;
+  }
+
+  /**
+   * Start playing a live input
+   * An unreachable source starts the channel on its buckets right away (the source keeps being probed)
+   */
+  private async startLiveInput(
+    channel: Channel,
+    input: { url: string; block?: { id: string; name: string } },
+    isTransition: boolean
+  ): Promise<void> {
+    const channelId = channel.id;
+    // Schedule transitions switch inputs without leaving STREAMING
+    if (!isTransition || channel.getState() !== ChannelState.STREAMING) {
+      await this.enterStartingState(channel);
+    }
+
+    this.clearLiveInput(channelId);
+    if (input.block) {
+      this.trackScheduleBlock(channelId, input.block);
+    }
+    const session: LiveInputSession = {
+      url: input.url,
+      blockId: input.block?.id,
+      mode: 'live',
+      timer: setInterval(() => void this.checkLiveInput(channelId), config.liveInput.reconnectInterval * 1000),
+      checking: false,
+    };
+    this.liveInputs.set(channelId, session);
+
+    try {
+      if (await this.ffmpegEngine.probeInput(input.url)) {
+        await this.playLiveInput(channel, session);
+      } else {
+        logger.warn({ channelId, sourceUrl: input.url }, 'Live source unreachable, starting fallback');
+        session.lostAt = new Date();
+        await this.startLiveFallback(channel, session);
+      }
+
+      if (channel.getState() !== ChannelState.STREAMING) {
+        this.transitionChannel(channel, ChannelState.STREAMING);
+        await this.channelRepository.update(channelId, {
+          state: ChannelState.STREAMING,
+          started_at: new Date(),
+        });
+      }
+      logger.info({ channelId, sourceUrl: input.url, mode: session.mode }, 'Live input started');
+    } catch (error) {
+      this.clearLiveInput(channelId);
+      await this.stopPlayout(channelId);
+      // A failed fallback start has already put the channel in the error state
+      if (channel.getState() !== ChannelState.ERROR) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        this.setChannelError(channel, errorMessage);
+        await this.channelRepository.update(channelId, {
+          state: ChannelState.ERROR,
+          last_error: errorMessage,
+          last_error_at: new Date(),
+        });
+      }
+      logger.error({ error, channelId }, 'Failed to start live input');
       throw error;
     }
   }
 
+  /**
+   * Re-encode the live source (FFmpeg ending or failing means the source dropped)
+   */
+  private async playLiveInput(channel: Channel, session: LiveInputSession): Promise<void> {
+    session.mode = 'live';
+    session.lostAt = undefined;
+    await this.ffmpegEngine.start(
+      channel.id,
+      await this.getLiveStreamConfig(channel, { liveInput: session.url }),
+      () => void this.onLiveInputDropped(channel, session)
+    );
+  }
+
+  /**
+   * Play the "source lost" slate until the source comes back or the fallback timeout passes
+   */
+  private async playLiveSlate(channel: Channel, session: LiveInputSession): Promise<void> {
+    session.mode = 'slate';
+    await this.ffmpegEngine.start(channel.id, await this.getLiveStreamConfig(channel, { slate: SOURCE_LOST_SLATE_TEXT }));
+  }
+
+  /**
+   * Play the channel's buckets while the live source is down
+   * When they can't play, the slate stays up (unless the start left the channel in the error state)
+   */
+  private async startLiveFallback(channel: Channel, session: LiveInputSession): Promise<void> {
+    session.mode = 'fallback';
+    eventBus.emit('channel.live', {
+      channelId: channel.id,
+      status: 'fallback',
+      sourceUrl: session.url,
+      blockId: session.blockId,
+    });
+    try {
+      // Keeps the channel state (STARTING or STREAMING) until the fallback is streaming
+      await this.startChannel(channel.id, undefined, true);
+      logger.info({ channelId: channel.id, sourceUrl: session.url }, 'Live source down, playing fallback');
+    } catch (error) {
+      if (channel.getState() === ChannelState.ERROR) {
+        throw error;
+      }
+      logger.warn({ error, channelId: channel.id }, 'Live input fallback unavailable, keeping the slate');
+      await this.playLiveSlate(channel, session);
+    }
+  }
+
+  private async onLiveInputDropped(channel: Channel, session: LiveInputSession): Promise<void> {
+    if (this.liveInputs.get(channel.id) !== session || session.mode !== 'live') {
+      return;
+    }
+    logger.warn({ channelId: channel.id, sourceUrl: session.url }, 'Live source dropped, playing slate');
+    session.lostAt = new Date();
+    eventBus.emit('channel.live', {
+      channelId: channel.id,
+      status: 'source_lost',
+      sourceUrl: session.url,
+      blockId: session.blockId,
+    });
+    try {
+      await this.playLiveSlate(channel, session);
+    } catch (error) {
+      logger.error({ error, channelId: channel.id }, 'Failed to start live input slate');
+    }
+  }
+
+  /**
+   * Periodic live input check: follow schedule changes, reconnect to a lost source and fall back
+   * to the buckets once the slate has played for LIVE_INPUT_FALLBACK_TIMEOUT
+   */
+  private async checkLiveInput(channelId: string): Promise<void> {
+    const session = this.liveInputs.get(channelId);
+    const channel = this.channels.get(channelId);
+    if (!session || !channel || session.checking) {
+      return;
+    }
+    session.checking = true;
+    try {
+      // The schedule moved on to another input (bucket fallbacks follow block changes through the progression tracker)
+      if (session.mode !== 'fallback' && channel.config.useDynamicPlaylist) {
+        const input = await this.resolveLiveInput(channel);
+        if (input?.url !== session.url || input?.block?.id !== session.blockId) {
+          logger.info({ channelId, sourceUrl: session.url }, 'Schedule block changed, leaving live input');
+          await this.stopPlayout(channelId);
+          this.clearLiveInput(channelId);
+          await this.startChannel(channelId, undefined, true);
+          return;
+        }
+      }
+      if (session.mode === 'live') {
+        return;
+      }
+
+      const reachable = await this.ffmpegEngine.probeInput(session.url);
+      if (this.liveInputs.get(channelId) !== session) {
+        return; // Stopped while probing
+      }
+      if (reachable) {
+        await this.stopPlayout(channelId);
+        await this.playLiveInput(channel, session);
+        eventBus.emit('channel.live', {
+          channelId,
+          status: 'source_restored',
+          sourceUrl: session.url,
+          blockId: session.blockId,
+        });
+        logger.info({ channelId, sourceUrl: session.url }, 'Live source restored');
+      } else if (
+        session.mode === 'slate' &&
+        session.lostAt &&
+        Date.now() - session.lostAt.getTime() >= config.liveInput.fallbackTimeout * 1000
+      ) {
+        await this.stopPlayout(channelId);
+        await this.startLiveFallback(channel, session);
+      }
+    } catch (error) {
+      logger.error({ error, channelId }, 'Live input check failed');
+      if (channel.getState() === ChannelState.ERROR) {
+        this.clearLiveInput(channelId);
+      }
+    } finally {
+      session.checking = false;
+    }
+  }
+
+  private clearLiveInput(channelId: string): void {
+    const session = this.liveInputs.get(channelId);
+    if (session) {
+      clearInterval(session.timer);
+      this.liveInputs.delete(channelId);
+    }
+  }
+
+  /**
+   * Stream settings for a live input or its slate: the channel's encode, without file-specific
+   * tracks, crops or per-file loudness (loudness is normalized in realtime)
+   */
+  private async getLiveStreamConfig(
+    channel: Channel,
+    input: Pick<StreamConfig, 'liveInput' | 'slate'>
+  ): Promise<StreamConfig> {
+    const scheduleStartTime = await this.scheduleTimeService.getScheduleStartTime(channel.id);
+    const lowLatency = channel.config.lowLatency ? getLowLatencyOptions(channel.config.segmentDuration) : undefined;
+    const startSegment = scheduleStartTime
+      ? getLiveSegmentNumber(scheduleStartTime, channel.config.segmentDuration)
+      : undefined;
+
+    return {
+      ...input,
+      outputDir: path.resolve(channel.config.outputDir),
+      videoBitrate: channel.config.videoBitrate,
+      audioBitrate: channel.config.audioBitrate,
+      resolution: channel.config.resolution,
+      fps: channel.config.fps,
+      segmentDuration: channel.config.segmentDuration,
+      watermarkImageBase64: channel.config.watermarkImageBase64,
+      watermarkPosition: channel.config.watermarkPosition,
+      renditions: channel.config.renditions,
+      lowLatency,
+      startNumber:
+        startSegment !== undefined && lowLatency ? startSegment * lowLatency.partsPerSegment : startSegment,
+      encoderProfile: await this.resolveEncoderProfile(channel),
+      loudness: isLoudnessNormalized(channel.config)
+        ? {
+            target: channel.config.loudnessTarget!,
+            truePeakCeiling: channel.config.truePeakCeiling ?? DEFAULT_TRUE_PEAK_CEILING,
+          }
+        : undefined,
+      aspectMode: channel.config.aspectMode,
+      overlays: await this.prepareOverlays(channel),
+    };
+  }
+
+  /**
+   * Get the live input state of a channel
+   * playing is undefined unless the channel is streaming a live input (or its slate/fallback)
+   */
+  public async getLiveInputStatus(channelId: string): Promise<{
+    liveInputUrl?: string;
+    playing?: {
+      sourceUrl: string;
+      blockId?: string;
+      mode: LiveInputSession['mode'];
+      lostAt?: Date;
+    };
+  }> {
+    const channel = await this.getChannel(channelId);
+    const session = this.liveInputs.get(channelId);
+    return {
+      liveInputUrl: channel.config.liveInputUrl,
+      playing: session
+        ? { sourceUrl: session.url, blockId: session.blockId, mode: session.mode, lostAt: session.lostAt }
+        : undefined,
+    };
+  }
+
   /**
    * Restart a channel
    */
@@ -2022,6 +3160,7 @@ export class ChannelService {
     const channel = await this.getChannel(channelId);
     const currentIndex = channel.getMetadata().currentIndex;
 
+    ffmpegRestarts.inc({ channel: channelId, reason: 'manual' });
     await this.stopChannel(channelId);
     await this.startChannel(channelId, currentIndex);
 
@@ -2097,6 +3236,14 @@ export class ChannelService {
     );
 
     try {
+      // Live blocks play their source instead of a media list (startChannel resolves it)
+      const liveInput = await this.resolveLiveInput(channel);
+      if (liveInput?.block) {
+        await this.stopChannel(channelId);
+        await this.startChannel(channelId);
+        return;
+      }
+
       // Get new media list (will be shuffled/ordered based on new block's playback_mode)
       const newMedia = await this.getChannelMedia(channelId);
 
@@ -2113,7 +3260,7 @@ export class ChannelService {
 
       if (newBlock) {
         // Update tracked schedule block ID
-        this.activeScheduleBlocks.set(channelId, newBlock.id);
+        this.trackScheduleBlock(channelId, newBlock);
 
         logger.info(
           {
@@ -2710,6 +3857,7 @@ export class ChannelService {
    */
   public async nextFile(channelId: string): Promise<void> {
     const channel = await this.getChannel(channelId);
+    this.assertPlayingFiles(channel);
     const media = await this.getChannelMedia(channelId);
     const currentIndex = channel.getMetadata().currentIndex;
     const nextIndex = (currentIndex + 1) % media.length;
@@ -2718,7 +3866,7 @@ export class ChannelService {
       await this.stopChannel(channelId);
       await this.startChannel(channelId, nextIndex);
     } else {
-      channel.updateCurrentIndex(nextIndex);
+      this.updateChannelIndex(channel, nextIndex, media[nextIndex]);
       await this.channelRepository.update(channelId, {
         current_index: nextIndex,
       });
@@ -2732,6 +3880,7 @@ export class ChannelService {
    */
   public async setFileIndex(channelId: string, index: number): Promise<void> {
     const channel = await this.getChannel(channelId);
+    this.assertPlayingFiles(channel);
     const media = await this.getChannelMedia(channelId);
 
     if (index < 0 || index >= media.length) {
@@ -2744,7 +3893,7 @@ export class ChannelService {
       await this.stopChannel(channelId);
       await this.startChannel(channelId, index);
     } else {
-      channel.updateCurrentIndex(index);
+      this.updateChannelIndex(channel, index, media[index]);
       await this.channelRepository.update(channelId, {
         current_index: index,
       });
@@ -2776,7 +3925,7 @@ export class ChannelService {
         'Resetting orphaned state to IDLE on viewer connect'
       );
 
-      channel.transitionTo(ChannelState.IDLE);
+      this.transitionChannel(channel, ChannelState.IDLE);
       await this.channelRepository.update(channelId, {
         state: ChannelState.IDLE,
       });
@@ -59,6 +59,7 @@ export class ConcatFileManager {
    * @param startIndex - Optional: start from this file index (for seeking)
    * @param seekToSeconds - Optional: seek to this position within the first file (only used if startIndex is provided)
    * @param scheduleBlockId - Optional: ID of schedule block this concat file is for (used to detect schedule transitions)
+   * @param cachedRenditions - Optional: pre-transcoded renditions (source path -> cached path), used in place of the source
    * @returns Path to the created concat file and the calculated startPosition for FFmpeg -ss
    */
   async createConcatFile(
@@ -68,7 +69,8 @@ export class ConcatFileManager {
     bumperPath: string,
     startIndex: number = 0,
     seekToSeconds: number = 0,
-    scheduleBlockId?: string
+    scheduleBlockId?: string,
+    cachedRenditions?: Map<string, string>
   ): Promise<{ concatFilePath: string; startPosition: number }> {
     const concatFilePath = path.join(outputDir, 'concat.txt');
 
@@ -96,6 +98,9 @@ export class ConcatFileManager {
     // If we need to seek within the first file, we'll use FFmpeg's -ss option
     // The concat file will include all files from startIndex onwards
     for (let i = validStartIndex; i < mediaFiles.length; i++) {
+      // Prefer the pre-transcoded rendition (same duration, already at the channel's settings)
+      const mediaPath = cachedRenditions?.get(mediaFiles[i]) || mediaFiles[i];
+
       // Add the media file
       // If this is the first file and we need to seek, we'll use inpoint in the concat file
       // OR we can use -ss on the input (simpler)
@@ -112,13 +117,13 @@ export class ConcatFileManager {
         // - May include extra packets/frames before the inpoint
         // - Decoded content may contain frames before the specified inpoint
         // - For frame-accurate seeking, pre-process file to create trimmed segment (requires re-encoding)
-        const escapedPath = this.escapePathForConcat(mediaFiles[i]);
+        const escapedPath = this.escapePathForConcat(mediaPath);
         // Use floating point for better precision (FFmpeg accepts both int and float)
         const inpointValue = validSeekToSeconds.toFixed(3);
         logger.warn(
           {
             channelId,
-            filePath: mediaFiles[i],
+            filePath: mediaPath,
             requestedSeek: validSeekToSeconds,
             inpointValue,
             note: 'Using inpoint in concat file - for non-intra frame codecs (H.264/H.265), seeking will be to nearest keyframe, not exact position'
@@ -130,7 +135,7 @@ export class ConcatFileManager {
         lines.push(`file ${escapedPath}`);
         lines.push(`inpoint ${inpointValue}`);
       } else {
-        const escapedPath = this.escapePathForConcat(mediaFiles[i]);
+        const escapedPath = this.escapePathForConcat(mediaPath);
         // Using unquoted paths (with -safe 0) to avoid single quote escaping bugs
         lines.push(`file ${escapedPath}`);
       }
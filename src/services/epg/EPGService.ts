@@ -1,4 +1,4 @@
-import { Program } from '../../domain/epg/Program';
+import { Program, ProgramInfo } from '../../domain/epg/Program';
 import { Channel } from '../../domain/channel/Channel';
 import { MediaFile } from '../../domain/media/MediaFile';
 import { createLogger } from '../../utils/logger';
@@ -8,6 +8,7 @@ import { ScheduleRepository } from '../../infrastructure/database/repositories/S
 import { MediaBucketService } from '../bucket/MediaBucketService';
 import { MediaFileRepository } from '../../infrastructure/database/repositories/MediaFileRepository';
 import { PlaylistResolver, PlaylistContext } from '../playlist/PlaylistResolver';
+import { SlotPlanEntry } from '../playlist/SlotPlanner';
 import { MetadataExtractor } from '../../infrastructure/ffmpeg/MetadataExtractor';
 
 const logger = createLogger('EPGService');
@@ -23,6 +24,9 @@ export interface EPGOptions {
 
 export class EPGService {
   private memoryCache: Map<string, { programs: Program[]; generatedAt: Date }> = new Map();
+  // Lookups served from the database or memory cache vs. generated (for /metrics)
+  private cacheHits = 0;
+  private cacheMisses = 0;
   private readonly lookaheadHours: number;
   private readonly cacheMinutes: number;
   private readonly enableDatabaseCache: boolean;
@@ -93,6 +97,7 @@ export class EPGService {
             programs,
             generatedAt: dbCache.generatedAt,
           });
+          this.cacheHits++;
           return programs;
         }
       } catch (error) {
@@ -104,8 +109,10 @@ export class EPGService {
     const memCached = this.memoryCache.get(cacheKey);
     if (memCached && this.isCacheValid(memCached.generatedAt)) {
       logger.debug({ channelId: channel.id }, 'Returning EPG from memory cache');
+      this.cacheHits++;
       return memCached.programs;
     }
+    this.cacheMisses++;
 
     logger.info({ channelId: channel.id, lookahead: this.lookaheadHours }, 'Generating EPG');
 
@@ -478,6 +485,53 @@ export class EPGService {
 
     while (currentTime < endTime) {
       loopIterations++;
+
+      // Slot-aligned blocks are listed straight from their slot plan - the layout that airs
+      const slotPlan = await this.playlistResolver!.resolveSlotPlan(channel.id, currentTime);
+      if (slotPlan) {
+        // A program of the previous block running into the block is cut at the block start
+        let listFrom = currentTime;
+        const lastProgram = programs[programs.length - 1];
+        if (lastProgram && lastProgram.startTime < slotPlan.start && lastProgram.endTime > slotPlan.start) {
+          programs[programs.length - 1] = new Program(channel.id, lastProgram.startTime, slotPlan.start, lastProgram.info, lastProgram.id);
+          listFrom = slotPlan.start;
+        }
+
+        for (const entry of slotPlan.entries) {
+          const entryEnd = new Date(entry.start.getTime() + Math.round(entry.duration * 1000));
+          if (entryEnd <= listFrom) {
+            continue;
+          }
+          if (entry.start >= endTime) {
+            break;
+          }
+          programs.push(
+            new Program(
+              channel.id,
+              entry.start < listFrom ? listFrom : entry.start,
+              entryEnd > endTime ? endTime : entryEnd,
+              this.getSlotEntryInfo(entry)
+            )
+          );
+        }
+
+        logger.debug(
+          {
+            channelId: channel.id,
+            blockId: slotPlan.blockId,
+            blockStart: slotPlan.start.toISOString(),
+            blockEnd: slotPlan.end.toISOString(),
+            entries: slotPlan.entries.length,
+          },
+          'EPG generateProgramsForDynamicPlaylistWithResolver: Listed slot-aligned block from its slot plan'
+        );
+
+        // The next block starts its media from the beginning
+        currentTime = slotPlan.end < endTime ? new Date(slotPlan.end) : new Date(endTime);
+        lastMediaListHash = '';
+        isFirstProgram = false;
+        continue;
+      }
       
       // Calculate elapsed time from start to determine correct file index
       // This ensures we progress through media even when PlaylistResolver falls back
@@ -888,8 +942,13 @@ export class EPGService {
     let positionInFile = initialPositionInFile;
     let isFirstProgram = true;
 
-    // Get all enabled schedule blocks for this channel
-    const allBlocks = await this.scheduleRepository.getEnabledBlocksForChannel(channel.id);
+    // Get all enabled schedule blocks for this channel, plus the one-off events in the window
+    // (events outrank every block, as in ScheduleRepository.getActiveBlock)
+    const events = await this.scheduleRepository.getEventsForChannel(channel.id, startTime, endTime);
+    const allBlocks = [
+      ...(await this.scheduleRepository.getEnabledBlocksForChannel(channel.id)),
+      ...events.filter((event) => event.enabled).map((event) => ScheduleRepository.eventToBlock(event)),
+    ];
     
     logger.info(
       { 
@@ -1193,6 +1252,11 @@ export class EPGService {
     const nextDay = (dayOfWeek + 1) % 7; // Next day (wraps around)
     
     const matchingBlocks = allBlocks.filter(block => {
+      // Events run between absolute times (see ScheduleRepository.eventToBlock)
+      if (block.event) {
+        return time >= block.event.startsAt && time < block.event.endsAt;
+      }
+
       // Check day of week - need to check current day, previous day (for blocks ending at 00:00),
       // and next day (for blocks starting at 00:00)
       let dayMatches = false;
@@ -1240,10 +1304,14 @@ export class EPGService {
     }
 
     // Sort by priority (highest first), then by creation time
+    // Overlapping events: the one that started last wins
     matchingBlocks.sort((a, b) => {
       if (a.priority !== b.priority) {
         return b.priority - a.priority; // Higher priority first
       }
+      if (a.event && b.event && a.event.startsAt.getTime() !== b.event.startsAt.getTime()) {
+        return b.event.startsAt.getTime() - a.event.startsAt.getTime();
+      }
       return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
     });
 
@@ -1262,6 +1330,10 @@ export class EPGService {
   }
 
   private calculateBlockEndTime(currentTime: Date, block: any): Date {
+    if (block.event) {
+      return new Date(block.event.endsAt);
+    }
+
     const blockEndTimeStr = block.end_time; // HH:MM:SS
     
     // Parse the time
@@ -1287,9 +1359,17 @@ export class EPGService {
     const timeStr = currentTime.toTimeString().substring(0, 8);
     
     let nextStart: Date | null = null;
+
+    // Events start once, at an absolute time
+    for (const block of allBlocks) {
+      if (block.event && block.event.startsAt > currentTime && (!nextStart || block.event.startsAt < nextStart)) {
+        nextStart = new Date(block.event.startsAt);
+      }
+    }
+    const recurringBlocks = allBlocks.filter((block) => !block.event);
     
     // Check blocks for today
-    for (const block of allBlocks) {
+    for (const block of recurringBlocks) {
       if (block.day_of_week === null || block.day_of_week.includes(dayOfWeek)) {
         if (block.start_time > timeStr) {
           const [hours, minutes, seconds] = block.start_time.split(':').map(Number);
@@ -1308,7 +1388,7 @@ export class EPGService {
     tomorrow.setDate(tomorrow.getDate() + 1);
     const tomorrowDayOfWeek = tomorrow.getDay();
     
-    for (const block of allBlocks) {
+    for (const block of recurringBlocks) {
       if (block.day_of_week === null || block.day_of_week.includes(tomorrowDayOfWeek)) {
         const [hours, minutes, seconds] = block.start_time.split(':').map(Number);
         const blockStart = new Date(tomorrow);
@@ -1483,6 +1563,22 @@ export class EPGService {
     const programs = await this.generatePrograms(channel, mediaFiles);
     const now = new Date();
 
+    // Slot-aligned blocks play their slot plan as the media list - the position comes from the plan
+    if (channel.config.useDynamicPlaylist && this.playlistResolver) {
+      const slotPlan = await this.playlistResolver.resolveSlotPlan(channel.id, now);
+      const entryIndex = slotPlan
+        ? slotPlan.entries.findIndex(
+            (entry) => entry.start <= now && now.getTime() < entry.start.getTime() + entry.duration * 1000
+          )
+        : -1;
+      if (slotPlan && entryIndex !== -1) {
+        return {
+          fileIndex: entryIndex,
+          seekPosition: (now.getTime() - slotPlan.entries[entryIndex].start.getTime()) / 1000,
+        };
+      }
+    }
+
     // Find the currently airing program
     const currentProgram = programs.find((p) => p.isAiring(now));
     if (!currentProgram) {
@@ -1950,6 +2046,8 @@ export class EPGService {
   public getCacheStats() {
     return {
       entries: this.memoryCache.size,
+      hits: this.cacheHits,
+      misses: this.cacheMisses,
       cacheMinutes: this.cacheMinutes,
       lookaheadHours: this.lookaheadHours,
     };
@@ -1990,6 +2088,22 @@ export class EPGService {
     return desc;
   }
 
+  /**
+   * Program info for an entry of a slot plan (filler is listed as such)
+   */
+  private getSlotEntryInfo(entry: SlotPlanEntry): ProgramInfo {
+    if (entry.kind === 'filler') {
+      return { title: entry.media.getDisplayName(), category: 'Filler' };
+    }
+    return {
+      title: entry.media.getDisplayName(),
+      description: this.generateDescription(entry.media),
+      category: this.determineCategory(entry.media),
+      episodeNum: this.formatEpisodeNumber(entry.media),
+      icon: undefined,
+    };
+  }
+
   private determineCategory(mediaFile: MediaFile): string {
     const showName = mediaFile.info.showName.toLowerCase();
 
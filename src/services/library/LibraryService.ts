@@ -7,10 +7,14 @@ import { ValidationError, NotFoundError, ConflictError } from '../../utils/error
 import { MediaFile } from '../../domain/media/MediaFile';
 import { validateLibraryPath } from '../../utils/pathSecurity';
 import { config } from '../../config/env';
+import { eventBus } from '../../infrastructure/events/EventBus';
 import fs from 'fs/promises';
 
 const logger = createLogger('LibraryService');
 
+// Publish scan progress every this many files
+const SCAN_PROGRESS_INTERVAL = 25;
+
 /**
  * Service for managing media libraries (Jellyfin-style)
  */
@@ -194,11 +198,23 @@ export class LibraryService {
     );
 
     const startTime = Date.now();
+    eventBus.emit('library.scan', { libraryId, status: 'started', filesProcessed: 0 });
 
     // Scan directory
-    const scannedFiles = await this.mediaScanner.scan([library.getPath()], {
-      recursive: library.isRecursive(),
-    });
+    let scannedFiles: MediaFile[];
+    try {
+      scannedFiles = await this.mediaScanner.scan([library.getPath()], {
+        recursive: library.isRecursive(),
+      });
+    } catch (error) {
+      eventBus.emit('library.scan', {
+        libraryId,
+        status: 'failed',
+        filesProcessed: 0,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
 
     const durationMs = Date.now() - startTime;
 
@@ -218,6 +234,10 @@ export class LibraryService {
           libraryId,
           library.getCategory() as string
         );
+
+        if (config.features.loudnessScan || config.features.cropDetect) {
+          await this.analyzeFile(actualFileId, file);
+        }
         
         filesAdded++;
       } catch (error) {
@@ -227,6 +247,17 @@ export class LibraryService {
         );
         filesSkipped++;
       }
+
+      const filesProcessed = filesAdded + filesSkipped;
+      if (filesProcessed % SCAN_PROGRESS_INTERVAL === 0 && filesProcessed < scannedFiles.length) {
+        eventBus.emit('library.scan', {
+          libraryId,
+          status: 'progress',
+          filesProcessed,
+          filesTotal: scannedFiles.length,
+          filesAdded,
+        });
+      }
     }
     
     if (filesSkipped > 0) {
@@ -246,6 +277,13 @@ export class LibraryService {
       { libraryId, filesScanned: scannedFiles.length, filesAdded, durationMs },
       'Library scan complete'
     );
+    eventBus.emit('library.scan', {
+      libraryId,
+      status: 'completed',
+      filesProcessed: scannedFiles.length,
+      filesTotal: scannedFiles.length,
+      filesAdded,
+    });
 
     return {
       filesScanned: scannedFiles.length,
@@ -254,6 +292,40 @@ export class LibraryService {
     };
   }
 
+  /**
+   * Run the enabled scan-time analyses (loudness, black bars) a file has no results for yet
+   * Results survive upserts while the file is unchanged, so each file is analyzed once.
+   * Failures are logged and leave the file unanalyzed (realtime loudnorm, no crop).
+   */
+  private async analyzeFile(mediaFileId: string, file: MediaFile): Promise<void> {
+    const row = await this.mediaFileRepository.findById(mediaFileId);
+    if (!row) {
+      return;
+    }
+
+    if (config.features.loudnessScan && !row.loudness) {
+      try {
+        const loudness = await this.mediaScanner.measureLoudness(file);
+        if (loudness) {
+          await this.mediaFileRepository.updateLoudness(mediaFileId, loudness);
+        }
+      } catch (error) {
+        logger.warn({ error, filePath: file.path, mediaFileId }, 'Failed to measure loudness');
+      }
+    }
+
+    if (config.features.cropDetect && !row.crop) {
+      try {
+        const crop = await this.mediaScanner.detectCrop(file);
+        if (crop) {
+          await this.mediaFileRepository.updateCrop(mediaFileId, crop);
+        }
+      } catch (error) {
+        logger.warn({ error, filePath: file.path, mediaFileId }, 'Failed to detect black bars');
+      }
+    }
+  }
+
   /**
    * Scan all enabled libraries
    */
@@ -328,6 +400,17 @@ export class LibraryService {
     return this.mediaFileRepository.search(filters);
   }
 
+  /**
+   * Set a media file's content rating (used by rating-window content rules, null = unrated)
+   */
+  public async setContentRating(mediaFileId: string, contentRating: string | null): Promise<void> {
+    const updated = await this.mediaFileRepository.updateContentRating(mediaFileId, contentRating);
+    if (!updated) {
+      throw new NotFoundError(`Media file '${mediaFileId}'`);
+    }
+    logger.info({ mediaFileId, contentRating }, 'Media content rating updated');
+  }
+
   // ===== Series Management =====
 
   /**
@@ -1,7 +1,7 @@
 import fs from 'fs/promises';
 import path from 'path';
 import { createLogger } from '../../utils/logger';
-import { MediaFile, MediaFileInfo } from '../../domain/media/MediaFile';
+import { CropRect, LoudnessMeasurement, MediaFile, MediaFileInfo } from '../../domain/media/MediaFile';
 import { MetadataExtractor } from '../../infrastructure/ffmpeg/MetadataExtractor';
 import { ShowParser } from './ShowParser';
 
@@ -141,6 +141,20 @@ export class MediaScanner {
     }
   }
 
+  /**
+   * Measure the loudness of a scanned file's default audio track
+   */
+  public async measureLoudness(mediaFile: MediaFile): Promise<LoudnessMeasurement | undefined> {
+    return this.metadataExtractor.measureLoudness(mediaFile.path, mediaFile.metadata);
+  }
+
+  /**
+   * Detect black bars in a scanned file
+   */
+  public async detectCrop(mediaFile: MediaFile): Promise<CropRect | undefined> {
+    return this.metadataExtractor.detectCrop(mediaFile.path, mediaFile.metadata);
+  }
+
   /**
    * Extract show information from file path using enhanced ShowParser
    * Supports a wide variety of naming conventions:
@@ -0,0 +1,244 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { Channel } from '../../domain/channel/Channel';
+import { ChannelOverlay, ChannelOverlayInput } from '../../domain/overlay/Overlay';
+import { OverlayRepository } from '../../infrastructure/database/repositories/OverlayRepository';
+import { getClockText, StreamOverlay } from '../../infrastructure/ffmpeg/Overlays';
+import { ChannelService } from '../channel/ChannelService';
+import { createLogger } from '../../utils/logger';
+import { NotFoundError, ValidationError } from '../../utils/errors';
+
+const logger = createLogger('OverlayService');
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/**
+ * Partial overlay update (null clears an optional setting)
+ */
+export type ChannelOverlayUpdate = {
+  [K in keyof ChannelOverlayInput]?: ChannelOverlayInput[K] | null;
+};
+
+/**
+ * Service for managing channel overlay layers
+ *
+ * Layer changes apply the next time the channel's stream starts. Text layers read their text
+ * from files in {outputDir}/overlays, which drawtext reloads every frame: ticker text updates
+ * and now/next changes are written there and show up without restarting FFmpeg.
+ */
+export class OverlayService {
+  private readonly overlayRepository: OverlayRepository;
+  private readonly channelService: ChannelService;
+
+  // Layers of running streams by channel ID (text files to rewrite on updates)
+  private activeOverlays: Map<string, StreamOverlay[]> = new Map();
+
+  constructor(channelService: ChannelService) {
+    this.overlayRepository = new OverlayRepository();
+    this.channelService = channelService;
+  }
+
+  /**
+   * Get a channel's layers, bottom first
+   */
+  public async listOverlays(channelId: string): Promise<ChannelOverlay[]> {
+    await this.channelService.getChannel(channelId);
+    return this.overlayRepository.findByChannel(channelId);
+  }
+
+  /**
+   * Get a layer
+   */
+  public async getOverlay(channelId: string, overlayId: string): Promise<ChannelOverlay> {
+    const overlay = await this.overlayRepository.findById(channelId, overlayId);
+    if (!overlay) {
+      throw new NotFoundError(`Overlay '${overlayId}'`);
+    }
+    return overlay;
+  }
+
+  /**
+   * Add a layer to a channel (applied on next stream start)
+   */
+  public async createOverlay(channelId: string, data: ChannelOverlayInput): Promise<ChannelOverlay> {
+    await this.channelService.getChannel(channelId);
+    this.validateOverlay(data);
+
+    const overlay = await this.overlayRepository.create(channelId, data);
+    logger.info({ channelId, overlayId: overlay.id, type: overlay.type }, 'Overlay created');
+    return overlay;
+  }
+
+  /**
+   * Update a layer (partial updates are merged onto the stored layer before validation)
+   * Optional settings can be cleared by passing null
+   */
+  public async updateOverlay(
+    channelId: string,
+    overlayId: string,
+    updates: ChannelOverlayUpdate
+  ): Promise<ChannelOverlay> {
+    const current = await this.getOverlay(channelId, overlayId);
+    const optional = <T>(value: T | null | undefined, fallback: T | undefined): T | undefined =>
+      value === null ? undefined : value ?? fallback;
+    const merged: ChannelOverlayInput = {
+      type: updates.type ?? current.type,
+      name: optional(updates.name, current.name),
+      enabled: updates.enabled ?? current.enabled,
+      zIndex: updates.zIndex ?? current.zIndex,
+      position: updates.position ?? current.position,
+      offsetX: updates.offsetX ?? current.offsetX,
+      offsetY: updates.offsetY ?? current.offsetY,
+      opacity: updates.opacity ?? current.opacity,
+      imageBase64: optional(updates.imageBase64, current.imageBase64),
+      settings: updates.settings === null ? {} : { ...current.settings, ...updates.settings },
+      schedule: optional(updates.schedule, current.schedule),
+    };
+    this.validateOverlay(merged);
+
+    const overlay = await this.overlayRepository.update(channelId, overlayId, merged);
+    if (!overlay) {
+      throw new NotFoundError(`Overlay '${overlayId}'`);
+    }
+    logger.info({ channelId, overlayId }, 'Overlay updated');
+    return overlay;
+  }
+
+  /**
+   * Delete a layer (applied on next stream start)
+   */
+  public async deleteOverlay(channelId: string, overlayId: string): Promise<void> {
+    const deleted = await this.overlayRepository.delete(channelId, overlayId);
+    if (!deleted) {
+      throw new NotFoundError(`Overlay '${overlayId}'`);
+    }
+    logger.info({ channelId, overlayId }, 'Overlay deleted');
+  }
+
+  /**
+   * Replace a ticker's text
+   * Takes effect immediately when the channel is streaming
+   */
+  public async updateTickerText(channelId: string, overlayId: string, text: string): Promise<ChannelOverlay> {
+    const overlay = await this.getOverlay(channelId, overlayId);
+    if (overlay.type !== 'ticker') {
+      throw new ValidationError(`Overlay '${overlayId}' is not a ticker`);
+    }
+
+    const updated = await this.updateOverlay(channelId, overlayId, { settings: { text } });
+
+    const streamOverlay = this.activeOverlays.get(channelId)?.find((o) => o.overlay.id === overlayId);
+    if (streamOverlay?.textPath) {
+      await this.writeTextFile(streamOverlay.textPath, this.getTickerText(text));
+      logger.info({ channelId, overlayId }, 'Ticker text updated on air');
+    }
+    return updated;
+  }
+
+  /**
+   * Write the files for a channel's enabled layers and return them for FFmpeg
+   * Now/next layers start with the channel name until updateNowNext is called
+   */
+  public async prepareStream(channel: Channel): Promise<StreamOverlay[]> {
+    const overlays = (await this.overlayRepository.findByChannel(channel.id)).filter((o) => o.enabled);
+    if (overlays.length === 0) {
+      this.activeOverlays.delete(channel.id);
+      return [];
+    }
+
+    const overlayDir = path.join(channel.config.outputDir, 'overlays');
+    await fs.mkdir(overlayDir, { recursive: true });
+
+    const streamOverlays: StreamOverlay[] = [];
+    for (const overlay of overlays) {
+      if (overlay.type === 'image') {
+        const imagePath = path.join(overlayDir, `${overlay.id}.png`);
+        await fs.writeFile(imagePath, Buffer.from(overlay.imageBase64 as string, 'base64'));
+        streamOverlays.push({ overlay, imagePath });
+        continue;
+      }
+
+      const textPath = path.join(overlayDir, `${overlay.id}.txt`);
+      const text =
+        overlay.type === 'clock'
+          ? getClockText(overlay.settings.clockFormat)
+          : overlay.type === 'ticker'
+            ? this.getTickerText(overlay.settings.text)
+            : channel.config.name;
+      await this.writeTextFile(textPath, text);
+      streamOverlays.push({ overlay, textPath });
+    }
+
+    this.activeOverlays.set(channel.id, streamOverlays);
+    logger.debug({ channelId: channel.id, layers: streamOverlays.length }, 'Prepared overlay layers');
+    return streamOverlays;
+  }
+
+  /**
+   * Check if a channel's running stream has a now/next layer
+   */
+  public hasNowNext(channelId: string): boolean {
+    return this.activeOverlays.get(channelId)?.some((o) => o.overlay.type === 'now_next') ?? false;
+  }
+
+  /**
+   * Show the current and next program titles on the channel's now/next layers
+   */
+  public async updateNowNext(channelId: string, current?: string, next?: string): Promise<void> {
+    const layers = this.activeOverlays.get(channelId)?.filter((o) => o.overlay.type === 'now_next') || [];
+    if (layers.length === 0 || !current) {
+      return;
+    }
+
+    const text = next ? `Now: ${current} / Next: ${next}` : `Now: ${current}`;
+    for (const layer of layers) {
+      await this.writeTextFile(layer.textPath as string, text);
+    }
+    logger.debug({ channelId, current, next }, 'Now/next overlay updated');
+  }
+
+  /**
+   * Forget a stopped stream's layers
+   */
+  public releaseStream(channelId: string): void {
+    this.activeOverlays.delete(channelId);
+  }
+
+  /**
+   * Check layer settings that span several fields
+   */
+  private validateOverlay(data: ChannelOverlayInput): void {
+    if (data.type === 'image') {
+      if (!data.imageBase64) {
+        throw new ValidationError('Image overlays require imageBase64');
+      }
+      if (!Buffer.from(data.imageBase64, 'base64').subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)) {
+        throw new ValidationError('Overlay image must be a PNG');
+      }
+    }
+
+    const schedule = data.schedule;
+    if (schedule && (schedule.intervalSeconds === undefined) !== (schedule.visibleSeconds === undefined)) {
+      throw new ValidationError('Overlay schedule requires both intervalSeconds and visibleSeconds');
+    }
+    if (schedule?.intervalSeconds !== undefined && schedule.visibleSeconds! > schedule.intervalSeconds) {
+      throw new ValidationError('Overlay visibleSeconds cannot exceed intervalSeconds');
+    }
+  }
+
+  /**
+   * Ticker text on one line (drawtext would render newlines as line breaks)
+   */
+  private getTickerText(text?: string): string {
+    return (text || ' ').replace(/\s*[\r\n]+\s*/g, '   ');
+  }
+
+  /**
+   * Replace a text file atomically so drawtext never reloads a partial write
+   */
+  private async writeTextFile(filePath: string, text: string): Promise<void> {
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeFile(tempPath, text, 'utf-8');
+    await fs.rename(tempPath, filePath);
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Multi-bucket schedule blocks
+ *
+ * A block can draw from several buckets, each ordered on its own by the block's playback mode
+ * (and repeat avoidance) and then mixed into one playlist:
+ * - 'round_robin': one file from each bucket in turn ("one cartoon, one short"); a bucket that
+ *   runs out drops out, so every file plays once
+ * - 'weighted': buckets get slots in proportion to their weights (e.g. 70/30), spread evenly;
+ *   the playlist is long enough for every file of every bucket to play, so heavier buckets
+ *   start over, and a file never plays twice in a row while another bucket can take the slot
+ * - 'sequence': every file of the first bucket is followed by the next file of each other bucket,
+ *   in list order ("a show, then a music video"); the other buckets start over when they run out
+ */
+
+export const BUCKET_STRATEGIES = ['round_robin', 'weighted', 'sequence'] as const;
+
+/** Longest weighted playlist (extreme weight ratios would otherwise need huge cycles) */
+const MAX_WEIGHTED_SLOTS = 10000;
+export type BucketStrategy = (typeof BUCKET_STRATEGIES)[number];
+
+export interface BucketMedia {
+  bucketId: string;
+  weight: number;
+  mediaIds: string[]; // in play order
+}
+
+/**
+ * Mix the media of several buckets (in block order) into one playlist
+ */
+export function mixBuckets(buckets: BucketMedia[], strategy: BucketStrategy): string[] {
+  const filled = buckets.filter((bucket) => bucket.mediaIds.length > 0);
+  if (filled.length <= 1) {
+    return filled.length === 1 ? [...filled[0].mediaIds] : [];
+  }
+
+  switch (strategy) {
+    case 'weighted':
+      return mixWeighted(filled);
+    case 'sequence':
+      return mixSequence(filled);
+    default:
+      return mixRoundRobin(filled);
+  }
+}
+
+function mixRoundRobin(buckets: BucketMedia[]): string[] {
+  const result: string[] = [];
+  const longest = Math.max(...buckets.map((bucket) => bucket.mediaIds.length));
+  for (let i = 0; i < longest; i++) {
+    for (const bucket of buckets) {
+      if (i < bucket.mediaIds.length) {
+        result.push(bucket.mediaIds[i]);
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Smooth weighted round-robin: each slot goes to the bucket furthest behind its share, so a
+ * 2:1 weighting plays A B A A B A rather than A A A A B B. A bucket whose next file just played
+ * gives the slot to the next bucket behind its share.
+ */
+function mixWeighted(buckets: BucketMedia[]): string[] {
+  const weights = buckets.map((bucket) => (bucket.weight > 0 ? bucket.weight : 1));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  // Enough slots for each bucket's share to cover all of its files
+  const needed = Math.max(...buckets.map((bucket, i) => (bucket.mediaIds.length * totalWeight) / weights[i]));
+  const total = Math.min(MAX_WEIGHTED_SLOTS, Math.ceil(needed - 1e-9));
+  const current = buckets.map(() => 0);
+  const next = buckets.map(() => 0);
+  const peek = (i: number): string => buckets[i].mediaIds[next[i] % buckets[i].mediaIds.length];
+  const result: string[] = [];
+
+  for (let slot = 0; slot < total; slot++) {
+    for (let i = 0; i < buckets.length; i++) {
+      current[i] += weights[i];
+    }
+    const behind = buckets.map((_, i) => i).sort((a, b) => current[b] - current[a]);
+    const previous = result[result.length - 1];
+    const chosen = behind.find((i) => peek(i) !== previous) ?? behind[0];
+    current[chosen] -= totalWeight;
+
+    result.push(peek(chosen));
+    next[chosen]++;
+  }
+  return result;
+}
+
+function mixSequence(buckets: BucketMedia[]): string[] {
+  const [lead, ...rest] = buckets;
+  const result: string[] = [];
+  lead.mediaIds.forEach((id, i) => {
+    result.push(id);
+    for (const bucket of rest) {
+      result.push(bucket.mediaIds[i % bucket.mediaIds.length]);
+    }
+  });
+  return result;
+}
@@ -0,0 +1,45 @@
+import crypto from 'crypto';
+import path from 'path';
+import { MediaFile } from '../../domain/media/MediaFile';
+import { config } from '../../config/env';
+
+/**
+ * Generated filler clips (slates and "Up Next" bumpers) of slot-aligned schedule blocks
+ *
+ * The resolver only describes a clip - its text and exact duration - as a MediaFile with a path
+ * and id derived from both, so repeated resolutions produce the same playlist. ChannelService
+ * renders the clips that don't exist yet before they go into the concat file.
+ */
+
+function getFillerClipRoot(): string {
+  return path.join(config.paths.temp, 'filler');
+}
+
+/**
+ * Directory holding a channel's filler clips
+ */
+export function getFillerClipDir(channelId: string): string {
+  return path.join(getFillerClipRoot(), channelId);
+}
+
+/**
+ * Describe a filler clip showing title for duration seconds
+ */
+export function createFillerClip(channelId: string, title: string, duration: number): MediaFile {
+  const hash = crypto.createHash('sha1').update(`${channelId}|${title}|${duration.toFixed(3)}`).digest('hex');
+  const id = [hash.slice(0, 8), hash.slice(8, 12), hash.slice(12, 16), hash.slice(16, 20), hash.slice(20, 32)].join('-');
+
+  return new MediaFile(
+    path.join(getFillerClipDir(channelId), `${hash.slice(0, 16)}.ts`),
+    { duration, fileSize: 0 },
+    { showName: title, title },
+    id
+  );
+}
+
+/**
+ * Check if a media file is a generated filler clip (not a library file)
+ */
+export function isFillerClip(file: MediaFile): boolean {
+  return file.path.startsWith(getFillerClipRoot() + path.sep);
+}
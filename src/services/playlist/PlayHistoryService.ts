@@ -0,0 +1,80 @@
+import { eventBus } from '../../infrastructure/events/EventBus';
+import { PlayHistoryRepository } from '../../infrastructure/database/repositories/PlayHistoryRepository';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('PlayHistoryService');
+
+/** Plays are kept this long */
+const HISTORY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** Purge old plays this often */
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Records the files channels play (channel.file events) in channel_play_history
+ *
+ * PlaylistResolver reads the history to keep recently played media out of the front of shuffle,
+ * random and weighted playlists. A file announced again right after itself (a channel restarting
+ * mid-file) is recorded once.
+ */
+export class PlayHistoryService {
+  private readonly playHistoryRepository: PlayHistoryRepository;
+  private readonly lastPlayed: Map<string, string> = new Map();
+  private unsubscribe?: () => void;
+  private purgeInterval?: NodeJS.Timeout;
+
+  constructor() {
+    this.playHistoryRepository = new PlayHistoryRepository();
+  }
+
+  /**
+   * Subscribe to file changes and start purging old plays
+   */
+  public start(): void {
+    this.unsubscribe = eventBus.subscribe(['channel.file'], (event) => {
+      if (event.topic === 'channel.file' && event.data.mediaFileId) {
+        void this.recordPlay(event.data.channelId, event.data.mediaFileId);
+      }
+    });
+    this.purgeInterval = setInterval(() => {
+      void this.purgeHistory();
+    }, PURGE_INTERVAL_MS);
+    logger.info('Play history service started');
+  }
+
+  public stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+    if (this.purgeInterval) {
+      clearInterval(this.purgeInterval);
+      this.purgeInterval = undefined;
+    }
+  }
+
+  private async recordPlay(channelId: string, mediaFileId: string): Promise<void> {
+    if (this.lastPlayed.get(channelId) === mediaFileId) {
+      return;
+    }
+    this.lastPlayed.set(channelId, mediaFileId);
+
+    try {
+      const recorded = await this.playHistoryRepository.record(channelId, mediaFileId);
+      if (recorded) {
+        logger.debug({ channelId, mediaFileId }, 'Recorded play');
+      }
+    } catch (error) {
+      logger.warn({ channelId, mediaFileId, error }, 'Failed to record play');
+    }
+  }
+
+  private async purgeHistory(): Promise<void> {
+    try {
+      const purged = await this.playHistoryRepository.purge(new Date(Date.now() - HISTORY_RETENTION_MS));
+      if (purged > 0) {
+        logger.info({ purged }, 'Purged old play history');
+      }
+    } catch (error) {
+      logger.warn({ error }, 'Failed to purge play history');
+    }
+  }
+}
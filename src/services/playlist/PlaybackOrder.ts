@@ -0,0 +1,144 @@
+/**
+ * Playback order of shuffle, random and weighted blocks
+ *
+ * Without memory, a reshuffle can start with the file that just ended. Channels record every file
+ * they start playing (PlayHistoryService), and PlaylistResolver moves media played within the
+ * block's no-repeat window - the last `hours` before the block started and/or the last `items`
+ * plays - behind the rest, least recently played first. Media is never dropped: when the whole
+ * bucket is inside the window, the least recently played file still comes first. The items window
+ * therefore holds whenever the bucket has more files than it; the hours window is best-effort
+ * (held media airs as soon as the rest has played, whether or not its hours have passed).
+ *
+ * Weighted blocks order media by bucket weights (Efraimidis-Spirakis sampling without
+ * replacement), so heavier media tends to air earlier - and airs more often when a block ends
+ * before its bucket does. Media recently added to the bucket can get a boost.
+ */
+
+export const PLAYBACK_MODES = ['sequential', 'random', 'shuffle', 'weighted'] as const;
+export type PlaybackMode = (typeof PLAYBACK_MODES)[number];
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface PlayHistoryEntry {
+  mediaFileId: string;
+  playedAt: Date;
+}
+
+export interface RepeatWindow {
+  hours?: number | null; // media played within this many hours before start
+  items?: number | null; // media among the last N plays before start
+}
+
+export interface WeightedMedia {
+  mediaFileId: string;
+  weight: number;
+  addedAt: Date; // added to the bucket
+}
+
+export interface RecencyBoost {
+  days: number; // media added within this many days...
+  factor: number; // ...has its weight multiplied by this
+}
+
+/**
+ * Check if a window would keep anything back
+ */
+export function hasRepeatWindow(window: RepeatWindow): boolean {
+  return (window.hours || 0) > 0 || (window.items || 0) > 0;
+}
+
+/**
+ * Media played within the window before start
+ * @param history - Plays before start, newest first
+ * @returns Last play time (ms) by media file ID
+ */
+export function getRecentlyPlayed(history: PlayHistoryEntry[], window: RepeatWindow, start: Date): Map<string, number> {
+  const since = window.hours && window.hours > 0 ? start.getTime() - window.hours * HOUR_MS : Infinity;
+  const items = window.items && window.items > 0 ? window.items : 0;
+  const recent = new Map<string, number>();
+
+  history.forEach((entry, index) => {
+    const playedAt = entry.playedAt.getTime();
+    if (playedAt >= start.getTime() || (index >= items && playedAt < since)) {
+      return;
+    }
+    if (!recent.has(entry.mediaFileId)) {
+      recent.set(entry.mediaFileId, playedAt);
+    }
+  });
+
+  return recent;
+}
+
+/**
+ * Move media played within the window behind the rest (which keeps its order), least recently
+ * played first
+ * Reorders only: held media still plays once the rest has (see the module comment)
+ * @param history - Plays before start, newest first
+ */
+export function avoidRecentPlays(
+  mediaIds: string[],
+  history: PlayHistoryEntry[],
+  window: RepeatWindow,
+  start: Date
+): string[] {
+  if (!hasRepeatWindow(window)) {
+    return [...mediaIds];
+  }
+
+  const recent = getRecentlyPlayed(history, window, start);
+  const fresh = mediaIds.filter((id) => !recent.has(id));
+  const held = mediaIds
+    .filter((id) => recent.has(id))
+    .sort((a, b) => (recent.get(a) as number) - (recent.get(b) as number));
+  return fresh.concat(held);
+}
+
+/**
+ * Weight of media at time, with the recency boost for media added within boost.days
+ */
+export function getMediaWeight(media: WeightedMedia, time: Date, boost?: RecencyBoost | null): number {
+  const weight = media.weight > 0 ? media.weight : 1;
+  if (!boost || boost.days <= 0 || boost.factor <= 0) {
+    return weight;
+  }
+  const age = time.getTime() - media.addedAt.getTime();
+  return age >= 0 && age < boost.days * DAY_MS ? weight * boost.factor : weight;
+}
+
+/**
+ * Order media by weighted random sampling without replacement
+ * Each file gets the key u^(1/weight) for a uniform u in (0, 1); higher keys play first.
+ */
+export function orderByWeight(
+  media: WeightedMedia[],
+  random: () => number,
+  time: Date,
+  boost?: RecencyBoost | null
+): string[] {
+  return media
+    .map((entry) => {
+      const u = Math.min(Math.max(random(), Number.EPSILON), 1);
+      return { id: entry.mediaFileId, key: Math.pow(u, 1 / getMediaWeight(entry, time, boost)) };
+    })
+    .sort((a, b) => b.key - a.key)
+    .map((entry) => entry.id);
+}
+
+/**
+ * Seeded pseudo-random numbers in [0, 1) (mulberry32), so an ordering can be reproduced
+ */
+export function createSeededRandom(seed: string): () => number {
+  let state = 0;
+  for (let i = 0; i < seed.length; i++) {
+    state = (Math.imul(state, 31) + seed.charCodeAt(i)) | 0;
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -1,11 +1,27 @@
 import { MediaFile } from '../../domain/media/MediaFile';
 import { MediaBucketService } from '../bucket/MediaBucketService';
 import { MediaFileRepository } from '../../infrastructure/database/repositories/MediaFileRepository';
-import { ScheduleRepository } from '../../infrastructure/database/repositories/ScheduleRepository';
+import {
+  ScheduleBlockBucket,
+  ScheduleBlockRow,
+  ScheduleRepository,
+} from '../../infrastructure/database/repositories/ScheduleRepository';
 import { createLogger } from '../../utils/logger';
+import { FillerMode, SlotAlignment, SlotPlanEntry, getBlockOccurrence, planSlots } from './SlotPlanner';
+import { createFillerClip } from './FillerClips';
+import { ContentRule, ContentRuleExclusion } from '../../domain/rule/ContentRule';
+import { ContentRuleRepository } from '../../infrastructure/database/repositories/ContentRuleRepository';
+import { PlayedMedia, applyContentRules } from '../rule/ContentRuleEngine';
+import { ScheduleTimeService, getPlaylistLoopStart } from '../schedule-time/ScheduleTimeService';
+import { PlayHistoryRepository } from '../../infrastructure/database/repositories/PlayHistoryRepository';
+import { PlaybackMode, avoidRecentPlays, createSeededRandom, hasRepeatWindow, orderByWeight } from './PlaybackOrder';
+import { BucketMedia, BucketStrategy, mixBuckets } from './BucketMix';
 
 const logger = createLogger('PlaylistResolver');
 
+/** Most times content rules are applied to settle the loop start (dropped files shorten the loop) */
+const MAX_RULE_PASSES = 3;
+
 /**
  * Context for playlist resolution
  */
@@ -16,6 +32,27 @@ export interface PlaylistContext {
   currentTime?: Date;
   /** Current file index (for transition queries) */
   currentIndex?: number;
+  /** Content rules to apply instead of the channel's stored rules (dry runs) */
+  contentRules?: ContentRule[];
+}
+
+/**
+ * Outcome of applying content rules to a resolved playlist
+ */
+export interface ContentRuleEvaluation {
+  start: Date; // air time of the first file (start of the playlist loop airing at the lookup time)
+  rules: ContentRule[];
+  exclusions: ContentRuleExclusion[];
+}
+
+/**
+ * Air-time layout of the slot-aligned block occurrence active at some time
+ */
+export interface SlotPlan {
+  blockId: string;
+  start: Date;
+  end: Date;
+  entries: SlotPlanEntry[];
 }
 
 /**
@@ -49,24 +86,151 @@ export interface IPlaylistResolver {
 export class PlaylistResolver implements IPlaylistResolver {
   private readonly mediaFileRepository: MediaFileRepository;
   private readonly scheduleRepository: ScheduleRepository;
+  private readonly contentRuleRepository: ContentRuleRepository;
+  private readonly playHistoryRepository: PlayHistoryRepository;
+  private readonly scheduleTimeService: ScheduleTimeService;
 
   constructor(private readonly bucketService: MediaBucketService) {
     this.mediaFileRepository = new MediaFileRepository();
     this.scheduleRepository = new ScheduleRepository();
+    this.contentRuleRepository = new ContentRuleRepository();
+    this.playHistoryRepository = new PlayHistoryRepository();
+    this.scheduleTimeService = new ScheduleTimeService();
   }
 
   /**
    * Resolve media files for a channel
    * 
    * Priority:
-   * 1. Check for active schedule block at current time
-   * 2. If schedule block found, get media from that block's bucket
-   * 3. Apply playback mode (sequential with progression, shuffle, random)
+   * 1. Check for active schedule block at current time (a running schedule event wins)
+   * 2. If schedule block found, get media from that block's bucket (multi-bucket blocks mix
+   *    their buckets by the block's bucket strategy)
+   * 3. Apply playback mode (sequential with progression, shuffle, random, weighted), moving
+   *    media played within the block's no-repeat window to the back
    * 4. If no schedule block, fall back to all buckets (backward compatible)
-   * 5. Future: Check for content overrides
-   * 6. Future: Apply bucket prioritization/mixing
+   * 5. Apply content rules (rating windows, repeat limits, runtime limits)
+   * 6. Slot-aligned blocks return their slot plan (programs and filler in air order)
    */
   async resolveMedia(channelId: string, context?: PlaylistContext): Promise<MediaFile[]> {
+    const { activeBlock, mediaFiles } = await this.resolveScheduledMedia(channelId, context);
+    if (!activeBlock || !this.isSlotAligned(activeBlock)) {
+      return mediaFiles;
+    }
+
+    const plan = await this.buildSlotPlan(channelId, activeBlock, context?.currentTime || new Date(), mediaFiles);
+    return plan.entries.map((entry) => entry.media);
+  }
+
+  /**
+   * Resolve a channel's media at a time and report what the content rules kept out (dry run)
+   * @param rules - Rules to try instead of the channel's stored rules
+   */
+  async explainContentRules(
+    channelId: string,
+    time: Date = new Date(),
+    rules?: ContentRule[]
+  ): Promise<{ activeBlock: ScheduleBlockRow | null; mediaFiles: MediaFile[]; evaluation: ContentRuleEvaluation }> {
+    return this.resolveScheduledMedia(channelId, { currentTime: time, contentRules: rules });
+  }
+
+  /**
+   * Get the slot plan of the block active at a time
+   * @returns null when the active block (if any) plays its media back to back
+   */
+  async resolveSlotPlan(channelId: string, time: Date = new Date()): Promise<SlotPlan | null> {
+    const activeBlock = await this.scheduleRepository.getActiveBlock(channelId, time);
+    if (!activeBlock || !this.isSlotAligned(activeBlock)) {
+      return null;
+    }
+    return this.buildSlotPlan(channelId, activeBlock, time);
+  }
+
+  private isSlotAligned(block: ScheduleBlockRow): boolean {
+    return !!block.slot_alignment && block.slot_alignment !== 'none';
+  }
+
+  /**
+   * Lay out the whole occurrence of a slot-aligned block
+   * @param programsAtTime - Media already resolved for time (reused when time is the block start)
+   */
+  private async buildSlotPlan(
+    channelId: string,
+    block: ScheduleBlockRow,
+    time: Date,
+    programsAtTime?: MediaFile[]
+  ): Promise<SlotPlan> {
+    const { start, end } = getBlockOccurrence(block, time);
+
+    // Resolve the programs as of the block start so every lookup within the occurrence gets the
+    // same plan (shuffle seeds follow the date); use the lookup time if another block ran then
+    let programs: MediaFile[] | undefined;
+    if (programsAtTime && start.getTime() === time.getTime()) {
+      programs = programsAtTime;
+    } else {
+      const atStart = await this.resolveScheduledMedia(channelId, { currentTime: start });
+      if (atStart.activeBlock?.id === block.id) {
+        programs = atStart.mediaFiles;
+      }
+    }
+    if (!programs) {
+      programs = programsAtTime ?? (await this.resolveScheduledMedia(channelId, { currentTime: time })).mediaFiles;
+    }
+
+    const filler =
+      block.filler_mode === 'bucket' && block.filler_bucket_id
+        ? await this.getMediaFiles(channelId, await this.bucketService.getMediaInBucket(block.filler_bucket_id))
+        : [];
+
+    const entries = planSlots({
+      start,
+      end,
+      alignment: block.slot_alignment as Exclude<SlotAlignment, 'none'>,
+      programs,
+      fillerMode: (block.filler_mode as FillerMode) || 'slate',
+      filler,
+      createClip: (title, duration) => createFillerClip(channelId, title, duration),
+    });
+
+    logger.debug(
+      {
+        channelId,
+        blockId: block.id,
+        blockName: block.name,
+        start: start.toISOString(),
+        end: end.toISOString(),
+        programCount: entries.filter((entry) => entry.kind === 'program').length,
+        fillerCount: entries.filter((entry) => entry.kind === 'filler').length,
+      },
+      'Built slot plan for schedule block'
+    );
+
+    return { blockId: block.id, start, end, entries };
+  }
+
+  /**
+   * Fetch library media files by ID, skipping IDs that no longer exist
+   */
+  private async getMediaFiles(channelId: string, mediaIds: string[]): Promise<MediaFile[]> {
+    const files = await Promise.all(
+      mediaIds.map(async (id) => {
+        const mfRow = await this.mediaFileRepository.findById(id);
+        if (!mfRow) {
+          logger.warn({ channelId, mediaId: id }, 'Media file ID from bucket not found in database');
+          return null;
+        }
+        return MediaFileRepository.rowToMediaFile(mfRow);
+      })
+    );
+    return files.filter((f): f is MediaFile => f !== null);
+  }
+
+  /**
+   * Resolve the media of the schedule block active at the context time (in playback order)
+   */
+  private async resolveScheduledMedia(
+    channelId: string,
+    context?: PlaylistContext
+  ): Promise<{ activeBlock: ScheduleBlockRow | null; mediaFiles: MediaFile[]; evaluation: ContentRuleEvaluation }> {
     logger.debug({ channelId, context }, 'Resolving media for channel');
 
     // Determine the time to use for schedule lookup
@@ -84,6 +248,16 @@ export class PlaylistResolver implements IPlaylistResolver {
       
       // Manually check each block to see if it should be active
       for (const block of allBlocks) {
+        // Events run between absolute times (their time-of-day strings can't express multi-day spans)
+        if (block.event) {
+          const { start, end } = getBlockOccurrence(block, lookupTime);
+          if (lookupTime >= start && lookupTime < end) {
+            activeBlock = block;
+            break;
+          }
+          continue;
+        }
+
         // Check day of week
         const dayMatches = block.day_of_week === null || block.day_of_week.includes(dayOfWeek);
         if (!dayMatches) continue;
@@ -186,11 +360,11 @@ export class PlaylistResolver implements IPlaylistResolver {
     }
 
     let mediaIds: string[];
-    let playbackMode: 'sequential' | 'shuffle' | 'random' = 'sequential';
+    let playbackMode: PlaybackMode = 'sequential';
 
     if (activeBlock) {
       // Active schedule block found
-      playbackMode = (activeBlock.playback_mode as 'sequential' | 'shuffle' | 'random') || 'sequential';
+      playbackMode = (activeBlock.playback_mode as PlaybackMode) || 'sequential';
       
       if (activeBlock.bucket_id) {
         // Schedule block has a bucket - get media from the scheduled bucket
@@ -205,7 +379,12 @@ export class PlaylistResolver implements IPlaylistResolver {
           'Attempting to get media from scheduled bucket'
         );
         
-        mediaIds = await this.bucketService.getMediaInBucket(activeBlock.bucket_id);
+        // Multi-bucket blocks order each bucket by the playback mode, then mix them
+        const blockBuckets = activeBlock.event ? [] : await this.scheduleRepository.getBlockBuckets(activeBlock.id);
+        mediaIds =
+          blockBuckets.length > 1
+            ? await this.resolveBucketMix(channelId, activeBlock, blockBuckets, lookupTime)
+            : await this.bucketService.getMediaInBucket(activeBlock.bucket_id);
         
         logger.debug(
           {
@@ -250,114 +429,8 @@ export class PlaylistResolver implements IPlaylistResolver {
               'Fallback: Using media from other schedule block buckets'
             );
           }
-        } else {
-          // Apply playback mode
-          if (playbackMode === 'sequential') {
-            // CRITICAL: Progressive mode (sequential with progression) should only work with single-series buckets
-            // Check if bucket contains media from a single series
-            // Use efficient database query to get unique series names
-            const { Database } = await import('../../infrastructure/database/Database');
-            const seriesResult = await Database.query<{ show_name: string }>(
-              `SELECT DISTINCT show_name 
-               FROM media_files 
-               WHERE id = ANY($1::uuid[]) 
-                 AND file_exists = true 
-                 AND show_name IS NOT NULL 
-                 AND show_name != ''`,
-              [mediaIds]
-            );
-            const uniqueSeries = seriesResult.rows.map(row => row.show_name);
-            const seriesCount = uniqueSeries.length;
-            
-            // Progressive mode requires single series
-            // If multiple series detected, disable progression (start from beginning each time)
-            const hasMultipleSeries = seriesCount > 1;
-            const hasSingleSeries = seriesCount === 1;
-            
-            if (hasMultipleSeries) {
-              logger.warn(
-                {
-                  channelId,
-                  bucketId: activeBlock.bucket_id,
-                  seriesCount,
-                  seriesNames: uniqueSeries,
-                  mediaCount: mediaIds.length,
-                  note: 'Progressive mode disabled - bucket contains multiple series. Progression only works with single-series buckets. Day 1: s1e1, s1e2, s1e3... Day 2: s1e4, s1e5, s1e6... requires single series.'
-                },
-                'Bucket contains multiple series - progression disabled for sequential mode'
-              );
-              // Don't use progression - start from beginning each time
-              // Progression will not be saved/updated for multi-series buckets
-            } else if (!hasSingleSeries) {
-              // No series detected (movies or unclassified content)
-              logger.debug(
-                {
-                  channelId,
-                  bucketId: activeBlock.bucket_id,
-                  mediaCount: mediaIds.length,
-                  note: 'No series detected in bucket - progression may not work as expected'
-                },
-                'Bucket contains no series - progression may be limited'
-              );
-            } else {
-              logger.debug(
-                {
-                  channelId,
-                  bucketId: activeBlock.bucket_id,
-                  seriesName: uniqueSeries[0],
-                  mediaCount: mediaIds.length,
-                  note: 'Single series detected - progressive mode enabled'
-                },
-                'Bucket contains single series - progression enabled for sequential mode'
-              );
-            }
-            
-            // For sequential, check progression and start from saved position
-            // Only use progression if bucket has single series
-            const progression = hasSingleSeries 
-              ? await this.bucketService.getProgression(channelId, activeBlock.bucket_id)
-              : null; // Disable progression for multi-series or no-series buckets
-            
-            if (progression && progression.currentPosition !== undefined && progression.currentPosition > 0) {
-              // Start from saved position, but ensure we have media after it
-              const startPosition = progression.currentPosition;
-              if (startPosition < mediaIds.length) {
-                // Rotate array to start from saved position
-                const before = mediaIds.slice(0, startPosition);
-                const after = mediaIds.slice(startPosition);
-                mediaIds = after.concat(before);
-                logger.debug(
-                  { channelId, bucketId: activeBlock.bucket_id, startPosition, totalMedia: mediaIds.length },
-                  'Resuming sequential playback from saved position'
-                );
-              } else {
-                // Invalid position - reset to beginning
-                logger.warn(
-                  { channelId, bucketId: activeBlock.bucket_id, startPosition, totalMedia: mediaIds.length },
-                  'Progression position is out of bounds, starting from beginning'
-                );
-                // Reset progression to 0
-                await this.bucketService.resetProgression(channelId, activeBlock.bucket_id);
-              }
-            } else {
-              // No progression or position is 0 - start from beginning
-              logger.debug(
-                { channelId, bucketId: activeBlock.bucket_id, hasProgression: !!progression, position: progression?.currentPosition },
-                'Starting sequential playback from beginning (no progression or position is 0)'
-              );
-            }
-          } else if (playbackMode === 'shuffle') {
-            // Shuffle: randomize order once, then play sequentially
-            // Use a deterministic shuffle based on date + block ID so it changes daily
-            const dateStr = lookupTime.toISOString().split('T')[0]; // YYYY-MM-DD
-            const dailySeed = `${dateStr}-${activeBlock.id}`;
-            mediaIds = this.shuffleArray([...mediaIds], dailySeed);
-            logger.debug({ channelId, bucketId: activeBlock.bucket_id, dailySeed }, 'Applied shuffle playback mode with daily seed');
-          } else if (playbackMode === 'random') {
-            // Random: shuffle each time (no progression tracking)
-            mediaIds = this.shuffleArray([...mediaIds]);
-            logger.debug({ channelId, bucketId: activeBlock.bucket_id }, 'Applied random playback mode');
-          }
+        } else if (blockBuckets.length <= 1) {
+          mediaIds = await this.applyPlaybackMode(channelId, activeBlock, activeBlock.bucket_id, mediaIds, lookupTime);
         }
       } else {
         // Active block exists but has no bucket_id - fallback to all schedule block buckets or channel buckets
@@ -425,8 +498,16 @@ export class PlaylistResolver implements IPlaylistResolver {
       }
     }
 
-    // TODO: Phase 3 - Check for content overrides
-    // TODO: Phase 4 - Apply bucket prioritization/mixing
+    // Schedule event with an opening file (e.g. a premiere) - play it first, then the event's
+    // bucket (or the schedule fallback above) fills the rest of the event
+    const eventMediaFileId = activeBlock?.event?.mediaFileId;
+    if (eventMediaFileId) {
+      mediaIds = [eventMediaFileId, ...mediaIds.filter(id => id !== eventMediaFileId)];
+      logger.debug(
+        { channelId, eventId: activeBlock?.id, mediaFileId: eventMediaFileId },
+        'Schedule event opens with its media file'
+      );
+    }
 
     // Log before fetching media files
     logger.debug(
@@ -456,8 +537,17 @@ export class PlaylistResolver implements IPlaylistResolver {
       })
     );
 
-    const validFiles = mediaFiles.filter((f): f is MediaFile => f !== null);
     const missingMediaIds = mediaIds.filter((_id, index) => mediaFiles[index] === null);
+
+    // Content rules (rating windows, repeat limits, ...) drop or move files
+    const evaluation = await this.applyContentRules(
+      channelId,
+      activeBlock,
+      lookupTime,
+      mediaFiles.filter((f): f is MediaFile => f !== null),
+      context?.contentRules
+    );
+    const validFiles = evaluation.media;
     
     logger.debug(
       {
@@ -507,7 +597,328 @@ export class PlaylistResolver implements IPlaylistResolver {
       );
     }
 
-    return validFiles;
+    return {
+      activeBlock,
+      mediaFiles: validFiles,
+      evaluation: { start: evaluation.start, rules: evaluation.rules, exclusions: evaluation.exclusions },
+    };
+  }
+
+  /**
+   * Resolve the media of a multi-bucket block: each bucket is ordered by the playback mode, then
+   * the buckets are mixed by the block's bucket strategy
+   */
+  private async resolveBucketMix(
+    channelId: string,
+    activeBlock: ScheduleBlockRow,
+    blockBuckets: ScheduleBlockBucket[],
+    lookupTime: Date
+  ): Promise<string[]> {
+    const buckets: BucketMedia[] = [];
+    for (const { bucketId, weight } of blockBuckets) {
+      let mediaIds = await this.bucketService.getMediaInBucket(bucketId);
+      if (mediaIds.length > 0) {
+        mediaIds = await this.applyPlaybackMode(channelId, activeBlock, bucketId, mediaIds, lookupTime);
+      }
+      buckets.push({ bucketId, weight, mediaIds });
+    }
+
+    const strategy = (activeBlock.bucket_strategy as BucketStrategy) || 'round_robin';
+    const mixed = mixBuckets(buckets, strategy);
+    logger.debug(
+      {
+        channelId,
+        blockId: activeBlock.id,
+        strategy,
+        buckets: buckets.map((bucket) => ({ bucketId: bucket.bucketId, weight: bucket.weight, mediaCount: bucket.mediaIds.length })),
+        mediaCount: mixed.length,
+      },
+      'Mixed media of multi-bucket block'
+    );
+    return mixed;
+  }
+
+  /**
+   * Order the media of one of the active block's buckets by the block's playback mode
+   * (sequential with the bucket's progression, shuffle, random, weighted)
+   */
+  private async applyPlaybackMode(
+    channelId: string,
+    activeBlock: ScheduleBlockRow,
+    bucketId: string,
+    mediaIds: string[],
+    lookupTime: Date
+  ): Promise<string[]> {
+    const playbackMode = (activeBlock.playback_mode as PlaybackMode) || 'sequential';
+
+    if (playbackMode === 'sequential') {
+      // CRITICAL: Progressive mode (sequential with progression) should only work with single-series buckets
+      // Check if bucket contains media from a single series
+      // Use efficient database query to get unique series names
+      const { Database } = await import('../../infrastructure/database/Database');
+      const seriesResult = await Database.query<{ show_name: string }>(
+        `SELECT DISTINCT show_name 
+         FROM media_files 
+         WHERE id = ANY($1::uuid[]) 
+           AND file_exists = true 
+           AND show_name IS NOT NULL 
+           AND show_name != ''`,
+        [mediaIds]
+      );
+      const uniqueSeries = seriesResult.rows.map(row => row.show_name);
+      const seriesCount = uniqueSeries.length;
+
+      // Progressive mode requires single series
+      // If multiple series detected, disable progression (start from beginning each time)
+      const hasMultipleSeries = seriesCount > 1;
+      const hasSingleSeries = seriesCount === 1;
+
+      if (hasMultipleSeries) {
+        logger.warn(
+          {
+            channelId,
+            bucketId,
+            seriesCount,
+            seriesNames: uniqueSeries,
+            mediaCount: mediaIds.length,
+            note: 'Progressive mode disabled - bucket contains multiple series. Progression only works with single-series buckets. Day 1: s1e1, s1e2, s1e3... Day 2: s1e4, s1e5, s1e6... requires single series.'
+          },
+          'Bucket contains multiple series - progression disabled for sequential mode'
+        );
+        // Don't use progression - start from beginning each time
+        // Progression will not be saved/updated for multi-series buckets
+      } else if (!hasSingleSeries) {
+        // No series detected (movies or unclassified content)
+        logger.debug(
+          {
+            channelId,
+            bucketId,
+            mediaCount: mediaIds.length,
+            note: 'No series detected in bucket - progression may not work as expected'
+          },
+          'Bucket contains no series - progression may be limited'
+        );
+      } else {
+        logger.debug(
+          {
+            channelId,
+            bucketId,
+            seriesName: uniqueSeries[0],
+            mediaCount: mediaIds.length,
+            note: 'Single series detected - progressive mode enabled'
+          },
+          'Bucket contains single series - progression enabled for sequential mode'
+        );
+      }
+
+      // For sequential, check progression and start from saved position
+      // Only use progression if bucket has single series
+      const progression = hasSingleSeries 
+        ? await this.bucketService.getProgression(channelId, bucketId)
+        : null; // Disable progression for multi-series or no-series buckets
+
+      if (progression && progression.currentPosition !== undefined && progression.currentPosition > 0) {
+        // Start from saved position, but ensure we have media after it
+        const startPosition = progression.currentPosition;
+        if (startPosition < mediaIds.length) {
+          // Rotate array to start from saved position
+          const before = mediaIds.slice(0, startPosition);
+          const after = mediaIds.slice(startPosition);
+          mediaIds = after.concat(before);
+          logger.debug(
+            { channelId, bucketId, startPosition, totalMedia: mediaIds.length },
+            'Resuming sequential playback from saved position'
+          );
+        } else {
+          // Invalid position - reset to beginning
+          logger.warn(
+            { channelId, bucketId, startPosition, totalMedia: mediaIds.length },
+            'Progression position is out of bounds, starting from beginning'
+          );
+          // Reset progression to 0
+          await this.bucketService.resetProgression(channelId, bucketId);
+        }
+      } else {
+        // No progression or position is 0 - start from beginning
+        logger.debug(
+          { channelId, bucketId, hasProgression: !!progression, position: progression?.currentPosition },
+          'Starting sequential playback from beginning (no progression or position is 0)'
+        );
+      }
+    } else if (playbackMode === 'shuffle') {
+      // Shuffle: randomize order once, then play sequentially
+      // Use a deterministic shuffle based on date + block ID so it changes daily
+      const dateStr = lookupTime.toISOString().split('T')[0]; // YYYY-MM-DD
+      const dailySeed = `${dateStr}-${activeBlock.id}`;
+      mediaIds = this.shuffleArray([...mediaIds], dailySeed);
+      logger.debug({ channelId, bucketId, dailySeed }, 'Applied shuffle playback mode with daily seed');
+    } else if (playbackMode === 'random') {
+      // Random: shuffle each time (no progression tracking)
+      mediaIds = this.shuffleArray([...mediaIds]);
+      logger.debug({ channelId, bucketId }, 'Applied random playback mode');
+    } else if (playbackMode === 'weighted') {
+      // Weighted: order by bucket weights, seeded per block occurrence so every lookup
+      // within the occurrence (EPG included) gets the same order
+      const occurrenceStart = getBlockOccurrence(activeBlock, lookupTime).start;
+      const weightSeed = `${occurrenceStart.toISOString()}-${activeBlock.id}`;
+      const boost =
+        activeBlock.recency_boost_days && activeBlock.recency_boost
+          ? { days: activeBlock.recency_boost_days, factor: activeBlock.recency_boost }
+          : null;
+      const weightedMedia = await this.bucketService.getWeightedMediaInBucket(bucketId);
+      mediaIds = orderByWeight(weightedMedia, createSeededRandom(weightSeed), occurrenceStart, boost);
+      logger.debug({ channelId, bucketId, weightSeed, boost }, 'Applied weighted playback mode');
+    }
+
+    if (playbackMode !== 'sequential') {
+      mediaIds = await this.avoidRecentPlays(channelId, activeBlock, lookupTime, mediaIds);
+    }
+
+    return mediaIds;
+  }
+
+  /**
+   * Move media the channel played within the block's no-repeat window behind the rest
+   * Only plays before the block occurrence started count, so every lookup within the occurrence
+   * gets the same order
+   */
+  private async avoidRecentPlays(
+    channelId: string,
+    block: ScheduleBlockRow,
+    lookupTime: Date,
+    mediaIds: string[]
+  ): Promise<string[]> {
+    const window = { hours: block.no_repeat_hours, items: block.no_repeat_items };
+    if (!hasRepeatWindow(window) || mediaIds.length < 2) {
+      return mediaIds;
+    }
+
+    const start = getBlockOccurrence(block, lookupTime).start;
+    try {
+      const history = await this.playHistoryRepository.findRecent(channelId, start, window.hours || 0, window.items || 0);
+      const ordered = avoidRecentPlays(mediaIds, history, window, start);
+      logger.debug(
+        { channelId, blockId: block.id, ...window, recentPlays: history.length, start: start.toISOString() },
+        'Moved recently played media behind the rest'
+      );
+      return ordered;
+    } catch (error) {
+      logger.warn({ channelId, blockId: block.id, error }, 'Failed to load play history, resolving without it');
+      return mediaIds;
+    }
+  }
+
+  /**
+   * Apply the channel's content rules to resolved media
+   * Air times follow playout: the list loops from the channel's schedule start time
+   * (ScheduleTimeService.getCurrentPosition), so they are projected from the start of the loop
+   * airing at the lookup time. Files the rules drop shorten the loop and move its start, so the
+   * rules are applied again from the new start until it settles. Slot-aligned blocks air from
+   * the block start. Repeat limits also see the channel's plays before the start.
+   */
+  private async applyContentRules(
+    channelId: string,
+    activeBlock: ScheduleBlockRow | null,
+    lookupTime: Date,
+    files: MediaFile[],
+    rules?: ContentRule[]
+  ): Promise<ContentRuleEvaluation & { media: MediaFile[] }> {
+    const blockStart =
+      activeBlock && this.isSlotAligned(activeBlock) ? getBlockOccurrence(activeBlock, lookupTime).start : undefined;
+    let scheduleStartTime: Date | null = null;
+    if (!blockStart) {
+      try {
+        scheduleStartTime = await this.scheduleTimeService.getScheduleStartTime(channelId);
+      } catch (error) {
+        logger.warn({ channelId, error }, 'Failed to load schedule start time, projecting air times from now');
+      }
+    }
+    const getStart = (media: MediaFile[]): Date => {
+      if (blockStart) {
+        return blockStart;
+      }
+      // Channels that haven't streamed yet start the list when they start
+      if (!scheduleStartTime) {
+        return new Date(lookupTime);
+      }
+      const totalDuration = media.reduce((sum, file) => sum + (file.metadata?.duration || 0), 0);
+      return getPlaylistLoopStart(scheduleStartTime, totalDuration, lookupTime);
+    };
+
+    let start = getStart(files);
+    if (!rules) {
+      try {
+        rules = await this.contentRuleRepository.findEnabledForChannel(channelId);
+      } catch (error) {
+        logger.warn({ channelId, error }, 'Failed to load content rules, resolving without them');
+        rules = [];
+      }
+    }
+    if (rules.length === 0 || files.length === 0) {
+      return { start, rules, exclusions: [], media: files };
+    }
+
+    let result = applyContentRules(files, rules, start, await this.loadPlayedMedia(channelId, rules, files, start));
+    for (let pass = 1; pass < MAX_RULE_PASSES && result.media.length > 0; pass++) {
+      const loopStart = getStart(result.media);
+      if (loopStart.getTime() === start.getTime()) {
+        break;
+      }
+      start = loopStart;
+      result = applyContentRules(files, rules, start, await this.loadPlayedMedia(channelId, rules, files, start));
+    }
+
+    const { media, exclusions } = result;
+    if (exclusions.length > 0) {
+      logger.debug(
+        {
+          channelId,
+          ruleCount: rules.length,
+          excludedCount: exclusions.length,
+          sampleExclusions: exclusions.slice(0, 5).map((e) => ({ title: e.title, rule: e.ruleName })),
+        },
+        'Content rules excluded media'
+      );
+    }
+    return { start, rules, exclusions, media };
+  }
+
+  /**
+   * The channel's plays within the longest no_repeat window before start
+   */
+  private async loadPlayedMedia(
+    channelId: string,
+    rules: ContentRule[],
+    files: MediaFile[],
+    start: Date
+  ): Promise<PlayedMedia[]> {
+    const hours = Math.max(
+      0,
+      ...rules.filter((rule) => rule.enabled && rule.ruleType === 'no_repeat').map((rule) => rule.conditions.hours || 0)
+    );
+    if (hours === 0) {
+      return [];
+    }
+
+    try {
+      const history = await this.playHistoryRepository.findRecent(channelId, start, hours, 0);
+      const known = new Map<string, MediaFile | null>(files.map((file) => [file.id, file]));
+      const played: PlayedMedia[] = [];
+      for (const entry of history) {
+        if (!known.has(entry.mediaFileId)) {
+          const row = await this.mediaFileRepository.findById(entry.mediaFileId);
+          known.set(entry.mediaFileId, row ? MediaFileRepository.rowToMediaFile(row) : null);
+        }
+        const file = known.get(entry.mediaFileId);
+        if (file) {
+          played.push({ file, playedAt: entry.playedAt });
+        }
+      }
+      return played;
+    } catch (error) {
+      logger.warn({ channelId, error }, 'Failed to load play history, applying content rules without it');
+      return [];
+    }
   }
 
   /**
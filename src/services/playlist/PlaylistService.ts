@@ -2,9 +2,184 @@ import fs from 'fs/promises';
 import path from 'path';
 import { createLogger } from '../../utils/logger';
 import { AsyncMutex } from '../../utils/AsyncMutex';
+import { config } from '../../config/env';
+import { ValidationError } from '../../utils/errors';
 
 const logger = createLogger('PlaylistService');
 
+/**
+ * Low-Latency HLS layout for a channel
+ * FFmpeg writes partial segments (parts) as its "segments"; PlaylistService groups
+ * every partsPerSegment parts into one parent segment (served as llseg_N.m4s).
+ */
+export interface LowLatencyOptions {
+  partTarget: number; // seconds per part
+  partsPerSegment: number;
+  segmentDuration: number; // seconds per parent segment
+}
+
+interface PartEntry {
+  number: number;
+  duration: number;
+  uri: string;
+  discontinuity: boolean; // FFmpeg tagged the part with EXT-X-DISCONTINUITY
+  map?: string; // EXT-X-MAP tag in effect for the part
+}
+
+/** Parent segments keep their EXT-X-PART tags for this many segments behind the live edge */
+const LL_HLS_PART_SEGMENTS = 3;
+
+/**
+ * Get LL-HLS layout for a segment duration
+ * Parts evenly divide the segment so keyframes (forced at segment boundaries) always start a part
+ */
+export function getLowLatencyOptions(
+  segmentDuration: number,
+  partDuration: number = config.hls.partDuration
+): LowLatencyOptions {
+  const partsPerSegment = Math.max(1, Math.round(segmentDuration / partDuration));
+  return {
+    partTarget: segmentDuration / partsPerSegment,
+    partsPerSegment,
+    segmentDuration,
+  };
+}
+
+/**
+ * Format a part filename the way FFmpeg does (stream_%03d.m4s)
+ */
+export function getPartFilename(partNumber: number): string {
+  return `stream_${String(partNumber).padStart(3, '0')}.m4s`;
+}
+
+/**
+ * Parse FFmpeg's playlist into parts (EXTINF duration + stream_N.m4s)
+ */
+function parseParts(content: string): PartEntry[] {
+  const parts: PartEntry[] = [];
+  let pendingDuration: number | null = null;
+  let discontinuity = false;
+  let map: string | undefined;
+  for (const line of content.split('\n')) {
+    const trimmed = line.trim();
+    if (trimmed === '#EXT-X-DISCONTINUITY') {
+      discontinuity = true;
+      continue;
+    }
+    if (trimmed.startsWith('#EXT-X-MAP:')) {
+      map = trimmed;
+      continue;
+    }
+    const extinf = trimmed.match(/^#EXTINF:([\d.]+)/);
+    if (extinf) {
+      pendingDuration = parseFloat(extinf[1]);
+      continue;
+    }
+    const segment = trimmed.match(/^stream_(\d+)\.m4s$/);
+    if (segment && pendingDuration !== null) {
+      parts.push({ number: parseInt(segment[1], 10), duration: pendingDuration, uri: trimmed, discontinuity, map });
+      pendingDuration = null;
+      discontinuity = false;
+    }
+  }
+  return parts;
+}
+
+/**
+ * Group parts into the parent segments FFmpeg wrote them for
+ * Parts of a run share segment N = floor(part / partsPerSegment); a discontinuity starts a new
+ * run, so a segment it cut short is never filled up with parts of the next run
+ */
+function groupParts(parts: PartEntry[], partsPerSegment: number): PartEntry[][] {
+  const groups: PartEntry[][] = [];
+  for (const part of parts) {
+    const last = groups[groups.length - 1];
+    if (
+      last &&
+      !part.discontinuity &&
+      Math.floor(last[0].number / partsPerSegment) === Math.floor(part.number / partsPerSegment)
+    ) {
+      last.push(part);
+    } else {
+      groups.push([part]);
+    }
+  }
+  return groups;
+}
+
+/**
+ * Get the parts of parent segment N (llseg_N.m4s) as listed in FFmpeg's playlist
+ * Returns undefined when the playlist doesn't list the whole segment (pruned, or still being written)
+ */
+export function getParentSegmentParts(
+  content: string,
+  lowLatency: LowLatencyOptions,
+  segmentNumber: number
+): string[] | undefined {
+  const { partsPerSegment } = lowLatency;
+  const groups = groupParts(parseParts(content), partsPerSegment);
+  const index = groups.findIndex((group) => Math.floor(group[0].number / partsPerSegment) === segmentNumber);
+  if (index < 0) {
+    return undefined;
+  }
+  const group = groups[index];
+  // A short segment is complete once a discontinuity ended it; the first one may be pruned instead
+  const startsSegment = group[0].discontinuity || group[0].number % partsPerSegment === 0;
+  if (group.length < partsPerSegment && (index === groups.length - 1 || !startsSegment)) {
+    return undefined;
+  }
+  return group.map((part) => part.uri);
+}
+
+const ABSOLUTE_URI_PATTERN = /^[a-z][a-z0-9+.-]*:\/\//i;
+
+/**
+ * Append a query string to every URI in a playlist (URI lines and URI="..." attributes)
+ * Lets per-viewer parameters follow the player from playlist to segments
+ */
+export function appendPlaylistQuery(playlist: string, query: string): string {
+  // Absolute URIs (segments on a CDN) aren't served here and stay cacheable for every viewer
+  const append = (uri: string): string =>
+    ABSOLUTE_URI_PATTERN.test(uri) ? uri : `${uri}${uri.includes('?') ? '&' : '?'}${query}`;
+  return playlist
+    .split('\n')
+    .map((line) => {
+      const trimmed = line.trim();
+      if (trimmed === '') {
+        return line;
+      }
+      if (!trimmed.startsWith('#')) {
+        return append(trimmed);
+      }
+      return line.replace(/URI="([^"]*)"/g, (_match, uri: string) => `URI="${append(uri)}"`);
+    })
+    .join('\n');
+}
+
+/**
+ * Point the segments of a media playlist (segment lines and EXT-X-MAP init segments) at a base URL
+ * Used for channels whose segments are published to a CDN while playlists are served here
+ */
+export function rewriteSegmentUris(playlist: string, baseUrl: string): string {
+  const rewrite = (uri: string): string => (ABSOLUTE_URI_PATTERN.test(uri) ? uri : `${baseUrl}/${uri}`);
+  return playlist
+    .split('\n')
+    .map((line) => {
+      const trimmed = line.trim();
+      if (trimmed === '') {
+        return line;
+      }
+      if (!trimmed.startsWith('#')) {
+        return rewrite(trimmed);
+      }
+      if (trimmed.startsWith('#EXT-X-MAP:')) {
+        return line.replace(/URI="([^"]*)"/, (_match, uri: string) => `URI="${rewrite(uri)}"`);
+      }
+      return line;
+    })
+    .join('\n');
+}
+
 /**
  * PlaylistService - serves FFmpeg playlists with bumper segment injection during transitions
  *
@@ -55,10 +230,16 @@ export class PlaylistService {
    * @param playlistPath - Path to FFmpeg's playlist file (stream.m3u8)
    * @param channelId - Channel ID for logging (optional, extracted from path if not provided)
    * @param returnOriginal - If true, returns original playlist without modifications (for debugging)
+   * @param lowLatency - LL-HLS layout; when set, FFmpeg's part playlist is rendered as an LL-HLS playlist
    * @returns Playlist content as generated by FFmpeg, or minimal valid fallback
    */
   // @ts-ignore - returnOriginal parameter temporarily unused in debug mode
-  async getPlaylist(playlistPath: string, channelId?: string, _returnOriginal: boolean = false): Promise<string> {
+  async getPlaylist(
+    playlistPath: string,
+    channelId?: string,
+    _returnOriginal: boolean = false,
+    lowLatency?: LowLatencyOptions
+  ): Promise<string> {
     // Extract channelId for logging if not provided (no lock needed for this)
     const actualChannelId = channelId || this.extractChannelIdFromPath(playlistPath);
 
@@ -83,6 +264,10 @@ export class PlaylistService {
           return this.buildMinimalPlaylist();
         }
 
+        if (lowLatency) {
+          return this.buildLowLatencyPlaylist(content, lowLatency);
+        }
+
         // TEMPORARY DEBUG: Return original playlist without modifications
         logger.debug(
           {
@@ -170,6 +355,133 @@ export class PlaylistService {
     }); // End of mutex.runExclusive()
   }
 
+  /**
+   * Wait for a part/segment to appear before returning the playlist (LL-HLS blocking reload)
+   *
+   * Clients request ?_HLS_msn=N&_HLS_part=M to be told about part M of segment N as soon as
+   * FFmpeg finishes writing it. Without _HLS_part the whole segment N must be complete.
+   * After 3x the segment duration the current playlist is returned anyway.
+   *
+   * @throws ValidationError if msn is more than two segments ahead of the live edge
+   */
+  async getBlockingPlaylist(
+    playlistPath: string,
+    channelId: string,
+    lowLatency: LowLatencyOptions,
+    msn: number,
+    part?: number
+  ): Promise<string> {
+    const { partsPerSegment } = lowLatency;
+    const targetPart = msn * partsPerSegment + (part ?? partsPerSegment - 1);
+    const deadline = Date.now() + lowLatency.segmentDuration * 3 * 1000;
+
+    while (Date.now() < deadline) {
+      const lastPart = await this.getLastPartNumber(playlistPath);
+      if (lastPart >= targetPart) {
+        break;
+      }
+      // Spec: requests more than two segments ahead of the last one are a client error
+      if (lastPart >= 0 && msn > Math.floor(lastPart / partsPerSegment) + 2) {
+        throw new ValidationError('_HLS_msn is too far ahead of the live edge');
+      }
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+
+    return this.getPlaylist(playlistPath, channelId, true, lowLatency);
+  }
+
+  /**
+   * Get the number of the newest part in FFmpeg's playlist (-1 if none)
+   */
+  private async getLastPartNumber(playlistPath: string): Promise<number> {
+    try {
+      const content = await fs.readFile(playlistPath, 'utf-8');
+      const parts = parseParts(content);
+      return parts.length > 0 ? parts[parts.length - 1].number : -1;
+    } catch {
+      return -1;
+    }
+  }
+
+  /**
+   * Render an LL-HLS playlist from FFmpeg's part playlist
+   *
+   * - Complete groups of parts become parent segments (llseg_N.m4s, served by concatenating parts)
+   * - The last few parent segments and the in-progress one list their EXT-X-PART tags
+   * - FFmpeg's discontinuities (and init segment changes) are carried over to the parent segments
+   * - EXT-X-PRELOAD-HINT points at the part FFmpeg is currently writing
+   */
+  private buildLowLatencyPlaylist(content: string, lowLatency: LowLatencyOptions): string {
+    const { partsPerSegment } = lowLatency;
+
+    // Skip leading parts whose parent segment was partially pruned by FFmpeg's sliding window
+    const allParts = parseParts(content);
+    const firstIndex = allParts.findIndex((p) => p.discontinuity || p.number % partsPerSegment === 0);
+    if (firstIndex < 0) {
+      return this.buildMinimalPlaylist();
+    }
+    const parts = allParts.slice(firstIndex);
+
+    // Only the newest segment can still get parts (earlier ones were ended by the next segment)
+    const groups = groupParts(parts, partsPerSegment);
+    const lastGroup = groups[groups.length - 1];
+    const inProgress = lastGroup.length < partsPerSegment ? lastGroup : null;
+    const completeGroups = inProgress ? groups.slice(0, -1) : groups;
+
+    const partTarget = Math.max(lowLatency.partTarget, ...parts.map((p) => p.duration));
+    const discontinuitySequence = content.match(/#EXT-X-DISCONTINUITY-SEQUENCE:(\d+)/);
+
+    const lines = [
+      '#EXTM3U',
+      '#EXT-X-VERSION:9',
+      `#EXT-X-TARGETDURATION:${Math.ceil(lowLatency.segmentDuration)}`,
+      `#EXT-X-SERVER-CONTROL:CAN-BLOCK-RELOAD=YES,PART-HOLD-BACK=${(partTarget * 3).toFixed(3)}`,
+      `#EXT-X-PART-INF:PART-TARGET=${partTarget.toFixed(3)}`,
+      `#EXT-X-MEDIA-SEQUENCE:${Math.floor(parts[0].number / partsPerSegment)}`,
+    ];
+    if (discontinuitySequence) {
+      lines.push(`#EXT-X-DISCONTINUITY-SEQUENCE:${discontinuitySequence[1]}`);
+    }
+    let map = parts[0].map;
+    if (map) {
+      lines.push(map);
+    }
+
+    // Segments start on a keyframe, so their first part is independent
+    const formatPart = (part: PartEntry, i: number) =>
+      `#EXT-X-PART:DURATION=${part.duration.toFixed(3)},URI="${part.uri}"` + (i === 0 ? ',INDEPENDENT=YES' : '');
+
+    // Discontinuity and init segment changes go before the segment's first part
+    const startGroup = (group: PartEntry[]) => {
+      if (group[0].discontinuity) {
+        lines.push('#EXT-X-DISCONTINUITY');
+      }
+      if (group[0].map && group[0].map !== map) {
+        map = group[0].map;
+        lines.push(map);
+      }
+    };
+
+    completeGroups.forEach((group, i) => {
+      startGroup(group);
+      if (i >= completeGroups.length - LL_HLS_PART_SEGMENTS) {
+        lines.push(...group.map(formatPart));
+      }
+      const duration = group.reduce((sum, p) => sum + p.duration, 0);
+      lines.push(`#EXTINF:${duration.toFixed(3)},`, `llseg_${Math.floor(group[0].number / partsPerSegment)}.m4s`);
+    });
+
+    if (inProgress) {
+      startGroup(inProgress);
+      lines.push(...inProgress.map(formatPart));
+    }
+
+    const nextPart = parts[parts.length - 1].number + 1;
+    lines.push(`#EXT-X-PRELOAD-HINT:TYPE=PART,URI="${getPartFilename(nextPart)}"`);
+
+    return lines.join('\n') + '\n';
+  }
+
   /**
    * Build minimal valid EVENT playlist for error/initialization cases
    * 
@@ -0,0 +1,168 @@
+import { MediaFile } from '../../domain/media/MediaFile';
+import { ScheduleBlockRow } from '../../infrastructure/database/repositories/ScheduleRepository';
+
+/**
+ * Fixed-time program slots
+ *
+ * By default a schedule block plays its media back to back, so a program only starts "at 20:00"
+ * if everything before it happened to end then. A block with slot alignment pins program starts
+ * instead: 'block' starts the first program exactly at the block start, 'half_hour' starts every
+ * program on the next :00 or :30. Gaps before a slot - and the tail of the block, so the next
+ * block starts on time - are filled from the block's filler bucket, with a generated "Up Next"
+ * bumper or with a slate. PlaylistResolver plays the plan and EPGService lists it entry by entry,
+ * so the guide matches what airs.
+ */
+
+export const SLOT_ALIGNMENTS = ['none', 'block', 'half_hour'] as const;
+export type SlotAlignment = (typeof SLOT_ALIGNMENTS)[number];
+
+export const FILLER_MODES = ['slate', 'bucket', 'bumper'] as const;
+export type FillerMode = (typeof FILLER_MODES)[number];
+
+/** Shown on slates (and on the clip closing a gap the filler bucket can't fill exactly) */
+export const FILLER_SLATE_TITLE = 'Programming resumes shortly';
+
+/** Gaps shorter than this are not filled (the next program starts up to this much early) */
+const MIN_FILLER_SECONDS = 1;
+
+/** Safety limit for pathological inputs (e.g. very short files in a very long block) */
+const MAX_PLAN_ENTRIES = 10000;
+
+const HALF_HOUR_MS = 30 * 60 * 1000;
+
+export interface SlotPlanEntry {
+  kind: 'program' | 'filler';
+  start: Date;
+  duration: number; // seconds on air (a program cut by the block end is shorter than its file)
+  media: MediaFile;
+}
+
+export interface SlotPlanOptions {
+  start: Date; // start of the block occurrence
+  end: Date;
+  alignment: Exclude<SlotAlignment, 'none'>;
+  programs: MediaFile[]; // in play order (cycled if the block outlasts them)
+  fillerMode: FillerMode;
+  filler?: MediaFile[]; // filler bucket media (fillerMode 'bucket')
+  createClip: (title: string, duration: number) => MediaFile; // generated bumper/slate of an exact length
+}
+
+/**
+ * Next time a program may start at (or after) time
+ */
+export function getNextSlotTime(time: Date, alignment: Exclude<SlotAlignment, 'none'>): Date {
+  if (alignment === 'block') {
+    return new Date(time);
+  }
+
+  // :00 and :30 of the local clock
+  const slot = new Date(time);
+  slot.setMinutes(slot.getMinutes() >= 30 ? 30 : 0, 0, 0);
+  if (slot < time) {
+    slot.setTime(slot.getTime() + HALF_HOUR_MS);
+  }
+  return slot;
+}
+
+/**
+ * Start and end of the occurrence of a block that is active at time
+ * (schedule events have absolute times; recurring blocks repeat daily)
+ */
+export function getBlockOccurrence(
+  block: Pick<ScheduleBlockRow, 'start_time' | 'end_time' | 'event'>,
+  time: Date
+): { start: Date; end: Date } {
+  if (block.event) {
+    return { start: block.event.startsAt, end: block.event.endsAt };
+  }
+
+  const start = atTimeOfDay(time, block.start_time);
+  if (start > time) {
+    start.setDate(start.getDate() - 1);
+  }
+  const end = atTimeOfDay(start, block.end_time);
+  if (end <= start) {
+    end.setDate(end.getDate() + 1);
+  }
+  return { start, end };
+}
+
+function atTimeOfDay(date: Date, timeStr: string): Date {
+  const [hours, minutes, seconds] = timeStr.split(':').map(Number);
+  const result = new Date(date);
+  result.setHours(hours, minutes, seconds || 0, 0);
+  return result;
+}
+
+/**
+ * Lay out a block occurrence: programs on their slots, filler in the gaps, nothing past the end
+ *
+ * A program that would run past the block end is not started (the block's tail is filled
+ * instead), unless it is the block's first program - that one plays and is cut at the end.
+ */
+export function planSlots(options: SlotPlanOptions): SlotPlanEntry[] {
+  const { alignment, fillerMode, createClip } = options;
+  const programs = options.programs.filter((file) => file.metadata.duration > 0);
+  const filler = (options.filler || []).filter((file) => file.metadata.duration >= MIN_FILLER_SECONDS);
+  const endMs = options.end.getTime();
+
+  const entries: SlotPlanEntry[] = [];
+  let time = options.start.getTime();
+  let programIndex = 0;
+  let fillerIndex = 0;
+  let hasProgram = false;
+
+  const push = (kind: SlotPlanEntry['kind'], media: MediaFile, durationMs: number): void => {
+    entries.push({ kind, start: new Date(time), duration: durationMs / 1000, media });
+    time += durationMs;
+  };
+
+  // Fill [time, until) - whole filler files in rotation while one fits, then a generated clip
+  const fill = (until: number, next?: MediaFile): void => {
+    if (fillerMode === 'bucket') {
+      let misses = 0;
+      while (misses < filler.length && entries.length < MAX_PLAN_ENTRIES) {
+        const file = filler[fillerIndex++ % filler.length];
+        const fileMs = Math.round(file.metadata.duration * 1000);
+        if (time + fileMs <= until) {
+          push('filler', file, fileMs);
+          misses = 0;
+        } else {
+          misses++;
+        }
+      }
+    }
+
+    const remainingMs = until - time;
+    if (remainingMs >= MIN_FILLER_SECONDS * 1000) {
+      const title = fillerMode === 'bumper' && next ? `Up Next: ${next.getDisplayName()}` : FILLER_SLATE_TITLE;
+      push('filler', createClip(title, remainingMs / 1000), remainingMs);
+    }
+  };
+
+  while (time < endMs && entries.length < MAX_PLAN_ENTRIES) {
+    if (programs.length === 0) {
+      fill(endMs);
+      break;
+    }
+
+    const program = programs[programIndex % programs.length];
+    const programMs = Math.round(program.metadata.duration * 1000);
+    const slot = Math.min(getNextSlotTime(new Date(time), alignment).getTime(), endMs);
+
+    if (slot >= endMs || (hasProgram && slot + programMs > endMs)) {
+      fill(endMs);
+      break;
+    }
+
+    if (slot > time) {
+      fill(slot, program);
+    }
+
+    push('program', program, Math.min(programMs, endMs - time));
+    programIndex++;
+    hasProgram = true;
+  }
+
+  return entries;
+}
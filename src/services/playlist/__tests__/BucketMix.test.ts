@@ -0,0 +1,52 @@
+import { BucketMedia, mixBuckets } from '../BucketMix';
+
+const bucket = (bucketId: string, mediaIds: string[], weight: number = 1): BucketMedia => ({
+  bucketId,
+  weight,
+  mediaIds,
+});
+
+describe('BucketMix', () => {
+  const cartoons = bucket('cartoons', ['c1', 'c2', 'c3']);
+  const shorts = bucket('shorts', ['s1']);
+
+  it('should take one file from each bucket in turn', () => {
+    expect(mixBuckets([cartoons, shorts], 'round_robin')).toEqual(['c1', 's1', 'c2', 'c3']);
+  });
+
+  it('should give buckets slots by weight', () => {
+    const mixed = mixBuckets([bucket('a', ['a1', 'a2', 'a3', 'a4'], 2), bucket('b', ['b1', 'b2'], 1)], 'weighted');
+
+    expect(mixed).toEqual(['a1', 'b1', 'a2', 'a3', 'b2', 'a4']);
+  });
+
+  it('should play every file of a lighter bucket', () => {
+    const mixed = mixBuckets(
+      [bucket('a', ['a1', 'a2'], 9), bucket('b', ['b1', 'b2', 'b3', 'b4', 'b5'], 1)],
+      'weighted'
+    );
+
+    expect(mixed.filter((id) => id.startsWith('b'))).toEqual(['b1', 'b2', 'b3', 'b4', 'b5']);
+    expect(mixed).toHaveLength(50);
+  });
+
+  it('should not play a file twice in a row when another bucket can take the slot', () => {
+    const mixed = mixBuckets([bucket('a', ['a1'], 3), bucket('b', ['b1', 'b2', 'b3'], 1)], 'weighted');
+
+    expect(mixed).toEqual(['a1', 'b1', 'a1', 'b2', 'a1', 'b3', 'a1', 'b1', 'a1', 'b2', 'a1', 'b3']);
+  });
+
+  it('should follow every file of the first bucket with the other buckets', () => {
+    const mixed = mixBuckets(
+      [bucket('shows', ['show1', 'show2', 'show3']), bucket('videos', ['mv1', 'mv2'])],
+      'sequence'
+    );
+
+    expect(mixed).toEqual(['show1', 'mv1', 'show2', 'mv2', 'show3', 'mv1']);
+  });
+
+  it('should skip empty buckets', () => {
+    expect(mixBuckets([bucket('empty', []), cartoons], 'sequence')).toEqual(['c1', 'c2', 'c3']);
+    expect(mixBuckets([bucket('empty', [])], 'round_robin')).toEqual([]);
+  });
+});
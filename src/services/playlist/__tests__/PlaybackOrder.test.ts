@@ -0,0 +1,109 @@
+import {
+  PlayHistoryEntry,
+  WeightedMedia,
+  avoidRecentPlays,
+  createSeededRandom,
+  getMediaWeight,
+  getRecentlyPlayed,
+  orderByWeight,
+} from '../PlaybackOrder';
+
+// Local clock times on an arbitrary day
+const at = (hours: number, minutes: number = 0): Date => new Date(2025, 0, 6, hours, minutes);
+
+const play = (mediaFileId: string, playedAt: Date): PlayHistoryEntry => ({ mediaFileId, playedAt });
+
+const weighted = (mediaFileId: string, weight: number, addedAt: Date = at(0)): WeightedMedia => ({
+  mediaFileId,
+  weight,
+  addedAt,
+});
+
+describe('PlaybackOrder', () => {
+  // Newest first, as read from the repository
+  const history = [play('C', at(17, 30)), play('B', at(16)), play('A', at(12)), play('B', at(9))];
+
+  describe('getRecentlyPlayed', () => {
+    it('should find media played within the hours before start', () => {
+      const recent = getRecentlyPlayed(history, { hours: 3 }, at(18));
+
+      expect([...recent.keys()]).toEqual(['C', 'B']);
+      expect(recent.get('B')).toBe(at(16).getTime());
+    });
+
+    it('should find media among the last plays', () => {
+      expect([...getRecentlyPlayed(history, { items: 3 }, at(18)).keys()]).toEqual(['C', 'B', 'A']);
+    });
+
+    it('should combine both windows', () => {
+      expect([...getRecentlyPlayed(history, { hours: 1, items: 2 }, at(18)).keys()]).toEqual(['C', 'B']);
+    });
+  });
+
+  describe('avoidRecentPlays', () => {
+    it('should move recently played media behind the rest, least recently played first', () => {
+      const ordered = avoidRecentPlays(['C', 'D', 'B', 'E', 'A'], history, { items: 3 }, at(18));
+
+      expect(ordered).toEqual(['D', 'E', 'A', 'B', 'C']);
+    });
+
+    it('should keep the order without a window', () => {
+      expect(avoidRecentPlays(['C', 'A', 'B'], history, { hours: null, items: 0 }, at(18))).toEqual(['C', 'A', 'B']);
+    });
+
+    it('should keep the item window when the bucket has more files than it', () => {
+      const ordered = avoidRecentPlays(['A', 'B', 'C', 'D'], history, { items: 3 }, at(18));
+
+      // Each file is outside the last 3 plays (this playlist, then history) when it airs
+      const plays = history.map((entry) => entry.mediaFileId);
+      ordered.forEach((id, i) => {
+        expect([...ordered.slice(0, i).reverse(), ...plays].slice(0, 3)).not.toContain(id);
+      });
+    });
+
+    it('should still play media inside the hours window once fresh media runs out', () => {
+      // Only D is fresh; A, B and C were all played within the last 8 hours
+      const ordered = avoidRecentPlays(['C', 'D', 'B', 'A'], history, { hours: 8 }, at(18));
+
+      expect(ordered).toEqual(['D', 'A', 'B', 'C']);
+    });
+
+    it('should ignore plays after start', () => {
+      expect(avoidRecentPlays(['C', 'D'], history, { hours: 2 }, at(17))).toEqual(['C', 'D']);
+    });
+  });
+
+  describe('weights', () => {
+    it('should boost media added within the boost window', () => {
+      const boost = { days: 7, factor: 3 };
+
+      expect(getMediaWeight(weighted('new', 2, new Date(2025, 0, 3)), at(12), boost)).toBe(6);
+      expect(getMediaWeight(weighted('old', 2, new Date(2024, 11, 1)), at(12), boost)).toBe(2);
+      expect(getMediaWeight(weighted('new', 2, new Date(2025, 0, 3)), at(12))).toBe(2);
+    });
+
+    it('should order every file once, reproducibly for a seed', () => {
+      const media = ['A', 'B', 'C', 'D', 'E'].map((id) => weighted(id, 1));
+
+      const first = orderByWeight(media, createSeededRandom('2025-01-06-block'), at(12));
+      const second = orderByWeight(media, createSeededRandom('2025-01-06-block'), at(12));
+
+      expect(first).toEqual(second);
+      expect([...first].sort()).toEqual(['A', 'B', 'C', 'D', 'E']);
+    });
+
+    it('should put heavy media first more often', () => {
+      const media = [weighted('light', 1), weighted('heavy', 9)];
+      let heavyFirst = 0;
+
+      for (let i = 0; i < 200; i++) {
+        if (orderByWeight(media, createSeededRandom(`seed-${i}`), at(12))[0] === 'heavy') {
+          heavyFirst++;
+        }
+      }
+
+      // Expected share is 90%
+      expect(heavyFirst).toBeGreaterThan(160);
+    });
+  });
+});
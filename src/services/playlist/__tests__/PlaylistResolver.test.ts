@@ -0,0 +1,114 @@
+import { PlaylistResolver } from '../PlaylistResolver';
+import { MediaBucketService } from '../../bucket/MediaBucketService';
+import { Database } from '../../../infrastructure/database/Database';
+import {
+  ScheduleBlockRow,
+  ScheduleEventRow,
+  ScheduleRepository,
+} from '../../../infrastructure/database/repositories/ScheduleRepository';
+import { MediaFileRepository, MediaFileRow } from '../../../infrastructure/database/repositories/MediaFileRepository';
+import { ContentRuleRepository } from '../../../infrastructure/database/repositories/ContentRuleRepository';
+import { ScheduleTimeService } from '../../schedule-time/ScheduleTimeService';
+
+jest.mock('../../../infrastructure/database/Database');
+jest.mock('../../../utils/logger', () => ({
+  createLogger: jest.fn().mockReturnValue({
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }),
+}));
+
+describe('PlaylistResolver', () => {
+  const at = (day: number, hours: number, minutes = 0) => new Date(2026, 0, day, hours, minutes);
+
+  const event: ScheduleEventRow = {
+    id: 'event-1',
+    channel_id: 'channel-1',
+    title: 'Premiere',
+    description: null,
+    start_time: at(5, 20),
+    end_time: at(6, 1, 30),
+    media_file_id: 'premiere',
+    bucket_id: 'event-bucket',
+    playback_mode: 'sequential',
+    live_input_url: null,
+    enabled: true,
+    created_at: at(1, 9),
+    updated_at: at(1, 9),
+  };
+
+  const block = {
+    id: 'block-1',
+    channel_id: 'channel-1',
+    name: 'Evening',
+    day_of_week: null,
+    start_time: '18:00:00',
+    end_time: '23:00:00',
+    bucket_id: 'block-bucket',
+    playback_mode: 'sequential',
+    slot_alignment: 'none',
+    priority: 10,
+    enabled: true,
+  } as ScheduleBlockRow;
+
+  const buckets: Record<string, string[]> = {
+    'event-bucket': ['event-a', 'premiere', 'event-b'],
+    'block-bucket': ['block-a', 'block-b'],
+  };
+
+  const bucketService = {
+    getMediaInBucket: jest.fn((bucketId: string) => Promise.resolve(buckets[bucketId] || [])),
+    getMediaFromChannelBuckets: jest.fn().mockResolvedValue([]),
+    getProgression: jest.fn().mockResolvedValue(null),
+  };
+
+  let getActiveBlock: jest.SpyInstance;
+  let getEnabledBlocks: jest.SpyInstance;
+  let getBlockBuckets: jest.SpyInstance;
+  let resolver: PlaylistResolver;
+
+  const resolveIds = async (time: Date) =>
+    (await resolver.resolveMedia('channel-1', { currentTime: time })).map((file) => file.id);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (Database.query as jest.Mock).mockResolvedValue({ rows: [] });
+    getActiveBlock = jest.spyOn(ScheduleRepository.prototype, 'getActiveBlock');
+    getEnabledBlocks = jest.spyOn(ScheduleRepository.prototype, 'getEnabledBlocksForChannel').mockResolvedValue([block]);
+    getBlockBuckets = jest.spyOn(ScheduleRepository.prototype, 'getBlockBuckets').mockResolvedValue([]);
+    jest
+      .spyOn(MediaFileRepository.prototype, 'findById')
+      .mockImplementation(async (id: string) => ({ id, path: `/media/${id}.mp4`, duration: 600 }) as MediaFileRow);
+    jest.spyOn(ContentRuleRepository.prototype, 'findEnabledForChannel').mockResolvedValue([]);
+    jest.spyOn(ScheduleTimeService.prototype, 'getScheduleStartTime').mockResolvedValue(null);
+    resolver = new PlaylistResolver(bucketService as unknown as MediaBucketService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should play a running event over the overlapping block, opening with its media file', async () => {
+    getActiveBlock.mockResolvedValue(ScheduleRepository.eventToBlock(event));
+
+    expect(await resolveIds(at(5, 21))).toEqual(['premiere', 'event-a', 'event-b']);
+    expect(bucketService.getMediaInBucket).toHaveBeenCalledWith('event-bucket');
+    expect(getBlockBuckets).not.toHaveBeenCalled();
+  });
+
+  it('should play the block outside the event', async () => {
+    getActiveBlock.mockResolvedValue(block);
+
+    expect(await resolveIds(at(5, 19))).toEqual(['block-a', 'block-b']);
+  });
+
+  it('should judge a multi-day event in the fallback by its absolute times', async () => {
+    getActiveBlock.mockResolvedValue(null);
+    getEnabledBlocks.mockResolvedValue([ScheduleRepository.eventToBlock({ ...event, end_time: at(7, 1, 30) })]);
+
+    // Noon the next day is outside the event's times of day (20:00-01:30) but inside the event
+    expect((await resolveIds(at(6, 12)))[0]).toBe('premiere');
+  });
+});
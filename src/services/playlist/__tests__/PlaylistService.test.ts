@@ -0,0 +1,198 @@
+import {
+  PlaylistService,
+  appendPlaylistQuery,
+  getLowLatencyOptions,
+  getParentSegmentParts,
+  getPartFilename,
+  rewriteSegmentUris,
+} from '../PlaylistService';
+import * as fs from 'fs/promises';
+import { ValidationError } from '../../../utils/errors';
+
+jest.mock('fs/promises');
+jest.mock('../../../utils/logger', () => ({
+  createLogger: jest.fn().mockReturnValue({
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }),
+}));
+jest.mock('../../../config/env', () => ({
+  config: {
+    hls: {
+      partDuration: 1,
+    },
+  },
+}));
+
+describe('PlaylistService', () => {
+  let playlistService: PlaylistService;
+
+  // FFmpeg part playlist: 2-second parts, 6-second segments (3 parts per segment)
+  const buildPartPlaylist = (firstPart: number, lastPart: number): string => {
+    const lines = [
+      '#EXTM3U',
+      '#EXT-X-VERSION:7',
+      '#EXT-X-TARGETDURATION:2',
+      `#EXT-X-MEDIA-SEQUENCE:${firstPart}`,
+      '#EXT-X-MAP:URI="init.mp4"',
+    ];
+    for (let n = firstPart; n <= lastPart; n++) {
+      lines.push('#EXTINF:2.000000,', getPartFilename(n));
+    }
+    return lines.join('\n') + '\n';
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    playlistService = new PlaylistService();
+  });
+
+  describe('getLowLatencyOptions', () => {
+    it('should split segments into evenly sized parts', () => {
+      expect(getLowLatencyOptions(6, 1)).toEqual({ partTarget: 1, partsPerSegment: 6, segmentDuration: 6 });
+      expect(getLowLatencyOptions(6, 0.4)).toEqual({ partTarget: 0.4, partsPerSegment: 15, segmentDuration: 6 });
+      expect(getLowLatencyOptions(2, 5)).toEqual({ partTarget: 2, partsPerSegment: 1, segmentDuration: 2 });
+    });
+  });
+
+  describe('appendPlaylistQuery', () => {
+    it('should add the query to URI lines and URI attributes', () => {
+      const playlist = [
+        '#EXTM3U',
+        '#EXT-X-MAP:URI="init.mp4"',
+        '#EXTINF:2.000000,',
+        'stream_001.m4s',
+        '#EXT-X-PRELOAD-HINT:TYPE=PART,URI="stream_002.m4s"',
+        '#EXT-X-RENDITION-REPORT:URI="../720p/stream.m3u8?_HLS_msn=1",LAST-MSN=1',
+        '',
+      ].join('\n');
+
+      expect(appendPlaylistQuery(playlist, 'sid=abc')).toBe(
+        [
+          '#EXTM3U',
+          '#EXT-X-MAP:URI="init.mp4?sid=abc"',
+          '#EXTINF:2.000000,',
+          'stream_001.m4s?sid=abc',
+          '#EXT-X-PRELOAD-HINT:TYPE=PART,URI="stream_002.m4s?sid=abc"',
+          '#EXT-X-RENDITION-REPORT:URI="../720p/stream.m3u8?_HLS_msn=1&sid=abc",LAST-MSN=1',
+          '',
+        ].join('\n')
+      );
+    });
+
+    it('should leave absolute URIs untouched', () => {
+      const playlist = ['#EXTINF:2.000000,', 'https://cdn.example.com/news/stream_001.m4s', ''].join('\n');
+
+      expect(appendPlaylistQuery(playlist, 'sid=abc')).toBe(playlist);
+    });
+  });
+
+  describe('rewriteSegmentUris', () => {
+    it('should point segments and init segments at the base URL', () => {
+      const playlist = [
+        '#EXTM3U',
+        '#EXT-X-MEDIA-SEQUENCE:1',
+        '#EXT-X-MAP:URI="init.mp4"',
+        '#EXTINF:2.000000,',
+        'stream_001.m4s',
+        '#EXTINF:2.000000,',
+        'https://other.example.com/stream_002.m4s',
+        '',
+      ].join('\n');
+
+      expect(rewriteSegmentUris(playlist, 'https://cdn.example.com/news/720p')).toBe(
+        [
+          '#EXTM3U',
+          '#EXT-X-MEDIA-SEQUENCE:1',
+          '#EXT-X-MAP:URI="https://cdn.example.com/news/720p/init.mp4"',
+          '#EXTINF:2.000000,',
+          'https://cdn.example.com/news/720p/stream_001.m4s',
+          '#EXTINF:2.000000,',
+          'https://other.example.com/stream_002.m4s',
+          '',
+        ].join('\n')
+      );
+    });
+  });
+
+  describe('getPlaylist (low latency)', () => {
+    const lowLatency = getLowLatencyOptions(6, 2);
+
+    it('should group parts into parent segments with part tags and a preload hint', async () => {
+      (fs.readFile as jest.Mock).mockResolvedValue(buildPartPlaylist(0, 7));
+
+      const playlist = await playlistService.getPlaylist('/hls/test/stream.m3u8', 'channel-1', true, lowLatency);
+
+      expect(playlist).toContain('#EXT-X-VERSION:9');
+      expect(playlist).toContain('#EXT-X-SERVER-CONTROL:CAN-BLOCK-RELOAD=YES,PART-HOLD-BACK=6.000');
+      expect(playlist).toContain('#EXT-X-PART-INF:PART-TARGET=2.000');
+      expect(playlist).toContain('#EXT-X-MAP:URI="init.mp4"');
+      expect(playlist).toContain(
+        '#EXT-X-PART:DURATION=2.000,URI="stream_003.m4s",INDEPENDENT=YES\n' +
+          '#EXT-X-PART:DURATION=2.000,URI="stream_004.m4s"\n' +
+          '#EXT-X-PART:DURATION=2.000,URI="stream_005.m4s"\n' +
+          '#EXTINF:6.000,\nllseg_1.m4s'
+      );
+      expect(playlist).toContain('#EXT-X-PART:DURATION=2.000,URI="stream_007.m4s"\n');
+      expect(playlist.trim().split('\n').pop()).toBe('#EXT-X-PRELOAD-HINT:TYPE=PART,URI="stream_008.m4s"');
+    });
+
+    it('should skip parts of a parent segment pruned by the sliding window', async () => {
+      (fs.readFile as jest.Mock).mockResolvedValue(buildPartPlaylist(2, 6));
+
+      const playlist = await playlistService.getPlaylist('/hls/test/stream.m3u8', 'channel-1', true, lowLatency);
+
+      expect(playlist).toContain('#EXT-X-MEDIA-SEQUENCE:1');
+      expect(playlist).not.toContain('stream_002.m4s');
+    });
+
+    it('should end a segment at a discontinuity and carry the tag over', async () => {
+      // Parts 0-4, then a new run with its own init segment from part 6 (segment 2)
+      const content = buildPartPlaylist(0, 4).replace(
+        'stream_004.m4s\n',
+        'stream_004.m4s\n#EXT-X-DISCONTINUITY\n#EXT-X-MAP:URI="init_6.mp4"\n#EXTINF:2.000000,\nstream_006.m4s\n'
+      );
+      (fs.readFile as jest.Mock).mockResolvedValue(content);
+
+      const playlist = await playlistService.getPlaylist('/hls/test/stream.m3u8', 'channel-1', true, lowLatency);
+
+      expect(playlist).toContain(
+        '#EXT-X-PART:DURATION=2.000,URI="stream_004.m4s"\n' +
+          '#EXTINF:4.000,\nllseg_1.m4s\n' +
+          '#EXT-X-DISCONTINUITY\n' +
+          '#EXT-X-MAP:URI="init_6.mp4"\n' +
+          '#EXT-X-PART:DURATION=2.000,URI="stream_006.m4s",INDEPENDENT=YES\n'
+      );
+      expect(getParentSegmentParts(content, lowLatency, 1)).toEqual(['stream_003.m4s', 'stream_004.m4s']);
+      expect(getParentSegmentParts(content, lowLatency, 2)).toBeUndefined();
+    });
+  });
+
+  describe('getBlockingPlaylist', () => {
+    const lowLatency = getLowLatencyOptions(6, 2);
+
+    it('should return immediately when the requested part exists', async () => {
+      (fs.readFile as jest.Mock).mockResolvedValue(buildPartPlaylist(0, 7));
+
+      const playlist = await playlistService.getBlockingPlaylist(
+        '/hls/test/stream.m3u8',
+        'channel-1',
+        lowLatency,
+        2,
+        1
+      );
+
+      expect(playlist).toContain('URI="stream_007.m4s"');
+    });
+
+    it('should reject requests too far ahead of the live edge', async () => {
+      (fs.readFile as jest.Mock).mockResolvedValue(buildPartPlaylist(0, 7));
+
+      await expect(
+        playlistService.getBlockingPlaylist('/hls/test/stream.m3u8', 'channel-1', lowLatency, 10)
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+});
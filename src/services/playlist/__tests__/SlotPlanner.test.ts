@@ -0,0 +1,132 @@
+import { MediaFile } from '../../../domain/media/MediaFile';
+import { FILLER_SLATE_TITLE, getNextSlotTime, planSlots } from '../SlotPlanner';
+
+const media = (title: string, minutes: number): MediaFile =>
+  new MediaFile(`/media/${title}.mkv`, { duration: minutes * 60, fileSize: 1024 }, { showName: title, title });
+
+const createClip = (title: string, duration: number): MediaFile =>
+  new MediaFile('/tmp/filler/clip.ts', { duration, fileSize: 0 }, { showName: title, title });
+
+// Local clock times on an arbitrary day
+const at = (hours: number, minutes: number, seconds: number = 0): Date => new Date(2025, 0, 6, hours, minutes, seconds);
+
+const summarize = (entries: ReturnType<typeof planSlots>) =>
+  entries.map((entry) => ({
+    kind: entry.kind,
+    title: entry.media.getDisplayName(),
+    start: entry.start.toTimeString().substring(0, 8),
+    minutes: entry.duration / 60,
+  }));
+
+describe('SlotPlanner', () => {
+  describe('getNextSlotTime', () => {
+    it('should round up to the next :00 or :30', () => {
+      expect(getNextSlotTime(at(19, 52, 10), 'half_hour')).toEqual(at(20, 0));
+      expect(getNextSlotTime(at(20, 14), 'half_hour')).toEqual(at(20, 30));
+      expect(getNextSlotTime(at(20, 30), 'half_hour')).toEqual(at(20, 30));
+    });
+
+    it('should not move programs within a block-aligned block', () => {
+      expect(getNextSlotTime(at(19, 52, 10), 'block')).toEqual(at(19, 52, 10));
+    });
+  });
+
+  describe('planSlots', () => {
+    it('should fill the tail of a block-aligned block instead of overrunning it', () => {
+      const entries = planSlots({
+        start: at(18, 0),
+        end: at(20, 0),
+        alignment: 'block',
+        programs: [media('A', 50), media('B', 50)],
+        fillerMode: 'slate',
+        createClip,
+      });
+
+      expect(summarize(entries)).toEqual([
+        { kind: 'program', title: 'A', start: '18:00:00', minutes: 50 },
+        { kind: 'program', title: 'B', start: '18:50:00', minutes: 50 },
+        { kind: 'filler', title: FILLER_SLATE_TITLE, start: '19:40:00', minutes: 20 },
+      ]);
+    });
+
+    it('should start programs on half hours with bucket filler, closing leftovers with a clip', () => {
+      const entries = planSlots({
+        start: at(18, 0),
+        end: at(19, 30),
+        alignment: 'half_hour',
+        programs: [media('A', 22), media('B', 44)],
+        fillerMode: 'bucket',
+        filler: [media('Promo', 5), media('Short', 3)],
+        createClip,
+      });
+
+      expect(summarize(entries)).toEqual([
+        { kind: 'program', title: 'A', start: '18:00:00', minutes: 22 },
+        { kind: 'filler', title: 'Promo', start: '18:22:00', minutes: 5 },
+        { kind: 'filler', title: 'Short', start: '18:27:00', minutes: 3 },
+        { kind: 'program', title: 'B', start: '18:30:00', minutes: 44 },
+        { kind: 'filler', title: 'Promo', start: '19:14:00', minutes: 5 },
+        { kind: 'filler', title: 'Short', start: '19:19:00', minutes: 3 },
+        { kind: 'filler', title: 'Promo', start: '19:22:00', minutes: 5 },
+        { kind: 'filler', title: 'Short', start: '19:27:00', minutes: 3 },
+      ]);
+
+      const withLeftover = planSlots({
+        start: at(18, 0),
+        end: at(18, 30),
+        alignment: 'half_hour',
+        programs: [media('A', 22)],
+        fillerMode: 'bucket',
+        filler: [media('Promo', 5)],
+        createClip,
+      });
+      expect(summarize(withLeftover).slice(1)).toEqual([
+        { kind: 'filler', title: 'Promo', start: '18:22:00', minutes: 5 },
+        { kind: 'filler', title: FILLER_SLATE_TITLE, start: '18:27:00', minutes: 3 },
+      ]);
+    });
+
+    it('should announce the next program on generated bumpers', () => {
+      const entries = planSlots({
+        start: at(20, 0),
+        end: at(21, 0),
+        alignment: 'half_hour',
+        programs: [media('A', 25), media('B', 30)],
+        fillerMode: 'bumper',
+        createClip,
+      });
+
+      expect(summarize(entries)).toEqual([
+        { kind: 'program', title: 'A', start: '20:00:00', minutes: 25 },
+        { kind: 'filler', title: 'Up Next: B', start: '20:25:00', minutes: 5 },
+        { kind: 'program', title: 'B', start: '20:30:00', minutes: 30 },
+      ]);
+    });
+
+    it('should cut a first program longer than the block at the block end', () => {
+      const entries = planSlots({
+        start: at(20, 0),
+        end: at(21, 30),
+        alignment: 'block',
+        programs: [media('Epic', 120)],
+        fillerMode: 'slate',
+        createClip,
+      });
+
+      expect(summarize(entries)).toEqual([{ kind: 'program', title: 'Epic', start: '20:00:00', minutes: 90 }]);
+    });
+
+    it('should fill the whole block when there is nothing to play', () => {
+      const entries = planSlots({
+        start: at(20, 0),
+        end: at(20, 30),
+        alignment: 'half_hour',
+        programs: [],
+        fillerMode: 'slate',
+        createClip,
+      });
+
+      expect(summarize(entries)).toEqual([{ kind: 'filler', title: FILLER_SLATE_TITLE, start: '20:00:00', minutes: 30 }]);
+    });
+  });
+});
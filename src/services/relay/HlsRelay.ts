@@ -0,0 +1,412 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from '../../config/env';
+import { createLogger } from '../../utils/logger';
+import {
+  RelaySegment,
+  SourcePlaylist,
+  SourceSegment,
+  buildRelayPlaylist,
+  parseMasterPlaylist,
+  parseMediaPlaylist,
+  selectVariant,
+} from './RelayPlaylist';
+
+const logger = createLogger('HlsRelay');
+
+/** Segments taken from the live edge when mirroring starts */
+const LIVE_EDGE_SEGMENTS = 3;
+
+/** New source segments (without failed polls in between) before a lost source counts as restored */
+const RECOVERY_SEGMENTS = 3;
+
+/** Seconds to wait for a playlist or segment response */
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+/** Files the relay writes (segments and init segments) */
+const RELAY_FILE_PATTERN = /^(stream_\d+\.(m4s|ts)|init(_\d+)?\.mp4)$/;
+
+const PLAYLIST_FILENAME = 'stream.m3u8';
+
+export interface HlsRelayOptions {
+  channelId: string;
+  /** Master or media playlist URL of the source server */
+  sourceUrl: string;
+  outputDir: string;
+  /** Highest variant bandwidth to relay from a master playlist (bits/s) */
+  maxBandwidth: number;
+  /** Segments listed in the mirrored playlist */
+  windowSize: number;
+  /** Called once the source has made no progress for RELAY_FAILOVER_TIMEOUT while mirroring */
+  onSourceLost: (error?: string) => void;
+  /** Called once a lost source is producing segments again (while paused) */
+  onSourceRestored: () => void;
+}
+
+export interface RelayStatus {
+  sourceUrl: string;
+  /** Media playlist being relayed (resolved from a master playlist) */
+  mediaUrl?: string;
+  mirroring: boolean;
+  healthy: boolean;
+  segmentsMirrored: number;
+  lastSegmentAt?: Date;
+  lastError?: string;
+}
+
+/**
+ * Mirrors another HLS server's live stream into a channel output directory
+ *
+ * The source media playlist is polled (twice per target duration); new segments and init
+ * segments are downloaded under local names (stream_N, init_N.mp4) and the playlist is rewritten
+ * to list them, so the regular streaming routes serve the mirror. Local numbering continues from
+ * whatever playlist is already in the directory (e.g. a fallback FFmpeg run), with a
+ * discontinuity where the relay takes over.
+ *
+ * While paused (a fallback plays instead) the source is only probed: once it makes progress
+ * again, onSourceRestored is called so the owner can switch back.
+ */
+export class HlsRelay {
+  private segments: RelaySegment[] = [];
+  private retired: string[] = [];
+  private maps: Map<string, string> = new Map();
+  private discontinuitySequence = 0;
+  private nextSequence = 0;
+  private pendingDiscontinuity = false;
+  private lastSourceSequence?: number;
+  private mediaUrl?: string;
+  private targetDuration = 0;
+  private mirroring = false;
+  private stopped = false;
+  private polling = false;
+  private pollTimer?: NodeJS.Timeout;
+  private lastProgressAt = Date.now();
+  private recoveredSegments = 0;
+  private sourceLost = false;
+  private segmentsMirrored = 0;
+  private lastSegmentAt?: Date;
+  private lastError?: string;
+
+  constructor(private readonly options: HlsRelayOptions) {}
+
+  /**
+   * Start mirroring
+   * @returns Whether the source could be read (when not, the relay probes it like a paused relay)
+   */
+  public async start(): Promise<boolean> {
+    await fs.mkdir(this.options.outputDir, { recursive: true });
+    await this.seedFromOutput();
+    this.mirroring = true;
+    this.lastProgressAt = Date.now();
+
+    let reachable = true;
+    try {
+      await this.poll();
+    } catch (error) {
+      reachable = false;
+      this.mirroring = false;
+      this.sourceLost = true;
+      logger.warn({ channelId: this.options.channelId, error: this.lastError }, 'Relay source unreachable');
+    }
+    this.schedulePoll();
+    return reachable;
+  }
+
+  /**
+   * Stop writing to the output directory and only probe the source
+   */
+  public pause(): void {
+    this.mirroring = false;
+    this.sourceLost = true;
+    this.recoveredSegments = 0;
+  }
+
+  /**
+   * Take over the output directory again (after a fallback has stopped writing to it)
+   */
+  public async resume(): Promise<void> {
+    await this.seedFromOutput();
+    this.mirroring = true;
+    this.sourceLost = false;
+    this.lastProgressAt = Date.now();
+  }
+
+  public stop(): void {
+    this.stopped = true;
+    this.mirroring = false;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+  }
+
+  public getStatus(): RelayStatus {
+    return {
+      sourceUrl: this.options.sourceUrl,
+      mediaUrl: this.mediaUrl,
+      mirroring: this.mirroring,
+      healthy: !this.sourceLost,
+      segmentsMirrored: this.segmentsMirrored,
+      lastSegmentAt: this.lastSegmentAt,
+      lastError: this.lastError,
+    };
+  }
+
+  private schedulePoll(): void {
+    if (this.stopped) {
+      return;
+    }
+    // Twice per target duration, between 1 and 5 seconds
+    const interval = Math.min(5, Math.max(1, (this.targetDuration || 4) / 2)) * 1000;
+    this.pollTimer = setTimeout(() => {
+      void this.poll()
+        .catch(() => {
+          // Recorded in lastError; health is checked below
+        })
+        .finally(() => {
+          this.checkHealth();
+          this.schedulePoll();
+        });
+    }, interval);
+  }
+
+  private checkHealth(): void {
+    if (this.stopped) {
+      return;
+    }
+    if (this.mirroring && !this.sourceLost && Date.now() - this.lastProgressAt > config.relay.failoverTimeout * 1000) {
+      this.sourceLost = true;
+      logger.warn(
+        { channelId: this.options.channelId, sourceUrl: this.options.sourceUrl, error: this.lastError },
+        'Relay source lost'
+      );
+      this.options.onSourceLost(this.lastError);
+    } else if (!this.mirroring && this.sourceLost && this.recoveredSegments >= RECOVERY_SEGMENTS) {
+      // Reported once; the relay stays paused until the owner resumes it
+      this.sourceLost = false;
+      this.recoveredSegments = 0;
+      logger.info({ channelId: this.options.channelId, sourceUrl: this.options.sourceUrl }, 'Relay source restored');
+      this.options.onSourceRestored();
+    }
+  }
+
+  /**
+   * Fetch the source playlist once (mirroring new segments unless paused)
+   */
+  private async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+    try {
+      const { playlist, url } = await this.fetchMediaPlaylist();
+      this.targetDuration = playlist.targetDuration;
+      this.lastError = undefined;
+      const firstSighting = this.lastSourceSequence === undefined;
+      const newSegments = this.getNewSegments(playlist);
+
+      if (newSegments.length === 0) {
+        if (Date.now() - this.lastProgressAt > config.relay.failoverTimeout * 1000) {
+          this.recoveredSegments = 0;
+        }
+        return;
+      }
+
+      if (this.mirroring) {
+        await this.mirror(newSegments, url);
+      } else {
+        this.lastSourceSequence = newSegments[newSegments.length - 1].sequence;
+        if (!firstSighting) {
+          this.recoveredSegments += newSegments.length;
+        }
+      }
+      this.lastProgressAt = Date.now();
+    } catch (error) {
+      this.recoveredSegments = 0;
+      this.lastError = error instanceof Error ? error.message : String(error);
+      throw error;
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Fetch the media playlist (resolving the variant of a master playlist first)
+   */
+  private async fetchMediaPlaylist(): Promise<{ playlist: SourcePlaylist; url: string }> {
+    if (this.mediaUrl) {
+      try {
+        const { text, url } = await this.fetchText(this.mediaUrl);
+        return { playlist: parseMediaPlaylist(text), url };
+      } catch (error) {
+        // Session or variant URLs may have changed (e.g. the source restarted): resolve again
+        this.mediaUrl = undefined;
+        throw error;
+      }
+    }
+
+    const { text, url } = await this.fetchText(this.options.sourceUrl);
+    const variant = selectVariant(parseMasterPlaylist(text), this.options.maxBandwidth);
+    if (!variant) {
+      this.mediaUrl = url;
+      return { playlist: parseMediaPlaylist(text), url };
+    }
+
+    this.mediaUrl = new URL(variant.uri, url).href;
+    const media = await this.fetchText(this.mediaUrl);
+    return { playlist: parseMediaPlaylist(media.text), url: media.url };
+  }
+
+  /**
+   * Segments after the last one seen (the live edge when starting or after the source restarted)
+   */
+  private getNewSegments(playlist: SourcePlaylist): SourceSegment[] {
+    const last = playlist.segments[playlist.segments.length - 1];
+    if (!last) {
+      return [];
+    }
+    if (this.lastSourceSequence === undefined || last.sequence < this.lastSourceSequence) {
+      if (this.lastSourceSequence !== undefined) {
+        this.pendingDiscontinuity = true;
+      }
+      return playlist.segments.slice(-LIVE_EDGE_SEGMENTS);
+    }
+    return playlist.segments.filter((segment) => segment.sequence > this.lastSourceSequence!);
+  }
+
+  /**
+   * Download new segments under local names, then publish the rewritten playlist
+   */
+  private async mirror(newSegments: SourceSegment[], playlistUrl: string): Promise<void> {
+    for (const source of newSegments) {
+      const sequence = this.nextSequence;
+
+      let mapFilename: string | undefined;
+      if (source.mapUri) {
+        const mapUrl = new URL(source.mapUri, playlistUrl).href;
+        mapFilename = this.maps.get(mapUrl);
+        if (!mapFilename) {
+          mapFilename = `init_${sequence}.mp4`;
+          await this.download(mapUrl, mapFilename);
+          this.maps.set(mapUrl, mapFilename);
+        }
+      }
+
+      const segmentUrl = new URL(source.uri, playlistUrl);
+      const extension = path.extname(segmentUrl.pathname) === '.ts' ? 'ts' : 'm4s';
+      const filename = `stream_${String(sequence).padStart(3, '0')}.${extension}`;
+      await this.download(segmentUrl.href, filename);
+
+      this.segments.push({
+        sequence,
+        filename,
+        duration: source.duration,
+        discontinuity: source.discontinuity || this.pendingDiscontinuity,
+        mapFilename,
+      });
+      this.pendingDiscontinuity = false;
+      this.nextSequence = sequence + 1;
+      this.lastSourceSequence = source.sequence;
+      this.segmentsMirrored++;
+      this.lastSegmentAt = new Date();
+    }
+
+    await this.trimWindow();
+    await this.writeFile(PLAYLIST_FILENAME, Buffer.from(buildRelayPlaylist(this.segments, this.discontinuitySequence)));
+  }
+
+  /**
+   * Drop segments beyond the window (files are kept for another window, for players lagging behind)
+   */
+  private async trimWindow(): Promise<void> {
+    while (this.segments.length > this.options.windowSize) {
+      const removed = this.segments.shift()!;
+      if (removed.discontinuity) {
+        this.discontinuitySequence++;
+      }
+      this.retired.push(removed.filename);
+      if (removed.mapFilename && !this.segments.some((segment) => segment.mapFilename === removed.mapFilename)) {
+        this.retired.push(removed.mapFilename);
+        for (const [url, filename] of this.maps) {
+          if (filename === removed.mapFilename) {
+            this.maps.delete(url);
+          }
+        }
+      }
+    }
+
+    while (this.retired.length > this.options.windowSize) {
+      await this.removeFile(this.retired.shift()!);
+    }
+  }
+
+  /**
+   * Continue from the playlist in the output directory and remove files it doesn't list
+   */
+  private async seedFromOutput(): Promise<void> {
+    let existing: SourcePlaylist | undefined;
+    try {
+      existing = parseMediaPlaylist(await fs.readFile(path.join(this.options.outputDir, PLAYLIST_FILENAME), 'utf-8'));
+    } catch {
+      existing = undefined;
+    }
+
+    const stripQuery = (uri: string): string => uri.split('?')[0];
+    this.segments = (existing?.segments || [])
+      .filter((segment) => RELAY_FILE_PATTERN.test(stripQuery(segment.uri)))
+      .map((segment) => ({
+        sequence: segment.sequence,
+        filename: stripQuery(segment.uri),
+        duration: segment.duration,
+        discontinuity: segment.discontinuity,
+        mapFilename: segment.mapUri ? stripQuery(segment.mapUri) : undefined,
+      }));
+    this.discontinuitySequence = existing?.discontinuitySequence || 0;
+    const last = this.segments[this.segments.length - 1];
+    this.nextSequence = last ? last.sequence + 1 : 0;
+    this.pendingDiscontinuity = this.segments.length > 0;
+    this.retired = [];
+    this.maps.clear();
+
+    const listed = new Set(this.segments.flatMap((segment) => [segment.filename, segment.mapFilename]));
+    const files = await fs.readdir(this.options.outputDir).catch(() => [] as string[]);
+    for (const file of files) {
+      if (RELAY_FILE_PATTERN.test(file) && !listed.has(file)) {
+        await this.removeFile(file);
+      }
+    }
+  }
+
+  private async fetchText(url: string): Promise<{ text: string; url: string }> {
+    const response = await fetch(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} from ${url}`);
+    }
+    return { text: await response.text(), url: response.url || url };
+  }
+
+  private async download(url: string, filename: string): Promise<void> {
+    const response = await fetch(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} from ${url}`);
+    }
+    await this.writeFile(filename, Buffer.from(await response.arrayBuffer()));
+  }
+
+  /**
+   * Write a file atomically (players never see partial segments or playlists)
+   */
+  private async writeFile(filename: string, body: Buffer): Promise<void> {
+    const filePath = path.join(this.options.outputDir, filename);
+    await fs.writeFile(`${filePath}.tmp`, body);
+    await fs.rename(`${filePath}.tmp`, filePath);
+  }
+
+  private async removeFile(filename: string): Promise<void> {
+    await fs.unlink(path.join(this.options.outputDir, filename)).catch((error) => {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.debug({ error, channelId: this.options.channelId, filename }, 'Failed to remove relay file');
+      }
+    });
+  }
+}
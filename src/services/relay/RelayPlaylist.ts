@@ -0,0 +1,154 @@
+/**
+ * Parsing of a source server's HLS playlists and rendering of the mirrored playlist
+ */
+
+export interface SourceVariant {
+  uri: string;
+  bandwidth: number;
+}
+
+export interface SourceSegment {
+  /** Media sequence number on the source */
+  sequence: number;
+  uri: string;
+  duration: number;
+  discontinuity: boolean;
+  /** Init segment (EXT-X-MAP) the segment decodes with */
+  mapUri?: string;
+}
+
+export interface SourcePlaylist {
+  targetDuration: number;
+  mediaSequence: number;
+  discontinuitySequence: number;
+  segments: SourceSegment[];
+  /** The source stream has ended (EXT-X-ENDLIST) */
+  ended: boolean;
+}
+
+/**
+ * A segment of the mirrored playlist (files in the channel output directory)
+ */
+export interface RelaySegment {
+  sequence: number;
+  filename: string;
+  duration: number;
+  discontinuity: boolean;
+  mapFilename?: string;
+}
+
+function parseAttributes(value: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of value.matchAll(/([A-Z0-9-]+)=("[^"]*"|[^,]*)/g)) {
+    attributes[match[1]] = match[2].replace(/^"|"$/g, '');
+  }
+  return attributes;
+}
+
+/**
+ * Variants of a master playlist (empty for media playlists)
+ */
+export function parseMasterPlaylist(playlist: string): SourceVariant[] {
+  const variants: SourceVariant[] = [];
+  const lines = playlist.split(/\r?\n/).map((line) => line.trim());
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i].startsWith('#EXT-X-STREAM-INF:')) {
+      continue;
+    }
+    const uri = lines.slice(i + 1).find((line) => line !== '' && !line.startsWith('#'));
+    if (uri) {
+      const bandwidth = parseInt(parseAttributes(lines[i].slice('#EXT-X-STREAM-INF:'.length)).BANDWIDTH, 10);
+      variants.push({ uri, bandwidth: Number.isFinite(bandwidth) ? bandwidth : 0 });
+    }
+  }
+  return variants;
+}
+
+/**
+ * Variant to relay: the highest bandwidth within the channel's bitrate, else the lowest
+ */
+export function selectVariant(variants: SourceVariant[], maxBandwidth: number): SourceVariant | undefined {
+  const sorted = [...variants].sort((a, b) => b.bandwidth - a.bandwidth);
+  return sorted.find((variant) => variant.bandwidth <= maxBandwidth) || sorted[sorted.length - 1];
+}
+
+/**
+ * Parse a media playlist (segments with their sequence numbers, durations and init segments)
+ */
+export function parseMediaPlaylist(playlist: string): SourcePlaylist {
+  const result: SourcePlaylist = {
+    targetDuration: 0,
+    mediaSequence: 0,
+    discontinuitySequence: 0,
+    segments: [],
+    ended: false,
+  };
+
+  let duration: number | undefined;
+  let discontinuity = false;
+  let mapUri: string | undefined;
+
+  for (const rawLine of playlist.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line === '') {
+      continue;
+    }
+    if (line.startsWith('#EXT-X-TARGETDURATION:')) {
+      result.targetDuration = parseFloat(line.slice('#EXT-X-TARGETDURATION:'.length)) || 0;
+    } else if (line.startsWith('#EXT-X-MEDIA-SEQUENCE:')) {
+      result.mediaSequence = parseInt(line.slice('#EXT-X-MEDIA-SEQUENCE:'.length), 10) || 0;
+    } else if (line.startsWith('#EXT-X-DISCONTINUITY-SEQUENCE:')) {
+      result.discontinuitySequence = parseInt(line.slice('#EXT-X-DISCONTINUITY-SEQUENCE:'.length), 10) || 0;
+    } else if (line === '#EXT-X-DISCONTINUITY') {
+      discontinuity = true;
+    } else if (line.startsWith('#EXT-X-MAP:')) {
+      mapUri = parseAttributes(line.slice('#EXT-X-MAP:'.length)).URI;
+    } else if (line.startsWith('#EXTINF:')) {
+      duration = parseFloat(line.slice('#EXTINF:'.length));
+    } else if (line === '#EXT-X-ENDLIST') {
+      result.ended = true;
+    } else if (!line.startsWith('#') && duration !== undefined) {
+      result.segments.push({
+        sequence: result.mediaSequence + result.segments.length,
+        uri: line,
+        duration,
+        discontinuity,
+        mapUri,
+      });
+      duration = undefined;
+      discontinuity = false;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Render the mirrored media playlist
+ * Init segments are announced where they change; discontinuitySequence counts the
+ * discontinuities that have left the window
+ */
+export function buildRelayPlaylist(segments: RelaySegment[], discontinuitySequence: number): string {
+  const targetDuration = Math.max(1, ...segments.map((segment) => Math.ceil(segment.duration)));
+  const lines = [
+    '#EXTM3U',
+    `#EXT-X-VERSION:${segments.some((segment) => segment.mapFilename) ? 7 : 3}`,
+    `#EXT-X-TARGETDURATION:${targetDuration}`,
+    `#EXT-X-MEDIA-SEQUENCE:${segments[0]?.sequence ?? 0}`,
+    `#EXT-X-DISCONTINUITY-SEQUENCE:${discontinuitySequence}`,
+  ];
+
+  let mapFilename: string | undefined;
+  for (const segment of segments) {
+    if (segment.discontinuity) {
+      lines.push('#EXT-X-DISCONTINUITY');
+    }
+    if (segment.mapFilename && segment.mapFilename !== mapFilename) {
+      lines.push(`#EXT-X-MAP:URI="${segment.mapFilename}"`);
+    }
+    mapFilename = segment.mapFilename;
+    lines.push(`#EXTINF:${segment.duration.toFixed(6)},`, segment.filename);
+  }
+
+  return lines.join('\n') + '\n';
+}
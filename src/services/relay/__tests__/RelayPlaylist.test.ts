@@ -0,0 +1,105 @@
+import { buildRelayPlaylist, parseMasterPlaylist, parseMediaPlaylist, selectVariant } from '../RelayPlaylist';
+
+describe('RelayPlaylist', () => {
+  it('should parse the variants of a master playlist', () => {
+    const master = [
+      '#EXTM3U',
+      '#EXT-X-STREAM-INF:BANDWIDTH=5128000,RESOLUTION=1920x1080,CODECS="avc1.640028,mp4a.40.2"',
+      '1080p/stream.m3u8?session=abc',
+      '#EXT-X-STREAM-INF:BANDWIDTH=1628000,RESOLUTION=854x480',
+      '480p/stream.m3u8?session=abc',
+    ].join('\n');
+
+    expect(parseMasterPlaylist(master)).toEqual([
+      { uri: '1080p/stream.m3u8?session=abc', bandwidth: 5128000 },
+      { uri: '480p/stream.m3u8?session=abc', bandwidth: 1628000 },
+    ]);
+    expect(parseMasterPlaylist('#EXTM3U\n#EXTINF:6.0,\nstream_001.m4s\n')).toEqual([]);
+  });
+
+  it('should select the best variant within the bitrate, else the lowest', () => {
+    const variants = [
+      { uri: 'high.m3u8', bandwidth: 5000000 },
+      { uri: 'low.m3u8', bandwidth: 800000 },
+      { uri: 'mid.m3u8', bandwidth: 2500000 },
+    ];
+
+    expect(selectVariant(variants, 3000000)?.uri).toBe('mid.m3u8');
+    expect(selectVariant(variants, 10000000)?.uri).toBe('high.m3u8');
+    expect(selectVariant(variants, 500000)?.uri).toBe('low.m3u8');
+    expect(selectVariant([], 500000)).toBeUndefined();
+  });
+
+  it('should number segments from the media sequence with their init segments and discontinuities', () => {
+    const playlist = parseMediaPlaylist(
+      [
+        '#EXTM3U',
+        '#EXT-X-VERSION:7',
+        '#EXT-X-TARGETDURATION:6',
+        '#EXT-X-MEDIA-SEQUENCE:120',
+        '#EXT-X-DISCONTINUITY-SEQUENCE:2',
+        '#EXT-X-MAP:URI="init.mp4"',
+        '#EXTINF:6.000000,',
+        'stream_120.m4s',
+        '#EXT-X-DISCONTINUITY',
+        '#EXT-X-MAP:URI="init_2.mp4"',
+        '#EXTINF:5.5,',
+        'stream_121.m4s',
+      ].join('\r\n')
+    );
+
+    expect(playlist).toEqual({
+      targetDuration: 6,
+      mediaSequence: 120,
+      discontinuitySequence: 2,
+      ended: false,
+      segments: [
+        { sequence: 120, uri: 'stream_120.m4s', duration: 6, discontinuity: false, mapUri: 'init.mp4' },
+        { sequence: 121, uri: 'stream_121.m4s', duration: 5.5, discontinuity: true, mapUri: 'init_2.mp4' },
+      ],
+    });
+    expect(parseMediaPlaylist('#EXTM3U\n#EXTINF:4,\na.ts\n#EXT-X-ENDLIST\n').ended).toBe(true);
+  });
+
+  it('should render the mirrored playlist with init segments where they change', () => {
+    const playlist = buildRelayPlaylist(
+      [
+        { sequence: 7, filename: 'stream_007.m4s', duration: 6, discontinuity: false, mapFilename: 'init_5.mp4' },
+        { sequence: 8, filename: 'stream_008.m4s', duration: 6.2, discontinuity: false, mapFilename: 'init_5.mp4' },
+        { sequence: 9, filename: 'stream_009.m4s', duration: 6, discontinuity: true, mapFilename: 'init_9.mp4' },
+      ],
+      1
+    );
+
+    expect(playlist).toBe(
+      [
+        '#EXTM3U',
+        '#EXT-X-VERSION:7',
+        '#EXT-X-TARGETDURATION:7',
+        '#EXT-X-MEDIA-SEQUENCE:7',
+        '#EXT-X-DISCONTINUITY-SEQUENCE:1',
+        '#EXT-X-MAP:URI="init_5.mp4"',
+        '#EXTINF:6.000000,',
+        'stream_007.m4s',
+        '#EXTINF:6.200000,',
+        'stream_008.m4s',
+        '#EXT-X-DISCONTINUITY',
+        '#EXT-X-MAP:URI="init_9.mp4"',
+        '#EXTINF:6.000000,',
+        'stream_009.m4s',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should render MPEG-TS segments without init segments', () => {
+    const playlist = buildRelayPlaylist(
+      [{ sequence: 0, filename: 'stream_000.ts', duration: 4, discontinuity: false }],
+      0
+    );
+
+    expect(playlist).toContain('#EXT-X-VERSION:3');
+    expect(playlist).not.toContain('#EXT-X-MAP');
+    expect(playlist).toContain('#EXT-X-MEDIA-SEQUENCE:0\n');
+  });
+});
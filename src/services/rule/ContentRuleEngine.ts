@@ -0,0 +1,244 @@
+import { MediaFile } from '../../domain/media/MediaFile';
+import { ContentRule, ContentRuleExclusion } from '../../domain/rule/ContentRule';
+
+/**
+ * Content rules engine
+ *
+ * Walks a resolved playlist in play order, projecting each file's air time from the start time
+ * and the runtime of the files placed before it. A file breaking an 'exclude' rule is dropped;
+ * a file breaking a 'defer' rule is held back and placed at the first later position where it
+ * passes (the next files move up). Rules are checked by priority, highest first, and the first
+ * rule a file breaks is the one named in its exclusion.
+ *
+ * Repeat limits ('no_repeat') also look back at what the channel played before the start
+ * (play history), which covers the previous loop of the list.
+ */
+
+/** Files looked at for each position (deferred files stay in the window until they pass) */
+const MAX_LOOKAHEAD = 100;
+
+export interface ContentRuleResult {
+  media: MediaFile[];
+  exclusions: ContentRuleExclusion[];
+}
+
+/**
+ * A file the channel played before the playlist starts
+ */
+export interface PlayedMedia {
+  file: MediaFile;
+  playedAt: Date;
+}
+
+interface PlacedFile {
+  file: MediaFile;
+  airTime: number; // ms
+}
+
+interface Violation {
+  rule: ContentRule;
+  reason: string;
+  timed: boolean; // depends on the air time
+}
+
+/**
+ * Apply rules to media (in play order) starting to air at start
+ * @param played - Plays before start (any order; later plays are ignored)
+ */
+export function applyContentRules(
+  media: MediaFile[],
+  rules: ContentRule[],
+  start: Date,
+  played: PlayedMedia[] = []
+): ContentRuleResult {
+  const activeRules = rules.filter((rule) => rule.enabled).sort((a, b) => b.priority - a.priority);
+  if (activeRules.length === 0) {
+    return { media: [...media], exclusions: [] };
+  }
+
+  const pending = [...media];
+  const placed: PlacedFile[] = [];
+  const history: PlacedFile[] = played
+    .filter((entry) => entry.playedAt.getTime() < start.getTime())
+    .map((entry) => ({ file: entry.file, airTime: entry.playedAt.getTime() }))
+    .sort((a, b) => a.airTime - b.airTime);
+  const exclusions: ContentRuleExclusion[] = [];
+  let time = start.getTime();
+
+  const exclude = (file: MediaFile, violation: Violation): void => {
+    exclusions.push({
+      mediaFileId: file.id,
+      title: file.getDisplayName(),
+      ruleId: violation.rule.id,
+      ruleName: violation.rule.name,
+      ruleType: violation.rule.ruleType,
+      reason: violation.reason,
+      airTime: violation.timed ? new Date(time) : undefined,
+    });
+  };
+
+  while (pending.length > 0) {
+    const deferred: Array<{ index: number; violation: Violation }> = [];
+    let chosen = -1;
+
+    for (let i = 0; i < pending.length && i < MAX_LOOKAHEAD; i++) {
+      const violation = findViolation(activeRules, pending[i], time, placed, history);
+      if (!violation) {
+        chosen = i;
+        break;
+      }
+      if (violation.rule.actions.action === 'exclude') {
+        exclude(pending[i], violation);
+        pending.splice(i--, 1);
+        continue;
+      }
+      deferred.push({ index: i, violation });
+    }
+
+    if (chosen >= 0) {
+      const [file] = pending.splice(chosen, 1);
+      placed.push({ file, airTime: time });
+      time += file.metadata.duration * 1000;
+      continue;
+    }
+
+    // Nothing in the window can air here - drop the files held back and try the ones after them
+    for (const { index, violation } of deferred.reverse()) {
+      exclude(pending[index], violation);
+      pending.splice(index, 1);
+    }
+  }
+
+  return { media: placed.map((entry) => entry.file), exclusions };
+}
+
+/**
+ * First rule (by priority) that file breaks when airing at time after placed
+ */
+function findViolation(
+  rules: ContentRule[],
+  file: MediaFile,
+  time: number,
+  placed: PlacedFile[],
+  history: PlacedFile[]
+): Violation | null {
+  for (const rule of rules) {
+    const violation = checkRule(rule, file, time, placed, history);
+    if (violation) {
+      return violation;
+    }
+  }
+  return null;
+}
+
+function checkRule(
+  rule: ContentRule,
+  file: MediaFile,
+  time: number,
+  placed: PlacedFile[],
+  history: PlacedFile[]
+): Violation | null {
+  const { conditions } = rule;
+
+  switch (rule.ruleType) {
+    case 'rating_window': {
+      const rating = file.metadata.contentRating;
+      const ratings = (conditions.ratings || []).map((value) => value.toUpperCase());
+      if (!rating || !ratings.includes(rating.toUpperCase())) {
+        return null;
+      }
+      const startTime = conditions.startTime || '00:00:00';
+      const endTime = conditions.endTime || '00:00:00';
+      if (!isInTimeWindow(new Date(time), startTime, endTime)) {
+        return null;
+      }
+      return { rule, reason: `Rated ${rating}, not aired between ${startTime} and ${endTime}`, timed: true };
+    }
+
+    case 'no_repeat': {
+      const hours = conditions.hours || 0;
+      const byFile = conditions.scope === 'file';
+      const key = byFile ? file.id : getShowKey(file);
+      const since = time - hours * 60 * 60 * 1000;
+      const matches = (other: MediaFile): boolean => (byFile ? other.id : getShowKey(other)) === key;
+      const previous = findLastAiring(placed, since, matches) || findLastAiring(history, since, matches);
+      if (!previous) {
+        return null;
+      }
+      const name = byFile ? file.getDisplayName() : file.info.showName || file.getDisplayName();
+      return {
+        rule,
+        reason: `${name} aired at ${new Date(previous.airTime).toTimeString().substring(0, 8)}, less than ${hours}h before`,
+        timed: true,
+      };
+    }
+
+    case 'max_consecutive': {
+      const count = conditions.count || 0;
+      if (count < 1 || !file.info.showName || placed.length < count) {
+        return null;
+      }
+      const key = getShowKey(file);
+      if (!placed.slice(-count).every((entry) => getShowKey(entry.file) === key)) {
+        return null;
+      }
+      return { rule, reason: `${count} episodes of ${file.info.showName} in a row`, timed: false };
+    }
+
+    case 'duration': {
+      const duration = file.metadata.duration;
+      if (conditions.minSeconds !== undefined && duration < conditions.minSeconds) {
+        return { rule, reason: `Shorter than ${conditions.minSeconds}s (${Math.round(duration)}s)`, timed: false };
+      }
+      if (conditions.maxSeconds !== undefined && duration > conditions.maxSeconds) {
+        return { rule, reason: `Longer than ${conditions.maxSeconds}s (${Math.round(duration)}s)`, timed: false };
+      }
+      return null;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Latest airing (in air order) after since of a matching file
+ */
+function findLastAiring(
+  aired: PlacedFile[],
+  since: number,
+  matches: (file: MediaFile) => boolean
+): PlacedFile | undefined {
+  for (let i = aired.length - 1; i >= 0 && aired[i].airTime > since; i--) {
+    if (matches(aired[i].file)) {
+      return aired[i];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Series a file belongs to (files without a show name are their own series)
+ */
+function getShowKey(file: MediaFile): string {
+  return file.info.showName ? `show:${file.info.showName.toLowerCase()}` : `file:${file.id}`;
+}
+
+/**
+ * Check if the local time of day of time is in [startTime, endTime) (HH:MM:SS)
+ * The window wraps midnight when endTime is before startTime; equal times cover the whole day
+ */
+export function isInTimeWindow(time: Date, startTime: string, endTime: string): boolean {
+  const toSeconds = (value: string): number => {
+    const [hours, minutes, seconds] = value.split(':').map(Number);
+    return hours * 3600 + minutes * 60 + (seconds || 0);
+  };
+  const now = time.getHours() * 3600 + time.getMinutes() * 60 + time.getSeconds();
+  const start = toSeconds(startTime);
+  const end = toSeconds(endTime);
+
+  if (start === end) {
+    return true;
+  }
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
@@ -0,0 +1,258 @@
+import {
+  ContentRule,
+  ContentRuleAction,
+  ContentRuleActions,
+  ContentRuleExclusion,
+  ContentRuleInput,
+  ContentRuleType,
+} from '../../domain/rule/ContentRule';
+import { ContentRuleRepository } from '../../infrastructure/database/repositories/ContentRuleRepository';
+import { ChannelService } from '../channel/ChannelService';
+import { PlaylistResolver } from '../playlist/PlaylistResolver';
+import { createLogger } from '../../utils/logger';
+import { NotFoundError, ValidationError } from '../../utils/errors';
+
+const logger = createLogger('ContentRuleService');
+
+/**
+ * Data of create requests (action, priority and enabled have defaults)
+ */
+export type ContentRuleCreate = Omit<ContentRuleInput, 'actions' | 'priority' | 'enabled'> & {
+  actions?: ContentRuleActions;
+  priority?: number;
+  enabled?: boolean;
+};
+
+/**
+ * Partial rule update (null makes a rule global or clears its description)
+ */
+export type ContentRuleUpdate = Partial<Omit<ContentRuleCreate, 'channelId' | 'description'>> & {
+  channelId?: string | null;
+  description?: string | null;
+};
+
+/**
+ * Result of a dry run: the playlist the rules leave and what they kept out
+ */
+export interface ContentRuleDryRun {
+  channelId: string;
+  time: Date;
+  start: Date; // air time the rules projected from
+  activeBlock: { id: string; name: string } | null;
+  rules: Array<{ id: string; name: string; ruleType: ContentRuleType; action: ContentRuleAction }>;
+  media: Array<{ mediaFileId: string; title: string; airTime: Date }>;
+  excluded: ContentRuleExclusion[];
+}
+
+/**
+ * Rules that only look at the file itself drop it; rules about when it airs move it later
+ */
+export function getDefaultRuleAction(ruleType: ContentRuleType): ContentRuleAction {
+  return ruleType === 'duration' ? 'exclude' : 'defer';
+}
+
+/**
+ * Service for content rules
+ *
+ * Rules are applied by PlaylistResolver to every resolved playlist, so changes invalidate the
+ * media and EPG caches of the channels they apply to (all channels for global rules).
+ */
+export class ContentRuleService {
+  private readonly contentRuleRepository: ContentRuleRepository;
+
+  constructor(
+    private readonly channelService: ChannelService,
+    private readonly playlistResolver: PlaylistResolver
+  ) {
+    this.contentRuleRepository = new ContentRuleRepository();
+  }
+
+  /**
+   * List rules, highest priority first
+   * @param channelId - Only rules applying to this channel
+   */
+  public async listRules(channelId?: string): Promise<ContentRule[]> {
+    return this.contentRuleRepository.findAll(channelId);
+  }
+
+  public async getRule(id: string): Promise<ContentRule> {
+    const rule = await this.contentRuleRepository.findById(id);
+    if (!rule) {
+      throw new NotFoundError(`Content rule '${id}'`);
+    }
+    return rule;
+  }
+
+  public async createRule(data: ContentRuleCreate): Promise<ContentRule> {
+    const input = this.toRuleInput(data);
+    if (input.channelId) {
+      await this.channelService.getChannel(input.channelId);
+    }
+    this.validateRule(input);
+
+    const rule = await this.contentRuleRepository.create(input);
+    await this.invalidateChannels(rule.channelId);
+
+    logger.info({ ruleId: rule.id, name: rule.name, ruleType: rule.ruleType, channelId: rule.channelId }, 'Content rule created');
+    return rule;
+  }
+
+  /**
+   * Update a rule (partial updates are merged onto the stored rule before validation)
+   * Conditions are replaced as a whole when given
+   */
+  public async updateRule(id: string, updates: ContentRuleUpdate): Promise<ContentRule> {
+    const current = await this.getRule(id);
+    const ruleType = updates.ruleType ?? current.ruleType;
+    const merged: ContentRuleInput = {
+      channelId: updates.channelId === null ? undefined : updates.channelId ?? current.channelId,
+      name: updates.name ?? current.name,
+      description: updates.description === null ? undefined : updates.description ?? current.description,
+      ruleType,
+      conditions: updates.conditions ?? current.conditions,
+      actions:
+        updates.actions ??
+        (updates.ruleType && updates.ruleType !== current.ruleType
+          ? { action: getDefaultRuleAction(ruleType) }
+          : current.actions),
+      priority: updates.priority ?? current.priority,
+      enabled: updates.enabled ?? current.enabled,
+    };
+    if (merged.channelId && merged.channelId !== current.channelId) {
+      await this.channelService.getChannel(merged.channelId);
+    }
+    this.validateRule(merged);
+
+    const rule = await this.contentRuleRepository.update(id, merged);
+    if (!rule) {
+      throw new NotFoundError(`Content rule '${id}'`);
+    }
+    await this.invalidateChannels(current.channelId, rule.channelId);
+
+    logger.info({ ruleId: id }, 'Content rule updated');
+    return rule;
+  }
+
+  public async deleteRule(id: string): Promise<void> {
+    const rule = await this.getRule(id);
+    const deleted = await this.contentRuleRepository.delete(id);
+    if (!deleted) {
+      throw new NotFoundError(`Content rule '${id}'`);
+    }
+    await this.invalidateChannels(rule.channelId);
+
+    logger.info({ ruleId: id }, 'Content rule deleted');
+  }
+
+  /**
+   * Resolve a channel's playlist at a time and explain which rule kept which media out
+   * @param drafts - Rules to try instead of the stored ones (nothing is saved)
+   */
+  public async dryRun(channelId: string, time: Date = new Date(), drafts?: ContentRuleCreate[]): Promise<ContentRuleDryRun> {
+    await this.channelService.getChannel(channelId);
+
+    let rules: ContentRule[] | undefined;
+    if (drafts) {
+      rules = drafts.map((draft, index) => {
+        const input = this.toRuleInput({ ...draft, channelId });
+        this.validateRule(input);
+        return { ...input, id: `draft-${index + 1}`, createdAt: time, updatedAt: time };
+      });
+    }
+
+    const { activeBlock, mediaFiles, evaluation } = await this.playlistResolver.explainContentRules(channelId, time, rules);
+
+    let airTime = evaluation.start.getTime();
+    const media = mediaFiles.map((file) => {
+      const entry = { mediaFileId: file.id, title: file.getDisplayName(), airTime: new Date(airTime) };
+      airTime += file.metadata.duration * 1000;
+      return entry;
+    });
+
+    return {
+      channelId,
+      time,
+      start: evaluation.start,
+      activeBlock: activeBlock ? { id: activeBlock.id, name: activeBlock.name } : null,
+      rules: evaluation.rules.map((rule) => ({
+        id: rule.id,
+        name: rule.name,
+        ruleType: rule.ruleType,
+        action: rule.actions.action,
+      })),
+      media,
+      excluded: evaluation.exclusions,
+    };
+  }
+
+  private toRuleInput(data: ContentRuleCreate): ContentRuleInput {
+    return {
+      channelId: data.channelId || undefined,
+      name: data.name,
+      description: data.description || undefined,
+      ruleType: data.ruleType,
+      conditions: data.conditions,
+      actions: data.actions ?? { action: getDefaultRuleAction(data.ruleType) },
+      priority: data.priority ?? 0,
+      enabled: data.enabled ?? true,
+    };
+  }
+
+  /**
+   * Check that a rule has the conditions its type needs
+   */
+  private validateRule(rule: ContentRuleInput): void {
+    const { conditions } = rule;
+
+    switch (rule.ruleType) {
+      case 'rating_window':
+        if (!conditions.ratings || conditions.ratings.length === 0) {
+          throw new ValidationError('rating_window rules need conditions.ratings');
+        }
+        break;
+
+      case 'no_repeat':
+        if (!conditions.hours || conditions.hours <= 0) {
+          throw new ValidationError('no_repeat rules need conditions.hours greater than 0');
+        }
+        break;
+
+      case 'max_consecutive':
+        if (!conditions.count || conditions.count < 1) {
+          throw new ValidationError('max_consecutive rules need conditions.count of at least 1');
+        }
+        break;
+
+      case 'duration':
+        if (conditions.minSeconds === undefined && conditions.maxSeconds === undefined) {
+          throw new ValidationError('duration rules need conditions.minSeconds or conditions.maxSeconds');
+        }
+        if (
+          conditions.minSeconds !== undefined &&
+          conditions.maxSeconds !== undefined &&
+          conditions.minSeconds > conditions.maxSeconds
+        ) {
+          throw new ValidationError('conditions.minSeconds must not be greater than conditions.maxSeconds');
+        }
+        break;
+    }
+  }
+
+  /**
+   * Make channels re-resolve their playlists (an unset channel ID stands for all channels)
+   */
+  private async invalidateChannels(...channelIds: Array<string | undefined>): Promise<void> {
+    const ids = channelIds.some((id) => !id)
+      ? this.channelService.getAllChannels().map((channel) => channel.id)
+      : [...new Set(channelIds as string[])];
+
+    for (const channelId of ids) {
+      try {
+        await this.channelService.invalidateChannelMediaCache(channelId);
+        await this.channelService.invalidateEPGCache(channelId);
+      } catch (error) {
+        logger.warn({ channelId, error }, 'Failed to invalidate caches after content rule change');
+      }
+    }
+  }
+}
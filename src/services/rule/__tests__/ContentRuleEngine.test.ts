@@ -0,0 +1,156 @@
+import { MediaFile } from '../../../domain/media/MediaFile';
+import { ContentRule, ContentRuleAction, ContentRuleConditions, ContentRuleType } from '../../../domain/rule/ContentRule';
+import { applyContentRules, isInTimeWindow } from '../ContentRuleEngine';
+
+const media = (title: string, minutes: number, extra: { show?: string; rating?: string } = {}): MediaFile =>
+  new MediaFile(
+    `/media/${title}.mkv`,
+    { duration: minutes * 60, fileSize: 1024, contentRating: extra.rating },
+    { showName: extra.show || '', title },
+    title
+  );
+
+const rule = (
+  ruleType: ContentRuleType,
+  conditions: ContentRuleConditions,
+  action: ContentRuleAction = 'defer',
+  priority: number = 0
+): ContentRule => ({
+  id: `${ruleType}-rule`,
+  name: `${ruleType} rule`,
+  ruleType,
+  conditions,
+  actions: { action },
+  priority,
+  enabled: true,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+// Local clock times on an arbitrary day
+const at = (hours: number, minutes: number = 0): Date => new Date(2025, 0, 6, hours, minutes);
+
+const titles = (files: MediaFile[]) => files.map((file) => file.id);
+
+describe('ContentRuleEngine', () => {
+  it('should keep the playlist as is without enabled rules', () => {
+    const files = [media('A', 30), media('B', 5)];
+    const disabled = { ...rule('duration', { minSeconds: 600 }, 'exclude'), enabled: false };
+
+    const result = applyContentRules(files, [disabled], at(8));
+
+    expect(titles(result.media)).toEqual(['A', 'B']);
+    expect(result.exclusions).toEqual([]);
+  });
+
+  describe('rating_window', () => {
+    const noRBefore9pm = rule('rating_window', { ratings: ['R'], startTime: '06:00:00', endTime: '21:00:00' });
+
+    it('should defer rated media until the window ends', () => {
+      const files = [media('Movie', 90, { rating: 'R' }), media('Show', 60, { rating: 'TV-PG' }), media('Doc', 60)];
+
+      const result = applyContentRules(files, [noRBefore9pm], at(19));
+
+      expect(titles(result.media)).toEqual(['Show', 'Doc', 'Movie']);
+    });
+
+    it('should exclude rated media airing in the window', () => {
+      const files = [media('Movie', 90, { rating: 'r' }), media('Show', 60)];
+
+      const result = applyContentRules(files, [{ ...noRBefore9pm, actions: { action: 'exclude' } }], at(19));
+
+      expect(titles(result.media)).toEqual(['Show']);
+      expect(result.exclusions).toEqual([
+        expect.objectContaining({ mediaFileId: 'Movie', ruleId: 'rating_window-rule', airTime: at(19) }),
+      ]);
+    });
+
+    it('should check windows wrapping midnight', () => {
+      expect(isInTimeWindow(at(23, 30), '22:00:00', '06:00:00')).toBe(true);
+      expect(isInTimeWindow(at(5, 59), '22:00:00', '06:00:00')).toBe(true);
+      expect(isInTimeWindow(at(6), '22:00:00', '06:00:00')).toBe(false);
+    });
+  });
+
+  describe('no_repeat', () => {
+    it('should keep a show off the air for the given hours', () => {
+      const files = [
+        media('News 1', 60, { show: 'News' }),
+        media('News 2', 60, { show: 'News' }),
+        media('Movie', 90),
+        media('Film', 60),
+      ];
+
+      const result = applyContentRules(files, [rule('no_repeat', { hours: 3 })], at(12));
+
+      // News 2 is too soon at 13:00 and 14:30; at 15:30 News 1 aired 3.5h before
+      expect(titles(result.media)).toEqual(['News 1', 'Movie', 'Film', 'News 2']);
+    });
+
+    it('should drop media that never gets far enough from its last airing', () => {
+      const files = [media('Ep 1', 30, { show: 'Cartoon' }), media('Ep 2', 30, { show: 'Cartoon' })];
+
+      const result = applyContentRules(files, [rule('no_repeat', { hours: 3 })], at(12));
+
+      expect(titles(result.media)).toEqual(['Ep 1']);
+      expect(result.exclusions[0]).toMatchObject({ mediaFileId: 'Ep 2', reason: expect.stringContaining('Cartoon') });
+    });
+
+    it('should count plays before the start', () => {
+      const files = [media('News 3', 60, { show: 'News' }), media('Movie', 90), media('Film', 60)];
+      const played = [
+        { file: media('News 2', 60, { show: 'News' }), playedAt: at(11) },
+        // Plays from start on belong to the playlist itself
+        { file: media('Film', 60), playedAt: at(12, 30) },
+      ];
+
+      const result = applyContentRules(files, [rule('no_repeat', { hours: 3 })], at(12), played);
+
+      // News 3 is too soon at 12:00 and 13:30 after News 2 at 11:00; at 14:30 it is 3.5h later
+      expect(titles(result.media)).toEqual(['Movie', 'Film', 'News 3']);
+      expect(result.exclusions).toEqual([]);
+    });
+  });
+
+  describe('max_consecutive', () => {
+    it('should break up runs of the same series', () => {
+      const files = [
+        media('S1', 22, { show: 'Sitcom' }),
+        media('S2', 22, { show: 'Sitcom' }),
+        media('S3', 22, { show: 'Sitcom' }),
+        media('D1', 44, { show: 'Drama' }),
+        media('S4', 22, { show: 'Sitcom' }),
+      ];
+
+      const result = applyContentRules(files, [rule('max_consecutive', { count: 2 })], at(18));
+
+      expect(titles(result.media)).toEqual(['S1', 'S2', 'D1', 'S3', 'S4']);
+    });
+  });
+
+  describe('duration', () => {
+    it('should exclude files outside the runtime limits', () => {
+      const files = [media('Clip', 2), media('Episode', 22), media('Epic', 240)];
+
+      const result = applyContentRules(files, [rule('duration', { minSeconds: 300, maxSeconds: 3 * 3600 }, 'exclude')], at(8));
+
+      expect(titles(result.media)).toEqual(['Episode']);
+      expect(result.exclusions.map((e) => [e.mediaFileId, e.reason])).toEqual([
+        ['Clip', 'Shorter than 300s (120s)'],
+        ['Epic', 'Longer than 10800s (14400s)'],
+      ]);
+    });
+  });
+
+  it('should name the highest priority rule a file breaks', () => {
+    const files = [media('Short', 1, { rating: 'R' })];
+    const rules = [
+      rule('rating_window', { ratings: ['R'] }, 'exclude', 1),
+      { ...rule('duration', { minSeconds: 300 }, 'exclude', 5), id: 'min-length' },
+    ];
+
+    const result = applyContentRules(files, rules, at(8));
+
+    expect(result.exclusions.map((e) => e.ruleId)).toEqual(['min-length']);
+  });
+});
@@ -10,6 +10,20 @@ export interface SchedulePosition {
   elapsedSeconds: number; // Total seconds since schedule start
 }
 
+/**
+ * Air time of the first file of the playlist loop running at currentTime
+ * Same arithmetic as getCurrentPosition: the playlist loops every totalDuration seconds from
+ * the schedule start time
+ */
+export function getPlaylistLoopStart(scheduleStartTime: Date, totalDuration: number, currentTime: Date): Date {
+  const elapsedSeconds = Math.floor((currentTime.getTime() - scheduleStartTime.getTime()) / 1000);
+  if (elapsedSeconds < 0 || totalDuration <= 0) {
+    return new Date(scheduleStartTime);
+  }
+  const normalizedSeconds = elapsedSeconds % totalDuration;
+  return new Date(scheduleStartTime.getTime() + (elapsedSeconds - normalizedSeconds) * 1000);
+}
+
 /**
  * Simplified time tracking service for channel schedules
  * Replaces complex VirtualTimeService with a single timestamp anchor
@@ -0,0 +1,111 @@
+import { EncoderProfile, EncoderProfileInput } from '../../domain/encoder/EncoderProfile';
+import { EncoderProfileRepository } from '../../infrastructure/database/repositories/EncoderProfileRepository';
+import { validateEncoderProfile } from '../../infrastructure/ffmpeg/EncoderProfiles';
+import { createLogger } from '../../utils/logger';
+import { ConflictError, NotFoundError } from '../../utils/errors';
+
+const logger = createLogger('EncoderProfileService');
+
+/**
+ * Partial profile update (null clears an optional setting)
+ */
+export type EncoderProfileUpdate = {
+  [K in keyof EncoderProfileInput]?: EncoderProfileInput[K] | null;
+};
+
+/**
+ * Service for managing encoder profiles
+ * Changes apply to channels the next time their stream starts
+ */
+export class EncoderProfileService {
+  private readonly profileRepository: EncoderProfileRepository;
+
+  constructor() {
+    this.profileRepository = new EncoderProfileRepository();
+  }
+
+  /**
+   * Get all profiles
+   */
+  public async listProfiles(): Promise<EncoderProfile[]> {
+    return this.profileRepository.findAll();
+  }
+
+  /**
+   * Get profile by ID
+   */
+  public async getProfile(profileId: string): Promise<EncoderProfile> {
+    const profile = await this.profileRepository.findById(profileId);
+    if (!profile) {
+      throw new NotFoundError(`Encoder profile '${profileId}'`);
+    }
+    return profile;
+  }
+
+  /**
+   * Create a profile
+   */
+  public async createProfile(data: EncoderProfileInput): Promise<EncoderProfile> {
+    validateEncoderProfile(data);
+
+    const existing = await this.profileRepository.findByName(data.name);
+    if (existing) {
+      throw new ConflictError(`Encoder profile with name '${data.name}' already exists`);
+    }
+
+    const profile = await this.profileRepository.create(data);
+    logger.info({ profileId: profile.id, name: profile.name, videoCodec: profile.videoCodec }, 'Encoder profile created');
+    return profile;
+  }
+
+  /**
+   * Update a profile (partial updates are merged onto the stored profile before validation)
+   * Optional settings can be cleared by passing null
+   */
+  public async updateProfile(profileId: string, updates: EncoderProfileUpdate): Promise<EncoderProfile> {
+    const current = await this.getProfile(profileId);
+    const optional = <T>(value: T | null | undefined, fallback: T | undefined): T | undefined =>
+      value === null ? undefined : value ?? fallback;
+    const merged: EncoderProfileInput = {
+      name: updates.name ?? current.name,
+      description: optional(updates.description, current.description),
+      videoCodec: updates.videoCodec ?? current.videoCodec,
+      preset: updates.preset ?? current.preset,
+      rateControl: updates.rateControl ?? current.rateControl,
+      crf: optional(updates.crf, current.crf),
+      tune: optional(updates.tune, current.tune),
+      profile: optional(updates.profile, current.profile),
+      level: optional(updates.level, current.level),
+      gopSeconds: optional(updates.gopSeconds, current.gopSeconds),
+      audioCodec: updates.audioCodec ?? current.audioCodec,
+      audioSampleRate: updates.audioSampleRate ?? current.audioSampleRate,
+    };
+    validateEncoderProfile(merged);
+
+    if (merged.name !== current.name) {
+      const existing = await this.profileRepository.findByName(merged.name);
+      if (existing) {
+        throw new ConflictError(`Encoder profile with name '${merged.name}' already exists`);
+      }
+    }
+
+    const profile = await this.profileRepository.update(profileId, merged);
+    if (!profile) {
+      throw new NotFoundError(`Encoder profile '${profileId}'`);
+    }
+    logger.info({ profileId, name: profile.name }, 'Encoder profile updated');
+    return profile;
+  }
+
+  /**
+   * Delete a profile
+   * Channels using it fall back to the global preset (profile_id is set to NULL)
+   */
+  public async deleteProfile(profileId: string): Promise<void> {
+    const deleted = await this.profileRepository.delete(profileId);
+    if (!deleted) {
+      throw new NotFoundError(`Encoder profile '${profileId}'`);
+    }
+    logger.info({ profileId }, 'Encoder profile deleted');
+  }
+}
@@ -0,0 +1,421 @@
+import fs from 'fs/promises';
+import { FSWatcher, watch } from 'fs';
+import path from 'path';
+import { ChannelState } from '../../domain/channel/Channel';
+import { buildMasterPlaylist } from '../../infrastructure/ffmpeg/RenditionLadder';
+import { eventBus } from '../../infrastructure/events/EventBus';
+import { S3Client } from '../../infrastructure/storage/S3Client';
+import { getPlaylistWindowStart } from '../../infrastructure/storage/SegmentCache';
+import { getChannelObjectPrefix, getS3ClientConfig } from '../../infrastructure/storage/SegmentStorage';
+import { ChannelService } from '../channel/ChannelService';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('SegmentPublisher');
+
+/** Files uploaded as soon as FFmpeg has written them */
+const PUBLISHED_FILE_PATTERN = /^(stream_\d+\.(m4s|ts|vtt)|starting\.m4s|init(_[a-z0-9_-]+)?\.mp4)$/;
+
+/** Numbered segments, pruned once they leave the playlist window */
+const SEGMENT_PATTERN = /^stream_(\d+)\.(m4s|ts|vtt)$/;
+
+/** Playlist FFmpeg writes in each output directory */
+const PLAYLIST_FILENAME = 'stream.m3u8';
+
+/** Wait this long after the last change event before uploading a file (writes come in bursts) */
+const UPLOAD_DELAY_MS = 50;
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.m3u8': 'application/vnd.apple.mpegurl',
+  '.m4s': 'video/iso.segment',
+  '.mp4': 'video/mp4',
+  '.ts': 'video/mp2t',
+  '.vtt': 'text/vtt',
+};
+
+// Segments never change once written; playlists change every segment
+const SEGMENT_CACHE_CONTROL = 'public, max-age=31536000, immutable';
+const PLAYLIST_CACHE_CONTROL = 'no-cache';
+
+interface Publication {
+  channelId: string;
+  outputDir: string;
+  prefix: string;
+  /** Directory watchers, by output subdirectory ('' = channel root) */
+  watchers: Map<string, FSWatcher>;
+  timers: Map<string, NodeJS.Timeout>;
+  /** Segment uploads in progress, by output subdirectory ('' = channel root) */
+  uploads: Map<string, Set<Promise<void>>>;
+  /** Uploaded numbered segments, by output subdirectory */
+  segments: Map<string, Set<string>>;
+  /** Settles once stale objects are cleared and the directory is watched */
+  ready?: Promise<void>;
+  stopped: boolean;
+}
+
+/**
+ * Publishes the HLS output of S3-backed channels to the bucket
+ *
+ * While such a channel streams, its output directory (and rendition/track subdirectories) is
+ * watched: segments are uploaded once FFmpeg has written them, each playlist after the segments
+ * it lists, and segments that leave the playlist window are deleted from the bucket. The master
+ * playlist is uploaded when the stream starts, so the prefix can be played from the CDN directly.
+ * Local files stay in place; this server keeps serving playlists and falls back to them.
+ */
+export class SegmentPublisher {
+  private readonly client?: S3Client;
+  private publications: Map<string, Publication> = new Map();
+  private unsubscribe?: () => void;
+
+  constructor(private readonly channelService: ChannelService, client?: S3Client) {
+    const clientConfig = getS3ClientConfig();
+    this.client = client || (clientConfig ? new S3Client(clientConfig) : undefined);
+  }
+
+  /**
+   * Follow channel state changes (publishing S3 channels that start streaming)
+   */
+  public start(): void {
+    if (!this.client) {
+      logger.debug('S3 storage not configured, segment publishing disabled');
+      return;
+    }
+    this.unsubscribe = eventBus.subscribe(['channel.state'], (event) => {
+      if (event.topic === 'channel.state') {
+        void this.onChannelState(event.data.channelId, event.data.state as ChannelState);
+      }
+    });
+    for (const channel of this.channelService.getAllChannels()) {
+      if (channel.config.storageBackend === 's3' && channel.isStreaming()) {
+        void this.onChannelState(channel.id, ChannelState.STARTING).then(() =>
+          this.onChannelState(channel.id, ChannelState.STREAMING)
+        );
+      }
+    }
+    logger.info('Segment publisher started');
+  }
+
+  public stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+    for (const channelId of [...this.publications.keys()]) {
+      this.end(channelId);
+    }
+  }
+
+  private async onChannelState(channelId: string, state: ChannelState): Promise<void> {
+    try {
+      if (state === ChannelState.STARTING) {
+        const channel = await this.channelService.getChannel(channelId);
+        if (channel.config.storageBackend === 's3') {
+          await this.begin(channelId);
+        }
+      } else if (state === ChannelState.STREAMING) {
+        await this.publishMasterPlaylist(channelId);
+      } else if (state === ChannelState.IDLE || state === ChannelState.ERROR) {
+        this.end(channelId);
+      }
+    } catch (error) {
+      logger.error({ error, channelId, state }, 'Failed to update segment publishing');
+    }
+  }
+
+  /**
+   * Clear the channel's objects left from earlier runs, then publish its output as it is written
+   */
+  private async begin(channelId: string): Promise<void> {
+    if (this.publications.has(channelId) || !this.client) {
+      return;
+    }
+    const channel = await this.channelService.getChannel(channelId);
+    const publication: Publication = {
+      channelId,
+      outputDir: path.resolve(channel.config.outputDir),
+      prefix: getChannelObjectPrefix(channel.config.slug),
+      watchers: new Map(),
+      timers: new Map(),
+      uploads: new Map(),
+      segments: new Map(),
+      stopped: false,
+    };
+    this.publications.set(channelId, publication);
+
+    publication.ready = this.prepare(publication);
+    try {
+      await publication.ready;
+    } catch (error) {
+      this.end(channelId);
+      throw error;
+    }
+  }
+
+  private async prepare(publication: Publication): Promise<void> {
+    const { channelId } = publication;
+
+    // Segment numbering restarts with the stream, so stale objects would never leave the window
+    const staleKeys = await this.client!.listObjects(publication.prefix);
+    await Promise.all(staleKeys.map((key) => this.client!.deleteObject(key)));
+
+    await fs.mkdir(publication.outputDir, { recursive: true });
+    if (publication.stopped) {
+      return;
+    }
+    // Recursive watching isn't available on Linux before Node 20, so each directory gets a watcher
+    this.watchDirectory(publication, '');
+    for (const entry of await fs.readdir(publication.outputDir, { withFileTypes: true })) {
+      if (entry.isDirectory()) {
+        this.watchDirectory(publication, entry.name);
+      }
+    }
+
+    // Files FFmpeg wrote before the watchers started
+    for (const file of await this.listOutputFiles(publication.outputDir)) {
+      this.onFileEvent(publication, file);
+    }
+    logger.info({ channelId, prefix: publication.prefix, removed: staleKeys.length }, 'Publishing segments to S3');
+  }
+
+  private end(channelId: string): void {
+    const publication = this.publications.get(channelId);
+    if (!publication) {
+      return;
+    }
+    publication.stopped = true;
+    for (const watcher of publication.watchers.values()) {
+      watcher.close();
+    }
+    for (const timer of publication.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.publications.delete(channelId);
+    logger.info({ channelId }, 'Stopped publishing segments');
+  }
+
+  /**
+   * Watch an output directory (the channel root or one of its rendition/track subdirectories)
+   * @param dir - Relative to the output directory ('' = channel root)
+   */
+  private watchDirectory(publication: Publication, dir: string): void {
+    const { channelId } = publication;
+    if (publication.stopped || publication.watchers.has(dir)) {
+      return;
+    }
+
+    let watcher: FSWatcher;
+    try {
+      watcher = watch(path.join(publication.outputDir, dir), { persistent: false }, (event, filename) => {
+        if (!filename) {
+          return;
+        }
+        const file = path.join(dir, filename.toString());
+        if (!dir && event === 'rename' && !isOutputFilename(file)) {
+          void this.onSubdirectoryEvent(publication, file);
+        } else {
+          this.onFileEvent(publication, file);
+        }
+      });
+    } catch (error) {
+      if (!dir) {
+        throw error;
+      }
+      logger.debug({ error, channelId, dir }, 'Failed to watch output subdirectory');
+      return;
+    }
+
+    watcher.on('error', (error) => {
+      if (!dir) {
+        logger.warn({ error, channelId }, 'Output directory watcher failed, segment publishing stopped');
+        this.end(channelId);
+        return;
+      }
+      logger.debug({ error, channelId, dir }, 'Output subdirectory watcher failed');
+      watcher.close();
+      publication.watchers.delete(dir);
+    });
+    publication.watchers.set(dir, watcher);
+  }
+
+  /**
+   * Follow a rendition/track subdirectory created (or recreated) while the channel streams,
+   * publishing the files FFmpeg wrote to it before it was watched
+   */
+  private async onSubdirectoryEvent(publication: Publication, dir: string): Promise<void> {
+    publication.watchers.get(dir)?.close();
+    publication.watchers.delete(dir);
+
+    let files: string[];
+    try {
+      const stats = await fs.stat(path.join(publication.outputDir, dir));
+      if (!stats.isDirectory()) {
+        return;
+      }
+      this.watchDirectory(publication, dir);
+      files = await fs.readdir(path.join(publication.outputDir, dir));
+    } catch {
+      // Removed again (e.g. the stream stopped)
+      return;
+    }
+    for (const file of sortPlaylistsLast(files.map((filename) => path.join(dir, filename)))) {
+      this.onFileEvent(publication, file);
+    }
+  }
+
+  /**
+   * Output files, relative to the output directory (one level of subdirectories)
+   */
+  private async listOutputFiles(outputDir: string): Promise<string[]> {
+    const files: string[] = [];
+    for (const entry of await fs.readdir(outputDir, { withFileTypes: true })) {
+      if (entry.isDirectory()) {
+        const subdirFiles = await fs.readdir(path.join(outputDir, entry.name)).catch(() => []);
+        files.push(...subdirFiles.map((file) => path.join(entry.name, file)));
+      } else {
+        files.push(entry.name);
+      }
+    }
+    return sortPlaylistsLast(files);
+  }
+
+  private onFileEvent(publication: Publication, file: string): void {
+    const filename = path.basename(file);
+    if (!isOutputFilename(filename)) {
+      return;
+    }
+
+    clearTimeout(publication.timers.get(file));
+    publication.timers.set(
+      file,
+      setTimeout(() => {
+        publication.timers.delete(file);
+        if (filename === PLAYLIST_FILENAME) {
+          void this.publishPlaylist(publication, file);
+        } else {
+          this.trackUpload(publication, path.dirname(file), this.publishSegment(publication, file));
+        }
+      }, UPLOAD_DELAY_MS)
+    );
+  }
+
+  private trackUpload(publication: Publication, dir: string, upload: Promise<void>): void {
+    let uploads = publication.uploads.get(dir);
+    if (!uploads) {
+      uploads = new Set();
+      publication.uploads.set(dir, uploads);
+    }
+    uploads.add(upload);
+    void upload.finally(() => uploads!.delete(upload));
+  }
+
+  private async publishSegment(publication: Publication, file: string): Promise<void> {
+    try {
+      const body = await this.readOutputFile(publication, file);
+      if (!body || publication.stopped) {
+        return;
+      }
+      await this.client!.putObject(this.getKey(publication, file), body, getContentType(file), SEGMENT_CACHE_CONTROL);
+      if (SEGMENT_PATTERN.test(path.basename(file))) {
+        const dir = path.dirname(file);
+        let segments = publication.segments.get(dir);
+        if (!segments) {
+          segments = new Set();
+          publication.segments.set(dir, segments);
+        }
+        segments.add(path.basename(file));
+      }
+    } catch (error) {
+      logger.warn({ error, channelId: publication.channelId, file }, 'Failed to upload segment');
+    }
+  }
+
+  /**
+   * Upload a playlist once the segments it lists are uploaded, then prune segments before its window
+   */
+  private async publishPlaylist(publication: Publication, file: string): Promise<void> {
+    const dir = path.dirname(file);
+    let body: Buffer | null;
+    try {
+      body = await this.readOutputFile(publication, file);
+      if (!body || publication.stopped) {
+        return;
+      }
+      await Promise.all(publication.uploads.get(dir) || []);
+      await this.client!.putObject(this.getKey(publication, file), body, getContentType(file), PLAYLIST_CACHE_CONTROL);
+    } catch (error) {
+      logger.warn({ error, channelId: publication.channelId, file }, 'Failed to upload playlist');
+      return;
+    }
+
+    const windowStart = getPlaylistWindowStart(body.toString('utf-8'));
+    const segments = publication.segments.get(dir);
+    if (windowStart === undefined || !segments) {
+      return;
+    }
+    const expired = [...segments].filter((segment) => parseInt(segment.match(SEGMENT_PATTERN)![1], 10) < windowStart);
+    for (const segment of expired) {
+      segments.delete(segment);
+    }
+    await Promise.all(
+      expired.map((segment) =>
+        this.client!.deleteObject(this.getKey(publication, path.join(dir, segment))).catch((error) => {
+          logger.debug({ error, channelId: publication.channelId, segment }, 'Failed to delete expired segment');
+        })
+      )
+    );
+  }
+
+  /**
+   * Upload the master playlist (renditions and tracks are known once the stream runs)
+   */
+  private async publishMasterPlaylist(channelId: string): Promise<void> {
+    const publication = this.publications.get(channelId);
+    if (!publication) {
+      return;
+    }
+    await publication.ready;
+    if (publication.stopped) {
+      return;
+    }
+    const channel = await this.channelService.getChannel(channelId);
+    const masterPlaylist = buildMasterPlaylist(
+      channel.config,
+      this.channelService.getStreamTracks(channelId),
+      this.channelService.getStreamEncoderProfile(channelId),
+      this.channelService.streamHasAudio(channelId)
+    );
+    await this.client!.putObject(
+      this.getKey(publication, 'master.m3u8'),
+      Buffer.from(masterPlaylist),
+      getContentType('master.m3u8'),
+      PLAYLIST_CACHE_CONTROL
+    );
+  }
+
+  private async readOutputFile(publication: Publication, file: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(path.join(publication.outputDir, file));
+    } catch (error) {
+      // Deleted by FFmpeg (outside the playlist window) before it was uploaded
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private getKey(publication: Publication, file: string): string {
+    return `${publication.prefix}${file.split(path.sep).join('/')}`;
+  }
+}
+
+function isOutputFilename(file: string): boolean {
+  const filename = path.basename(file);
+  return filename === PLAYLIST_FILENAME || PUBLISHED_FILE_PATTERN.test(filename);
+}
+
+// Playlists last, so they follow the segments they list
+function sortPlaylistsLast(files: string[]): string[] {
+  return files.sort((a, b) => Number(path.basename(a) === PLAYLIST_FILENAME) - Number(path.basename(b) === PLAYLIST_FILENAME));
+}
+
+function getContentType(file: string): string {
+  return CONTENT_TYPES[path.extname(file)] || 'application/octet-stream';
+}
@@ -0,0 +1,353 @@
+import fs from 'fs/promises';
+import { config } from '../../config/env';
+import { Channel } from '../../domain/channel/Channel';
+import { EncoderProfile } from '../../domain/encoder/EncoderProfile';
+import { MediaFile } from '../../domain/media/MediaFile';
+import { TranscodeJob, TranscodeJobStatus, TranscodeParams } from '../../domain/transcode/TranscodeJob';
+import { EncoderProfileRepository } from '../../infrastructure/database/repositories/EncoderProfileRepository';
+import { MediaFileRepository } from '../../infrastructure/database/repositories/MediaFileRepository';
+import { TranscodeCacheRepository } from '../../infrastructure/database/repositories/TranscodeCacheRepository';
+import { TranscodeJobRepository } from '../../infrastructure/database/repositories/TranscodeJobRepository';
+import { PreTranscoder } from '../../infrastructure/ffmpeg/PreTranscoder';
+import {
+  getTranscodeCacheKey,
+  getTranscodeCachePath,
+  getTranscodeParams,
+  selectLruEvictions,
+} from '../../infrastructure/ffmpeg/TranscodeCache';
+import { MediaBucketService } from '../bucket/MediaBucketService';
+import { ChannelService } from '../channel/ChannelService';
+import { SettingsService } from '../settings/SettingsService';
+import { ConflictError, NotFoundError } from '../../utils/errors';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('TranscodeService');
+
+/** Write progress to the database at most this often (per job) */
+const PROGRESS_UPDATE_INTERVAL_MS = 2000;
+
+/**
+ * Cached renditions available for a channel's media
+ */
+export interface CachedRenditionLookup {
+  params: TranscodeParams;
+  /** Source file path -> cached rendition path */
+  renditions: Map<string, string>;
+}
+
+/**
+ * Service for the pre-transcode job queue and rendition cache
+ *
+ * Jobs are persisted, so the queue survives restarts; jobs that were running when the
+ * server stopped are queued again on start. Up to TRANSCODE_CONCURRENCY jobs encode at once.
+ */
+export class TranscodeService {
+  private readonly jobRepository: TranscodeJobRepository;
+  private readonly cacheRepository: TranscodeCacheRepository;
+  private readonly mediaFileRepository: MediaFileRepository;
+  private readonly encoderProfileRepository: EncoderProfileRepository;
+  private readonly preTranscoder: PreTranscoder;
+  private readonly runningJobs: Set<string> = new Set();
+  private readonly cancelledJobs: Set<string> = new Set();
+  private stopped = true;
+
+  constructor(
+    private readonly channelService: ChannelService,
+    private readonly bucketService: MediaBucketService,
+    private readonly settingsService: SettingsService
+  ) {
+    this.jobRepository = new TranscodeJobRepository();
+    this.cacheRepository = new TranscodeCacheRepository();
+    this.mediaFileRepository = new MediaFileRepository();
+    this.encoderProfileRepository = new EncoderProfileRepository();
+    this.preTranscoder = new PreTranscoder();
+  }
+
+  /**
+   * Start processing the queue (requeues jobs interrupted by a restart)
+   */
+  public async start(): Promise<void> {
+    await fs.mkdir(config.transcode.cacheDir, { recursive: true });
+    this.stopped = false;
+
+    const requeued = await this.jobRepository.requeueRunning();
+    if (requeued > 0) {
+      logger.info({ requeued }, 'Requeued interrupted transcode jobs');
+    }
+    void this.processQueue();
+  }
+
+  /**
+   * Stop picking up jobs and kill running encodes (they are requeued on next start)
+   */
+  public stop(): void {
+    this.stopped = true;
+    this.preTranscoder.cancelAll();
+  }
+
+  /**
+   * Queue media for a channel's settings
+   * Media comes from mediaFileIds, a bucket, or (neither given) all of the channel's buckets.
+   * Files that are already cached or queued with the same parameters are skipped.
+   */
+  public async enqueue(
+    channelId: string,
+    source: { bucketId?: string; mediaFileIds?: string[] } = {}
+  ): Promise<TranscodeJob[]> {
+    const channel = await this.channelService.getChannel(channelId);
+    const encoderProfile = await this.resolveEncoderProfile(channel);
+    const params = await this.getParams(channel, encoderProfile);
+
+    const mediaFileIds = source.mediaFileIds
+      ? source.mediaFileIds
+      : source.bucketId
+        ? await this.bucketService.getMediaInBucket(source.bucketId)
+        : await this.bucketService.getMediaFromChannelBuckets(channelId);
+
+    for (const mediaFileId of mediaFileIds) {
+      const mediaFile = await this.mediaFileRepository.findById(mediaFileId);
+      if (!mediaFile) {
+        throw new NotFoundError(`Media file '${mediaFileId}'`);
+      }
+    }
+
+    const keys = new Map(mediaFileIds.map((id) => [id, getTranscodeCacheKey(id, params)]));
+    const cached = new Set((await this.cacheRepository.findByKeys([...keys.values()])).map((r) => r.cacheKey));
+    const active = await this.jobRepository.getActiveCacheKeys();
+
+    const jobs: TranscodeJob[] = [];
+    for (const [mediaFileId, cacheKey] of keys) {
+      if (cached.has(cacheKey) || active.has(cacheKey)) {
+        continue;
+      }
+      jobs.push(await this.jobRepository.create({ mediaFileId, channelId, cacheKey, params }));
+      active.add(cacheKey);
+    }
+
+    logger.info(
+      { channelId, requested: mediaFileIds.length, queued: jobs.length },
+      'Queued pre-transcode jobs'
+    );
+
+    void this.processQueue();
+    return jobs;
+  }
+
+  /**
+   * List jobs, newest first
+   */
+  public async getJobs(filters?: { status?: TranscodeJobStatus; channelId?: string; limit?: number }): Promise<TranscodeJob[]> {
+    return this.jobRepository.findAll(filters);
+  }
+
+  /**
+   * Get a job by ID
+   */
+  public async getJob(jobId: string): Promise<TranscodeJob> {
+    const job = await this.jobRepository.findById(jobId);
+    if (!job) {
+      throw new NotFoundError(`Transcode job '${jobId}'`);
+    }
+    return job;
+  }
+
+  /**
+   * Cancel a queued or running job
+   */
+  public async cancelJob(jobId: string): Promise<TranscodeJob> {
+    await this.getJob(jobId); // Verify exists
+
+    const cancelled = await this.jobRepository.cancel(jobId);
+    if (!cancelled) {
+      throw new ConflictError('Transcode job has already finished');
+    }
+    if (this.runningJobs.has(jobId)) {
+      this.cancelledJobs.add(jobId);
+      this.preTranscoder.cancel(jobId);
+    }
+
+    logger.info({ jobId }, 'Cancelled transcode job');
+    return this.getJob(jobId);
+  }
+
+  /**
+   * Get cache usage
+   */
+  public async getCacheStats(): Promise<{ count: number; totalBytes: number; maxBytes: number }> {
+    const stats = await this.cacheRepository.getStats();
+    return { ...stats, maxBytes: config.transcode.maxCacheBytes };
+  }
+
+  /**
+   * Find cached renditions of a channel's media for playout
+   * Marks them as used (LRU) and drops entries whose file has gone missing.
+   */
+  public async getCachedRenditions(
+    channel: Channel,
+    media: MediaFile[],
+    encoderProfile?: EncoderProfile
+  ): Promise<CachedRenditionLookup> {
+    const params = await this.getParams(channel, encoderProfile);
+    const renditions = new Map<string, string>();
+
+    const keys = new Map(media.map((file) => [getTranscodeCacheKey(file.id, params), file.path]));
+    const entries = await this.cacheRepository.findByKeys([...keys.keys()]);
+
+    const used: string[] = [];
+    for (const entry of entries) {
+      try {
+        await fs.access(entry.path);
+      } catch {
+        logger.warn({ cacheKey: entry.cacheKey, path: entry.path }, 'Cached rendition missing on disk, dropping entry');
+        await this.cacheRepository.delete(entry.cacheKey);
+        continue;
+      }
+      renditions.set(keys.get(entry.cacheKey)!, entry.path);
+      used.push(entry.cacheKey);
+    }
+    await this.cacheRepository.touch(used);
+
+    if (renditions.size > 0) {
+      logger.info({ channelId: channel.id, cached: renditions.size, total: media.length }, 'Using cached renditions');
+    }
+    return { params, renditions };
+  }
+
+  private async getParams(channel: Channel, encoderProfile?: EncoderProfile): Promise<TranscodeParams> {
+    const preset = await this.settingsService.getFFmpegPreset();
+    return getTranscodeParams(channel.config, encoderProfile, preset);
+  }
+
+  /**
+   * Load a channel's encoder profile (a deleted profile falls back to the global preset)
+   */
+  private async resolveEncoderProfile(channel: Channel): Promise<EncoderProfile | undefined> {
+    if (!channel.config.profileId) {
+      return undefined;
+    }
+    return (await this.encoderProfileRepository.findById(channel.config.profileId)) || undefined;
+  }
+
+  /**
+   * Start queued jobs while there are free worker slots
+   */
+  private async processQueue(): Promise<void> {
+    if (this.stopped) {
+      return;
+    }
+    const freeSlots = config.transcode.concurrency - this.runningJobs.size;
+    if (freeSlots <= 0) {
+      return;
+    }
+
+    try {
+      // Over-fetch: jobs already picked by a concurrent call are still 'queued' until marked running
+      const queued = await this.jobRepository.findQueued(freeSlots + this.runningJobs.size);
+      for (const job of queued) {
+        if (this.runningJobs.size >= config.transcode.concurrency) {
+          break;
+        }
+        if (this.runningJobs.has(job.id)) {
+          continue;
+        }
+        this.runningJobs.add(job.id);
+        void this.runJob(job);
+      }
+    } catch (error) {
+      logger.error({ error }, 'Failed to process transcode queue');
+    }
+  }
+
+  private async runJob(job: TranscodeJob): Promise<void> {
+    try {
+      const started = await this.jobRepository.markRunning(job.id);
+      if (!started) {
+        return; // Cancelled while queued
+      }
+
+      const row = await this.mediaFileRepository.findById(job.mediaFileId);
+      if (!row) {
+        await this.jobRepository.finish(job.id, 'failed', 'Media file not found');
+        return;
+      }
+      const mediaFile = MediaFileRepository.rowToMediaFile(row);
+      const outputPath = getTranscodeCachePath(config.transcode.cacheDir, job.cacheKey);
+
+      logger.info({ jobId: job.id, file: mediaFile.filename }, 'Pre-transcode started');
+
+      let lastProgressUpdate = 0;
+      const sizeBytes = await this.preTranscoder.transcode(
+        job.id,
+        mediaFile.path,
+        outputPath,
+        mediaFile.metadata,
+        job.params,
+        (percent) => {
+          const now = Date.now();
+          if (now - lastProgressUpdate < PROGRESS_UPDATE_INTERVAL_MS) {
+            return;
+          }
+          lastProgressUpdate = now;
+          this.jobRepository.updateProgress(job.id, Math.round(percent * 10) / 10).catch((error) => {
+            logger.debug({ jobId: job.id, error }, 'Failed to update transcode progress');
+          });
+        }
+      );
+
+      // Cancelled after the encode finished - don't keep the rendition
+      if (this.cancelledJobs.has(job.id)) {
+        await fs.unlink(outputPath).catch(() => undefined);
+        return;
+      }
+
+      await this.cacheRepository.upsert({
+        cacheKey: job.cacheKey,
+        mediaFileId: job.mediaFileId,
+        path: outputPath,
+        sizeBytes,
+        params: job.params,
+      });
+      await this.jobRepository.finish(job.id, 'completed');
+      logger.info({ jobId: job.id, file: mediaFile.filename, sizeBytes }, 'Pre-transcode completed');
+
+      await this.evictLeastRecentlyUsed(job.cacheKey);
+    } catch (error) {
+      if (this.cancelledJobs.has(job.id)) {
+        return; // Already marked cancelled
+      }
+      if (this.stopped) {
+        return; // Killed on shutdown - requeued on next start
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error({ jobId: job.id, error: message }, 'Pre-transcode failed');
+      await this.jobRepository.finish(job.id, 'failed', message).catch(() => undefined);
+    } finally {
+      this.runningJobs.delete(job.id);
+      this.cancelledJobs.delete(job.id);
+      void this.processQueue();
+    }
+  }
+
+  /**
+   * Evict least recently used renditions until the cache fits TRANSCODE_CACHE_MAX_GB
+   * A rendition a running stream has open stays readable until FFmpeg closes it.
+   */
+  private async evictLeastRecentlyUsed(keepCacheKey: string): Promise<void> {
+    const entries = await this.cacheRepository.findAll();
+    const evictions = selectLruEvictions(entries, config.transcode.maxCacheBytes, new Set([keepCacheKey]));
+
+    for (const cacheKey of evictions) {
+      const entry = entries.find((e) => e.cacheKey === cacheKey)!;
+      await this.cacheRepository.delete(cacheKey);
+      await fs.unlink(entry.path).catch((error) => {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          logger.warn({ cacheKey, path: entry.path, error }, 'Failed to delete evicted rendition');
+        }
+      });
+    }
+
+    if (evictions.length > 0) {
+      logger.info({ evicted: evictions.length }, 'Evicted least recently used renditions from transcode cache');
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import crypto from 'crypto';
+
+/** Signature length in base64url characters (128 bits) */
+const SIGNATURE_LENGTH = 22;
+
+function sign(sessionId: string, channelId: string, secret: string): string {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${channelId}:${sessionId}`)
+    .digest('base64url')
+    .slice(0, SIGNATURE_LENGTH);
+}
+
+/**
+ * Build the token carried in a viewer's stream URLs (sessionId.signature)
+ * The signature binds the session to its channel, so IDs can't be guessed or moved between channels
+ */
+export function createSessionToken(sessionId: string, channelId: string, secret: string): string {
+  return `${sessionId}.${sign(sessionId, channelId, secret)}`;
+}
+
+/**
+ * Get the session ID from a token
+ * @returns undefined when the token is malformed or its signature doesn't match
+ */
+export function verifySessionToken(token: string, channelId: string, secret: string): string | undefined {
+  const separator = token.lastIndexOf('.');
+  if (separator <= 0) {
+    return undefined;
+  }
+  const sessionId = token.slice(0, separator);
+  const signature = Buffer.from(token.slice(separator + 1));
+  const expected = Buffer.from(sign(sessionId, channelId, secret));
+  if (signature.length !== expected.length || !crypto.timingSafeEqual(signature, expected)) {
+    return undefined;
+  }
+  return sessionId;
+}
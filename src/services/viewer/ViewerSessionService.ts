@@ -0,0 +1,285 @@
+import { randomUUID } from 'crypto';
+import { config } from '../../config/env';
+import { ViewerClient, ViewerSession } from '../../domain/viewer/ViewerSession';
+import { ViewerSessionRepository } from '../../infrastructure/database/repositories/ViewerSessionRepository';
+import { eventBus } from '../../infrastructure/events/EventBus';
+import { ChannelService } from '../channel/ChannelService';
+import { createSessionToken, verifySessionToken } from './SessionToken';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('ViewerSessionService');
+
+/** Write session counters this often */
+const FLUSH_INTERVAL_MS = 15000;
+
+interface ActiveSession {
+  session: ViewerSession;
+  timeout: NodeJS.Timeout;
+  dirty: boolean; // Counters changed since the last flush
+}
+
+/**
+ * Service for per-viewer session tracking
+ *
+ * The master playlist issues each player a signed session token, which is appended to every
+ * variant and segment URL so requests from players behind the same NAT stay apart. Players that
+ * skip the master playlist are tracked by IP and user agent and get a token on their first
+ * playlist. Sessions are stored in playback_sessions: a player that returns with its token after
+ * a restart or a pause continues its session. The first session of a channel resumes its stream,
+ * and the channel is released when its last session expires.
+ */
+export class ViewerSessionService {
+  private readonly sessionRepository: ViewerSessionRepository;
+  private readonly channelService: ChannelService;
+
+  // Active sessions by session ID
+  private sessions: Map<string, ActiveSession> = new Map();
+  // Sessions being opened (concurrent first requests share one open)
+  private opening: Map<string, Promise<ViewerSession>> = new Map();
+  // Sessions of players without a token, by channel, IP and user agent
+  private untokenedSessions: Map<string, string> = new Map();
+
+  private flushInterval?: NodeJS.Timeout;
+
+  constructor(channelService: ChannelService) {
+    this.sessionRepository = new ViewerSessionRepository();
+    this.channelService = channelService;
+  }
+
+  /**
+   * Close sessions left open by the last shutdown and start saving counters
+   */
+  public async start(): Promise<void> {
+    const cutoff = new Date(Date.now() - config.viewer.sessionTimeout * 1000);
+    const ended = await this.sessionRepository.endStale(cutoff);
+    if (ended > 0) {
+      logger.info({ ended }, 'Ended stale viewer sessions');
+    }
+
+    this.flushInterval = setInterval(() => {
+      void this.flush();
+    }, FLUSH_INTERVAL_MS);
+  }
+
+  /**
+   * Save counters and stop tracking (open sessions continue after a restart)
+   */
+  public async stop(): Promise<void> {
+    if (this.flushInterval) {
+      clearInterval(this.flushInterval);
+      this.flushInterval = undefined;
+    }
+    await this.flush();
+    for (const active of this.sessions.values()) {
+      clearTimeout(active.timeout);
+    }
+    this.sessions.clear();
+    this.untokenedSessions.clear();
+  }
+
+  /**
+   * Get the session for a master playlist request
+   * Starts a new session unless the request carries a valid token
+   * @param viewerTokenId - Viewer token the player entered with (channels with signed URLs)
+   */
+  public async startSession(
+    channelId: string,
+    token: string | undefined,
+    client: ViewerClient,
+    viewerTokenId?: string
+  ): Promise<ViewerSession> {
+    const sessionId = token ? verifySessionToken(token, channelId, config.viewer.sessionSecret) : undefined;
+    const session = await this.resolveSession(channelId, sessionId || randomUUID(), client);
+    if (viewerTokenId) {
+      session.viewerTokenId = viewerTokenId;
+    }
+    return session;
+  }
+
+  /**
+   * Get the session for a playlist, manifest or segment request
+   * Requests without a valid token fall back to the player's IP and user agent
+   */
+  public async touchSession(channelId: string, token: string | undefined, client: ViewerClient): Promise<ViewerSession> {
+    const sessionId = token ? verifySessionToken(token, channelId, config.viewer.sessionSecret) : undefined;
+    if (sessionId) {
+      return this.resolveSession(channelId, sessionId, client);
+    }
+
+    const clientKey = `${channelId}:${client.ip}:${client.userAgent || ''}`;
+    const knownId = this.untokenedSessions.get(clientKey);
+    const session = await this.resolveSession(channelId, knownId || randomUUID(), client);
+    this.untokenedSessions.set(clientKey, session.id);
+    return session;
+  }
+
+  /**
+   * Token to append to a session's stream URLs
+   */
+  public getSessionToken(session: ViewerSession): string {
+    return createSessionToken(session.id, session.channelId, config.viewer.sessionSecret);
+  }
+
+  /**
+   * Get the session ID behind a session token of a channel
+   * @returns undefined when the token is malformed or belongs to another channel
+   */
+  public getSessionId(channelId: string, token: string): string | undefined {
+    return verifySessionToken(token, channelId, config.viewer.sessionSecret);
+  }
+
+  /**
+   * End the active sessions that entered with a viewer token (the token was revoked)
+   * @returns IDs of the ended sessions
+   */
+  public async endTokenSessions(viewerTokenId: string): Promise<string[]> {
+    const sessionIds = [...this.sessions.values()]
+      .filter((active) => active.session.viewerTokenId === viewerTokenId)
+      .map((active) => active.session.id);
+    for (const sessionId of sessionIds) {
+      await this.expireSession(sessionId);
+    }
+    return sessionIds;
+  }
+
+  /**
+   * Count a segment served to a session
+   */
+  public recordSegment(session: ViewerSession, segment: string, bytes: number): void {
+    const active = this.sessions.get(session.id);
+    if (!active) {
+      return;
+    }
+    active.session.bytesServed += bytes;
+    active.session.segmentsServed++;
+    active.session.lastSegment = segment;
+    active.dirty = true;
+  }
+
+  /**
+   * Get a channel's active sessions, oldest first
+   */
+  public getActiveViewers(channelId: string): ViewerSession[] {
+    return [...this.sessions.values()]
+      .map((active) => active.session)
+      .filter((session) => session.channelId === channelId)
+      .sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime());
+  }
+
+  /**
+   * Find or open a session and extend its expiry
+   */
+  private async resolveSession(channelId: string, sessionId: string, client: ViewerClient): Promise<ViewerSession> {
+    const active = this.sessions.get(sessionId);
+    if (!active) {
+      // Opened sessions start with a fresh expiry
+      let pending = this.opening.get(sessionId);
+      if (!pending) {
+        pending = this.openSession(channelId, sessionId, client).finally(() => this.opening.delete(sessionId));
+        this.opening.set(sessionId, pending);
+      }
+      return pending;
+    }
+
+    active.session.lastSeenAt = new Date();
+    active.dirty = true;
+    clearTimeout(active.timeout);
+    active.timeout = this.scheduleExpiry(sessionId);
+    return active.session;
+  }
+
+  /**
+   * Open a session (continuing its stored counters) and resume the channel for its first viewer
+   */
+  private async openSession(channelId: string, sessionId: string, client: ViewerClient): Promise<ViewerSession> {
+    const now = new Date();
+    let session: ViewerSession = {
+      id: sessionId,
+      channelId,
+      client,
+      startedAt: now,
+      lastSeenAt: now,
+      bytesServed: 0,
+      segmentsServed: 0,
+    };
+
+    try {
+      const stored = await this.sessionRepository.open(session);
+      session = { ...stored, client, lastSeenAt: now };
+    } catch (error) {
+      logger.warn({ error, channelId, sessionId }, 'Failed to persist viewer session (tracking in memory only)');
+    }
+
+    const wasFirstViewer = this.getActiveViewers(channelId).length === 0;
+    this.sessions.set(sessionId, { session, timeout: this.scheduleExpiry(sessionId), dirty: false });
+    logger.debug({ channelId, sessionId, ip: client.ip }, 'Viewer session opened');
+    eventBus.emit('viewer.join', { channelId, sessionId, viewers: this.getActiveViewers(channelId).length });
+
+    // Only the first viewer triggers a stream resume
+    if (wasFirstViewer) {
+      await this.channelService.onViewerConnect(channelId);
+    }
+    return session;
+  }
+
+  /**
+   * End a session after VIEWER_SESSION_TIMEOUT seconds without requests
+   */
+  private scheduleExpiry(sessionId: string): NodeJS.Timeout {
+    return setTimeout(() => {
+      void this.expireSession(sessionId);
+    }, config.viewer.sessionTimeout * 1000);
+  }
+
+  private async expireSession(sessionId: string): Promise<void> {
+    const active = this.sessions.get(sessionId);
+    if (!active) {
+      return;
+    }
+    const { session } = active;
+    clearTimeout(active.timeout);
+    this.sessions.delete(sessionId);
+    for (const [clientKey, id] of this.untokenedSessions) {
+      if (id === sessionId) {
+        this.untokenedSessions.delete(clientKey);
+      }
+    }
+
+    try {
+      await this.sessionRepository.end(session);
+    } catch (error) {
+      logger.warn({ error, sessionId }, 'Failed to end viewer session');
+    }
+    logger.debug({ channelId: session.channelId, sessionId, bytesServed: session.bytesServed }, 'Viewer session ended');
+    eventBus.emit('viewer.leave', {
+      channelId: session.channelId,
+      sessionId,
+      viewers: this.getActiveViewers(session.channelId).length,
+      bytesServed: session.bytesServed,
+    });
+
+    // If no more active sessions, disconnect viewer
+    if (this.getActiveViewers(session.channelId).length === 0) {
+      await this.channelService.onViewerDisconnect(session.channelId).catch(() => {
+        // Silently handle errors
+      });
+    }
+  }
+
+  /**
+   * Save changed counters
+   */
+  private async flush(): Promise<void> {
+    for (const active of this.sessions.values()) {
+      if (!active.dirty) {
+        continue;
+      }
+      active.dirty = false;
+      try {
+        await this.sessionRepository.updateProgress(active.session);
+      } catch (error) {
+        logger.warn({ error, sessionId: active.session.id }, 'Failed to save viewer session');
+      }
+    }
+  }
+}
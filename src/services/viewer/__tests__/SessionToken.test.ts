@@ -0,0 +1,29 @@
+import { createSessionToken, verifySessionToken } from '../SessionToken';
+
+describe('SessionToken', () => {
+  const secret = 'test-secret-for-sessions';
+  const sessionId = '0b0f7a4e-6f0c-4a53-9d2e-4f1f5b0c9a11';
+
+  it('should round-trip a session ID', () => {
+    const token = createSessionToken(sessionId, 'channel-1', secret);
+
+    expect(token.startsWith(`${sessionId}.`)).toBe(true);
+    expect(verifySessionToken(token, 'channel-1', secret)).toBe(sessionId);
+  });
+
+  it('should reject tokens for another channel or secret', () => {
+    const token = createSessionToken(sessionId, 'channel-1', secret);
+
+    expect(verifySessionToken(token, 'channel-2', secret)).toBeUndefined();
+    expect(verifySessionToken(token, 'channel-1', 'another-secret-value')).toBeUndefined();
+  });
+
+  it('should reject tampered and malformed tokens', () => {
+    const token = createSessionToken(sessionId, 'channel-1', secret);
+    const tampered = `1${token.slice(1)}`;
+
+    expect(verifySessionToken(tampered, 'channel-1', secret)).toBeUndefined();
+    expect(verifySessionToken(sessionId, 'channel-1', secret)).toBeUndefined();
+    expect(verifySessionToken(`${sessionId}.short`, 'channel-1', secret)).toBeUndefined();
+  });
+});
@@ -0,0 +1,281 @@
+import crypto from 'crypto';
+import { config } from '../../config/env';
+import { CreateWebhookData, UpdateWebhookData, Webhook, WebhookDelivery } from '../../domain/webhook/Webhook';
+import { BusEvent, eventBus, matchesTopic } from '../../infrastructure/events/EventBus';
+import {
+  DeliveryAttempt,
+  WebhookRepository,
+  WebhookTarget,
+} from '../../infrastructure/database/repositories/WebhookRepository';
+import { getWebhookRetryDelay, signWebhookPayload } from './WebhookSignature';
+import { createLogger } from '../../utils/logger';
+import { NotFoundError } from '../../utils/errors';
+
+const logger = createLogger('WebhookService');
+
+/** Check for due retries this often */
+const RETRY_POLL_INTERVAL_MS = 10 * 1000;
+
+/** Retries sent per poll */
+const RETRY_BATCH_SIZE = 50;
+
+/** Finished deliveries are kept this long */
+const DELIVERY_RETENTION_MS = 14 * 24 * 60 * 60 * 1000;
+
+/** Longest response body kept as a delivery error */
+const MAX_ERROR_LENGTH = 500;
+
+/** Event of "send test event" deliveries */
+export const WEBHOOK_TEST_EVENT = 'webhook.test';
+
+/**
+ * Data of create requests (the secret is generated when unset)
+ */
+export type CreateWebhookInput = Omit<CreateWebhookData, 'secret'> & { secret?: string };
+
+/**
+ * Service for outbound webhooks
+ *
+ * Event bus events matching a webhook's filters are logged as deliveries and POSTed as JSON
+ * ({ id, event, timestamp, data }), signed with the webhook secret (X-Webhook-Signature).
+ * Failed attempts (no 2xx response within WEBHOOK_TIMEOUT) are retried with exponential
+ * backoff until WEBHOOK_MAX_ATTEMPTS; pending retries are kept in the database, so they
+ * survive restarts.
+ */
+export class WebhookService {
+  private readonly webhookRepository: WebhookRepository;
+  private targets: WebhookTarget[] = [];
+  private inFlight: Set<string> = new Set();
+  private unsubscribe?: () => void;
+  private retryInterval?: NodeJS.Timeout;
+  private retryRunning = false;
+  private lastPurgeAt = 0;
+
+  constructor() {
+    this.webhookRepository = new WebhookRepository();
+  }
+
+  /**
+   * Load enabled webhooks, subscribe to events and start the retry loop
+   */
+  public async start(): Promise<void> {
+    await this.refreshTargets();
+    this.unsubscribe = eventBus.subscribe(['*'], (event) => {
+      void this.onEvent(event);
+    });
+    this.retryInterval = setInterval(() => {
+      void this.processRetries();
+    }, RETRY_POLL_INTERVAL_MS);
+    logger.info({ webhooks: this.targets.length }, 'Webhook service started');
+  }
+
+  /**
+   * Stop sending (pending retries resume on the next start)
+   */
+  public stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+    if (this.retryInterval) {
+      clearInterval(this.retryInterval);
+      this.retryInterval = undefined;
+    }
+  }
+
+  // ===== Webhook Management =====
+
+  public async listWebhooks(): Promise<Webhook[]> {
+    return this.webhookRepository.findAll();
+  }
+
+  public async getWebhook(id: string): Promise<Webhook> {
+    const webhook = await this.webhookRepository.findById(id);
+    if (!webhook) {
+      throw new NotFoundError(`Webhook '${id}'`);
+    }
+    return webhook;
+  }
+
+  /**
+   * Create a webhook
+   * @returns The webhook and its secret (only shown here)
+   */
+  public async createWebhook(data: CreateWebhookInput): Promise<{ webhook: Webhook; secret: string }> {
+    const secret = data.secret || crypto.randomBytes(32).toString('hex');
+    const webhook = await this.webhookRepository.create({ ...data, secret });
+    await this.refreshTargets();
+
+    logger.info({ webhookId: webhook.id, name: webhook.name, events: webhook.events }, 'Webhook created');
+    return { webhook, secret };
+  }
+
+  public async updateWebhook(id: string, data: UpdateWebhookData): Promise<Webhook> {
+    const webhook = await this.webhookRepository.update(id, data);
+    if (!webhook) {
+      throw new NotFoundError(`Webhook '${id}'`);
+    }
+    await this.refreshTargets();
+
+    logger.info({ webhookId: id }, 'Webhook updated');
+    return webhook;
+  }
+
+  public async deleteWebhook(id: string): Promise<void> {
+    const deleted = await this.webhookRepository.delete(id);
+    if (!deleted) {
+      throw new NotFoundError(`Webhook '${id}'`);
+    }
+    await this.refreshTargets();
+
+    logger.info({ webhookId: id }, 'Webhook deleted');
+  }
+
+  /**
+   * Delivery log of a webhook, newest first
+   */
+  public async getDeliveries(id: string, limit: number = 50): Promise<WebhookDelivery[]> {
+    await this.getWebhook(id);
+    return this.webhookRepository.findDeliveries(id, limit);
+  }
+
+  /**
+   * Send a test event now (also to disabled webhooks)
+   * @returns The delivery after its first attempt
+   */
+  public async sendTestEvent(id: string): Promise<WebhookDelivery> {
+    const target = await this.webhookRepository.findTarget(id);
+    if (!target) {
+      throw new NotFoundError(`Webhook '${id}'`);
+    }
+
+    const delivery = await this.webhookRepository.createDelivery(id, WEBHOOK_TEST_EVENT, {
+      event: WEBHOOK_TEST_EVENT,
+      timestamp: new Date().toISOString(),
+      data: { webhookId: id, message: 'Test event' },
+    });
+    return this.attempt(delivery, target);
+  }
+
+  // ===== Delivery =====
+
+  private async refreshTargets(): Promise<void> {
+    this.targets = await this.webhookRepository.findEnabledTargets();
+  }
+
+  /**
+   * Log and send an event to each enabled webhook whose filters match it
+   */
+  private async onEvent(event: BusEvent): Promise<void> {
+    const targets = this.targets.filter((target) =>
+      target.events.some((pattern) => matchesTopic(pattern, event.topic))
+    );
+
+    for (const target of targets) {
+      try {
+        const delivery = await this.webhookRepository.createDelivery(target.id, event.topic, {
+          event: event.topic,
+          timestamp: event.timestamp,
+          data: event.data,
+        });
+        await this.attempt(delivery, target);
+      } catch (error) {
+        logger.error({ error, webhookId: target.id, event: event.topic }, 'Failed to queue webhook delivery');
+      }
+    }
+  }
+
+  /**
+   * Send due retries and purge old deliveries
+   */
+  private async processRetries(): Promise<void> {
+    if (this.retryRunning) {
+      return;
+    }
+    this.retryRunning = true;
+    try {
+      const deliveries = await this.webhookRepository.findDueDeliveries(RETRY_BATCH_SIZE);
+      for (const delivery of deliveries) {
+        if (this.inFlight.has(delivery.id)) {
+          continue;
+        }
+        // Deliveries of disabled webhooks wait until the webhook is enabled again
+        const target = this.targets.find((candidate) => candidate.id === delivery.webhookId);
+        if (target) {
+          await this.attempt(delivery, target);
+        }
+      }
+
+      if (Date.now() - this.lastPurgeAt > 60 * 60 * 1000) {
+        this.lastPurgeAt = Date.now();
+        const purged = await this.webhookRepository.purgeDeliveries(new Date(Date.now() - DELIVERY_RETENTION_MS));
+        if (purged > 0) {
+          logger.info({ purged }, 'Purged old webhook deliveries');
+        }
+      }
+    } catch (error) {
+      logger.error({ error }, 'Failed to process webhook retries');
+    } finally {
+      this.retryRunning = false;
+    }
+  }
+
+  /**
+   * POST a delivery once and record the outcome (scheduling a retry if attempts remain)
+   */
+  private async attempt(delivery: WebhookDelivery, target: WebhookTarget): Promise<WebhookDelivery> {
+    this.inFlight.add(delivery.id);
+    try {
+      const body = JSON.stringify({ id: delivery.id, ...delivery.payload });
+      const timestamp = Math.floor(Date.now() / 1000);
+      const attempts = delivery.attempts + 1;
+      let responseCode: number | undefined;
+      let error: string | undefined;
+
+      try {
+        const response = await fetch(target.url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': `${config.server.appName} Webhooks`,
+            'X-Webhook-Id': target.id,
+            'X-Webhook-Delivery': delivery.id,
+            'X-Webhook-Event': delivery.event,
+            'X-Webhook-Timestamp': String(timestamp),
+            'X-Webhook-Signature': signWebhookPayload(target.secret, timestamp, body),
+          },
+          body,
+          redirect: 'manual',
+          signal: AbortSignal.timeout(config.webhooks.timeout * 1000),
+        });
+        responseCode = response.status;
+        if (!response.ok) {
+          const text = await response.text().catch(() => '');
+          error = `HTTP ${response.status}${text ? `: ${text.slice(0, MAX_ERROR_LENGTH)}` : ''}`;
+        }
+      } catch (requestError) {
+        error = requestError instanceof Error ? requestError.message : String(requestError);
+      }
+
+      let outcome: DeliveryAttempt;
+      if (!error) {
+        outcome = { status: 'succeeded', attempts, responseCode };
+      } else if (attempts < config.webhooks.maxAttempts) {
+        const nextAttemptAt = new Date(Date.now() + getWebhookRetryDelay(attempts) * 1000);
+        outcome = { status: 'pending', attempts, responseCode, error, nextAttemptAt };
+        logger.warn(
+          { webhookId: target.id, deliveryId: delivery.id, attempts, responseCode, error, nextAttemptAt },
+          'Webhook delivery failed, will retry'
+        );
+      } else {
+        outcome = { status: 'failed', attempts, responseCode, error };
+        logger.error(
+          { webhookId: target.id, deliveryId: delivery.id, attempts, responseCode, error },
+          'Webhook delivery failed, giving up'
+        );
+      }
+
+      return await this.webhookRepository.recordAttempt(delivery, outcome);
+    } finally {
+      this.inFlight.delete(delivery.id);
+    }
+  }
+}
@@ -0,0 +1,22 @@
+import crypto from 'crypto';
+
+/** First retry delay; each further retry waits twice as long */
+const RETRY_BASE_SECONDS = 30;
+
+/** Longest wait between attempts */
+const RETRY_MAX_SECONDS = 60 * 60;
+
+/**
+ * X-Webhook-Signature of a delivery: HMAC-SHA256 over "<timestamp>.<body>"
+ * Receivers recompute it with the webhook secret and reject old timestamps (replays)
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Seconds to wait after a failed attempt (1-based) before the next one
+ */
+export function getWebhookRetryDelay(attempt: number): number {
+  return Math.min(RETRY_BASE_SECONDS * 2 ** (attempt - 1), RETRY_MAX_SECONDS);
+}
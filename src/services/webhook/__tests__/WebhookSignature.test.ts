@@ -0,0 +1,26 @@
+import crypto from 'crypto';
+import { getWebhookRetryDelay, signWebhookPayload } from '../WebhookSignature';
+
+describe('WebhookSignature', () => {
+  it('should sign the timestamp and body with the secret', () => {
+    const body = JSON.stringify({ event: 'channel.state', data: { state: 'error' } });
+    const expected = crypto.createHmac('sha256', 'secret').update(`1700000000.${body}`).digest('hex');
+
+    expect(signWebhookPayload('secret', 1700000000, body)).toBe(`sha256=${expected}`);
+  });
+
+  it('should change the signature with the timestamp or secret', () => {
+    const signature = signWebhookPayload('secret', 1700000000, '{}');
+
+    expect(signWebhookPayload('secret', 1700000001, '{}')).not.toBe(signature);
+    expect(signWebhookPayload('other-secret', 1700000000, '{}')).not.toBe(signature);
+  });
+
+  it('should double the retry delay up to an hour', () => {
+    expect(getWebhookRetryDelay(1)).toBe(30);
+    expect(getWebhookRetryDelay(2)).toBe(60);
+    expect(getWebhookRetryDelay(3)).toBe(120);
+    expect(getWebhookRetryDelay(8)).toBe(3600);
+    expect(getWebhookRetryDelay(20)).toBe(3600);
+  });
+});